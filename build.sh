@@ -8,7 +8,8 @@ set -o pipefail # IMPORTANT: Ensure pipeline errors are propagated
 PG_CONTAINER_NAME="local-postgres-tasks"
 PG_USER="taskmanager_user"
 PG_DATABASE="taskmanager_db"
-SCHEMA_FILE_PATH="./src/db/schema.sql" # Path to your schema file
+# Everything the migrations create; dropped so each run starts from an empty test database.
+RESET_DATABASE_SQL="DROP VIEW IF EXISTS goals, tasks, projects; DROP TABLE IF EXISTS undo_steps, action_history, work_item_dependencies, work_items, audit_log, schema_migrations CASCADE; DROP FUNCTION IF EXISTS log_audit_trail() CASCADE;"
 
 # Log file names
 MAIN_OUTPUT_LOG="./logs/1.build_and_test_output.log"
@@ -128,18 +129,13 @@ format_lint_build(){
 }
 
 rebuild_database_schema_directly() {
-  echo "===== Rebuilding Database Schema Directly via psql (from build.sh) =====" | tee -a "$MAIN_OUTPUT_LOG"
-  
-  if [ ! -f "$SCHEMA_FILE_PATH" ]; then
-    echo "ERROR: Schema file not found at $SCHEMA_FILE_PATH" | tee -a "$MAIN_OUTPUT_LOG" >&2
-    exit 1
-  fi
+  echo "===== Rebuilding Test Database Schema (reset via psql, then migrations) =====" | tee -a "$MAIN_OUTPUT_LOG"
 
-  echo "Executing schema file: $SCHEMA_FILE_PATH against database $PG_DATABASE" | tee -a "$MAIN_OUTPUT_LOG"
-  
-  local psql_exec_command="cat \"$SCHEMA_FILE_PATH\" | docker exec -i \"$PG_CONTAINER_NAME\" psql -v ON_ERROR_STOP=1 -U \"$PG_USER\" -d \"$PG_DATABASE\" -X -a -P pager=off --set=SHOW_CONTEXT=errors --single-transaction"
-  
-  log_command_output "$MAIN_OUTPUT_LOG" "Database Schema Rebuild (Direct psql)" "$psql_exec_command"
+  echo "Dropping all tables in database $PG_DATABASE" | tee -a "$MAIN_OUTPUT_LOG"
+  local psql_reset_command="docker exec -i \"$PG_CONTAINER_NAME\" psql -v ON_ERROR_STOP=1 -U \"$PG_USER\" -d \"$PG_DATABASE\" -X -P pager=off -c \"$RESET_DATABASE_SQL\""
+  log_command_output "$MAIN_OUTPUT_LOG" "Database Reset (Direct psql)" "$psql_reset_command"
+
+  log_command_output "$MAIN_OUTPUT_LOG" "Database Migrations" "npx dotenv -e .env.test -- node dist/scripts/migrate.js up"
   echo "" 
 }
 
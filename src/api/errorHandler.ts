@@ -0,0 +1,61 @@
+// src/api/errorHandler.ts
+import { Request, Response, NextFunction } from 'express';
+import { McpError, ErrorCode as McpErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { AppError, ErrorCode } from '../utils/errors.js';
+import { logger } from '../utils/index.js';
+
+export interface ApiErrorBody {
+  error: string;
+  message: string;
+  details?: any;
+}
+
+const MCP_ERROR_STATUS: Partial<Record<number, { status: number; error: string }>> = {
+  [McpErrorCode.InvalidParams]: { status: 400, error: ErrorCode.BadRequest },
+  [McpErrorCode.InvalidRequest]: { status: 400, error: ErrorCode.BadRequest },
+  [McpErrorCode.ParseError]: { status: 400, error: ErrorCode.BadRequest },
+  [McpErrorCode.MethodNotFound]: { status: 404, error: ErrorCode.NotFound },
+};
+
+/**
+ * Maps an error thrown by a route (or forwarded with next()) to an HTTP status and JSON body.
+ * AppError carries its own statusCode; McpError codes are translated; anything else is a 500.
+ */
+export const toHttpError = (error: unknown): { status: number; body: ApiErrorBody } => {
+  if (error instanceof AppError) {
+    return {
+      status: error.statusCode,
+      body: { error: error.errorCode, message: error.message, details: error.details },
+    };
+  }
+  if (error instanceof McpError) {
+    const mapped = MCP_ERROR_STATUS[error.code] ?? { status: 500, error: ErrorCode.InternalServerError };
+    return { status: mapped.status, body: { error: mapped.error, message: error.message, details: error.data } };
+  }
+  // Body parser errors (malformed JSON, payload too large) carry an HTTP status of their own.
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number' && status >= 400 && status < 500) {
+    return { status, body: { error: ErrorCode.BadRequest, message: (error as Error).message } };
+  }
+  return { status: 500, body: { error: ErrorCode.InternalServerError, message: 'An internal server error occurred.' } };
+};
+
+export const notFoundHandler = (req: Request, res: Response): void => {
+  res.status(404).json({ error: ErrorCode.NotFound, message: `Route ${req.method} ${req.originalUrl} not found.` });
+};
+
+// Express recognises error middleware by its four-parameter signature, so `next` must stay.
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+export const errorHandler = (error: unknown, req: Request, res: Response, next: NextFunction): void => {
+  const { status, body } = toHttpError(error);
+  if (status >= 500) {
+    logger.error(`[API] ${req.method} ${req.originalUrl} failed with ${status}:`, error);
+  } else {
+    logger.warn(`[API] ${req.method} ${req.originalUrl} rejected with ${status}: ${body.message}`);
+  }
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  res.status(status).json(body);
+};
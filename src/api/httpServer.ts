@@ -0,0 +1,63 @@
+// src/api/httpServer.ts
+import express, { Express } from 'express';
+import cors from 'cors';
+import http from 'node:http';
+import { projectRoutes } from './projectRoutes.js';
+import { workItemRoutes } from './workItemRoutes.js';
+import { sseRoutes } from './sseRoutes.js';
+import { openApiRoutes } from './openApiRoutes.js';
+import { errorHandler, notFoundHandler } from './errorHandler.js';
+import { WorkItemService } from '../services/index.js';
+import { logger } from '../utils/index.js';
+
+/**
+ * Builds the Express application serving the REST API and the SSE endpoint under /api.
+ */
+export const createHttpApp = (workItemService: WorkItemService): Express => {
+  const app = express();
+  app.use(cors());
+  app.use(express.json({ limit: '5mb' }));
+
+  const apiRouter = express.Router();
+  apiRouter.use(projectRoutes(workItemService));
+  apiRouter.use(workItemRoutes(workItemService));
+  apiRouter.use(sseRoutes());
+  apiRouter.use(openApiRoutes());
+  app.use('/api', apiRouter);
+
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+  return app;
+};
+
+/**
+ * Starts listening on the given host/port and resolves once the socket is bound.
+ */
+export const startHttpServer = (app: Express, host: string, port: number): Promise<http.Server> => {
+  return new Promise((resolve, reject) => {
+    const server = http.createServer(app);
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      logger.info(`[HttpServer] Listening on http://${host}:${port}`);
+      resolve(server);
+    });
+  });
+};
+
+/**
+ * Stops accepting connections and closes open ones (SSE streams never end on their own).
+ */
+export const stopHttpServer = (server: http.Server): Promise<void> => {
+  return new Promise((resolve) => {
+    server.close((err) => {
+      if (err) {
+        logger.warn('[HttpServer] Error while closing HTTP server:', err);
+      } else {
+        logger.info('[HttpServer] HTTP server closed.');
+      }
+      resolve();
+    });
+    server.closeAllConnections();
+  });
+};
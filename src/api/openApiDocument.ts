@@ -0,0 +1,533 @@
+// src/api/openApiDocument.ts
+import { createRequire } from 'node:module';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { CreateProjectParamsSchema } from '../tools/create_project_params.js';
+import { AddTaskBaseSchema } from '../tools/add_task_params.js';
+import { AddChildTasksBaseSchema } from '../tools/add_child_tasks_params.js';
+import { TOOL_PARAMS as DeleteTaskParamsSchema } from '../tools/delete_task_params.js';
+import { GetFullTreeOptionsSchema } from '../tools/get_full_tree_params.js';
+import { ListWorkItemsParamsSchema } from '../tools/list_work_items_params.js';
+import { AddDependenciesParamsSchema } from '../tools/add_dependencies_params.js';
+import { DeleteDependenciesParamsSchema } from '../tools/delete_dependencies_params.js';
+import { MoveItemAfterParamsSchema } from '../tools/move_item_after_params.js';
+import { MoveItemBeforeParamsSchema } from '../tools/move_item_before_params.js';
+import { SwapItemsParamsSchema } from '../tools/swap_items_params.js';
+import { MoveItemToParentBaseSchema } from '../tools/move_item_to_parent_params.js';
+import { DemoteToTaskBaseSchema } from '../tools/demote_to_task_params.js';
+import { DuplicateWorkItemParamsSchema } from '../tools/duplicate_work_item_params.js';
+import { CreateTemplateParamsSchema } from '../tools/create_template_params.js';
+import { InstantiateTemplateParamsSchema } from '../tools/instantiate_template_params.js';
+import { ListHistoryParamsSchema } from '../tools/list_history_params.js';
+import { GetNextTaskParamsSchema } from '../tools/get_next_task_params.js';
+import { ListTagsParamsSchema } from '../tools/list_tags_params.js';
+import { GetCriticalPathParamsSchema } from '../tools/get_critical_path_params.js';
+import { GetImpactParamsSchema } from '../tools/get_impact_params.js';
+import { RenderDependencyGraphParamsSchema } from '../tools/render_dependency_graph_params.js';
+import { TagSchema } from '../services/WorkItemServiceTypes.js';
+import { UpdateWorkItemParamsSchema } from './workItemRoutes.js';
+import {
+  ActionHistoryDataSchema,
+  ApiErrorSchema,
+  CriticalPathResultSchema,
+  DeleteResultSchema,
+  DependencyGraphResultSchema,
+  FullWorkItemDataSchema,
+  ImpactResultSchema,
+  MessageResultSchema,
+  ProjectTagUsageSchema,
+  TemplateSummarySchema,
+  WorkItemDataSchema,
+  WorkItemDependencyDataSchema,
+  WorkItemTreeNodeSchema,
+} from './openApiSchemas.js';
+
+type JsonSchema = Record<string, unknown>;
+type HttpMethod = 'get' | 'post' | 'patch' | 'delete';
+
+/**
+ * Named schemas published under components.schemas. Request bodies are the tool parameter schemas
+ * without the fields the REST routes take from the path.
+ */
+const COMPONENT_SCHEMAS = {
+  WorkItemData: WorkItemDataSchema,
+  WorkItemDependencyData: WorkItemDependencyDataSchema,
+  FullWorkItemData: FullWorkItemDataSchema,
+  WorkItemTreeNode: WorkItemTreeNodeSchema,
+  ActionHistoryData: ActionHistoryDataSchema,
+  ProjectTagUsage: ProjectTagUsageSchema,
+  TemplateSummary: TemplateSummarySchema,
+  CriticalPathResult: CriticalPathResultSchema,
+  ImpactResult: ImpactResultSchema,
+  DependencyGraphResult: DependencyGraphResultSchema,
+  DeleteResult: DeleteResultSchema,
+  MessageResult: MessageResultSchema,
+  ApiError: ApiErrorSchema,
+  Tag: TagSchema,
+  CreateProjectRequest: CreateProjectParamsSchema,
+  AddTaskRequest: AddTaskBaseSchema,
+  UpdateWorkItemRequest: UpdateWorkItemParamsSchema.innerType().omit({ work_item_id: true }),
+  DeleteWorkItemsRequest: DeleteTaskParamsSchema,
+  AddChildTasksRequest: AddChildTasksBaseSchema.omit({ parent_work_item_id: true }),
+  AddDependenciesRequest: AddDependenciesParamsSchema.omit({ work_item_id: true }),
+  DeleteDependenciesRequest: DeleteDependenciesParamsSchema.omit({ work_item_id: true }),
+  MoveItemAfterRequest: MoveItemAfterParamsSchema.omit({ work_item_id_to_move: true }),
+  MoveItemBeforeRequest: MoveItemBeforeParamsSchema.omit({ work_item_id_to_move: true }),
+  SwapItemsRequest: SwapItemsParamsSchema.omit({ first_work_item_id: true }),
+  MoveItemToParentRequest: MoveItemToParentBaseSchema.omit({ work_item_id: true }),
+  DemoteToTaskRequest: DemoteToTaskBaseSchema.omit({ work_item_id: true }),
+  DuplicateWorkItemRequest: DuplicateWorkItemParamsSchema.omit({ work_item_id: true }),
+  CreateTemplateRequest: CreateTemplateParamsSchema,
+  InstantiateTemplateRequest: InstantiateTemplateParamsSchema,
+} satisfies Record<string, z.ZodTypeAny>;
+
+type ComponentName = keyof typeof COMPONENT_SCHEMAS;
+
+const ref = (name: ComponentName): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+const arrayOf = (name: ComponentName): JsonSchema => ({ type: 'array', items: ref(name) });
+const oneOf = (...names: ComponentName[]): JsonSchema => ({ oneOf: names.map(ref) });
+
+interface OperationSpec {
+  method: HttpMethod;
+  /** Path relative to /api, with OpenAPI-style `{param}` placeholders (always UUIDs). */
+  path: string;
+  operationId: string;
+  summary: string;
+  /** The MCP tool the route mirrors, if any. */
+  tool?: string;
+  query?: z.AnyZodObject;
+  body?: ComponentName;
+  status?: number;
+  response: JsonSchema;
+}
+
+const OPERATIONS: OperationSpec[] = [
+  {
+    method: 'get',
+    path: '/projects',
+    operationId: 'listProjects',
+    summary: 'List active top-level projects.',
+    response: arrayOf('WorkItemData'),
+  },
+  {
+    method: 'post',
+    path: '/projects',
+    operationId: 'createProject',
+    summary: 'Create a top-level project.',
+    tool: 'create_project',
+    body: 'CreateProjectRequest',
+    status: 201,
+    response: ref('WorkItemData'),
+  },
+  {
+    method: 'get',
+    path: '/projects/{projectId}/tree',
+    operationId: 'getProjectTree',
+    summary: 'Get the full tree of a project.',
+    tool: 'get_full_tree',
+    response: ref('WorkItemTreeNode'),
+  },
+  {
+    method: 'get',
+    path: '/work-items',
+    operationId: 'listWorkItems',
+    summary: 'List work items matching the filters.',
+    tool: 'list_work_items',
+    query: ListWorkItemsParamsSchema,
+    response: arrayOf('WorkItemData'),
+  },
+  {
+    method: 'post',
+    path: '/work-items',
+    operationId: 'addTask',
+    summary: 'Add a work item under a parent. Provide at most one positioning field.',
+    tool: 'add_task',
+    body: 'AddTaskRequest',
+    status: 201,
+    response: ref('WorkItemData'),
+  },
+  {
+    method: 'delete',
+    path: '/work-items',
+    operationId: 'deleteWorkItems',
+    summary: 'Soft-delete several work items and their descendants.',
+    tool: 'delete_task',
+    body: 'DeleteWorkItemsRequest',
+    response: ref('DeleteResult'),
+  },
+  {
+    method: 'get',
+    path: '/work-items/{id}',
+    operationId: 'getWorkItem',
+    summary: 'Get a work item with its dependencies, dependents and children.',
+    tool: 'get_details',
+    response: ref('FullWorkItemData'),
+  },
+  {
+    method: 'patch',
+    path: '/work-items/{id}',
+    operationId: 'updateWorkItem',
+    summary: 'Change fields of a work item together, as one undoable history entry.',
+    tool: 'set_name, set_description, set_status, set_priority, set_due_date, set_estimated_duration, set_tags',
+    body: 'UpdateWorkItemRequest',
+    response: ref('FullWorkItemData'),
+  },
+  {
+    method: 'delete',
+    path: '/work-items/{id}',
+    operationId: 'deleteWorkItem',
+    summary: 'Soft-delete a work item and its descendants.',
+    tool: 'delete_task',
+    query: DeleteTaskParamsSchema.pick({ force: true }),
+    response: ref('DeleteResult'),
+  },
+  {
+    method: 'get',
+    path: '/work-items/{id}/tree',
+    operationId: 'getWorkItemTree',
+    summary: 'Get the tree below a work item.',
+    tool: 'get_full_tree',
+    query: GetFullTreeOptionsSchema,
+    response: ref('WorkItemTreeNode'),
+  },
+  {
+    method: 'get',
+    path: '/work-items/{id}/critical-path',
+    operationId: 'getCriticalPath',
+    summary: 'Schedule the subtree below a work item and return its critical path and due date conflicts.',
+    tool: 'get_critical_path',
+    query: GetCriticalPathParamsSchema.omit({ work_item_id: true }),
+    response: ref('CriticalPathResult'),
+  },
+  {
+    method: 'get',
+    path: '/work-items/{id}/impact',
+    operationId: 'getImpact',
+    summary: 'List everything that waits on a work item, by project, and the due dates a slip would miss.',
+    tool: 'get_impact',
+    query: GetImpactParamsSchema.omit({ work_item_id: true }),
+    response: ref('ImpactResult'),
+  },
+  {
+    method: 'get',
+    path: '/work-items/{id}/dependency-graph',
+    operationId: 'renderDependencyGraph',
+    summary: 'Render the dependencies in the subtree below a work item as a Mermaid flowchart or Graphviz DOT.',
+    tool: 'render_dependency_graph',
+    query: RenderDependencyGraphParamsSchema.omit({ work_item_id: true }),
+    response: ref('DependencyGraphResult'),
+  },
+  {
+    method: 'post',
+    path: '/work-items/{id}/children',
+    operationId: 'addChildTasks',
+    summary: 'Add a tree of child tasks below a work item.',
+    tool: 'add_child_tasks',
+    body: 'AddChildTasksRequest',
+    status: 201,
+    response: arrayOf('WorkItemData'),
+  },
+  {
+    method: 'post',
+    path: '/work-items/{id}/duplicate',
+    operationId: 'duplicateWorkItem',
+    summary: 'Copy a work item, with its descendants and their dependencies by default.',
+    tool: 'duplicate_work_item',
+    body: 'DuplicateWorkItemRequest',
+    status: 201,
+    response: ref('FullWorkItemData'),
+  },
+  {
+    method: 'post',
+    path: '/work-items/{id}/dependencies',
+    operationId: 'addDependencies',
+    summary: 'Add or reactivate dependencies of a work item.',
+    tool: 'add_dependencies',
+    body: 'AddDependenciesRequest',
+    response: ref('FullWorkItemData'),
+  },
+  {
+    method: 'delete',
+    path: '/work-items/{id}/dependencies',
+    operationId: 'deleteDependencies',
+    summary: 'Remove dependencies of a work item.',
+    tool: 'delete_dependencies',
+    body: 'DeleteDependenciesRequest',
+    response: ref('FullWorkItemData'),
+  },
+  {
+    method: 'post',
+    path: '/work-items/{id}/move-to-start',
+    operationId: 'moveItemToStart',
+    summary: 'Move a work item to the start of its siblings.',
+    tool: 'move_item_to_start',
+    response: ref('FullWorkItemData'),
+  },
+  {
+    method: 'post',
+    path: '/work-items/{id}/move-to-end',
+    operationId: 'moveItemToEnd',
+    summary: 'Move a work item to the end of its siblings.',
+    tool: 'move_item_to_end',
+    response: ref('FullWorkItemData'),
+  },
+  {
+    method: 'post',
+    path: '/work-items/{id}/move-after',
+    operationId: 'moveItemAfter',
+    summary: 'Move a work item directly after a sibling.',
+    tool: 'move_item_after',
+    body: 'MoveItemAfterRequest',
+    response: ref('FullWorkItemData'),
+  },
+  {
+    method: 'post',
+    path: '/work-items/{id}/move-before',
+    operationId: 'moveItemBefore',
+    summary: 'Move a work item directly before a sibling.',
+    tool: 'move_item_before',
+    body: 'MoveItemBeforeRequest',
+    response: ref('FullWorkItemData'),
+  },
+  {
+    method: 'post',
+    path: '/work-items/{id}/swap',
+    operationId: 'swapItems',
+    summary: 'Exchange the positions, and parents, of two work items.',
+    tool: 'swap_items',
+    body: 'SwapItemsRequest',
+    response: arrayOf('FullWorkItemData'),
+  },
+  {
+    method: 'post',
+    path: '/work-items/{id}/move-to-parent',
+    operationId: 'moveItemToParent',
+    summary: 'Move a task and its descendants under another parent.',
+    tool: 'move_item_to_parent',
+    body: 'MoveItemToParentRequest',
+    response: ref('FullWorkItemData'),
+  },
+  {
+    method: 'post',
+    path: '/work-items/{id}/promote',
+    operationId: 'promoteToProject',
+    summary: 'Turn a task into a top-level project.',
+    tool: 'promote_to_project',
+    response: ref('FullWorkItemData'),
+  },
+  {
+    method: 'post',
+    path: '/work-items/{id}/demote',
+    operationId: 'demoteToTask',
+    summary: 'Turn a top-level project into a task under another work item.',
+    tool: 'demote_to_task',
+    body: 'DemoteToTaskRequest',
+    response: ref('FullWorkItemData'),
+  },
+  {
+    method: 'post',
+    path: '/history/undo',
+    operationId: 'undoLastAction',
+    summary: 'Undo the last action; returns it, or a message when there is nothing to undo.',
+    tool: 'undo_last_action',
+    response: oneOf('ActionHistoryData', 'MessageResult'),
+  },
+  {
+    method: 'post',
+    path: '/history/redo',
+    operationId: 'redoLastAction',
+    summary: 'Redo the last undone action; returns it, or a message when there is nothing to redo.',
+    tool: 'redo_last_action',
+    response: oneOf('ActionHistoryData', 'MessageResult'),
+  },
+  {
+    method: 'get',
+    path: '/history',
+    operationId: 'listHistory',
+    summary: 'List recorded actions, newest first.',
+    tool: 'list_history',
+    query: ListHistoryParamsSchema,
+    response: arrayOf('ActionHistoryData'),
+  },
+  {
+    method: 'get',
+    path: '/next-task',
+    operationId: 'getNextTask',
+    summary: 'Suggest the next actionable task; returns a message when there is none.',
+    tool: 'get_next_task',
+    query: GetNextTaskParamsSchema,
+    response: oneOf('WorkItemData', 'MessageResult'),
+  },
+  {
+    method: 'get',
+    path: '/tags',
+    operationId: 'listTags',
+    summary: 'List tags in use, per project.',
+    tool: 'list_tags',
+    query: ListTagsParamsSchema,
+    response: arrayOf('ProjectTagUsage'),
+  },
+  {
+    method: 'get',
+    path: '/templates',
+    operationId: 'listTemplates',
+    summary: 'List saved templates with their versions.',
+    tool: 'list_templates',
+    response: arrayOf('TemplateSummary'),
+  },
+  {
+    method: 'post',
+    path: '/templates',
+    operationId: 'createTemplate',
+    summary: 'Save a work item and its descendants as a template, or as a new version of one.',
+    tool: 'create_template',
+    body: 'CreateTemplateRequest',
+    status: 201,
+    response: ref('TemplateSummary'),
+  },
+  {
+    method: 'post',
+    path: '/templates/instantiate',
+    operationId: 'instantiateTemplate',
+    summary: 'Build a new project or subtree from a template version.',
+    tool: 'instantiate_template',
+    body: 'InstantiateTemplateRequest',
+    status: 201,
+    response: ref('FullWorkItemData'),
+  },
+];
+
+const toJsonSchema = (schema: z.ZodTypeAny): JsonSchema =>
+  zodToJsonSchema(schema, { target: 'openApi3', $refStrategy: 'none' }) as JsonSchema;
+
+// Optionality is expressed by the parameter's `required` flag, not by its schema.
+const unwrapOptional = (schema: z.ZodTypeAny): z.ZodTypeAny => {
+  if (schema instanceof z.ZodOptional) return unwrapOptional(schema.unwrap());
+  if (schema instanceof z.ZodDefault) return unwrapOptional(schema.removeDefault());
+  return schema;
+};
+
+const buildComponentSchemas = (): Record<string, JsonSchema> => {
+  // zod-to-json-schema emits named definitions (and the references between them, including the
+  // recursive tree nodes) alongside a root schema; only the definitions are needed here.
+  const converted = zodToJsonSchema(z.object({}), {
+    target: 'openApi3',
+    basePath: ['#', 'components'],
+    definitionPath: 'schemas',
+    definitions: COMPONENT_SCHEMAS,
+  }) as { schemas?: Record<string, JsonSchema> };
+  return converted.schemas ?? {};
+};
+
+const buildParameters = (operation: OperationSpec): JsonSchema[] => {
+  const pathParameters = [...operation.path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string', format: 'uuid' },
+  }));
+  const queryParameters = Object.entries(operation.query?.shape ?? {}).map(([name, field]) => {
+    const schema = field as z.ZodTypeAny;
+    const { description, ...jsonSchema } = toJsonSchema(unwrapOptional(schema));
+    return {
+      name,
+      in: 'query',
+      required: !schema.isOptional(),
+      ...(schema.description || description ? { description: schema.description ?? description } : {}),
+      schema: jsonSchema,
+    };
+  });
+  return [...pathParameters, ...queryParameters];
+};
+
+const buildOperation = (operation: OperationSpec): JsonSchema => {
+  const parameters = buildParameters(operation);
+  const errorResponse = (description: string) => ({
+    description,
+    content: { 'application/json': { schema: ref('ApiError') } },
+  });
+  const responses: Record<string, unknown> = {
+    [String(operation.status ?? 200)]: {
+      description: 'Success',
+      content: { 'application/json': { schema: operation.response } },
+    },
+  };
+  if (parameters.length > 0 || operation.body) {
+    responses['400'] = errorResponse('The request failed validation.');
+  }
+  if (operation.path.includes('{')) {
+    responses['404'] = errorResponse('The work item does not exist.');
+  }
+  responses.default = errorResponse('Unexpected error.');
+
+  return {
+    operationId: operation.operationId,
+    summary: operation.summary,
+    ...(operation.tool ? { description: `Equivalent MCP tool: ${operation.tool}.` } : {}),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(operation.body
+      ? { requestBody: { required: true, content: { 'application/json': { schema: ref(operation.body) } } } }
+      : {}),
+    responses,
+  };
+};
+
+const EVENTS_PATH = {
+  get: {
+    operationId: 'subscribeToEvents',
+    summary: 'Server-sent events announcing changes to projects and their trees.',
+    parameters: [
+      {
+        name: 'projectId',
+        in: 'query',
+        required: false,
+        description: 'Only receive projectTreeUpdated events for these projects (repeatable).',
+        schema: { type: 'array', items: { type: 'string', format: 'uuid' } },
+      },
+      {
+        name: 'projectIds',
+        in: 'query',
+        required: false,
+        description: 'Comma-separated alternative to projectId.',
+        schema: { type: 'string' },
+      },
+      {
+        name: 'lastEventId',
+        in: 'query',
+        required: false,
+        description: 'Replay events after this id (same as the Last-Event-ID header).',
+        schema: { type: 'string' },
+      },
+    ],
+    responses: {
+      '200': { description: 'An event stream.', content: { 'text/event-stream': { schema: { type: 'string' } } } },
+      '400': { description: 'Invalid project id.', content: { 'application/json': { schema: ref('ApiError') } } },
+    },
+  },
+};
+
+const packageJson = createRequire(import.meta.url)('../../package.json') as { version: string };
+
+/**
+ * Builds the OpenAPI 3 description of the REST API from the tool parameter schemas and the
+ * response schemas in openApiSchemas.ts.
+ */
+export const buildOpenApiDocument = (): JsonSchema => {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const operation of OPERATIONS) {
+    paths[operation.path] = { ...paths[operation.path], [operation.method]: buildOperation(operation) };
+  }
+  paths['/events'] = EVENTS_PATH;
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'MCP Task Manager REST API',
+      version: packageJson.version,
+      description: 'REST access to the operations of the MCP task manager tools.',
+    },
+    servers: [{ url: '/api' }],
+    paths,
+    components: { schemas: buildComponentSchemas() },
+  };
+};
@@ -0,0 +1,16 @@
+// src/api/openApiRoutes.ts
+import { Router, Request, Response } from 'express';
+import { buildOpenApiDocument } from './openApiDocument.js';
+
+export const openApiRoutes = (): Router => {
+  const router = Router();
+  // The schemas are static, so the document is built once on first request.
+  let document: ReturnType<typeof buildOpenApiDocument> | null = null;
+
+  router.get('/openapi.json', (req: Request, res: Response) => {
+    document ??= buildOpenApiDocument();
+    res.json(document);
+  });
+
+  return router;
+};
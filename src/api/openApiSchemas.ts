@@ -0,0 +1,209 @@
+// src/api/openApiSchemas.ts
+import { z } from 'zod';
+import type { ActionHistoryData, WorkItemData, WorkItemDependencyData } from '../repositories/index.js';
+import type {
+  CriticalPathResult,
+  DependencyGraphResult,
+  FullWorkItemData,
+  ImpactResult,
+  ProjectTagUsage,
+  TemplateSummary,
+  WorkItemTreeNode,
+} from '../services/WorkItemServiceTypes.js';
+
+// Zod descriptions of the API response shapes, used only to generate the OpenAPI document.
+// `satisfies` keeps them in step with the TypeScript interfaces the services actually return.
+// Field schemas are created per use so the generated document does not reference one schema's
+// properties from another.
+
+const uuid = () => z.string().uuid();
+const timestamp = () => z.string().datetime();
+const workItemStatus = () => z.enum(['todo', 'in-progress', 'review', 'done', 'blocked']);
+const dependencyType = () =>
+  z.enum(['finish-to-start', 'start-to-start', 'finish-to-finish', 'start-to-finish', 'linked']);
+
+const workItemShape = () => ({
+  work_item_id: uuid(),
+  parent_work_item_id: uuid().nullable().describe('Null for top-level projects.'),
+  name: z.string(),
+  description: z.string().nullable(),
+  status: workItemStatus(),
+  priority: z.enum(['high', 'medium', 'low']),
+  order_key: z.string().nullable().describe('Sort key among siblings, compared as a plain string (byte order).'),
+  created_at: timestamp(),
+  updated_at: timestamp(),
+  due_date: timestamp().nullable(),
+  is_active: z.boolean().describe('False once the item has been deleted.'),
+  tags: z.array(z.string()),
+  estimated_duration_days: z.number().nullable().describe('Estimated duration in days, used for scheduling.'),
+  started_at: timestamp().nullable().describe('When the item last left todo; null while it is todo.'),
+  completed_at: timestamp().nullable().describe('When the item was marked done; null unless it is done.'),
+  outline_ref: z
+    .string()
+    .nullable()
+    .optional()
+    .describe(
+      "Position in the outline of all projects and short ID, e.g. '3.2.1@1a2b3c4d'; accepted wherever an ID is. " +
+        'Null if inactive.'
+    ),
+});
+
+export const WorkItemDataSchema = z.object(workItemShape()) satisfies z.ZodType<WorkItemData>;
+
+export const WorkItemDependencyDataSchema = z.object({
+  work_item_id: uuid().describe('The dependent item.'),
+  depends_on_work_item_id: uuid().describe('The item it depends on.'),
+  dependency_type: dependencyType(),
+  is_active: z.boolean(),
+  lag_days: z.number().describe('Days to wait after the start or finish of the item depended on.'),
+  depends_on_status: workItemStatus().optional().describe('Status of the item depended on, where loaded.'),
+}) satisfies z.ZodType<WorkItemDependencyData>;
+
+export const FullWorkItemDataSchema = z.object({
+  ...workItemShape(),
+  dependencies: z.array(WorkItemDependencyDataSchema),
+  dependents: z.array(WorkItemDependencyDataSchema),
+  children: z.array(WorkItemDataSchema),
+}) satisfies z.ZodType<FullWorkItemData>;
+
+export const WorkItemTreeNodeSchema: z.ZodType<WorkItemTreeNode> = z.object({
+  ...workItemShape(),
+  dependencies: z.array(WorkItemDependencyDataSchema),
+  dependents: z.array(WorkItemDependencyDataSchema),
+  children: z.lazy(() => z.array(WorkItemTreeNodeSchema)).optional(),
+});
+
+export const ActionHistoryDataSchema = z.object({
+  action_id: uuid(),
+  timestamp: timestamp(),
+  action_type: z.string().describe("e.g. 'ADD_WORK_ITEM', 'UNDO_ACTION'."),
+  work_item_id: uuid().nullable(),
+  description: z.string().nullable(),
+  is_undone: z.boolean(),
+  undone_at_action_id: uuid().nullable().describe('The UNDO_ACTION or REDO_ACTION that undid or redid this action.'),
+}) satisfies z.ZodType<ActionHistoryData>;
+
+export const ProjectTagUsageSchema = z.object({
+  project_id: uuid(),
+  project_name: z.string(),
+  tags: z.array(z.object({ tag: z.string(), count: z.number().int() })),
+}) satisfies z.ZodType<ProjectTagUsage>;
+
+export const TemplateSummarySchema = z.object({
+  template_id: uuid(),
+  name: z.string(),
+  description: z.string().nullable(),
+  created_at: timestamp(),
+  updated_at: timestamp(),
+  latest_version: z.number().int(),
+  versions: z
+    .array(
+      z.object({
+        version: z.number().int(),
+        created_at: timestamp(),
+        variables: z.array(z.string()).describe('The placeholders instantiation needs values for.'),
+        item_count: z.number().int(),
+      })
+    )
+    .describe('Every version, oldest first.'),
+}) satisfies z.ZodType<TemplateSummary>;
+
+export const CriticalPathResultSchema = z.object({
+  root_work_item_id: uuid(),
+  start_date: timestamp(),
+  projected_finish_date: timestamp().describe('Earliest finish of the whole subtree.'),
+  duration_days: z.number(),
+  critical_path: z
+    .array(z.object({ work_item_id: uuid(), name: z.string() }))
+    .describe('The chain of zero-slack tasks that drives the finish date, first task first.'),
+  items: z.array(
+    z.object({
+      work_item_id: uuid(),
+      name: z.string(),
+      status: workItemStatus(),
+      estimated_duration_days: z.number().nullable(),
+      duration_days: z.number().describe('Duration used for scheduling: 0 for done or unestimated tasks.'),
+      earliest_start: timestamp(),
+      earliest_finish: timestamp(),
+      latest_start: timestamp(),
+      latest_finish: timestamp(),
+      slack_days: z.number(),
+      is_critical: z.boolean(),
+      due_date: timestamp().nullable(),
+    })
+  ),
+  due_date_conflicts: z
+    .array(
+      z.object({
+        work_item_id: uuid(),
+        name: z.string(),
+        due_date: timestamp(),
+        earliest_finish: timestamp(),
+        days_late: z.number(),
+      })
+    )
+    .describe('Items whose dependencies make their due date impossible.'),
+  unestimated_item_ids: z.array(uuid()),
+}) satisfies z.ZodType<CriticalPathResult>;
+
+export const ImpactResultSchema = z.object({
+  work_item_id: uuid(),
+  name: z.string(),
+  slip_days: z.number(),
+  affected_count: z.number().int(),
+  projects: z.array(
+    z.object({
+      project_id: uuid(),
+      project_name: z.string(),
+      items: z.array(
+        z.object({
+          work_item_id: uuid(),
+          name: z.string(),
+          status: workItemStatus(),
+          due_date: timestamp().nullable(),
+          depth: z.number().int().describe('1 for a direct dependent.'),
+          via_work_item_id: uuid().describe('The item this one depends on, on the way back to the analysed item.'),
+          dependency_type: dependencyType(),
+          projected_finish: timestamp(),
+          misses_due_date: z.boolean(),
+        })
+      ),
+    })
+  ),
+  missed_due_dates: z
+    .array(
+      z.object({
+        work_item_id: uuid(),
+        name: z.string(),
+        due_date: timestamp(),
+        projected_finish: timestamp(),
+        days_late: z.number(),
+        already_late: z.boolean().describe('Late even without the slip.'),
+      })
+    )
+    .describe('The item and affected items that would finish after their due date.'),
+}) satisfies z.ZodType<ImpactResult>;
+
+export const DependencyGraphResultSchema = z.object({
+  root_work_item_id: uuid(),
+  format: z.enum(['mermaid', 'dot']),
+  node_count: z.number().int(),
+  edge_count: z.number().int(),
+  diagram: z.string().describe('The Mermaid flowchart or Graphviz DOT source.'),
+}) satisfies z.ZodType<DependencyGraphResult>;
+
+export const DeleteResultSchema = z.object({
+  success: z.boolean(),
+  deleted_count: z.number().int(),
+});
+
+export const MessageResultSchema = z.object({
+  success: z.boolean().optional(),
+  message: z.string(),
+});
+
+export const ApiErrorSchema = z.object({
+  error: z.string().describe("Error code, e.g. 'ValidationError' or 'NotFound'."),
+  message: z.string(),
+  details: z.unknown().optional(),
+});
@@ -2,7 +2,7 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { WorkItemService } from '../services/index.js';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
-import { logger } from '../utils/index.js';
+import { logger, AppError } from '../utils/index.js';
 import { validate as uuidValidate } from 'uuid';
 
 export const projectRoutes = (workItemService: WorkItemService): Router => {
@@ -15,7 +15,7 @@ export const projectRoutes = (workItemService: WorkItemService): Router => {
       res.json(projects);
     } catch (error) {
       logger.error('[API] Error in GET /api/projects:', error);
-      if (error instanceof McpError) return next(error);
+      if (error instanceof McpError || error instanceof AppError) return next(error);
       next(new McpError(ErrorCode.InternalError, 'Failed to list projects'));
     }
   });
@@ -43,7 +43,7 @@ export const projectRoutes = (workItemService: WorkItemService): Router => {
       res.json(projectTree);
     } catch (error) {
       logger.error(`[API] Error in GET /api/projects/${projectId}/tree:`, error);
-      if (error instanceof McpError) return next(error);
+      if (error instanceof McpError || error instanceof AppError) return next(error);
       if ((error as Error).message?.toLowerCase().includes('not found')) {
         next(new McpError(ErrorCode.MethodNotFound, (error as Error).message));
       } else {
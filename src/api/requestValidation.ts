@@ -0,0 +1,57 @@
+// src/api/requestValidation.ts
+import { Request } from 'express';
+import { z } from 'zod';
+import { ValidationError } from '../utils/errors.js';
+
+export type QueryValueType = 'boolean' | 'number' | 'list';
+
+/**
+ * Validates request input against one of the tool parameter schemas, so the REST API accepts
+ * exactly what the MCP tools accept. Failures become a ValidationError (HTTP 400) listing the issues.
+ */
+export const validateRequest = <T extends z.ZodTypeAny>(schema: T, value: unknown): z.infer<T> => {
+  const validation = schema.safeParse(value);
+  if (!validation.success) {
+    const issues = validation.error.issues.map((issue) => ({
+      path: issue.path.join('.') || '(root)',
+      message: issue.message,
+    }));
+    throw new ValidationError(
+      `Invalid request: ${issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ')}`,
+      issues
+    );
+  }
+  return validation.data;
+};
+
+/**
+ * Converts query string values into the types the tool schemas expect. Lists accept both
+ * repeated parameters (`?tag=a&tag=b`) and comma-separated values (`?tag=a,b`).
+ * Values that cannot be converted are passed through unchanged for the schema to reject.
+ */
+export const coerceQuery = (
+  query: Request['query'],
+  types: Record<string, QueryValueType>
+): Record<string, unknown> => {
+  const result: Record<string, unknown> = { ...query };
+  for (const [key, type] of Object.entries(types)) {
+    const value = query[key];
+    if (value === undefined) {
+      continue;
+    }
+    if (type === 'list') {
+      result[key] = [value]
+        .flat()
+        .flatMap((entry) => String(entry).split(','))
+        .map((entry) => entry.trim())
+        .filter((entry) => entry !== '');
+    } else if (typeof value === 'string') {
+      if (type === 'boolean' && (value === 'true' || value === 'false')) {
+        result[key] = value === 'true';
+      } else if (type === 'number' && value.trim() !== '' && !isNaN(Number(value))) {
+        result[key] = Number(value);
+      }
+    }
+  }
+  return result;
+};
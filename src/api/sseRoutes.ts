@@ -1,25 +1,46 @@
 // src/api/sseRoutes.ts
-import { Router, Request, Response } from 'express';
-// import sseNotificationService from '../services/SseNotificationService.js';
+import { Router, Request, Response, NextFunction } from 'express';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { validate as uuidValidate } from 'uuid';
+import sseNotificationService from '../services/SseNotificationService.js';
 import { logger } from '../utils/index.js'; // Added .js
 
+/**
+ * Collects the projects a client subscribes to from `?projectId=a&projectId=b` and/or `?projectIds=a,b`.
+ */
+const parseProjectIds = (query: Request['query']): string[] => {
+  const values = [query.projectId, query.projectIds].flat().filter((value) => value !== undefined);
+  const projectIds = values
+    .flatMap((value) => String(value).split(','))
+    .map((value) => value.trim())
+    .filter((value) => value !== '');
+  const invalid = projectIds.filter((projectId) => !uuidValidate(projectId));
+  if (invalid.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid Project ID format: ${invalid.join(', ')}`);
+  }
+  return [...new Set(projectIds)];
+};
+
 export const sseRoutes = (): Router => {
   const router = Router();
 
-  router.get('/events', (req: Request, res: Response) => {
+  router.get('/events', (req: Request, res: Response, next: NextFunction) => {
     logger.info('[SSE] Client attempting to connect to /api/events');
 
-    res.setHeader('Content-Type', 'text/event-stream');
-    res.setHeader('Cache-Control', 'no-cache');
-    res.setHeader('Connection', 'keep-alive');
-    res.flushHeaders();
+    let projectIds: string[];
+    try {
+      projectIds = parseProjectIds(req.query);
+    } catch (error) {
+      return next(error);
+    }
 
-    //const clientId = sseNotificationService.addClient(res);
+    // Browsers resend the last seen event id on automatic reconnects; a freshly created
+    // EventSource can only pass it as a query parameter.
+    const lastEventId = req.header('Last-Event-ID') ?? (req.query.lastEventId as string | undefined);
 
-    // req.on('close', () => {
-    //   logger.info(`[SSE] Client connection closed for /api/events (ID: ${clientId})`);
-    //   sseNotificationService.removeClient(clientId);
-    // });
+    // addClient sets the event-stream headers and removes the client when the connection closes.
+    const clientId = sseNotificationService.addClient(res, { lastEventId, projectIds });
+    logger.info(`[SSE] Client registered for /api/events (ID: ${clientId})`);
   });
 
   return router;
@@ -0,0 +1,322 @@
+// src/api/workItemRoutes.ts
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { WorkItemService } from '../services/index.js';
+import { logger, NotFoundError } from '../utils/index.js';
+import { validateRequest, coerceQuery } from './requestValidation.js';
+import { CreateProjectParamsSchema } from '../tools/create_project_params.js';
+import { TOOL_PARAMS as AddTaskParamsSchema } from '../tools/add_task_params.js';
+import { AddChildTasksParamsSchema } from '../tools/add_child_tasks_params.js';
+import { TOOL_PARAMS as DeleteTaskParamsSchema } from '../tools/delete_task_params.js';
+import { GetDetailsParamsSchema } from '../tools/get_details_params.js';
+import { GetFullTreeOptionsSchema } from '../tools/get_full_tree_params.js';
+import { ListWorkItemsParamsSchema } from '../tools/list_work_items_params.js';
+import { SetNameParamsSchema } from '../tools/set_name_params.js';
+import { SetDescriptionParamsSchema } from '../tools/set_description_params.js';
+import { SetStatusParamsSchema } from '../tools/set_status_params.js';
+import { SetPriorityParamsSchema } from '../tools/set_priority_params.js';
+import { SetDueDateParamsSchema } from '../tools/set_due_date_params.js';
+import { SetEstimatedDurationParamsSchema } from '../tools/set_estimated_duration_params.js';
+import { SetTagsParamsSchema } from '../tools/set_tags_params.js';
+import { AddDependenciesParamsSchema } from '../tools/add_dependencies_params.js';
+import { DeleteDependenciesParamsSchema } from '../tools/delete_dependencies_params.js';
+import { MoveItemToStartParamsSchema } from '../tools/move_item_to_start_params.js';
+import { MoveItemToEndParamsSchema } from '../tools/move_item_to_end_params.js';
+import { MoveItemAfterParamsSchema } from '../tools/move_item_after_params.js';
+import { MoveItemBeforeParamsSchema } from '../tools/move_item_before_params.js';
+import { SwapItemsParamsSchema } from '../tools/swap_items_params.js';
+import { MoveItemToParentParamsSchema } from '../tools/move_item_to_parent_params.js';
+import { PromoteToProjectParamsSchema } from '../tools/promote_to_project_params.js';
+import { DemoteToTaskParamsSchema } from '../tools/demote_to_task_params.js';
+import { DuplicateWorkItemParamsSchema } from '../tools/duplicate_work_item_params.js';
+import { CreateTemplateParamsSchema } from '../tools/create_template_params.js';
+import { InstantiateTemplateParamsSchema } from '../tools/instantiate_template_params.js';
+import { ListHistoryParamsSchema } from '../tools/list_history_params.js';
+import { GetNextTaskParamsSchema } from '../tools/get_next_task_params.js';
+import { ListTagsParamsSchema } from '../tools/list_tags_params.js';
+import { GetCriticalPathParamsSchema } from '../tools/get_critical_path_params.js';
+import { GetImpactParamsSchema } from '../tools/get_impact_params.js';
+import { RenderDependencyGraphParamsSchema } from '../tools/render_dependency_graph_params.js';
+
+// PATCH accepts any combination of the fields the set_* tools change and applies them together,
+// in one transaction recorded as a single history entry.
+export const UpdateWorkItemParamsSchema = z
+  .object({
+    work_item_id: SetNameParamsSchema.shape.work_item_id,
+    name: SetNameParamsSchema.shape.name.optional(),
+    description: SetDescriptionParamsSchema.shape.description.nullable().optional(),
+    status: SetStatusParamsSchema.shape.status.optional(),
+    priority: SetPriorityParamsSchema.shape.priority.optional(),
+    due_date: SetDueDateParamsSchema.shape.due_date.nullable().optional(),
+    estimated_duration_days: SetEstimatedDurationParamsSchema.shape.estimated_duration_days.optional(),
+    tags: SetTagsParamsSchema.shape.tags.optional(),
+  })
+  .refine(
+    (args) =>
+      [
+        args.name,
+        args.description,
+        args.status,
+        args.priority,
+        args.due_date,
+        args.estimated_duration_days,
+        args.tags,
+      ].some((value) => value !== undefined),
+    'Provide at least one of name, description, status, priority, due_date, estimated_duration_days or tags.'
+  );
+
+/**
+ * REST endpoints mirroring the MCP tools. Each route validates its input with the tool's zod schema
+ * and calls the same WorkItemService method; service errors are mapped by the API error handler.
+ */
+export const workItemRoutes = (workItemService: WorkItemService): Router => {
+  const router = Router();
+
+  router.post('/projects', async (req: Request, res: Response) => {
+    const args = validateRequest(CreateProjectParamsSchema, req.body);
+    logger.info('[API] POST /api/projects called');
+    const project = await workItemService.addWorkItem({
+      parent_work_item_id: null,
+      name: args.name,
+      description: args.description,
+    });
+    res.status(201).json(project);
+  });
+
+  router.get('/work-items', async (req: Request, res: Response) => {
+    const args = validateRequest(
+      ListWorkItemsParamsSchema,
+      coerceQuery(req.query, { roots_only: 'boolean', is_active: 'boolean' })
+    );
+    const workItems = await workItemService.listWorkItems({
+      parent_work_item_id: args.parent_work_item_id,
+      rootsOnly: args.roots_only,
+      status: args.status,
+      isActive: args.is_active,
+    });
+    res.json(workItems);
+  });
+
+  router.post('/work-items', async (req: Request, res: Response) => {
+    const args = validateRequest(AddTaskParamsSchema, req.body);
+    logger.info(`[API] POST /api/work-items called for parent ${args.parent_work_item_id}`);
+    const workItem = await workItemService.addWorkItem(args);
+    res.status(201).json(workItem);
+  });
+
+  router.delete('/work-items', async (req: Request, res: Response) => {
+    const args = validateRequest(DeleteTaskParamsSchema, req.body);
+    logger.info(`[API] DELETE /api/work-items called for ${args.work_item_ids.length} item(s)`);
+    const deletedCount = await workItemService.deleteWorkItem(args.work_item_ids, { force: args.force });
+    res.json({ success: true, deleted_count: deletedCount });
+  });
+
+  router.get('/work-items/:id', async (req: Request, res: Response) => {
+    const args = validateRequest(GetDetailsParamsSchema, { work_item_id: req.params.id });
+    const workItem = await workItemService.getWorkItemById(args.work_item_id);
+    if (!workItem) {
+      throw new NotFoundError(`Work item with ID ${args.work_item_id} not found.`);
+    }
+    res.json(workItem);
+  });
+
+  router.patch('/work-items/:id', async (req: Request, res: Response) => {
+    const { work_item_id, ...updates } = validateRequest(UpdateWorkItemParamsSchema, {
+      ...req.body,
+      work_item_id: req.params.id,
+    });
+    logger.info(`[API] PATCH /api/work-items/${work_item_id} called`);
+    res.json(await workItemService.updateFields(work_item_id, updates));
+  });
+
+  router.delete('/work-items/:id', async (req: Request, res: Response) => {
+    const args = validateRequest(DeleteTaskParamsSchema, {
+      ...coerceQuery(req.query, { force: 'boolean' }),
+      work_item_ids: [req.params.id],
+    });
+    logger.info(`[API] DELETE /api/work-items/${req.params.id} called`);
+    const deletedCount = await workItemService.deleteWorkItem(args.work_item_ids, { force: args.force });
+    res.json({ success: true, deleted_count: deletedCount });
+  });
+
+  router.get('/work-items/:id/tree', async (req: Request, res: Response) => {
+    const { work_item_id } = validateRequest(GetDetailsParamsSchema, { work_item_id: req.params.id });
+    const options = validateRequest(
+      GetFullTreeOptionsSchema,
+      coerceQuery(req.query, {
+        include_inactive_items: 'boolean',
+        include_inactive_dependencies: 'boolean',
+        max_depth: 'number',
+      })
+    );
+    const tree = await workItemService.getFullTree(work_item_id, options);
+    if (!tree) {
+      throw new NotFoundError(`Work item with ID ${work_item_id} not found.`);
+    }
+    res.json(tree);
+  });
+
+  router.get('/work-items/:id/critical-path', async (req: Request, res: Response) => {
+    const args = validateRequest(GetCriticalPathParamsSchema, { ...req.query, work_item_id: req.params.id });
+    res.json(await workItemService.getCriticalPath(args.work_item_id, { startDate: args.start_date }));
+  });
+
+  router.get('/work-items/:id/impact', async (req: Request, res: Response) => {
+    const args = validateRequest(GetImpactParamsSchema, {
+      ...coerceQuery(req.query, { slip_days: 'number' }),
+      work_item_id: req.params.id,
+    });
+    res.json(await workItemService.getImpact(args.work_item_id, { slipDays: args.slip_days }));
+  });
+
+  router.get('/work-items/:id/dependency-graph', async (req: Request, res: Response) => {
+    const args = validateRequest(RenderDependencyGraphParamsSchema, {
+      ...coerceQuery(req.query, { include_done: 'boolean', include_external: 'boolean' }),
+      work_item_id: req.params.id,
+    });
+    res.json(
+      await workItemService.renderDependencyGraph(args.work_item_id, {
+        format: args.format,
+        includeDone: args.include_done,
+        includeExternal: args.include_external,
+      })
+    );
+  });
+
+  router.post('/work-items/:id/children', async (req: Request, res: Response) => {
+    const args = validateRequest(AddChildTasksParamsSchema, { ...req.body, parent_work_item_id: req.params.id });
+    logger.info(`[API] POST /api/work-items/${args.parent_work_item_id}/children called`);
+    const parent = await workItemService.getWorkItemById(args.parent_work_item_id, { isActive: true });
+    if (!parent) {
+      throw new NotFoundError(`Parent work item with ID ${args.parent_work_item_id} not found or is inactive.`);
+    }
+    const createdItems = await workItemService.addWorkItemTree(args.parent_work_item_id, args.child_tasks_tree);
+    res.status(201).json(createdItems);
+  });
+
+  router.post('/work-items/:id/duplicate', async (req: Request, res: Response) => {
+    const { work_item_id, ...options } = validateRequest(DuplicateWorkItemParamsSchema, {
+      ...req.body,
+      work_item_id: req.params.id,
+    });
+    res.status(201).json(await workItemService.duplicateWorkItem(work_item_id, options));
+  });
+
+  router.post('/work-items/:id/dependencies', async (req: Request, res: Response) => {
+    const args = validateRequest(AddDependenciesParamsSchema, { ...req.body, work_item_id: req.params.id });
+    logger.info(`[API] POST /api/work-items/${args.work_item_id}/dependencies called`);
+    res.json(await workItemService.addDependencies(args.work_item_id, args.dependencies_to_add));
+  });
+
+  router.delete('/work-items/:id/dependencies', async (req: Request, res: Response) => {
+    const args = validateRequest(DeleteDependenciesParamsSchema, { ...req.body, work_item_id: req.params.id });
+    logger.info(`[API] DELETE /api/work-items/${args.work_item_id}/dependencies called`);
+    res.json(await workItemService.deleteDependencies(args.work_item_id, args.depends_on_ids_to_remove));
+  });
+
+  router.post('/work-items/:id/move-to-start', async (req: Request, res: Response) => {
+    const args = validateRequest(MoveItemToStartParamsSchema, { work_item_id: req.params.id });
+    res.json(await workItemService.moveItemToStart(args.work_item_id));
+  });
+
+  router.post('/work-items/:id/move-to-end', async (req: Request, res: Response) => {
+    const args = validateRequest(MoveItemToEndParamsSchema, { work_item_id: req.params.id });
+    res.json(await workItemService.moveItemToEnd(args.work_item_id));
+  });
+
+  router.post('/work-items/:id/move-after', async (req: Request, res: Response) => {
+    const args = validateRequest(MoveItemAfterParamsSchema, { ...req.body, work_item_id_to_move: req.params.id });
+    res.json(await workItemService.moveItemAfter(args.work_item_id_to_move, args.target_sibling_id_to_move_after));
+  });
+
+  router.post('/work-items/:id/move-before', async (req: Request, res: Response) => {
+    const args = validateRequest(MoveItemBeforeParamsSchema, { ...req.body, work_item_id_to_move: req.params.id });
+    res.json(await workItemService.moveItemBefore(args.work_item_id_to_move, args.target_sibling_id_to_move_before));
+  });
+
+  router.post('/work-items/:id/swap', async (req: Request, res: Response) => {
+    const args = validateRequest(SwapItemsParamsSchema, { ...req.body, first_work_item_id: req.params.id });
+    res.json(await workItemService.swapItems(args.first_work_item_id, args.second_work_item_id));
+  });
+
+  router.post('/work-items/:id/move-to-parent', async (req: Request, res: Response) => {
+    const args = validateRequest(MoveItemToParentParamsSchema, { ...req.body, work_item_id: req.params.id });
+    const { moveTo, moveAfter_work_item_id, moveBefore_work_item_id } = args;
+    res.json(
+      await workItemService.moveItemToParent(args.work_item_id, args.new_parent_work_item_id, {
+        moveTo,
+        moveAfter_work_item_id,
+        moveBefore_work_item_id,
+      })
+    );
+  });
+
+  router.post('/work-items/:id/promote', async (req: Request, res: Response) => {
+    const args = validateRequest(PromoteToProjectParamsSchema, { work_item_id: req.params.id });
+    logger.info(`[API] POST /api/work-items/${args.work_item_id}/promote called`);
+    res.json(await workItemService.promoteToProject(args.work_item_id));
+  });
+
+  router.post('/work-items/:id/demote', async (req: Request, res: Response) => {
+    const args = validateRequest(DemoteToTaskParamsSchema, { ...req.body, work_item_id: req.params.id });
+    const { moveTo, moveAfter_work_item_id, moveBefore_work_item_id } = args;
+    res.json(
+      await workItemService.demoteToTask(args.work_item_id, args.new_parent_work_item_id, {
+        moveTo,
+        moveAfter_work_item_id,
+        moveBefore_work_item_id,
+      })
+    );
+  });
+
+  router.post('/history/undo', async (req: Request, res: Response) => {
+    const undoneAction = await workItemService.undoLastAction();
+    res.json(undoneAction ?? { success: false, message: 'No action to undo.' });
+  });
+
+  router.post('/history/redo', async (req: Request, res: Response) => {
+    const redoneAction = await workItemService.redoLastUndo();
+    res.json(redoneAction ?? { success: false, message: 'No action to redo.' });
+  });
+
+  router.get('/history', async (req: Request, res: Response) => {
+    const args = validateRequest(ListHistoryParamsSchema, coerceQuery(req.query, { limit: 'number' }));
+    res.json(
+      await workItemService.listHistoryByDateRange({
+        startDate: args.start_date,
+        endDate: args.end_date,
+        limit: args.limit,
+      })
+    );
+  });
+
+  router.get('/next-task', async (req: Request, res: Response) => {
+    const args = validateRequest(
+      GetNextTaskParamsSchema,
+      coerceQuery(req.query, { include_tags: 'list', exclude_tags: 'list' })
+    );
+    const nextTask = await workItemService.getNextTask(args);
+    res.json(nextTask ?? { message: 'No actionable task found matching criteria.' });
+  });
+
+  router.get('/tags', async (req: Request, res: Response) => {
+    const args = validateRequest(ListTagsParamsSchema, req.query);
+    res.json(await workItemService.listTags(args.project_id));
+  });
+
+  router.get('/templates', async (req: Request, res: Response) => {
+    res.json(await workItemService.listTemplates());
+  });
+
+  router.post('/templates', async (req: Request, res: Response) => {
+    const { work_item_id, ...options } = validateRequest(CreateTemplateParamsSchema, req.body);
+    res.status(201).json(await workItemService.createTemplate(work_item_id, options));
+  });
+
+  router.post('/templates/instantiate', async (req: Request, res: Response) => {
+    const { template_name, ...options } = validateRequest(InstantiateTemplateParamsSchema, req.body);
+    res.status(201).json(await workItemService.instantiateTemplate(template_name, options));
+  });
+
+  return router;
+};
@@ -1,10 +1,16 @@
 ﻿import { logger } from '../utils/logger.js'; // Assuming logger is needed for potential warnings
+import type { StorageBackend } from '../db/DatabaseTypes.js';
 
 // Define the structure for all configurations managed
 interface ManagedConfigs {
   // Add other service config types here:
   // yourService: Required<YourServiceConfig>;
 
+  // Storage
+  storageBackend: StorageBackend;
+  sqlitePath: string;
+  autoMigrate: boolean;
+
   // PostgreSQL connection details
   pgHost: string;
   pgPort: number;
@@ -14,6 +20,17 @@ interface ManagedConfigs {
   // Optionally add SSL config, connection timeout, etc.
   // pgSsl: boolean | object;
   // pgConnectionTimeoutMillis: number;
+
+  // Transports
+  stdioEnabled: boolean;
+  httpEnabled: boolean;
+  httpHost: string;
+  httpPort: number;
+
+  // Server-sent events
+  sseBufferSize: number;
+  sseHeartbeatIntervalMs: number;
+  pgNotifyEnabled: boolean;
 }
 
 /**
@@ -31,6 +48,9 @@ export class ConfigurationManager {
   private constructor() {
     // Initialize with default configurations for PostgreSQL
     this.config = {
+      storageBackend: 'postgres',
+      sqlitePath: 'taskmanager.sqlite',
+      autoMigrate: true,
       pgHost: 'localhost',
       pgPort: 5432,
       pgUser: 'taskmanager_user', // Choose a suitable default user
@@ -38,6 +58,13 @@ export class ConfigurationManager {
       pgDatabase: 'taskmanager_db', // Choose a suitable default DB name
       // pgSsl: false,
       // pgConnectionTimeoutMillis: 5000,
+      stdioEnabled: true,
+      httpEnabled: false,
+      httpHost: '127.0.0.1',
+      httpPort: 3000,
+      sseBufferSize: 500,
+      sseHeartbeatIntervalMs: 25000,
+      pgNotifyEnabled: true,
     };
 
     // Load overrides from environment variables
@@ -70,6 +97,16 @@ export class ConfigurationManager {
 
   // --- Getters for specific configurations ---
 
+  public getStorageBackend(): StorageBackend {
+    return this.config.storageBackend;
+  }
+  public getSqlitePath(): string {
+    return this.config.sqlitePath;
+  }
+  public isAutoMigrateEnabled(): boolean {
+    return this.config.autoMigrate;
+  }
+
   // Provide individual getters for PG settings if config remains private
   public getPgHost(): string {
     return this.config.pgHost;
@@ -89,6 +126,28 @@ export class ConfigurationManager {
   // public getPgSsl(): boolean | object { return this.config.pgSsl; }
   // public getPgConnectionTimeoutMillis(): number { return this.config.pgConnectionTimeoutMillis; }
 
+  public isStdioEnabled(): boolean {
+    return this.config.stdioEnabled;
+  }
+  public isHttpEnabled(): boolean {
+    return this.config.httpEnabled;
+  }
+  public getHttpHost(): string {
+    return this.config.httpHost;
+  }
+  public getHttpPort(): number {
+    return this.config.httpPort;
+  }
+  public getSseBufferSize(): number {
+    return this.config.sseBufferSize;
+  }
+  public getSseHeartbeatIntervalMs(): number {
+    return this.config.sseHeartbeatIntervalMs;
+  }
+  public isPgNotifyEnabled(): boolean {
+    return this.config.pgNotifyEnabled;
+  }
+
   // --- Updaters (if runtime updates are needed - less common for DB config) ---
   // Add updaters if necessary
 
@@ -98,6 +157,26 @@ export class ConfigurationManager {
   private loadEnvironmentOverrides(): void {
     logger.info('Loading environment variable overrides for configuration...');
 
+    if (process.env.STORAGE_BACKEND) {
+      const backend = process.env.STORAGE_BACKEND.toLowerCase();
+      if (backend === 'postgres' || backend === 'sqlite' || backend === 'memory') {
+        this.config.storageBackend = backend;
+        logger.info(`Overriding storageBackend from env: ${this.config.storageBackend}`);
+      } else {
+        logger.warn(
+          `Invalid STORAGE_BACKEND environment variable: ${process.env.STORAGE_BACKEND}. Using default ${this.config.storageBackend}.`
+        );
+      }
+    }
+    if (process.env.SQLITE_PATH) {
+      this.config.sqlitePath = process.env.SQLITE_PATH;
+      logger.info(`Overriding sqlitePath from env: ${this.config.sqlitePath}`);
+    }
+    if (process.env.AUTO_MIGRATE) {
+      this.config.autoMigrate = process.env.AUTO_MIGRATE.toLowerCase() !== 'false';
+      logger.info(`Overriding autoMigrate from env: ${this.config.autoMigrate}`);
+    }
+
     if (process.env.PGHOST) {
       this.config.pgHost = process.env.PGHOST;
       logger.info(`Overriding pgHost from env: ${this.config.pgHost}`);
@@ -152,6 +231,58 @@ export class ConfigurationManager {
     //     }
     // }
 
+    if (process.env.MCP_STDIO_ENABLED) {
+      this.config.stdioEnabled = process.env.MCP_STDIO_ENABLED.toLowerCase() !== 'false';
+      logger.info(`Overriding stdioEnabled from env: ${this.config.stdioEnabled}`);
+    }
+    if (process.env.HTTP_ENABLED) {
+      this.config.httpEnabled = process.env.HTTP_ENABLED.toLowerCase() === 'true';
+      logger.info(`Overriding httpEnabled from env: ${this.config.httpEnabled}`);
+    }
+    if (process.env.HTTP_HOST) {
+      this.config.httpHost = process.env.HTTP_HOST;
+      logger.info(`Overriding httpHost from env: ${this.config.httpHost}`);
+    }
+    if (process.env.HTTP_PORT) {
+      const port = parseInt(process.env.HTTP_PORT, 10);
+      if (!isNaN(port)) {
+        this.config.httpPort = port;
+        logger.info(`Overriding httpPort from env: ${this.config.httpPort}`);
+      } else {
+        logger.warn(
+          `Invalid HTTP_PORT environment variable: ${process.env.HTTP_PORT}. Using default ${this.config.httpPort}.`
+        );
+      }
+    }
+
+    if (process.env.SSE_BUFFER_SIZE) {
+      const size = parseInt(process.env.SSE_BUFFER_SIZE, 10);
+      if (!isNaN(size) && size >= 0) {
+        this.config.sseBufferSize = size;
+        logger.info(`Overriding sseBufferSize from env: ${this.config.sseBufferSize}`);
+      } else {
+        logger.warn(
+          `Invalid SSE_BUFFER_SIZE environment variable: ${process.env.SSE_BUFFER_SIZE}. Using default ${this.config.sseBufferSize}.`
+        );
+      }
+    }
+    if (process.env.SSE_HEARTBEAT_INTERVAL_MS) {
+      const interval = parseInt(process.env.SSE_HEARTBEAT_INTERVAL_MS, 10);
+      if (!isNaN(interval) && interval >= 0) {
+        this.config.sseHeartbeatIntervalMs = interval;
+        logger.info(`Overriding sseHeartbeatIntervalMs from env: ${this.config.sseHeartbeatIntervalMs}`);
+      } else {
+        logger.warn(
+          `Invalid SSE_HEARTBEAT_INTERVAL_MS environment variable: ${process.env.SSE_HEARTBEAT_INTERVAL_MS}. Using default ${this.config.sseHeartbeatIntervalMs}.`
+        );
+      }
+    }
+
+    if (process.env.PG_NOTIFY_ENABLED) {
+      this.config.pgNotifyEnabled = process.env.PG_NOTIFY_ENABLED.toLowerCase() !== 'false';
+      logger.info(`Overriding pgNotifyEnabled from env: ${this.config.pgNotifyEnabled}`);
+    }
+
     // Add logic for other services based on their environment variables
   }
 }
@@ -1,22 +1,33 @@
 // upload/src/db/DatabaseManager.ts
 import pg, { Pool, PoolClient } from 'pg';
-import fs from 'node:fs/promises';
-import path from 'node:path';
-import { fileURLToPath } from 'node:url';
 import { ConfigurationManager } from '../config/ConfigurationManager.js';
 import { logger } from '../utils/logger.js';
+import type { DbPool } from './DatabaseTypes.js';
+import { SqlitePool } from './SqlitePool.js';
+import { MigrationRunner } from './MigrationRunner.js';
 
 export class DatabaseManager {
   private static instance: DatabaseManager | null = null;
   private static initializationPromise: Promise<void> | null = null;
-  private pool: Pool;
+  private pool: DbPool;
+  private pgPool: Pool | null = null;
   private initializationComplete: boolean = false;
 
   private constructor() {
     const configManager = ConfigurationManager.getInstance();
+    if (configManager.getStorageBackend() === 'sqlite') {
+      logger.info(`[DatabaseManager] Constructor: Opening SQLite database at ${configManager.getSqlitePath()}...`);
+      this.pool = new SqlitePool(configManager.getSqlitePath());
+      return;
+    }
+    if (configManager.getStorageBackend() === 'memory') {
+      logger.info('[DatabaseManager] Constructor: Opening in-memory database; nothing will be persisted.');
+      this.pool = new SqlitePool(':memory:');
+      return;
+    }
     logger.info('[DatabaseManager] Constructor: Setting up PostgreSQL connection pool...');
     try {
-      this.pool = new pg.Pool({
+      this.pgPool = new pg.Pool({
         host: configManager.getPgHost(),
         port: configManager.getPgPort(),
         user: configManager.getPgUser(),
@@ -24,8 +35,9 @@ export class DatabaseManager {
         database: configManager.getPgDatabase(),
         connectionTimeoutMillis: 5000,
       });
+      this.pool = this.pgPool;
 
-      this.pool.on('error', (err) => {
+      this.pgPool.on('error', (err) => {
         logger.error('[DatabaseManager] Unexpected error on idle client', { err });
         console.error('[DatabaseManager] Fallback console log: Unexpected error on idle client:', err);
         this.initializationComplete = false;
@@ -130,7 +142,36 @@ export class DatabaseManager {
     }
   }
 
-  // REMOVED checkEssentialTablesExist method
+  /**
+   * Brings the schema up to date by applying pending migrations. With AUTO_MIGRATE=false pending
+   * migrations are only reported and have to be applied with `npm run migrate -- up`. An in-memory
+   * database starts empty, so it is always migrated.
+   */
+  private async applyMigrations(): Promise<void> {
+    const configManager = ConfigurationManager.getInstance();
+    const runner = new MigrationRunner(this.pool);
+
+    if (!configManager.isAutoMigrateEnabled() && configManager.getStorageBackend() !== 'memory') {
+      const notApplied = (await runner.getStatus()).filter((status) => status.state !== 'applied');
+      if (notApplied.length > 0) {
+        logger.warn(
+          `[DatabaseManager] applyMigrations: AUTO_MIGRATE is false; ${notApplied.length} migration(s) not applied: ${notApplied
+            .map((status) => `${status.version}_${status.name} (${status.state})`)
+            .join(', ')}.`
+        );
+      }
+      return;
+    }
+
+    const applied = await runner.migrate();
+    logger.info(
+      applied.length > 0
+        ? `[DatabaseManager] applyMigrations: Applied ${applied.length} migration(s): ${applied
+            .map((migration) => `${migration.version}_${migration.name}`)
+            .join(', ')}.`
+        : '[DatabaseManager] applyMigrations: Schema is up to date.'
+    );
+  }
 
   private async initializeDatabaseInternal(): Promise<void> {
     if (this.initializationComplete) {
@@ -139,66 +180,26 @@ export class DatabaseManager {
     }
 
     logger.info('[DatabaseManager] initializeDatabaseInternal: Starting schema initialization process...');
-    let client: PoolClient | null = null;
-    try {
-      logger.debug('[DatabaseManager] initializeDatabaseInternal: Attempting connection...');
-      client = await this.pool.connect();
-      logger.info(`[DatabaseManager] initializeDatabaseInternal: Connected to PostgreSQL.`);
-
-      await this.logConnectionDetails(client); // Keep this for diagnostics
-
-      const forceSchemaRun = process.env.FORCE_SCHEMA_RUN === 'true';
-      logger.info(
-        `[DatabaseManager] initializeDatabaseInternal: FORCE_SCHEMA_RUN environment variable is set to '${process.env.FORCE_SCHEMA_RUN}', schema run is ${forceSchemaRun ? 'ENABLED' : 'DISABLED'}.`
+    if (process.env.FORCE_SCHEMA_RUN === 'true') {
+      logger.warn(
+        '[DatabaseManager] initializeDatabaseInternal: FORCE_SCHEMA_RUN is no longer supported and is ignored; the schema is managed by migrations.'
       );
+    }
 
-      if (forceSchemaRun) {
-        logger.info('[DatabaseManager] initializeDatabaseInternal: Force schema run enabled. Executing schema.sql...');
-        const __filename = fileURLToPath(import.meta.url);
-        const __dirname = path.dirname(__filename);
-        const schemaPath = path.join(__dirname, 'schema.sql');
-        logger.info(`[DatabaseManager] initializeDatabaseInternal: Schema path: ${schemaPath}`);
-
+    try {
+      if (this.pgPool) {
+        logger.debug('[DatabaseManager] initializeDatabaseInternal: Attempting connection...');
+        const client = await this.pgPool.connect();
         try {
-          await fs.access(schemaPath);
-        } catch (accessError) {
-          logger.error(`[DatabaseManager] initializeDatabaseInternal: Schema file not found at ${schemaPath}.`, {
-            accessError,
-          });
-          throw new Error(`Schema file not found: ${schemaPath}`);
+          logger.info(`[DatabaseManager] initializeDatabaseInternal: Connected to PostgreSQL.`);
+          await this.logConnectionDetails(client); // Keep this for diagnostics
+        } finally {
+          client.release();
         }
-
-        const schemaSql = await fs.readFile(schemaPath, 'utf8');
-        logger.debug('[DatabaseManager] initializeDatabaseInternal: Executing schema setup from schema.sql...');
-        await client.query(schemaSql);
-        logger.info('[DatabaseManager] initializeDatabaseInternal: Full schema script executed.');
-
-        // You might still want a simple confirmation here if FORCE_SCHEMA_RUN was true,
-        // or rely on the psql logs from build.sh for that confirmation.
-        // For example, check if 'work_items' exists after a forced schema run.
-        const finalCheck = await client.query(
-          `SELECT EXISTS (SELECT 1 FROM information_schema.tables WHERE table_schema = 'public' AND table_name = 'work_items');`
-        );
-        if (!finalCheck.rows[0]?.exists) {
-          logger.error(
-            '[DatabaseManager] initializeDatabaseInternal: work_items table does not exist even after a forced schema execution!'
-          );
-          throw new Error('Schema execution (when forced) failed to create work_items table.');
-        } else {
-          logger.info(
-            '[DatabaseManager] initializeDatabaseInternal: Confirmed work_items table exists after forced schema run.'
-          );
-        }
-      } else {
-        logger.info(
-          '[DatabaseManager] initializeDatabaseInternal: Skipped forced schema run based on FORCE_SCHEMA_RUN environment variable.'
-        );
-        // REMOVED call to checkEssentialTablesExist and associated error throwing
-        logger.info(
-          '[DatabaseManager] initializeDatabaseInternal: Proceeding without explicit table existence check as FORCE_SCHEMA_RUN is not true.'
-        );
       }
 
+      await this.applyMigrations();
+
       this.initializationComplete = true;
       logger.info('[DatabaseManager] initializeDatabaseInternal: Initialization marked as complete.');
     } catch (error: unknown) {
@@ -209,15 +210,10 @@ export class DatabaseManager {
       );
       this.initializationComplete = false;
       throw error;
-    } finally {
-      if (client) {
-        client.release();
-        logger.info(`[DatabaseManager] initializeDatabaseInternal: Released client.`);
-      }
     }
   }
 
-  public getPool(): Pool {
+  public getPool(): DbPool {
     if (!this.initializationComplete || !DatabaseManager.instance) {
       logger.error('[DatabaseManager] getPool called before initialization was complete or on a failed instance.');
       throw new Error('Database manager getPool called before initialization was complete or on a failed instance.');
@@ -225,17 +221,25 @@ export class DatabaseManager {
     return this.pool;
   }
 
+  /** The underlying `pg` pool, for PostgreSQL-only features such as LISTEN/NOTIFY. */
+  public getPgPool(): Pool {
+    if (!this.pgPool) {
+      throw new Error('getPgPool called but the storage backend is not PostgreSQL.');
+    }
+    return this.pgPool;
+  }
+
   public async closeDb(): Promise<void> {
     const instance = DatabaseManager.instance;
     DatabaseManager.instance = null;
     DatabaseManager.initializationPromise = null;
 
     if (instance?.pool) {
-      logger.info('[DatabaseManager] Closing PostgreSQL connection pool...');
+      logger.info('[DatabaseManager] Closing database connection pool...');
       instance.initializationComplete = false;
       try {
         await instance.pool.end();
-        logger.info('[DatabaseManager] PostgreSQL connection pool closed.');
+        logger.info('[DatabaseManager] Database connection pool closed.');
       } catch (closeError) {
         logger.error('[DatabaseManager] Error closing pool:', { closeError });
       }
@@ -243,4 +247,16 @@ export class DatabaseManager {
       logger.warn('[DatabaseManager] closeDb called but no pool/instance was available.');
     }
   }
+
+  /**
+   * Closes the pool if one was ever initialised, without creating a new instance just to close it.
+   */
+  public static async shutdown(): Promise<void> {
+    if (DatabaseManager.initializationPromise) {
+      await DatabaseManager.initializationPromise.catch(() => undefined);
+    }
+    if (DatabaseManager.instance) {
+      await DatabaseManager.instance.closeDb();
+    }
+  }
 }
@@ -0,0 +1,37 @@
+// src/db/DatabaseTypes.ts
+import type { SqlDialect } from './SqlDialect.js';
+
+/** `memory` is SQLite on a private in-memory database: nothing outlives the process. */
+export type StorageBackend = 'postgres' | 'sqlite' | 'memory';
+
+/** The subset of a `pg` query result the repositories rely on. */
+export interface DbQueryResult {
+  rows: any[];
+  rowCount: number | null;
+}
+
+/** Anything that can run a parameterised query: a pool or a checked-out client. */
+export interface DbQueryable {
+  query(text: string, values?: unknown[]): Promise<DbQueryResult>;
+}
+
+/** A connection checked out of a pool, used to run a transaction. */
+export interface DbClient extends DbQueryable {
+  release(): void;
+}
+
+/**
+ * Storage used by the repositories. A `pg` Pool satisfies this interface as-is; other backends
+ * provide an adapter that accepts the same `$n` placeholder SQL and returns rows shaped like `pg`'s.
+ * A pool without a dialect is treated as PostgreSQL.
+ */
+export interface DbPool extends DbQueryable {
+  readonly dialect?: SqlDialect;
+  connect(): Promise<DbClient>;
+  /**
+   * Runs `callback` as the holder of `client`, for pools whose own queries wait while a client is checked
+   * out: queries the callback makes on the pool then run in the client's turn instead of waiting for it.
+   */
+  runAsHolder?<T>(client: DbClient, callback: () => Promise<T>): Promise<T>;
+  end(): Promise<void>;
+}
@@ -0,0 +1,217 @@
+// src/db/MigrationRunner.ts
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { DbPool, DbQueryable } from './DatabaseTypes.js';
+import { getSqlDialect } from './SqlDialect.js';
+import { SqlitePool } from './SqlitePool.js';
+import { DatabaseError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+// Migration files are `<version>_<name>.sql`, e.g. `0002_work_item_tags.sql`, one directory per backend.
+const MIGRATION_FILE_PATTERN = /^(\d+)_([\w-]+)\.sql$/;
+const MIGRATIONS_ROOT = path.join(path.dirname(fileURLToPath(import.meta.url)), 'migrations');
+
+// Serialises migration runs between server processes sharing one PostgreSQL database.
+const PG_MIGRATION_LOCK_ID = 72406131;
+
+const SCHEMA_MIGRATIONS_DDL = {
+  postgres: `CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL,
+    checksum TEXT NOT NULL,
+    applied_at TIMESTAMPTZ NOT NULL
+  );`,
+  sqlite: `CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL,
+    checksum TEXT NOT NULL,
+    applied_at TEXT NOT NULL
+  );`,
+};
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+  checksum: string;
+}
+
+/**
+ * - `applied`: recorded in schema_migrations with the checksum of the file on disk.
+ * - `pending`: on disk but not applied yet.
+ * - `modified`: applied, but the file has changed since.
+ * - `missing`: applied, but no longer on disk (the database is newer than this build).
+ */
+export type MigrationState = 'applied' | 'pending' | 'modified' | 'missing';
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  state: MigrationState;
+  applied_at: string | null;
+}
+
+interface AppliedMigrationRow {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: string | Date;
+}
+
+/** Checksums ignore line endings so a checkout with CRLF does not look modified. */
+export const checksumMigration = (sql: string): string =>
+  createHash('sha256').update(sql.replace(/\r\n/g, '\n')).digest('hex');
+
+/**
+ * Applies the ordered, checksummed SQL files in `migrations/<backend>` and records each one in
+ * `schema_migrations`. Every migration runs in its own transaction together with its bookkeeping row,
+ * so a failing migration leaves the schema at the previous version. Migrations only ever move forward.
+ */
+export class MigrationRunner {
+  private readonly pool: DbPool;
+  private readonly migrationsDir: string;
+
+  constructor(pool: DbPool, migrationsDir?: string) {
+    this.pool = pool;
+    this.migrationsDir = migrationsDir ?? path.join(MIGRATIONS_ROOT, getSqlDialect(pool).backend);
+  }
+
+  /** Reads the migration files, ordered by version. */
+  public async loadMigrations(): Promise<Migration[]> {
+    const fileNames = await fs.readdir(this.migrationsDir);
+    const migrations: Migration[] = [];
+    for (const fileName of fileNames) {
+      const match = MIGRATION_FILE_PATTERN.exec(fileName);
+      if (!match) continue;
+      const sql = await fs.readFile(path.join(this.migrationsDir, fileName), 'utf8');
+      migrations.push({ version: Number(match[1]), name: match[2], sql, checksum: checksumMigration(sql) });
+    }
+    migrations.sort((a, b) => a.version - b.version);
+    for (let i = 1; i < migrations.length; i++) {
+      if (migrations[i].version === migrations[i - 1].version) {
+        throw new DatabaseError(`Duplicate migration version ${migrations[i].version} in ${this.migrationsDir}.`);
+      }
+    }
+    return migrations;
+  }
+
+  /** Compares the files on disk with what the database has recorded, ordered by version. */
+  public async getStatus(): Promise<MigrationStatus[]> {
+    await this.ensureMigrationsTable();
+    return this.compareWithApplied(await this.loadMigrations(), await this.findAppliedMigrations());
+  }
+
+  /**
+   * Applies every pending migration in order and returns the ones applied. Refuses to run when an
+   * applied migration was modified or is missing, since the schema no longer matches the files.
+   */
+  public async migrate(): Promise<Migration[]> {
+    await this.ensureMigrationsTable();
+    const migrations = await this.loadMigrations();
+    const statuses = this.compareWithApplied(migrations, await this.findAppliedMigrations());
+    const conflicts = statuses.filter((status) => status.state === 'modified' || status.state === 'missing');
+    if (conflicts.length > 0) {
+      throw new DatabaseError(
+        `Refusing to migrate: ${conflicts
+          .map((status) => `${status.version}_${status.name} is ${status.state}`)
+          .join(', ')}. Applied migrations must not be changed or removed.`,
+        { conflicts }
+      );
+    }
+
+    const pendingVersions = new Set(statuses.filter((s) => s.state === 'pending').map((s) => s.version));
+    const applied: Migration[] = [];
+    for (const migration of migrations.filter((m) => pendingVersions.has(m.version))) {
+      if (await this.applyMigration(migration)) {
+        applied.push(migration);
+      }
+    }
+    return applied;
+  }
+
+  private compareWithApplied(migrations: Migration[], applied: Map<number, AppliedMigrationRow>): MigrationStatus[] {
+    const statuses: MigrationStatus[] = migrations.map((migration) => {
+      const record = applied.get(migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: !record ? 'pending' : record.checksum === migration.checksum ? 'applied' : 'modified',
+        applied_at: record ? this.toIsoString(record.applied_at) : null,
+      };
+    });
+    for (const record of applied.values()) {
+      if (!migrations.some((migration) => migration.version === record.version)) {
+        statuses.push({
+          version: record.version,
+          name: record.name,
+          state: 'missing',
+          applied_at: this.toIsoString(record.applied_at),
+        });
+      }
+    }
+    return statuses.sort((a, b) => a.version - b.version);
+  }
+
+  /** Returns false when another process applied the migration first. */
+  private async applyMigration(migration: Migration): Promise<boolean> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      if (getSqlDialect(this.pool).backend === 'postgres') {
+        await client.query('SELECT pg_advisory_xact_lock($1)', [PG_MIGRATION_LOCK_ID]);
+      }
+      const existing = await client.query('SELECT 1 FROM schema_migrations WHERE version = $1', [migration.version]);
+      if (existing.rows.length > 0) {
+        await client.query('ROLLBACK');
+        logger.info(`[MigrationRunner] Migration ${migration.version}_${migration.name} was applied concurrently.`);
+        return false;
+      }
+
+      logger.info(`[MigrationRunner] Applying migration ${migration.version}_${migration.name}...`);
+      await this.runScript(client, migration.sql);
+      await client.query(
+        'INSERT INTO schema_migrations (version, name, checksum, applied_at) VALUES ($1, $2, $3, $4)',
+        [migration.version, migration.name, migration.checksum, new Date().toISOString()]
+      );
+      await client.query('COMMIT');
+      logger.info(`[MigrationRunner] Applied migration ${migration.version}_${migration.name}.`);
+      return true;
+    } catch (error: unknown) {
+      logger.error({ err: error }, `[MigrationRunner] Migration ${migration.version}_${migration.name} failed`);
+      try {
+        await client.query('ROLLBACK');
+      } catch (rollbackError) {
+        logger.error({ err: rollbackError }, '[MigrationRunner] CRITICAL: Error during ROLLBACK');
+      }
+      throw new DatabaseError(`Migration ${migration.version}_${migration.name} failed.`, error);
+    } finally {
+      client.release();
+    }
+  }
+
+  /** Migration files hold several statements; `pg` runs them in one query, better-sqlite3 needs `exec`. */
+  private async runScript(client: DbQueryable, sql: string): Promise<void> {
+    if (this.pool instanceof SqlitePool) {
+      this.pool.exec(sql);
+    } else {
+      await client.query(sql);
+    }
+  }
+
+  private async ensureMigrationsTable(): Promise<void> {
+    await this.runScript(this.pool, SCHEMA_MIGRATIONS_DDL[getSqlDialect(this.pool).backend]);
+  }
+
+  private async findAppliedMigrations(): Promise<Map<number, AppliedMigrationRow>> {
+    const result = await this.pool.query('SELECT version, name, checksum, applied_at FROM schema_migrations');
+    return new Map(
+      result.rows.map((row: AppliedMigrationRow) => [Number(row.version), { ...row, version: Number(row.version) }])
+    );
+  }
+
+  private toIsoString(value: string | Date): string {
+    return value instanceof Date ? value.toISOString() : value;
+  }
+}
@@ -0,0 +1,51 @@
+// src/db/SqlDialect.ts
+import type { DbPool, StorageBackend } from './DatabaseTypes.js';
+
+/**
+ * SQL fragments that differ between the storage backends. Everything else the repositories
+ * write is plain SQL both backends understand. `param` is a placeholder such as `$2` whose value
+ * is a JS array; tags are a `TEXT[]` column in PostgreSQL and a JSON array in SQLite.
+ */
+export interface SqlDialect {
+  readonly backend: Exclude<StorageBackend, 'memory'>;
+  /** `column` equals one of the UUIDs in the array parameter. */
+  inUuidArray(column: string, param: string): string;
+  /** The tags column contains every tag in the array parameter. */
+  tagsContainAll(column: string, param: string): string;
+  /** The tags column shares at least one tag with the array parameter. */
+  tagsOverlap(column: string, param: string): string;
+  /** A join producing one row per tag of the tags column; `tag` is the expression for its value. */
+  unnestTags(column: string, alias: string): { join: string; tag: string };
+  /** The timestamp `column` moved forward by `days`, an expression for a (possibly fractional) number of days. */
+  timestampPlusDays(column: string, days: string): string;
+}
+
+export const postgresDialect: SqlDialect = {
+  backend: 'postgres',
+  inUuidArray: (column, param) => `${column} = ANY(${param}::uuid[])`,
+  tagsContainAll: (column, param) => `(${column} @> ${param}::text[])`,
+  tagsOverlap: (column, param) => `(${column} && ${param}::text[])`,
+  unnestTags: (column, alias) => ({
+    join: `CROSS JOIN LATERAL unnest(${column}) AS ${alias}(tag)`,
+    tag: `${alias}.tag`,
+  }),
+  timestampPlusDays: (column, days) => `(${column} + (${days}) * INTERVAL '1 day')`,
+};
+
+export const sqliteDialect: SqlDialect = {
+  backend: 'sqlite',
+  inUuidArray: (column, param) => `${column} IN (SELECT value FROM json_each(${param}))`,
+  tagsContainAll: (column, param) =>
+    `NOT EXISTS (SELECT 1 FROM json_each(${param}) wanted WHERE wanted.value NOT IN (SELECT value FROM json_each(${column})))`,
+  tagsOverlap: (column, param) =>
+    `EXISTS (SELECT 1 FROM json_each(${column}) present WHERE present.value IN (SELECT value FROM json_each(${param})))`,
+  unnestTags: (column, alias) => ({
+    join: `CROSS JOIN json_each(${column}) AS ${alias}`,
+    tag: `${alias}.value`,
+  }),
+  // Formatted like Date.toISOString(), the format timestamps are stored in, so results compare as text.
+  timestampPlusDays: (column, days) =>
+    `strftime('%Y-%m-%dT%H:%M:%fZ', ${column}, '+' || ((${days}) * 86400) || ' seconds')`,
+};
+
+export const getSqlDialect = (pool: DbPool): SqlDialect => pool.dialect ?? postgresDialect;
@@ -0,0 +1,132 @@
+// src/db/SqlitePool.ts
+import { AsyncLocalStorage } from 'node:async_hooks';
+import Database from 'better-sqlite3';
+import type { DbClient, DbPool, DbQueryResult } from './DatabaseTypes.js';
+import { sqliteDialect } from './SqlDialect.js';
+import { logger } from '../utils/logger.js';
+
+// SQLite has no boolean or array types. These columns are stored as 0/1 and JSON text, and decoded back
+// into the values `pg` would return.
+const BOOLEAN_COLUMNS = new Set(['is_active', 'is_undone']);
+const JSON_ARRAY_COLUMNS = new Set(['tags']);
+
+const encodeValue = (value: unknown): unknown => {
+  if (value === undefined) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value) || (value !== null && typeof value === 'object' && !Buffer.isBuffer(value))) {
+    return JSON.stringify(value);
+  }
+  return value;
+};
+
+const decodeRow = (row: Record<string, unknown>): Record<string, unknown> => {
+  for (const [column, value] of Object.entries(row)) {
+    if (BOOLEAN_COLUMNS.has(column) && typeof value === 'number') {
+      row[column] = value === 1;
+    } else if (JSON_ARRAY_COLUMNS.has(column) && typeof value === 'string') {
+      row[column] = JSON.parse(value);
+    }
+  }
+  return row;
+};
+
+/**
+ * Rewrites the PostgreSQL flavour the repositories write into SQLite: `$n` placeholders become
+ * positional `?` (repeating values as needed), casts are dropped and ILIKE becomes LIKE, which is
+ * case-insensitive for ASCII in SQLite. Comments are removed first so placeholders in them are ignored.
+ */
+export const translateSql = (text: string, values: unknown[] = []): { sql: string; params: unknown[] } => {
+  const params: unknown[] = [];
+  const sql = text
+    .replace(/--[^\n]*/g, '')
+    .replace(/::[a-z_]+(\[\])?/gi, '')
+    .replace(/\bILIKE\b/gi, 'LIKE')
+    .replace(/\$(\d+)/g, (_match, index: string) => {
+      params.push(encodeValue(values[Number(index) - 1]));
+      return '?';
+    });
+  return { sql, params };
+};
+
+/**
+ * A `DbPool` backed by a single better-sqlite3 connection. Queries run synchronously, so the only
+ * thing to coordinate is transactions: `connect()` hands out the connection to one caller at a
+ * time and waits until the previous client has been released. A query on the pool itself waits its
+ * turn the same way, so it never sees another caller's uncommitted writes, unless it comes from
+ * code running as the current client's holder (see `runAsHolder`).
+ */
+export class SqlitePool implements DbPool {
+  public readonly dialect = sqliteDialect;
+  private db: Database.Database;
+  private lock: Promise<void> = Promise.resolve();
+  private activeClient: DbClient | null = null;
+  private readonly holder = new AsyncLocalStorage<DbClient>();
+
+  constructor(filename: string) {
+    this.db = new Database(filename);
+    this.db.pragma('foreign_keys = ON');
+    if (filename !== ':memory:') {
+      this.db.pragma('journal_mode = WAL');
+    }
+  }
+
+  public async query(text: string, values?: unknown[]): Promise<DbQueryResult> {
+    if (this.activeClient !== null && this.holder.getStore() === this.activeClient) {
+      return this.run(text, values);
+    }
+    const client = await this.connect();
+    try {
+      return this.run(text, values);
+    } finally {
+      client.release();
+    }
+  }
+
+  public async connect(): Promise<DbClient> {
+    const previous = this.lock;
+    let releaseLock!: () => void;
+    this.lock = new Promise((resolve) => (releaseLock = resolve));
+    await previous;
+    const client: DbClient = {
+      query: async (text, values) => this.run(text, values),
+      release: () => {
+        if (this.activeClient === client) {
+          this.activeClient = null;
+        }
+        releaseLock();
+      },
+    };
+    this.activeClient = client;
+    return client;
+  }
+
+  public runAsHolder<T>(client: DbClient, callback: () => Promise<T>): Promise<T> {
+    return this.holder.run(client, callback);
+  }
+
+  private run(text: string, values?: unknown[]): DbQueryResult {
+    const { sql, params } = translateSql(text, values);
+    try {
+      const statement = this.db.prepare(sql);
+      if (statement.reader) {
+        const rows = (statement.all(...params) as Record<string, unknown>[]).map(decodeRow);
+        return { rows, rowCount: rows.length };
+      }
+      const info = statement.run(...params);
+      return { rows: [], rowCount: info.changes };
+    } catch (error) {
+      logger.error('[SqlitePool] Query failed', { sql: sql.replace(/\s+/g, ' ').trim(), error });
+      throw error;
+    }
+  }
+
+  /** Runs a script of several statements, such as a migration. */
+  public exec(sql: string): void {
+    this.db.exec(sql);
+  }
+
+  public async end(): Promise<void> {
+    this.db.close();
+  }
+}
@@ -1,53 +1,15 @@
--- src/db/schema.sql
--- Database schema for the MCP Task Manager Server (Unified Work Items Model - PostgreSQL)
--- Includes schema for Action History and Undo/Redo functionality
--- Includes Audit Logging functionality.
--- Ensures DROPs don't fail if old tables/views are missing.
-
--- Drop views first
-DROP VIEW IF EXISTS goals;
-DROP VIEW IF EXISTS tasks;
-DROP VIEW IF EXISTS projects;
-
--- Drop triggers first, as they depend on the function
--- Drop triggers for work_items
-DROP TRIGGER IF EXISTS work_items_audit_trigger ON work_items;
-DROP TRIGGER IF EXISTS work_items_insert_audit_trigger ON work_items;
-DROP TRIGGER IF EXISTS work_items_delete_audit_trigger ON work_items;
--- Drop triggers for work_item_dependencies
-DROP TRIGGER IF EXISTS work_item_dependencies_audit_trigger ON work_item_dependencies;
-DROP TRIGGER IF EXISTS work_item_dependencies_insert_audit_trigger ON work_item_dependencies;
-DROP TRIGGER IF EXISTS work_item_dependencies_delete_audit_trigger ON work_item_dependencies;
--- Drop triggers for action_history
-DROP TRIGGER IF EXISTS action_history_audit_trigger ON action_history;
-DROP TRIGGER IF EXISTS action_history_insert_audit_trigger ON action_history;
-DROP TRIGGER IF EXISTS action_history_delete_audit_trigger ON action_history;
--- Drop triggers for undo_steps
-DROP TRIGGER IF EXISTS undo_steps_audit_trigger ON undo_steps;
-DROP TRIGGER IF EXISTS undo_steps_insert_audit_trigger ON undo_steps;
-DROP TRIGGER IF EXISTS undo_steps_delete_audit_trigger ON undo_steps;
-
--- NOW Drop the audit log trigger function
-DROP FUNCTION IF EXISTS log_audit_trail(); -- Moved here
-
--- Drop tables (order matters due to FKs)
--- Added IF EXISTS to prevent errors if tables don't exist
-DROP TABLE IF EXISTS undo_steps CASCADE;
-DROP TABLE IF EXISTS action_history CASCADE;
-DROP TABLE IF EXISTS work_item_dependencies CASCADE;
-DROP TABLE IF EXISTS work_items CASCADE;
-DROP TABLE IF EXISTS audit_log CASCADE; -- Renamed
-
-
--- Ensure UUID extension is available (usually enabled by default, but good practice)
--- CREATE EXTENSION IF NOT EXISTS "uuid-ossp"; -- Commented out as it might cause issues if already installed
+-- src/db/migrations/postgres/0001_initial_schema.sql
+-- Baseline schema for the MCP Task Manager Server (Unified Work Items Model - PostgreSQL):
+-- work items, dependencies, action history with undo steps, and audit logging.
+-- Written to be idempotent so that databases created by the old drop-and-recreate schema.sql
+-- are adopted as-is; nothing here drops a table.
 
 -- ================================================
 -- Main Data Tables
 -- ================================================
 
 -- Table: work_items
-CREATE TABLE work_items (
+CREATE TABLE IF NOT EXISTS work_items (
     work_item_id UUID PRIMARY KEY NOT NULL,
     parent_work_item_id UUID NULL REFERENCES work_items(work_item_id) ON DELETE NO ACTION,
     name TEXT NOT NULL,
@@ -58,12 +20,11 @@ CREATE TABLE work_items (
     created_at TIMESTAMPTZ NOT NULL,
     updated_at TIMESTAMPTZ NOT NULL,
     due_date TIMESTAMPTZ NULL,
-    is_active BOOLEAN NOT NULL DEFAULT TRUE,
-    tags TEXT[] NULL -- ADDED tags column
+    is_active BOOLEAN NOT NULL DEFAULT TRUE
 );
 
 -- Table: work_item_dependencies
-CREATE TABLE work_item_dependencies (
+CREATE TABLE IF NOT EXISTS work_item_dependencies (
     work_item_id UUID NOT NULL REFERENCES work_items(work_item_id) ON DELETE CASCADE,
     depends_on_work_item_id UUID NOT NULL REFERENCES work_items(work_item_id) ON DELETE CASCADE,
     dependency_type VARCHAR(20) NOT NULL DEFAULT 'finish-to-start' CHECK(dependency_type IN ('finish-to-start', 'linked')),
@@ -72,7 +33,7 @@ CREATE TABLE work_item_dependencies (
 );
 
 -- Table: action_history
-CREATE TABLE action_history (
+CREATE TABLE IF NOT EXISTS action_history (
     action_id UUID PRIMARY KEY NOT NULL,
     timestamp TIMESTAMPTZ NOT NULL,
     action_type VARCHAR(50) NOT NULL,
@@ -83,7 +44,7 @@ CREATE TABLE action_history (
 );
 
 -- Table: undo_steps
-CREATE TABLE undo_steps (
+CREATE TABLE IF NOT EXISTS undo_steps (
     undo_step_id UUID PRIMARY KEY NOT NULL,
     action_id UUID NOT NULL REFERENCES action_history(action_id) ON DELETE CASCADE,
     step_order INTEGER NOT NULL,
@@ -107,7 +68,6 @@ CREATE INDEX IF NOT EXISTS idx_work_items_order_key ON work_items(order_key) WHE
 CREATE INDEX IF NOT EXISTS idx_work_items_parent_order ON work_items(parent_work_item_id, order_key);
 CREATE INDEX IF NOT EXISTS idx_work_items_is_active ON work_items(is_active);
 CREATE INDEX IF NOT EXISTS idx_work_items_parent_active_order ON work_items(parent_work_item_id, is_active, order_key);
-CREATE INDEX IF NOT EXISTS idx_work_items_tags_gin ON work_items USING GIN (tags) WHERE tags IS NOT NULL; -- ADDED GIN index for tags
 
 
 -- Indexes on work_item_dependencies table
@@ -157,7 +117,7 @@ AND is_active = TRUE;
 -- ================================================
 
 -- 1. Create the audit_log table (Renamed from change_logs)
-CREATE TABLE audit_log (
+CREATE TABLE IF NOT EXISTS audit_log (
     log_id UUID PRIMARY KEY DEFAULT gen_random_uuid(), -- Use gen_random_uuid() if uuid-ossp is not enabled
     log_timestamp TIMESTAMPTZ DEFAULT current_timestamp,
     operation_type VARCHAR(10) NOT NULL, -- INSERT, UPDATE, DELETE
@@ -253,65 +213,77 @@ END;
 $$ LANGUAGE plpgsql;
 
 -- 3. Create triggers on the work_items table (Using new function name)
+DROP TRIGGER IF EXISTS work_items_audit_trigger ON work_items;
 CREATE TRIGGER work_items_audit_trigger
 AFTER UPDATE ON work_items
 FOR EACH ROW
 EXECUTE FUNCTION log_audit_trail();
 
+DROP TRIGGER IF EXISTS work_items_insert_audit_trigger ON work_items;
 CREATE TRIGGER work_items_insert_audit_trigger
 AFTER INSERT ON work_items
 FOR EACH ROW
 EXECUTE FUNCTION log_audit_trail();
 
+DROP TRIGGER IF EXISTS work_items_delete_audit_trigger ON work_items;
 CREATE TRIGGER work_items_delete_audit_trigger
 AFTER DELETE ON work_items
 FOR EACH ROW
 EXECUTE FUNCTION log_audit_trail();
 
 -- 4. Create triggers on the work_item_dependencies table (Using new function name)
+DROP TRIGGER IF EXISTS work_item_dependencies_audit_trigger ON work_item_dependencies;
 CREATE TRIGGER work_item_dependencies_audit_trigger
 AFTER UPDATE ON work_item_dependencies
 FOR EACH ROW
 EXECUTE FUNCTION log_audit_trail();
 
+DROP TRIGGER IF EXISTS work_item_dependencies_insert_audit_trigger ON work_item_dependencies;
 CREATE TRIGGER work_item_dependencies_insert_audit_trigger
 AFTER INSERT ON work_item_dependencies
 FOR EACH ROW
 EXECUTE FUNCTION log_audit_trail();
 
+DROP TRIGGER IF EXISTS work_item_dependencies_delete_audit_trigger ON work_item_dependencies;
 CREATE TRIGGER work_item_dependencies_delete_audit_trigger
 AFTER DELETE ON work_item_dependencies
 FOR EACH ROW
 EXECUTE FUNCTION log_audit_trail();
 
 -- 5. Create triggers on the action_history table (NEW)
+DROP TRIGGER IF EXISTS action_history_audit_trigger ON action_history;
 CREATE TRIGGER action_history_audit_trigger
 AFTER UPDATE ON action_history
 FOR EACH ROW
 EXECUTE FUNCTION log_audit_trail();
 
+DROP TRIGGER IF EXISTS action_history_insert_audit_trigger ON action_history;
 CREATE TRIGGER action_history_insert_audit_trigger
 AFTER INSERT ON action_history
 FOR EACH ROW
 EXECUTE FUNCTION log_audit_trail();
 
+DROP TRIGGER IF EXISTS action_history_delete_audit_trigger ON action_history;
 CREATE TRIGGER action_history_delete_audit_trigger
 AFTER DELETE ON action_history
 FOR EACH ROW
 EXECUTE FUNCTION log_audit_trail();
 
 -- 6. Create triggers on the undo_steps table (NEW)
+DROP TRIGGER IF EXISTS undo_steps_audit_trigger ON undo_steps;
 CREATE TRIGGER undo_steps_audit_trigger
 AFTER UPDATE ON undo_steps
 FOR EACH ROW
 EXECUTE FUNCTION log_audit_trail();
 
+DROP TRIGGER IF EXISTS undo_steps_insert_audit_trigger ON undo_steps;
 CREATE TRIGGER undo_steps_insert_audit_trigger
 AFTER INSERT ON undo_steps
 FOR EACH ROW
 EXECUTE FUNCTION log_audit_trail();
 
+DROP TRIGGER IF EXISTS undo_steps_delete_audit_trigger ON undo_steps;
 CREATE TRIGGER undo_steps_delete_audit_trigger
 AFTER DELETE ON undo_steps
 FOR EACH ROW
-EXECUTE FUNCTION log_audit_trail();
\ No newline at end of file
+EXECUTE FUNCTION log_audit_trail();
@@ -0,0 +1,23 @@
+-- src/db/migrations/postgres/0002_work_item_tags.sql
+-- Adds free-form tags to work items. Databases created before tags existed get the column here;
+-- newer ones already have it, so every statement is a no-op for them.
+
+ALTER TABLE work_items ADD COLUMN IF NOT EXISTS tags TEXT[] NULL;
+
+CREATE INDEX IF NOT EXISTS idx_work_items_tags_gin ON work_items USING GIN (tags) WHERE tags IS NOT NULL;
+
+-- The views were expanded from `SELECT *` when they were created; re-create them to pick up the new column.
+CREATE OR REPLACE VIEW projects AS
+SELECT * FROM work_items
+WHERE parent_work_item_id IS NULL
+AND is_active = TRUE;
+
+CREATE OR REPLACE VIEW tasks AS
+SELECT * FROM work_items
+WHERE parent_work_item_id IS NOT NULL
+AND is_active = TRUE;
+
+CREATE OR REPLACE VIEW goals AS
+SELECT * FROM work_items
+WHERE due_date IS NOT NULL
+AND is_active = TRUE;
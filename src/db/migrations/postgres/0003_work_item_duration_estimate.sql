@@ -0,0 +1,21 @@
+-- src/db/migrations/postgres/0003_work_item_duration_estimate.sql
+-- Adds an optional duration estimate, in days, used by the critical path schedule.
+
+ALTER TABLE work_items ADD COLUMN IF NOT EXISTS estimated_duration_days NUMERIC NULL
+    CHECK(estimated_duration_days IS NULL OR estimated_duration_days >= 0);
+
+-- The views were expanded from `SELECT *` when they were created; re-create them to pick up the new column.
+CREATE OR REPLACE VIEW projects AS
+SELECT * FROM work_items
+WHERE parent_work_item_id IS NULL
+AND is_active = TRUE;
+
+CREATE OR REPLACE VIEW tasks AS
+SELECT * FROM work_items
+WHERE parent_work_item_id IS NOT NULL
+AND is_active = TRUE;
+
+CREATE OR REPLACE VIEW goals AS
+SELECT * FROM work_items
+WHERE due_date IS NOT NULL
+AND is_active = TRUE;
@@ -0,0 +1,34 @@
+-- src/db/migrations/postgres/0004_dependency_types_and_lag.sql
+-- Adds the start-to-start, finish-to-finish and start-to-finish dependency types with a lag in days, and
+-- records when each work item was started and completed so lags can be measured from those moments.
+
+ALTER TABLE work_item_dependencies ADD COLUMN IF NOT EXISTS lag_days NUMERIC NOT NULL DEFAULT 0
+    CHECK(lag_days >= 0);
+
+-- The type CHECK was declared inline in 0001, so it carries PostgreSQL's default constraint name.
+ALTER TABLE work_item_dependencies DROP CONSTRAINT IF EXISTS work_item_dependencies_dependency_type_check;
+ALTER TABLE work_item_dependencies ADD CONSTRAINT work_item_dependencies_dependency_type_check
+    CHECK(dependency_type IN ('finish-to-start', 'start-to-start', 'finish-to-finish', 'start-to-finish', 'linked'));
+
+ALTER TABLE work_items ADD COLUMN IF NOT EXISTS started_at TIMESTAMPTZ NULL;
+ALTER TABLE work_items ADD COLUMN IF NOT EXISTS completed_at TIMESTAMPTZ NULL;
+
+-- The best guess for items that were already under way is their last change.
+UPDATE work_items SET started_at = updated_at WHERE status <> 'todo' AND started_at IS NULL;
+UPDATE work_items SET completed_at = updated_at WHERE status = 'done' AND completed_at IS NULL;
+
+-- The views were expanded from `SELECT *` when they were created; re-create them to pick up the new columns.
+CREATE OR REPLACE VIEW projects AS
+SELECT * FROM work_items
+WHERE parent_work_item_id IS NULL
+AND is_active = TRUE;
+
+CREATE OR REPLACE VIEW tasks AS
+SELECT * FROM work_items
+WHERE parent_work_item_id IS NOT NULL
+AND is_active = TRUE;
+
+CREATE OR REPLACE VIEW goals AS
+SELECT * FROM work_items
+WHERE due_date IS NOT NULL
+AND is_active = TRUE;
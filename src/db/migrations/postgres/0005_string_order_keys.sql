@@ -0,0 +1,51 @@
+-- src/db/migrations/postgres/0005_string_order_keys.sql
+-- Order keys become strings of digits and lowercase letters, read as base-36 fractions and compared byte by
+-- byte (COLLATE "C"), so another key always fits between two siblings. Existing keys are renumbered per parent
+-- in their old order; rows that shared a key are told apart by creation time.
+
+CREATE TEMPORARY TABLE migrated_order_keys ON COMMIT DROP AS
+SELECT work_item_id,
+       lpad(ROW_NUMBER() OVER (
+           PARTITION BY parent_work_item_id ORDER BY order_key, created_at, work_item_id
+       )::text, 6, '0') || 'i' AS order_key
+FROM work_items
+WHERE order_key IS NOT NULL;
+
+-- The views were expanded from `SELECT *` and pin the column type, so they are re-created below.
+DROP VIEW IF EXISTS projects;
+DROP VIEW IF EXISTS tasks;
+DROP VIEW IF EXISTS goals;
+
+ALTER TABLE work_items ALTER COLUMN order_key TYPE TEXT COLLATE "C" USING NULL::text;
+
+UPDATE work_items SET order_key = migrated.order_key
+FROM migrated_order_keys migrated
+WHERE migrated.work_item_id = work_items.work_item_id;
+
+-- Undoing an older action must not bring a numeric key back; it keeps the item where it is now instead.
+UPDATE undo_steps SET old_data = jsonb_set(old_data, '{order_key}', COALESCE(to_jsonb(w.order_key), 'null'::jsonb))
+FROM work_items w
+WHERE undo_steps.table_name = 'work_items'
+AND undo_steps.record_id = w.work_item_id::text
+AND jsonb_typeof(undo_steps.old_data -> 'order_key') IN ('string', 'number');
+
+UPDATE undo_steps SET new_data = jsonb_set(new_data, '{order_key}', COALESCE(to_jsonb(w.order_key), 'null'::jsonb))
+FROM work_items w
+WHERE undo_steps.table_name = 'work_items'
+AND undo_steps.record_id = w.work_item_id::text
+AND jsonb_typeof(undo_steps.new_data -> 'order_key') IN ('string', 'number');
+
+CREATE OR REPLACE VIEW projects AS
+SELECT * FROM work_items
+WHERE parent_work_item_id IS NULL
+AND is_active = TRUE;
+
+CREATE OR REPLACE VIEW tasks AS
+SELECT * FROM work_items
+WHERE parent_work_item_id IS NOT NULL
+AND is_active = TRUE;
+
+CREATE OR REPLACE VIEW goals AS
+SELECT * FROM work_items
+WHERE due_date IS NOT NULL
+AND is_active = TRUE;
@@ -0,0 +1,20 @@
+-- src/db/migrations/postgres/0006_work_item_templates.sql
+-- Named project templates. Every change to a template is stored as a new version and old versions are kept,
+-- so a template can still be instantiated exactly as it was. A version's structure is the JSON tree of items
+-- with `{{variable}}` placeholders in names and descriptions and due dates as day offsets.
+
+CREATE TABLE IF NOT EXISTS work_item_templates (
+    template_id UUID PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL UNIQUE,
+    description TEXT NULL,
+    created_at TIMESTAMPTZ NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS work_item_template_versions (
+    template_id UUID NOT NULL REFERENCES work_item_templates(template_id) ON DELETE CASCADE,
+    version INTEGER NOT NULL CHECK(version > 0),
+    structure JSONB NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL,
+    PRIMARY KEY (template_id, version)
+);
@@ -0,0 +1,152 @@
+-- src/db/migrations/sqlite/0001_initial_schema.sql
+-- Baseline schema for the MCP Task Manager Server (Unified Work Items Model - SQLite)
+-- Mirrors the PostgreSQL migrations up to 0002 (tags included). Differences:
+--   * UUIDs and timestamps are TEXT (ISO 8601, so they sort chronologically).
+--   * Booleans are INTEGER 0/1.
+--   * tags and undo step data are JSON text; tag queries use json_each() instead of a GIN index.
+-- Databases created before migrations existed already have these objects, so everything is IF NOT EXISTS.
+
+-- ================================================
+-- Main Data Tables
+-- ================================================
+
+CREATE TABLE IF NOT EXISTS work_items (
+    work_item_id TEXT PRIMARY KEY NOT NULL,
+    parent_work_item_id TEXT NULL REFERENCES work_items(work_item_id) ON DELETE NO ACTION,
+    name TEXT NOT NULL,
+    description TEXT NULL,
+    status TEXT NOT NULL CHECK(status IN ('todo', 'in-progress', 'review', 'done')),
+    priority TEXT NOT NULL CHECK(priority IN ('high', 'medium', 'low')),
+    order_key NUMERIC NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    due_date TEXT NULL,
+    is_active INTEGER NOT NULL DEFAULT 1,
+    tags TEXT NULL CHECK(tags IS NULL OR json_type(tags) = 'array')
+);
+
+CREATE TABLE IF NOT EXISTS work_item_dependencies (
+    work_item_id TEXT NOT NULL REFERENCES work_items(work_item_id) ON DELETE CASCADE,
+    depends_on_work_item_id TEXT NOT NULL REFERENCES work_items(work_item_id) ON DELETE CASCADE,
+    dependency_type TEXT NOT NULL DEFAULT 'finish-to-start' CHECK(dependency_type IN ('finish-to-start', 'linked')),
+    is_active INTEGER NOT NULL DEFAULT 1,
+    PRIMARY KEY (work_item_id, depends_on_work_item_id)
+);
+
+CREATE TABLE IF NOT EXISTS action_history (
+    action_id TEXT PRIMARY KEY NOT NULL,
+    timestamp TEXT NOT NULL,
+    action_type TEXT NOT NULL,
+    work_item_id TEXT NULL,
+    description TEXT NULL,
+    is_undone INTEGER NOT NULL DEFAULT 0,
+    undone_at_action_id TEXT NULL REFERENCES action_history(action_id) ON DELETE SET NULL
+);
+
+CREATE TABLE IF NOT EXISTS undo_steps (
+    undo_step_id TEXT PRIMARY KEY NOT NULL,
+    action_id TEXT NOT NULL REFERENCES action_history(action_id) ON DELETE CASCADE,
+    step_order INTEGER NOT NULL,
+    step_type TEXT NOT NULL CHECK(step_type IN ('UPDATE')),
+    table_name TEXT NOT NULL,
+    record_id TEXT NOT NULL,
+    old_data TEXT NULL,
+    new_data TEXT NULL
+);
+
+-- ================================================
+-- Indexes for Performance
+-- ================================================
+
+CREATE INDEX IF NOT EXISTS idx_work_items_parent_id ON work_items(parent_work_item_id);
+CREATE INDEX IF NOT EXISTS idx_work_items_status ON work_items(status);
+CREATE INDEX IF NOT EXISTS idx_work_items_priority ON work_items(priority);
+CREATE INDEX IF NOT EXISTS idx_work_items_due_date ON work_items(due_date) WHERE due_date IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_work_items_order_key ON work_items(order_key) WHERE order_key IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_work_items_parent_order ON work_items(parent_work_item_id, order_key);
+CREATE INDEX IF NOT EXISTS idx_work_items_is_active ON work_items(is_active);
+CREATE INDEX IF NOT EXISTS idx_work_items_parent_active_order ON work_items(parent_work_item_id, is_active, order_key);
+
+CREATE INDEX IF NOT EXISTS idx_work_item_dependencies_depends_on ON work_item_dependencies(depends_on_work_item_id);
+CREATE INDEX IF NOT EXISTS idx_work_item_dependencies_is_active ON work_item_dependencies(is_active);
+CREATE INDEX IF NOT EXISTS idx_work_item_dependencies_active_work_item ON work_item_dependencies(work_item_id, is_active);
+CREATE INDEX IF NOT EXISTS idx_work_item_dependencies_active_depends_on ON work_item_dependencies(depends_on_work_item_id, is_active);
+
+CREATE INDEX IF NOT EXISTS idx_action_history_timestamp ON action_history(timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_action_history_work_item_id ON action_history(work_item_id);
+CREATE INDEX IF NOT EXISTS idx_action_history_is_undone ON action_history(is_undone);
+CREATE INDEX IF NOT EXISTS idx_action_history_undone_at_action_id ON action_history(undone_at_action_id);
+CREATE INDEX IF NOT EXISTS idx_action_history_action_type ON action_history(action_type);
+
+CREATE INDEX IF NOT EXISTS idx_undo_steps_action_id ON undo_steps(action_id);
+CREATE INDEX IF NOT EXISTS idx_undo_steps_record_id ON undo_steps(record_id);
+CREATE INDEX IF NOT EXISTS idx_undo_steps_action_order ON undo_steps(action_id, step_order);
+
+-- ================================================
+-- Convenience Views
+-- ================================================
+
+CREATE VIEW IF NOT EXISTS projects AS
+SELECT * FROM work_items
+WHERE parent_work_item_id IS NULL
+AND is_active = 1;
+
+CREATE VIEW IF NOT EXISTS tasks AS
+SELECT * FROM work_items
+WHERE parent_work_item_id IS NOT NULL
+AND is_active = 1;
+
+CREATE VIEW IF NOT EXISTS goals AS
+SELECT * FROM work_items
+WHERE due_date IS NOT NULL
+AND is_active = 1;
+
+-- ================================================
+-- Audit Logging
+-- ================================================
+
+CREATE TABLE IF NOT EXISTS audit_log (
+    log_id INTEGER PRIMARY KEY AUTOINCREMENT,
+    log_timestamp TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now')),
+    operation_type TEXT NOT NULL, -- INSERT, UPDATE, DELETE
+    schema_name TEXT NOT NULL,
+    table_name TEXT NOT NULL,
+    record_pk TEXT NULL,
+    old_row_data TEXT NULL,
+    new_row_data TEXT NULL
+);
+CREATE INDEX IF NOT EXISTS idx_audit_log_timestamp ON audit_log(log_timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_table_pk ON audit_log(table_name, record_pk);
+
+-- SQLite has no to_jsonb(), so the audit trail records the operation and key only.
+CREATE TRIGGER IF NOT EXISTS work_items_insert_audit_trigger AFTER INSERT ON work_items
+BEGIN
+    INSERT INTO audit_log (operation_type, schema_name, table_name, record_pk)
+    VALUES ('INSERT', 'main', 'work_items', NEW.work_item_id);
+END;
+CREATE TRIGGER IF NOT EXISTS work_items_audit_trigger AFTER UPDATE ON work_items
+BEGIN
+    INSERT INTO audit_log (operation_type, schema_name, table_name, record_pk)
+    VALUES ('UPDATE', 'main', 'work_items', OLD.work_item_id);
+END;
+CREATE TRIGGER IF NOT EXISTS work_items_delete_audit_trigger AFTER DELETE ON work_items
+BEGIN
+    INSERT INTO audit_log (operation_type, schema_name, table_name, record_pk)
+    VALUES ('DELETE', 'main', 'work_items', OLD.work_item_id);
+END;
+
+CREATE TRIGGER IF NOT EXISTS work_item_dependencies_insert_audit_trigger AFTER INSERT ON work_item_dependencies
+BEGIN
+    INSERT INTO audit_log (operation_type, schema_name, table_name, record_pk)
+    VALUES ('INSERT', 'main', 'work_item_dependencies', NEW.work_item_id || ':' || NEW.depends_on_work_item_id);
+END;
+CREATE TRIGGER IF NOT EXISTS work_item_dependencies_audit_trigger AFTER UPDATE ON work_item_dependencies
+BEGIN
+    INSERT INTO audit_log (operation_type, schema_name, table_name, record_pk)
+    VALUES ('UPDATE', 'main', 'work_item_dependencies', OLD.work_item_id || ':' || OLD.depends_on_work_item_id);
+END;
+CREATE TRIGGER IF NOT EXISTS work_item_dependencies_delete_audit_trigger AFTER DELETE ON work_item_dependencies
+BEGIN
+    INSERT INTO audit_log (operation_type, schema_name, table_name, record_pk)
+    VALUES ('DELETE', 'main', 'work_item_dependencies', OLD.work_item_id || ':' || OLD.depends_on_work_item_id);
+END;
@@ -0,0 +1,6 @@
+-- src/db/migrations/sqlite/0002_work_item_duration_estimate.sql
+-- Mirrors postgres/0003: an optional duration estimate, in days, used by the critical path schedule.
+-- SQLite re-expands `SELECT *` in views on every use, so the views need no change.
+
+ALTER TABLE work_items ADD COLUMN estimated_duration_days NUMERIC NULL
+    CHECK(estimated_duration_days IS NULL OR estimated_duration_days >= 0);
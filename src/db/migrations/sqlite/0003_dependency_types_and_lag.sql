@@ -0,0 +1,48 @@
+-- src/db/migrations/sqlite/0003_dependency_types_and_lag.sql
+-- Mirrors postgres/0004: more dependency types with a lag in days, and start/completion times of work items.
+-- SQLite cannot change a CHECK constraint in place, so work_item_dependencies is rebuilt with its indexes
+-- and triggers. Nothing references the table, so it can be dropped with foreign keys enabled.
+
+CREATE TABLE work_item_dependencies_new (
+    work_item_id TEXT NOT NULL REFERENCES work_items(work_item_id) ON DELETE CASCADE,
+    depends_on_work_item_id TEXT NOT NULL REFERENCES work_items(work_item_id) ON DELETE CASCADE,
+    dependency_type TEXT NOT NULL DEFAULT 'finish-to-start'
+        CHECK(dependency_type IN ('finish-to-start', 'start-to-start', 'finish-to-finish', 'start-to-finish', 'linked')),
+    is_active INTEGER NOT NULL DEFAULT 1,
+    lag_days NUMERIC NOT NULL DEFAULT 0 CHECK(lag_days >= 0),
+    PRIMARY KEY (work_item_id, depends_on_work_item_id)
+);
+
+INSERT INTO work_item_dependencies_new (work_item_id, depends_on_work_item_id, dependency_type, is_active)
+SELECT work_item_id, depends_on_work_item_id, dependency_type, is_active FROM work_item_dependencies;
+
+DROP TABLE work_item_dependencies;
+ALTER TABLE work_item_dependencies_new RENAME TO work_item_dependencies;
+
+CREATE INDEX idx_work_item_dependencies_depends_on ON work_item_dependencies(depends_on_work_item_id);
+CREATE INDEX idx_work_item_dependencies_is_active ON work_item_dependencies(is_active);
+CREATE INDEX idx_work_item_dependencies_active_work_item ON work_item_dependencies(work_item_id, is_active);
+CREATE INDEX idx_work_item_dependencies_active_depends_on ON work_item_dependencies(depends_on_work_item_id, is_active);
+
+CREATE TRIGGER work_item_dependencies_insert_audit_trigger AFTER INSERT ON work_item_dependencies
+BEGIN
+    INSERT INTO audit_log (operation_type, schema_name, table_name, record_pk)
+    VALUES ('INSERT', 'main', 'work_item_dependencies', NEW.work_item_id || ':' || NEW.depends_on_work_item_id);
+END;
+CREATE TRIGGER work_item_dependencies_audit_trigger AFTER UPDATE ON work_item_dependencies
+BEGIN
+    INSERT INTO audit_log (operation_type, schema_name, table_name, record_pk)
+    VALUES ('UPDATE', 'main', 'work_item_dependencies', OLD.work_item_id || ':' || OLD.depends_on_work_item_id);
+END;
+CREATE TRIGGER work_item_dependencies_delete_audit_trigger AFTER DELETE ON work_item_dependencies
+BEGIN
+    INSERT INTO audit_log (operation_type, schema_name, table_name, record_pk)
+    VALUES ('DELETE', 'main', 'work_item_dependencies', OLD.work_item_id || ':' || OLD.depends_on_work_item_id);
+END;
+
+ALTER TABLE work_items ADD COLUMN started_at TEXT NULL;
+ALTER TABLE work_items ADD COLUMN completed_at TEXT NULL;
+
+-- The best guess for items that were already under way is their last change.
+UPDATE work_items SET started_at = updated_at WHERE status <> 'todo' AND started_at IS NULL;
+UPDATE work_items SET completed_at = updated_at WHERE status = 'done' AND completed_at IS NULL;
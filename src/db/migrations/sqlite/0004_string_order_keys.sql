@@ -0,0 +1,43 @@
+-- src/db/migrations/sqlite/0004_string_order_keys.sql
+-- Mirrors postgres/0005: order keys become base-36 strings compared byte by byte, renumbered per parent in
+-- their old order. A NUMERIC column would turn keys like '9' into numbers, and SQLite cannot change a column
+-- type, so a TEXT column replaces it and the indexes on it are re-created.
+
+DROP INDEX IF EXISTS idx_work_items_order_key;
+DROP INDEX IF EXISTS idx_work_items_parent_order;
+DROP INDEX IF EXISTS idx_work_items_parent_active_order;
+
+ALTER TABLE work_items RENAME COLUMN order_key TO numeric_order_key;
+ALTER TABLE work_items ADD COLUMN order_key TEXT NULL;
+
+UPDATE work_items SET order_key = migrated.order_key
+FROM (
+    SELECT work_item_id,
+           printf('%06di', ROW_NUMBER() OVER (
+               PARTITION BY parent_work_item_id ORDER BY numeric_order_key, created_at, work_item_id
+           )) AS order_key
+    FROM work_items
+    WHERE numeric_order_key IS NOT NULL
+) AS migrated
+WHERE migrated.work_item_id = work_items.work_item_id;
+
+ALTER TABLE work_items DROP COLUMN numeric_order_key;
+
+-- Undoing an older action must not bring a numeric key back; it keeps the item where it is now instead.
+UPDATE undo_steps SET old_data = json_set(
+    old_data, '$.order_key', (SELECT order_key FROM work_items WHERE work_item_id = undo_steps.record_id)
+)
+WHERE table_name = 'work_items'
+AND json_type(old_data, '$.order_key') IN ('text', 'integer', 'real')
+AND record_id IN (SELECT work_item_id FROM work_items);
+
+UPDATE undo_steps SET new_data = json_set(
+    new_data, '$.order_key', (SELECT order_key FROM work_items WHERE work_item_id = undo_steps.record_id)
+)
+WHERE table_name = 'work_items'
+AND json_type(new_data, '$.order_key') IN ('text', 'integer', 'real')
+AND record_id IN (SELECT work_item_id FROM work_items);
+
+CREATE INDEX idx_work_items_order_key ON work_items(order_key) WHERE order_key IS NOT NULL;
+CREATE INDEX idx_work_items_parent_order ON work_items(parent_work_item_id, order_key);
+CREATE INDEX idx_work_items_parent_active_order ON work_items(parent_work_item_id, is_active, order_key);
@@ -0,0 +1,19 @@
+-- src/db/migrations/sqlite/0005_work_item_templates.sql
+-- Mirrors postgres/0006: named templates with every version kept. UUIDs and timestamps are TEXT and the
+-- structure is JSON text.
+
+CREATE TABLE IF NOT EXISTS work_item_templates (
+    template_id TEXT PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL UNIQUE,
+    description TEXT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS work_item_template_versions (
+    template_id TEXT NOT NULL REFERENCES work_item_templates(template_id) ON DELETE CASCADE,
+    version INTEGER NOT NULL CHECK(version > 0),
+    structure TEXT NOT NULL CHECK(json_valid(structure)),
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (template_id, version)
+);
@@ -1,5 +1,5 @@
 // src/repositories/ActionHistoryRepository.ts
-import { Pool, PoolClient } from 'pg';
+import type { DbClient, DbPool } from '../db/DatabaseTypes.js';
 import {
   ActionHistoryRepositoryBase,
   ActionHistoryData,
@@ -18,7 +18,7 @@ export class ActionHistoryRepository extends ActionHistoryRepositoryBase {
   private actions: ActionHistoryRepositoryActions;
   private steps: ActionHistoryRepositorySteps;
 
-  constructor(pool: Pool) {
+  constructor(pool: DbPool) {
     super(pool);
     this.actions = new ActionHistoryRepositoryActions(pool);
     this.steps = new ActionHistoryRepositorySteps(pool);
@@ -42,7 +42,7 @@ export class ActionHistoryRepository extends ActionHistoryRepositoryBase {
     });
   }
 
-  public createActionInClient(actionData: CreateActionHistoryInput, client: PoolClient): Promise<ActionHistoryData> {
+  public createActionInClient(actionData: CreateActionHistoryInput, client: DbClient): Promise<ActionHistoryData> {
     return this.actions.createActionInClient(actionData, client);
   }
 
@@ -58,23 +58,23 @@ export class ActionHistoryRepository extends ActionHistoryRepositoryBase {
     return this.actions.findLastUndoAction();
   }
 
-  public findRecentUndoActionsInClient(client: PoolClient, limit?: number): Promise<ActionHistoryData[]> {
+  public findRecentUndoActionsInClient(client: DbClient, limit?: number): Promise<ActionHistoryData[]> {
     return this.actions.findRecentUndoActionsInClient(client, limit);
   }
 
-  public markActionAsUndone(actionId: string, undoActionId: string, client: PoolClient): Promise<void> {
+  public markActionAsUndone(actionId: string, undoActionId: string, client: DbClient): Promise<void> {
     return this.actions.markActionAsUndone(actionId, undoActionId, client);
   }
 
   public markUndoActionAsRedone(
     undoActionId: string,
     redoOrInvalidatingActionId: string | null,
-    client: PoolClient
+    client: DbClient
   ): Promise<void> {
     return this.actions.markUndoActionAsRedone(undoActionId, redoOrInvalidatingActionId, client);
   }
 
-  public markActionAsNotUndone(actionId: string, client: PoolClient): Promise<void> {
+  public markActionAsNotUndone(actionId: string, client: DbClient): Promise<void> {
     return this.actions.markActionAsNotUndone(actionId, client);
   }
 
@@ -98,7 +98,7 @@ export class ActionHistoryRepository extends ActionHistoryRepositoryBase {
   // Step Operations
   public createUndoStepInClient(
     stepData: CreateUndoStepInput & { action_id: string },
-    client: PoolClient
+    client: DbClient
   ): Promise<void> {
     return this.steps.createUndoStepInClient(stepData, client);
   }
@@ -1,5 +1,5 @@
 // src/repositories/ActionHistoryRepositoryActions.ts
-import { Pool, PoolClient } from 'pg';
+import type { DbClient, DbPool } from '../db/DatabaseTypes.js';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger.js';
 import {
@@ -10,13 +10,21 @@ import {
 } from './ActionHistoryRepositoryBase.js';
 import { ActionHistoryRepositorySteps } from './ActionHistoryRepositorySteps.js';
 
+// Undo and redo pick the latest action by timestamp, so two actions recorded in the same millisecond
+// would be ambiguous. Timestamps handed out by this process are kept strictly increasing.
+let lastActionTime = 0;
+const nextActionTimestamp = (): string => {
+  lastActionTime = Math.max(Date.now(), lastActionTime + 1);
+  return new Date(lastActionTime).toISOString();
+};
+
 /**
  * Handles operations related to the action_history table.
  */
 export class ActionHistoryRepositoryActions extends ActionHistoryRepositoryBase {
   private stepsHelper: ActionHistoryRepositorySteps;
 
-  constructor(pool: Pool) {
+  constructor(pool: DbPool) {
     super(pool);
     this.stepsHelper = new ActionHistoryRepositorySteps(pool);
   }
@@ -45,9 +53,9 @@ export class ActionHistoryRepositoryActions extends ActionHistoryRepositoryBase
   /** Creates a new action history record within an existing transaction. */
   public async createActionInClient(
     actionData: CreateActionHistoryInput,
-    client: PoolClient
+    client: DbClient
   ): Promise<ActionHistoryData> {
-    const now = new Date().toISOString();
+    const now = nextActionTimestamp();
     const actionId = uuidv4();
     const insertActionSql = ` INSERT INTO action_history (action_id, timestamp, action_type, work_item_id, description, is_undone, undone_at_action_id) VALUES ($1, $2, $3, $4, $5, FALSE, NULL) RETURNING *; `;
     const actionParams = [
@@ -117,7 +125,7 @@ export class ActionHistoryRepositoryActions extends ActionHistoryRepositoryBase
   }
 
   /** Finds recent UNDO_ACTIONs that have not been redone, within a transaction. */
-  public async findRecentUndoActionsInClient(client: PoolClient, limit: number = 100): Promise<ActionHistoryData[]> {
+  public async findRecentUndoActionsInClient(client: DbClient, limit: number = 100): Promise<ActionHistoryData[]> {
     const sql = ` SELECT * FROM action_history WHERE is_undone = FALSE AND action_type = 'UNDO_ACTION' ORDER BY timestamp DESC LIMIT $1; `;
     try {
       const result = await client.query(sql, [limit]);
@@ -132,7 +140,7 @@ export class ActionHistoryRepositoryActions extends ActionHistoryRepositoryBase
   }
 
   /** Marks an original action record as undone by linking it to the UNDO_ACTION record. */
-  public async markActionAsUndone(actionId: string, undoActionId: string, client: PoolClient): Promise<void> {
+  public async markActionAsUndone(actionId: string, undoActionId: string, client: DbClient): Promise<void> {
     const sql = ` UPDATE action_history SET is_undone = TRUE, undone_at_action_id = $2 WHERE action_id = $1; `;
     try {
       const result = await client.query(sql, [actionId, undoActionId]);
@@ -152,7 +160,7 @@ export class ActionHistoryRepositoryActions extends ActionHistoryRepositoryBase
   public async markUndoActionAsRedone(
     undoActionId: string,
     redoOrInvalidatingActionId: string | null,
-    client: PoolClient
+    client: DbClient
   ): Promise<void> {
     const sql = ` UPDATE action_history SET is_undone = TRUE, undone_at_action_id = $2 WHERE action_id = $1 AND action_type = 'UNDO_ACTION'; `;
     try {
@@ -174,7 +182,7 @@ export class ActionHistoryRepositoryActions extends ActionHistoryRepositoryBase
   }
 
   /** Marks an original action history record as NOT undone (e.g., after a redo), clearing the link. */
-  public async markActionAsNotUndone(actionId: string, client: PoolClient): Promise<void> {
+  public async markActionAsNotUndone(actionId: string, client: DbClient): Promise<void> {
     const sql = ` UPDATE action_history SET is_undone = FALSE, undone_at_action_id = NULL WHERE action_id = $1; `;
     try {
       const result = await client.query(sql, [actionId]);
@@ -1,5 +1,5 @@
 // src/repositories/ActionHistoryRepositoryBase.ts
-import { Pool, PoolClient } from 'pg';
+import type { DbClient, DbPool } from '../db/DatabaseTypes.js';
 import { logger } from '../utils/logger.js';
 
 // Define interfaces for the history data based on schema
@@ -35,14 +35,14 @@ export interface CreateUndoStepInput extends Omit<UndoStepData, 'undo_step_id' |
  * Contains shared properties, types, and helper methods.
  */
 export class ActionHistoryRepositoryBase {
-  protected pool: Pool;
+  protected pool: DbPool;
 
-  constructor(pool: Pool) {
+  constructor(pool: DbPool) {
     this.pool = pool;
   }
 
-  /** Safely gets a PoolClient, throwing if called without one in a context requiring it. */
-  protected getClient(client?: PoolClient): PoolClient {
+  /** Safely gets a DbClient, throwing if called without one in a context requiring it. */
+  protected getClient(client?: DbClient): DbClient {
     if (!client) {
       logger.error('[ActionHistoryRepositoryBase] Transactional method called without a client.');
       throw new Error('Repository transactional method requires a client instance.');
@@ -51,7 +51,7 @@ export class ActionHistoryRepositoryBase {
   }
 
   /** Returns the client if provided, otherwise the pool for read operations. */
-  protected getClientOrPool(client?: PoolClient): PoolClient | Pool {
+  protected getClientOrPool(client?: DbClient): DbClient | DbPool {
     return client ?? this.pool;
   }
 
@@ -98,12 +98,20 @@ export class ActionHistoryRepositoryBase {
     };
   }
 
-  /** Wraps a database operation in a transaction */
-  public async withTransaction<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
+  /**
+   * Wraps a database operation in a transaction. When an outer transaction's client is passed,
+   * the callback joins that transaction instead, so the caller commits or rolls back both together.
+   */
+  public async withTransaction<T>(callback: (client: DbClient) => Promise<T>, outerClient?: DbClient): Promise<T> {
+    if (outerClient) {
+      return callback(outerClient);
+    }
     const client = await this.pool.connect();
     try {
       await client.query('BEGIN');
-      const result = await callback(client);
+      const result = this.pool.runAsHolder
+        ? await this.pool.runAsHolder(client, () => callback(client))
+        : await callback(client);
       await client.query('COMMIT');
       return result;
     } catch (error: unknown) {
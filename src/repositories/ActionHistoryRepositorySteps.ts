@@ -1,5 +1,5 @@
 // src/repositories/ActionHistoryRepositorySteps.ts
-import { Pool, PoolClient } from 'pg';
+import type { DbClient, DbPool } from '../db/DatabaseTypes.js';
 import { v4 as uuidv4 } from 'uuid';
 import { logger } from '../utils/logger.js';
 import { ActionHistoryRepositoryBase, UndoStepData, CreateUndoStepInput } from './ActionHistoryRepositoryBase.js';
@@ -8,14 +8,14 @@ import { ActionHistoryRepositoryBase, UndoStepData, CreateUndoStepInput } from '
  * Handles operations related to the undo_steps table.
  */
 export class ActionHistoryRepositorySteps extends ActionHistoryRepositoryBase {
-  constructor(pool: Pool) {
+  constructor(pool: DbPool) {
     super(pool);
   }
 
   /** Creates a new undo step record within an existing transaction. */
   public async createUndoStepInClient(
     stepData: CreateUndoStepInput & { action_id: string },
-    client: PoolClient
+    client: DbClient
   ): Promise<void> {
     const stepId = uuidv4();
     const insertStepSql = ` INSERT INTO undo_steps (undo_step_id, action_id, step_order, step_type, table_name, record_id, old_data, new_data) VALUES ($1, $2, $3, $4, $5, $6, $7, $8); `;
@@ -0,0 +1,26 @@
+// src/repositories/InMemoryRepositories.ts
+import { SqlitePool } from '../db/SqlitePool.js';
+import { MigrationRunner } from '../db/MigrationRunner.js';
+import { WorkItemRepository } from './WorkItemRepository.js';
+import { ActionHistoryRepository } from './ActionHistoryRepository.js';
+
+export interface InMemoryRepositories {
+  pool: SqlitePool;
+  workItemRepository: WorkItemRepository;
+  actionHistoryRepository: ActionHistoryRepository;
+}
+
+/**
+ * Creates repositories over a fresh, private in-memory database with every migration applied, ready to be
+ * injected into a `WorkItemService`. Transactions are real, so `withTransaction` rolls back on error exactly
+ * as it does against PostgreSQL. Nothing is persisted; call `pool.end()` to discard the data.
+ */
+export async function createInMemoryRepositories(): Promise<InMemoryRepositories> {
+  const pool = new SqlitePool(':memory:');
+  await new MigrationRunner(pool).migrate();
+  return {
+    pool,
+    workItemRepository: new WorkItemRepository(pool),
+    actionHistoryRepository: new ActionHistoryRepository(pool),
+  };
+}
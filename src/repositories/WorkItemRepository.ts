@@ -1,11 +1,20 @@
 // src/repositories/WorkItemRepository.ts
-import { type Pool, type PoolClient } from 'pg';
+import type { DbClient, DbPool } from '../db/DatabaseTypes.js';
 import { WorkItemRepositoryBase, type WorkItemData, type WorkItemDependencyData } from './WorkItemRepositoryBase.js';
 import { WorkItemRepositoryCRUD } from './WorkItemRepositoryCRUD.js';
 import { WorkItemRepositoryHierarchy } from './WorkItemRepositoryHierarchy.js';
 import { WorkItemRepositoryDependencies } from './WorkItemRepositoryDependencies.js';
-import { WorkItemRepositorySearchOrder, type CandidateTaskFilters } from './WorkItemRepositorySearchOrder.js';
+import {
+  WorkItemRepositorySearchOrder,
+  type CandidateTaskFilters,
+  type TagUsageCount,
+} from './WorkItemRepositorySearchOrder.js';
 import { WorkItemRepositoryUndoRedo } from './WorkItemRepositoryUndoRedo.js';
+import {
+  WorkItemRepositoryTemplates,
+  type WorkItemTemplateData,
+  type WorkItemTemplateVersionData,
+} from './WorkItemRepositoryTemplates.js';
 import { ValidationError } from '../utils/errors.js';
 
 /**
@@ -18,47 +27,45 @@ export class WorkItemRepository extends WorkItemRepositoryBase {
   private dependenciesRepo: WorkItemRepositoryDependencies;
   private searchOrder: WorkItemRepositorySearchOrder;
   private undoRedo: WorkItemRepositoryUndoRedo;
+  private templates: WorkItemRepositoryTemplates;
 
-  constructor(pool: Pool) {
+  constructor(pool: DbPool) {
     super(pool);
     this.crud = new WorkItemRepositoryCRUD(pool);
     this.hierarchy = new WorkItemRepositoryHierarchy(pool);
     this.dependenciesRepo = new WorkItemRepositoryDependencies(pool);
     this.searchOrder = new WorkItemRepositorySearchOrder(pool);
     this.undoRedo = new WorkItemRepositoryUndoRedo(pool);
+    this.templates = new WorkItemRepositoryTemplates(pool);
   }
 
   // CRUD Operations
-  public create(
-    client: PoolClient,
-    item: WorkItemData,
-    dependencies?: WorkItemDependencyData[]
-  ): Promise<WorkItemData> {
+  public create(client: DbClient, item: WorkItemData, dependencies?: WorkItemDependencyData[]): Promise<WorkItemData> {
     return this.crud.create(client, item, dependencies);
   }
   public findById(
     workItemId: string,
     filter?: { isActive?: boolean },
-    client?: PoolClient | Pool
+    client?: DbClient | DbPool
   ): Promise<WorkItemData | undefined> {
     return this.crud.findById(workItemId, filter, client);
   }
   public findByIds(
     workItemIds: string[],
     filter?: { isActive?: boolean },
-    client?: PoolClient | Pool
+    client?: DbClient | DbPool
   ): Promise<WorkItemData[]> {
     return this.crud.findByIds(workItemIds, filter, client);
   }
   public findAll(
     filter?: { isActive?: boolean; status?: WorkItemData['status'] },
-    client?: PoolClient | Pool
+    client?: DbClient | DbPool
   ): Promise<WorkItemData[]> {
     return this.crud.findAll(filter, client);
   }
   /** @deprecated Use granular update methods or updateFields instead */
   public update(
-    client: PoolClient,
+    client: DbClient,
     workItemId: string,
     updatePayload: Partial<Omit<WorkItemData, 'work_item_id' | 'created_at' | 'updated_at' | 'is_active'>>,
     newDependencies?: WorkItemDependencyData[]
@@ -67,18 +74,18 @@ export class WorkItemRepository extends WorkItemRepositoryBase {
   }
 
   public updateFields(
-    client: PoolClient,
+    client: DbClient,
     workItemId: string,
     payload: Partial<Omit<WorkItemData, 'work_item_id' | 'created_at' | 'is_active' | 'updated_at'>>
   ): Promise<WorkItemData | null> {
     return this.crud.updateFields(client, workItemId, payload);
   }
 
-  public softDelete(workItemIds: string[], client: PoolClient): Promise<number> {
+  public softDelete(workItemIds: string[], client: DbClient): Promise<number> {
     return this.crud.softDelete(workItemIds, client);
   }
   public addOrUpdateDependencies(
-    client: PoolClient,
+    client: DbClient,
     workItemId: string,
     dependencies: WorkItemDependencyData[]
   ): Promise<number> {
@@ -88,25 +95,28 @@ export class WorkItemRepository extends WorkItemRepositoryBase {
   // Hierarchy Operations
   public findRoots(
     filter?: { isActive?: boolean; status?: WorkItemData['status'] },
-    client?: PoolClient | Pool
+    client?: DbClient | DbPool
   ): Promise<WorkItemData[]> {
     return this.hierarchy.findRoots(filter, client);
   }
   public findChildren(
     parentWorkItemId: string,
     filter?: { isActive?: boolean; status?: WorkItemData['status'] },
-    client?: PoolClient | Pool
+    client?: DbClient | DbPool
   ): Promise<WorkItemData[]> {
     return this.hierarchy.findChildren(parentWorkItemId, filter, client);
   }
-  public findDescendantWorkItemIds(workItemId: string, client: PoolClient): Promise<string[]> {
+  public findDescendantWorkItemIds(workItemId: string, client: DbClient): Promise<string[]> {
     return this.hierarchy.findDescendantWorkItemIds(workItemId, client);
   }
+  public findRootWorkItemIds(workItemIds: string[], client?: DbClient | DbPool): Promise<Map<string, string>> {
+    return this.hierarchy.findRootWorkItemIds(workItemIds, client);
+  }
   public findSiblings(
     workItemId: string,
     parentWorkItemId: string | null,
     filter?: { isActive?: boolean },
-    client?: PoolClient | Pool
+    client?: DbClient | DbPool
   ): Promise<WorkItemData[]> {
     return this.hierarchy.findSiblings(workItemId, parentWorkItemId, filter, client);
   }
@@ -115,41 +125,41 @@ export class WorkItemRepository extends WorkItemRepositoryBase {
   public findDependencies(
     workItemId: string,
     filter?: { isActive?: boolean; dependsOnActive?: boolean },
-    client?: PoolClient | Pool
+    client?: DbClient | DbPool
   ): Promise<WorkItemDependencyData[]> {
     return this.dependenciesRepo.findDependencies(workItemId, filter, client);
   }
   public findDependenciesByItemList(
     workItemIds: string[],
     filter?: { isActive?: boolean; dependsOnActive?: boolean },
-    client?: PoolClient | Pool
+    client?: DbClient | DbPool
   ): Promise<WorkItemDependencyData[]> {
     return this.dependenciesRepo.findDependenciesByItemList(workItemIds, filter, client);
   }
   public findDependents(
     dependsOnWorkItemId: string,
     filter?: { isActive?: boolean; dependentIsActive?: boolean },
-    client?: PoolClient | Pool
+    client?: DbClient | DbPool
   ): Promise<WorkItemDependencyData[]> {
     return this.dependenciesRepo.findDependents(dependsOnWorkItemId, filter, client);
   }
   public findDependentsByItemList(
     dependsOnWorkItemIds: string[],
     filter?: { isActive?: boolean; dependentIsActive?: boolean },
-    client?: PoolClient | Pool
+    client?: DbClient | DbPool
   ): Promise<WorkItemDependencyData[]> {
     return this.dependenciesRepo.findDependentsByItemList(dependsOnWorkItemIds, filter, client);
   }
   public findDependenciesByCompositeKeys(
     compositeKeys: { work_item_id: string; depends_on_work_item_id: string }[],
     filter?: { isActive?: boolean },
-    client?: PoolClient | Pool
+    client?: DbClient | DbPool
   ): Promise<WorkItemDependencyData[]> {
     return this.dependenciesRepo.findDependenciesByCompositeKeys(compositeKeys, filter, client);
   }
   public softDeleteDependenciesByCompositeKeys(
     compositeKeys: { work_item_id: string; depends_on_work_item_id: string }[],
-    client: PoolClient
+    client: DbClient
   ): Promise<number> {
     return this.dependenciesRepo.softDeleteDependenciesByCompositeKeys(compositeKeys, client);
   }
@@ -158,15 +168,19 @@ export class WorkItemRepository extends WorkItemRepositoryBase {
   public searchByNameOrDescription(
     query: string,
     filter?: { isActive?: boolean },
-    client?: PoolClient | Pool
+    client?: DbClient | DbPool
   ): Promise<WorkItemData[]> {
     return this.searchOrder.searchByNameOrDescription(query, filter?.isActive, client);
   }
 
+  public findByIdPrefix(prefix: string, client?: DbClient | DbPool): Promise<WorkItemData[]> {
+    return this.searchOrder.findByIdPrefix(prefix, client);
+  }
+
   public findSiblingEdgeOrderKey(
     parentId: string | null,
     edge: 'first' | 'last',
-    client: PoolClient // Keeping as PoolClient as it's likely used within transactions
+    client: DbClient // Keeping as DbClient as it's likely used within transactions
   ): Promise<string | null> {
     return this.searchOrder.findSiblingEdgeOrderKey(parentId, edge, client);
   }
@@ -174,7 +188,7 @@ export class WorkItemRepository extends WorkItemRepositoryBase {
     parentId: string | null,
     relativeToId: string,
     relation: 'before' | 'after',
-    client: PoolClient // Keeping as PoolClient as it's likely used within transactions
+    client: DbClient // Keeping as DbClient as it's likely used within transactions
   ): Promise<{ before: string | null; after: string | null }> {
     if (relation !== 'before' && relation !== 'after') {
       throw new ValidationError("Relation must be 'before' or 'after'");
@@ -184,16 +198,54 @@ export class WorkItemRepository extends WorkItemRepositoryBase {
 
   public findCandidateTasksForSuggestion(
     filters: CandidateTaskFilters,
-    client?: PoolClient | Pool
+    client?: DbClient | DbPool
   ): Promise<WorkItemData[]> {
     return this.searchOrder.findCandidateTasksForSuggestion(filters, client);
   }
 
+  public findTagUsageCounts(projectId?: string | null, client?: DbClient | DbPool): Promise<TagUsageCount[]> {
+    return this.searchOrder.findTagUsageCounts(projectId, client);
+  }
+
+  // Template Operations
+  public findTemplateByName(name: string, client?: DbClient | DbPool): Promise<WorkItemTemplateData | undefined> {
+    return this.templates.findTemplateByName(name, client);
+  }
+  public findAllTemplates(client?: DbClient | DbPool): Promise<WorkItemTemplateData[]> {
+    return this.templates.findAllTemplates(client);
+  }
+  public findTemplateVersions(
+    templateIds: string[],
+    client?: DbClient | DbPool
+  ): Promise<WorkItemTemplateVersionData[]> {
+    return this.templates.findTemplateVersions(templateIds, client);
+  }
+  public findTemplateVersion(
+    templateId: string,
+    version: number,
+    client?: DbClient | DbPool
+  ): Promise<WorkItemTemplateVersionData | undefined> {
+    return this.templates.findTemplateVersion(templateId, version, client);
+  }
+  public createTemplate(client: DbClient, template: Omit<WorkItemTemplateData, 'latest_version'>): Promise<void> {
+    return this.templates.createTemplate(client, template);
+  }
+  public updateTemplate(
+    client: DbClient,
+    templateId: string,
+    payload: Pick<WorkItemTemplateData, 'description' | 'updated_at'>
+  ): Promise<void> {
+    return this.templates.updateTemplate(client, templateId, payload);
+  }
+  public createTemplateVersion(client: DbClient, versionData: WorkItemTemplateVersionData): Promise<void> {
+    return this.templates.createTemplateVersion(client, versionData);
+  }
+
   // Undo/Redo specific methods
-  public insertRow(client: PoolClient, tableName: string, data: object): Promise<void> {
+  public insertRow(client: DbClient, tableName: string, data: object): Promise<void> {
     return this.undoRedo.insertRow(client, tableName, data);
   }
-  public deleteRow(client: PoolClient, tableName: string, recordId: string): Promise<void> {
+  public deleteRow(client: DbClient, tableName: string, recordId: string): Promise<void> {
     return this.undoRedo.deleteRow(client, tableName, recordId);
   }
 }
@@ -1,5 +1,6 @@
 // src/repositories/WorkItemRepositoryBase.ts
-import { type Pool, type PoolClient } from 'pg';
+import type { DbClient, DbPool } from '../db/DatabaseTypes.js';
+import { getSqlDialect, type SqlDialect } from '../db/SqlDialect.js';
 import { logger } from '../utils/logger.js';
 import { validate as uuidValidate } from 'uuid';
 
@@ -16,30 +17,37 @@ export interface WorkItemData {
   updated_at: string;
   due_date: string | null;
   is_active: boolean;
+  tags: string[];
+  estimated_duration_days: number | null;
+  started_at: string | null;
+  completed_at: string | null;
 }
 
 export interface WorkItemDependencyData {
   work_item_id: string;
   depends_on_work_item_id: string;
-  dependency_type: 'finish-to-start' | 'linked';
+  dependency_type: 'finish-to-start' | 'start-to-start' | 'finish-to-finish' | 'start-to-finish' | 'linked';
   is_active: boolean;
+  lag_days: number;
   // This field is optional and only populated by specific queries (like findDependencies)
   depends_on_status?: WorkItemData['status'];
 }
 
 export class WorkItemRepositoryBase {
-  protected pool: Pool;
+  protected pool: DbPool;
+  protected dialect: SqlDialect;
 
-  constructor(pool: Pool) {
+  constructor(pool: DbPool) {
     this.pool = pool;
+    this.dialect = getSqlDialect(pool);
   }
 
-  public getPool(): Pool {
+  public getPool(): DbPool {
     return this.pool;
   }
 
   // This helper is mainly for methods that *require* a client (writes)
-  protected getClient(client?: PoolClient): PoolClient {
+  protected getClient(client?: DbClient): DbClient {
     if (!client) {
       logger.error('[WorkItemRepositoryBase] Transactional method called without a client.');
       throw new Error('Repository transactional method requires a client instance.');
@@ -63,6 +71,14 @@ export class WorkItemRepositoryBase {
         row.updated_at instanceof Date ? row.updated_at.toISOString() : (row.updated_at ?? new Date().toISOString()),
       due_date: row.due_date === null ? null : row.due_date instanceof Date ? row.due_date.toISOString() : row.due_date,
       is_active: row.is_active === true,
+      tags: Array.isArray(row.tags) ? row.tags : [],
+      // PostgreSQL returns NUMERIC as a string, SQLite as a number.
+      estimated_duration_days:
+        row.estimated_duration_days === null || row.estimated_duration_days === undefined
+          ? null
+          : Number(row.estimated_duration_days),
+      started_at: row.started_at instanceof Date ? row.started_at.toISOString() : (row.started_at ?? null),
+      completed_at: row.completed_at instanceof Date ? row.completed_at.toISOString() : (row.completed_at ?? null),
     };
   }
 
@@ -72,6 +88,7 @@ export class WorkItemRepositoryBase {
       depends_on_work_item_id: row.depends_on_work_item_id ?? null,
       dependency_type: row.dependency_type ?? 'linked',
       is_active: row.is_active === true,
+      lag_days: Number(row.lag_days ?? 0),
     };
 
     // Safely add the optional field if it exists on the row
@@ -1,17 +1,17 @@
 // src/repositories/WorkItemRepositoryCRUD.ts
-import { type Pool, type PoolClient, type QueryResult } from 'pg';
+import type { DbClient, DbPool, DbQueryResult } from '../db/DatabaseTypes.js';
 import { logger } from '../utils/logger.js';
 import { NotFoundError } from '../utils/errors.js';
 import { WorkItemRepositoryBase, type WorkItemData, type WorkItemDependencyData } from './WorkItemRepositoryBase.js';
 import { validate as uuidValidate } from 'uuid';
 
 export class WorkItemRepositoryCRUD extends WorkItemRepositoryBase {
-  constructor(pool: Pool) {
+  constructor(pool: DbPool) {
     super(pool);
   }
 
   public async create(
-    client: PoolClient, // Create always requires a client for transaction
+    client: DbClient, // Create always requires a client for transaction
     item: WorkItemData,
     dependencies?: WorkItemDependencyData[]
   ): Promise<WorkItemData> {
@@ -21,8 +21,9 @@ export class WorkItemRepositoryCRUD extends WorkItemRepositoryBase {
       const insertItemSql = `
             INSERT INTO work_items (
             work_item_id, parent_work_item_id, name, description,
-            status, priority, order_key, created_at, updated_at, due_date, is_active
-            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11) -- Removed shortname ($4)
+            status, priority, order_key, created_at, updated_at, due_date, is_active, tags, estimated_duration_days,
+            started_at, completed_at
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15) -- Removed shortname ($4)
             RETURNING *;
         `;
       const itemParams = [
@@ -38,6 +39,10 @@ export class WorkItemRepositoryCRUD extends WorkItemRepositoryBase {
         item.updated_at,
         item.due_date,
         item.is_active ?? true,
+        item.tags ?? [],
+        item.estimated_duration_days ?? null,
+        item.started_at ?? null,
+        item.completed_at ?? null,
       ];
       const itemInsertResult = await dbClient.query(insertItemSql, itemParams);
       if (itemInsertResult.rowCount !== 1) {
@@ -77,7 +82,7 @@ export class WorkItemRepositoryCRUD extends WorkItemRepositoryBase {
   public async findById(
     workItemId: string,
     filter?: { isActive?: boolean },
-    client?: PoolClient | Pool // Made client optional
+    client?: DbClient | DbPool // Made client optional
   ): Promise<WorkItemData | undefined> {
     if (!this.validateUuid(workItemId, 'findById workItemId')) {
       return undefined;
@@ -109,7 +114,7 @@ export class WorkItemRepositoryCRUD extends WorkItemRepositoryBase {
   public async findByIds(
     workItemIds: string[],
     filter?: { isActive?: boolean },
-    client?: PoolClient | Pool // Made client optional
+    client?: DbClient | DbPool // Made client optional
   ): Promise<WorkItemData[]> {
     if (workItemIds.length === 0 || !workItemIds.every((id) => this.validateUuid(id, 'findByIds list item'))) {
       return [];
@@ -139,7 +144,7 @@ export class WorkItemRepositoryCRUD extends WorkItemRepositoryBase {
 
   public async findAll(
     filter?: { isActive?: boolean; status?: WorkItemData['status'] },
-    client?: PoolClient | Pool // Made client optional
+    client?: DbClient | DbPool // Made client optional
   ): Promise<WorkItemData[]> {
     const dbClient = client || this.pool; // Use provided client or default to pool
     let sql = `SELECT * FROM work_items`;
@@ -175,7 +180,7 @@ export class WorkItemRepositoryCRUD extends WorkItemRepositoryBase {
    * Updates a work item, potentially replacing all dependencies.
    */
   public async update(
-    client: PoolClient, // Requires client
+    client: DbClient, // Requires client
     workItemId: string,
     updatePayload: Partial<Omit<WorkItemData, 'work_item_id' | 'created_at' | 'updated_at' | 'is_active'>>,
     newDependenciesInput?: WorkItemDependencyData[] // If provided, replaces *all* existing dependencies
@@ -206,6 +211,10 @@ export class WorkItemRepositoryCRUD extends WorkItemRepositoryBase {
       }
       let updatedItemResult: WorkItemData;
       if (setClauses.length > 0) {
+        if (updatePayload.status !== undefined) {
+          setClauses.push(...this.statusTimestampClauses(`$${paramIndex++}`, `$${paramIndex++}`));
+          params.push(updatePayload.status, now);
+        }
         setClauses.push(`updated_at = $${paramIndex++}`);
         params.push(now);
         const workItemIdParamIndex = paramIndex++;
@@ -259,7 +268,7 @@ export class WorkItemRepositoryCRUD extends WorkItemRepositoryBase {
   }
 
   public async updateFields(
-    client: PoolClient, // Requires client
+    client: DbClient, // Requires client
     workItemId: string,
     payload: Partial<
       Omit<WorkItemData, 'work_item_id' | 'created_at' | 'is_active' | 'updated_at' | 'shortname'> // Exclude shortname
@@ -280,6 +289,10 @@ export class WorkItemRepositoryCRUD extends WorkItemRepositoryBase {
       'priority',
       'order_key',
       'due_date',
+      'tags',
+      'estimated_duration_days',
+      'started_at',
+      'completed_at',
     ];
 
     for (const key of allowedFields) {
@@ -295,6 +308,9 @@ export class WorkItemRepositoryCRUD extends WorkItemRepositoryBase {
           key === 'parent_work_item_id' ||
           key === 'description' ||
           key === 'due_date' ||
+          key === 'estimated_duration_days' ||
+          key === 'started_at' ||
+          key === 'completed_at' ||
           // key === 'shortname' || // REMOVED shortname
           key === 'order_key'
         ) {
@@ -316,8 +332,16 @@ export class WorkItemRepositoryCRUD extends WorkItemRepositoryBase {
       return currentItemResult.rows.length > 0 ? this.mapRowToWorkItemData(currentItemResult.rows[0]) : null;
     }
 
+    const now = new Date().toISOString();
+    const setsStatusTimestamps =
+      Object.prototype.hasOwnProperty.call(payload, 'started_at') ||
+      Object.prototype.hasOwnProperty.call(payload, 'completed_at');
+    if (payload.status !== undefined && !setsStatusTimestamps) {
+      setClauses.push(...this.statusTimestampClauses(`$${paramIndex++}`, `$${paramIndex++}`));
+      params.push(payload.status, now);
+    }
     setClauses.push(`updated_at = $${paramIndex++}`);
-    params.push(new Date().toISOString());
+    params.push(now);
 
     const workItemIdParamIndex = paramIndex++;
     params.push(workItemId);
@@ -344,9 +368,20 @@ export class WorkItemRepositoryCRUD extends WorkItemRepositoryBase {
     }
   }
 
+  /**
+   * SET clauses that keep started_at and completed_at in step with a status change: an item keeps its
+   * first start and completion times while it stays started or done, and loses them when it goes back.
+   */
+  private statusTimestampClauses(statusParam: string, nowParam: string): string[] {
+    return [
+      `started_at = CASE WHEN ${statusParam} = 'todo' THEN NULL ELSE COALESCE(started_at, ${nowParam}) END`,
+      `completed_at = CASE WHEN ${statusParam} = 'done' THEN COALESCE(completed_at, ${nowParam}) ELSE NULL END`,
+    ];
+  }
+
   public async softDelete(
     workItemIds: string[],
-    client: PoolClient // Requires client
+    client: DbClient // Requires client
   ): Promise<number> {
     // ... (rest of softDelete method is likely okay as it already uses client)
     if (workItemIds.length === 0 || !workItemIds.every((id) => this.validateUuid(id, 'softDelete list item'))) {
@@ -368,7 +403,7 @@ export class WorkItemRepositoryCRUD extends WorkItemRepositoryBase {
   }
 
   public async addOrUpdateDependencies(
-    client: PoolClient, // Requires client
+    client: DbClient, // Requires client
     workItemId: string,
     dependencies: WorkItemDependencyData[]
   ): Promise<number> {
@@ -377,7 +412,7 @@ export class WorkItemRepositoryCRUD extends WorkItemRepositoryBase {
       return 0;
     }
     const dbClient = this.getClient(client);
-    const insertUpdateSql = ` INSERT INTO work_item_dependencies (work_item_id, depends_on_work_item_id, dependency_type, is_active) VALUES ($1, $2, $3, TRUE) ON CONFLICT (work_item_id, depends_on_work_item_id) DO UPDATE SET dependency_type = EXCLUDED.dependency_type, is_active = TRUE RETURNING work_item_id; `;
+    const insertUpdateSql = ` INSERT INTO work_item_dependencies (work_item_id, depends_on_work_item_id, dependency_type, lag_days, is_active) VALUES ($1, $2, $3, $4, TRUE) ON CONFLICT (work_item_id, depends_on_work_item_id) DO UPDATE SET dependency_type = EXCLUDED.dependency_type, lag_days = EXCLUDED.lag_days, is_active = TRUE RETURNING work_item_id; `;
     let totalAffectedCount = 0;
     try {
       for (const dep of dependencies) {
@@ -390,10 +425,11 @@ export class WorkItemRepositoryCRUD extends WorkItemRepositoryBase {
         if (dep.work_item_id === dep.depends_on_work_item_id) {
           continue;
         }
-        const result: QueryResult = await dbClient.query(insertUpdateSql, [
+        const result: DbQueryResult = await dbClient.query(insertUpdateSql, [
           dep.work_item_id,
           dep.depends_on_work_item_id,
           dep.dependency_type ?? 'finish-to-start',
+          dep.lag_days ?? 0,
         ]);
         totalAffectedCount += result.rowCount ?? 0;
       }
@@ -1,5 +1,5 @@
 // src/repositories/WorkItemRepositoryDependencies.ts
-import { type Pool, type PoolClient } from 'pg';
+import type { DbClient, DbPool } from '../db/DatabaseTypes.js';
 import { logger } from '../utils/logger.js';
 import { WorkItemRepositoryBase, type WorkItemDependencyData } from './WorkItemRepositoryBase.js';
 
@@ -7,7 +7,7 @@ import { WorkItemRepositoryBase, type WorkItemDependencyData } from './WorkItemR
  * Handles operations related to Work Item dependencies.
  */
 export class WorkItemRepositoryDependencies extends WorkItemRepositoryBase {
-  constructor(pool: Pool) {
+  constructor(pool: DbPool) {
     super(pool);
   }
 
@@ -17,7 +17,7 @@ export class WorkItemRepositoryDependencies extends WorkItemRepositoryBase {
   public async findDependencies(
     workItemId: string,
     filter?: { isActive?: boolean; dependsOnActive?: boolean },
-    client?: PoolClient | Pool
+    client?: DbClient | DbPool
   ): Promise<WorkItemDependencyData[]> {
     if (!this.validateUuid(workItemId, 'findDependencies workItemId')) {
       return [];
@@ -58,7 +58,7 @@ export class WorkItemRepositoryDependencies extends WorkItemRepositoryBase {
   public async findDependenciesByItemList(
     workItemIds: string[],
     filter?: { isActive?: boolean; dependsOnActive?: boolean },
-    client?: PoolClient | Pool
+    client?: DbClient | DbPool
   ): Promise<WorkItemDependencyData[]> {
     if (
       workItemIds.length === 0 ||
@@ -103,7 +103,7 @@ export class WorkItemRepositoryDependencies extends WorkItemRepositoryBase {
   public async findDependents(
     dependsOnWorkItemId: string,
     filter?: { isActive?: boolean; dependentIsActive?: boolean },
-    client?: PoolClient | Pool
+    client?: DbClient | DbPool
   ): Promise<WorkItemDependencyData[]> {
     if (!this.validateUuid(dependsOnWorkItemId, 'findDependents dependsOnWorkItemId')) {
       return [];
@@ -146,7 +146,7 @@ export class WorkItemRepositoryDependencies extends WorkItemRepositoryBase {
   public async findDependentsByItemList(
     dependsOnWorkItemIds: string[],
     filter?: { isActive?: boolean; dependentIsActive?: boolean },
-    client?: PoolClient | Pool
+    client?: DbClient | DbPool
   ): Promise<WorkItemDependencyData[]> {
     if (
       dependsOnWorkItemIds.length === 0 ||
@@ -191,7 +191,7 @@ export class WorkItemRepositoryDependencies extends WorkItemRepositoryBase {
   public async findDependenciesByCompositeKeys(
     compositeKeys: { work_item_id: string; depends_on_work_item_id: string }[],
     filter?: { isActive?: boolean },
-    client?: PoolClient | Pool
+    client?: DbClient | DbPool
   ): Promise<WorkItemDependencyData[]> {
     if (
       compositeKeys.length === 0 ||
@@ -238,7 +238,7 @@ export class WorkItemRepositoryDependencies extends WorkItemRepositoryBase {
 
   public async softDeleteDependenciesByCompositeKeys(
     compositeKeys: { work_item_id: string; depends_on_work_item_id: string }[],
-    client: PoolClient
+    client: DbClient
   ): Promise<number> {
     if (
       compositeKeys.length === 0 ||
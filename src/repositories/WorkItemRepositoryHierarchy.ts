@@ -1,16 +1,16 @@
 // src/repositories/WorkItemRepositoryHierarchy.ts
-import { type Pool, type PoolClient } from 'pg';
+import type { DbClient, DbPool } from '../db/DatabaseTypes.js';
 import { logger } from '../utils/logger.js';
 import { WorkItemRepositoryBase, type WorkItemData } from './WorkItemRepositoryBase.js';
 
 export class WorkItemRepositoryHierarchy extends WorkItemRepositoryBase {
-  constructor(pool: Pool) {
+  constructor(pool: DbPool) {
     super(pool);
   }
 
   public async findRoots(
     filter?: { isActive?: boolean; status?: WorkItemData['status'] },
-    client?: PoolClient | Pool // Made client optional
+    client?: DbClient | DbPool // Made client optional
   ): Promise<WorkItemData[]> {
     const dbClient = client || this.pool; // Use provided client or default to pool
     let sql = ` SELECT * FROM work_items WHERE parent_work_item_id IS NULL `;
@@ -43,7 +43,7 @@ export class WorkItemRepositoryHierarchy extends WorkItemRepositoryBase {
   public async findChildren(
     parentWorkItemId: string,
     filter?: { isActive?: boolean; status?: WorkItemData['status'] },
-    client?: PoolClient | Pool // Made client optional
+    client?: DbClient | DbPool // Made client optional
   ): Promise<WorkItemData[]> {
     if (!this.validateUuid(parentWorkItemId, 'findChildren parentId')) {
       return [];
@@ -76,9 +76,42 @@ export class WorkItemRepositoryHierarchy extends WorkItemRepositoryBase {
     }
   }
 
+  /**
+   * Resolves the top-level ancestor (project) of each given work item, ignoring active state.
+   * Top-level items map to themselves; unknown IDs are absent from the result.
+   */
+  public async findRootWorkItemIds(workItemIds: string[], client?: DbClient | DbPool): Promise<Map<string, string>> {
+    const validIds = Array.from(new Set(workItemIds.filter((id) => this.validateUuid(id, 'findRootWorkItemIds id'))));
+    const roots = new Map<string, string>();
+    if (validIds.length === 0) {
+      return roots;
+    }
+    const dbClient = client || this.pool;
+    const sql = `
+      WITH RECURSIVE ancestry AS (
+        SELECT work_item_id AS origin_id, work_item_id, parent_work_item_id
+        FROM work_items WHERE ${this.dialect.inUuidArray('work_item_id', '$1')}
+        UNION ALL
+        SELECT a.origin_id, w.work_item_id, w.parent_work_item_id
+        FROM work_items w JOIN ancestry a ON w.work_item_id = a.parent_work_item_id
+      )
+      SELECT origin_id, work_item_id AS root_id FROM ancestry WHERE parent_work_item_id IS NULL;
+    `;
+    try {
+      const result = await dbClient.query(sql, [validIds]);
+      for (const row of result.rows) {
+        roots.set(row.origin_id, row.root_id);
+      }
+      return roots;
+    } catch (error: unknown) {
+      logger.error(`[WorkItemRepositoryHierarchy] Failed to find root work items for ${validIds.length} items`, error);
+      throw error;
+    }
+  }
+
   public async findDescendantWorkItemIds(
     workItemId: string,
-    client: PoolClient // Requires client
+    client: DbClient // Requires client
   ): Promise<string[]> {
     // ... (this method already correctly uses the passed client)
     if (!this.validateUuid(workItemId, 'findDescendantWorkItemIds workItemId')) {
@@ -113,7 +146,7 @@ export class WorkItemRepositoryHierarchy extends WorkItemRepositoryBase {
     workItemId: string,
     parentWorkItemId: string | null,
     filter?: { isActive?: boolean },
-    client?: PoolClient | Pool // Made client optional
+    client?: DbClient | DbPool // Made client optional
   ): Promise<WorkItemData[]> {
     if (!this.validateUuid(workItemId, 'findSiblings workItemId')) return [];
     if (parentWorkItemId !== null && !this.validateUuid(parentWorkItemId, 'findSiblings parentWorkItemId')) return [];
@@ -1,5 +1,5 @@
 // src/repositories/WorkItemRepositorySearchOrder.ts
-import { type Pool, type PoolClient, type QueryResult } from 'pg';
+import type { DbClient, DbPool, DbQueryResult } from '../db/DatabaseTypes.js';
 import { WorkItemRepositoryBase, type WorkItemData } from './WorkItemRepositoryBase.js';
 import { logger } from '../utils/logger.js';
 import { NotFoundError } from '../utils/errors.js';
@@ -8,6 +8,8 @@ export interface CandidateTaskFilters {
   scopeItemId?: string | null;
   includeTags?: string[] | null;
   excludeTags?: string[] | null;
+  /** The moment readiness is judged at, for dependency lags. Defaults to now. */
+  now?: string;
 }
 
 export interface ListWorkItemsFilters {
@@ -24,12 +26,19 @@ export interface ListWorkItemsFilters {
   exclude_tags?: string[] | null;
 }
 
+export interface TagUsageCount {
+  project_id: string;
+  project_name: string;
+  tag: string;
+  usage_count: number;
+}
+
 export class WorkItemRepositorySearchOrder extends WorkItemRepositoryBase {
-  constructor(pool: Pool) {
+  constructor(pool: DbPool) {
     super(pool);
   }
 
-  public async listWorkItems(filters: ListWorkItemsFilters = {}, client?: PoolClient | Pool): Promise<WorkItemData[]> {
+  public async listWorkItems(filters: ListWorkItemsFilters = {}, client?: DbClient | DbPool): Promise<WorkItemData[]> {
     const dbClient = client || this.pool;
     let sql = `SELECT * FROM work_items`;
     const whereClauses: string[] = [];
@@ -86,12 +95,12 @@ export class WorkItemRepositorySearchOrder extends WorkItemRepositoryBase {
     }
 
     if (filters.include_tags && filters.include_tags.length > 0) {
-      whereClauses.push(`(tags IS NOT NULL AND tags @> $${paramIndex++}::text[])`);
+      whereClauses.push(`(tags IS NOT NULL AND ${this.dialect.tagsContainAll('tags', `$${paramIndex++}`)})`);
       params.push(filters.include_tags);
     }
 
     if (filters.exclude_tags && filters.exclude_tags.length > 0) {
-      whereClauses.push(`(tags IS NULL OR NOT (tags && $${paramIndex++}::text[]))`);
+      whereClauses.push(`(tags IS NULL OR NOT ${this.dialect.tagsOverlap('tags', `$${paramIndex++}`)})`);
       params.push(filters.exclude_tags);
     }
 
@@ -105,7 +114,7 @@ export class WorkItemRepositorySearchOrder extends WorkItemRepositoryBase {
     logger.debug(`[WorkItemRepositorySearchOrder] listWorkItems PARAMS: ${JSON.stringify(params)}`);
 
     try {
-      const result: QueryResult = await dbClient.query(sql, params);
+      const result: DbQueryResult = await dbClient.query(sql, params);
       return result.rows.map(this.mapRowToWorkItemData);
     } catch (error) {
       logger.error('[WorkItemRepositorySearchOrder] Error listing work items:', { sql, params, error });
@@ -116,7 +125,7 @@ export class WorkItemRepositorySearchOrder extends WorkItemRepositoryBase {
   public async searchByNameOrDescription(
     searchTerm: string,
     isActiveFilter?: boolean,
-    client?: PoolClient | Pool
+    client?: DbClient | DbPool
   ): Promise<WorkItemData[]> {
     const dbClient = client || this.pool;
     let sql = `SELECT * FROM work_items WHERE (name ILIKE $1 OR description ILIKE $1)`;
@@ -142,10 +151,26 @@ export class WorkItemRepositorySearchOrder extends WorkItemRepositoryBase {
     }
   }
 
+  /** Items of any active state whose UUID starts with `prefix` (case-insensitive), active ones first. */
+  public async findByIdPrefix(prefix: string, client?: DbClient | DbPool): Promise<WorkItemData[]> {
+    const dbClient = client || this.pool;
+    const sql = `
+      SELECT * FROM work_items WHERE work_item_id::text LIKE $1
+      ORDER BY is_active DESC, created_at ASC, work_item_id ASC;
+    `;
+    try {
+      const result = await dbClient.query(sql, [`${prefix.toLowerCase()}%`]);
+      return result.rows.map(this.mapRowToWorkItemData);
+    } catch (error) {
+      logger.error(`[WorkItemRepositorySearchOrder] Error finding work items by ID prefix "${prefix}":`, error);
+      throw error;
+    }
+  }
+
   public async findSiblingEdgeOrderKey(
     parentWorkItemId: string | null,
     edge: 'first' | 'last',
-    client?: PoolClient | Pool
+    client?: DbClient | DbPool
   ): Promise<string | null> {
     const dbClient = client || this.pool;
     let sql: string;
@@ -181,7 +206,7 @@ export class WorkItemRepositorySearchOrder extends WorkItemRepositoryBase {
     parentWorkItemId: string | null,
     siblingWorkItemId: string,
     position: 'before' | 'after',
-    client?: PoolClient | Pool
+    client?: DbClient | DbPool
   ): Promise<{ before: string | null; after: string | null }> {
     const dbClient = client || this.pool;
     if (!this.validateUuid(siblingWorkItemId, 'findNeighbourOrderKeys siblingWorkItemId')) {
@@ -190,7 +215,7 @@ export class WorkItemRepositorySearchOrder extends WorkItemRepositoryBase {
 
     const currentItemSql = `SELECT order_key, parent_work_item_id FROM work_items WHERE work_item_id = $1 AND is_active = TRUE;`;
     const currentItemParams = [siblingWorkItemId];
-    let currentItemResult: QueryResult;
+    let currentItemResult: DbQueryResult;
     try {
       currentItemResult = await dbClient.query(currentItemSql, currentItemParams);
     } catch (error) {
@@ -265,10 +290,11 @@ export class WorkItemRepositorySearchOrder extends WorkItemRepositoryBase {
 
   public async findCandidateTasksForSuggestion(
     filters: CandidateTaskFilters,
-    client?: PoolClient | Pool
+    client?: DbClient | DbPool
   ): Promise<WorkItemData[]> {
     const dbClient = client || this.pool;
     const { scopeItemId, includeTags, excludeTags } = filters;
+    const now = filters.now ?? new Date().toISOString();
 
     const queryParams: any[] = [];
     let paramIndex = 1;
@@ -294,6 +320,16 @@ export class WorkItemRepositorySearchOrder extends WorkItemRepositoryBase {
       }
     }
 
+    // A task is blocked by finish-to-start and linked prerequisites until they are done, and by start-to-start
+    // ones until they have started; either way the lag must also have passed. Finish-to-finish and
+    // start-to-finish dependencies constrain when the task finishes, not when it can start.
+    const nowParam = `$${paramIndex++}`;
+    queryParams.push(now);
+    const completedAt = this.dialect.timestampPlusDays(
+      'COALESCE(dep_wi.completed_at, dep_wi.updated_at)',
+      'wid.lag_days'
+    );
+    const startedAt = this.dialect.timestampPlusDays('COALESCE(dep_wi.started_at, dep_wi.updated_at)', 'wid.lag_days');
     let whereConditions = `
       WHERE wi.is_active = TRUE
       AND wi.status <> 'done'
@@ -305,17 +341,22 @@ export class WorkItemRepositorySearchOrder extends WorkItemRepositoryBase {
         WHERE wid.work_item_id = wi.work_item_id
           AND wid.is_active = TRUE
           AND dep_wi.is_active = TRUE
-          AND dep_wi.status <> 'done'
+          AND (
+            (wid.dependency_type IN ('finish-to-start', 'linked')
+              AND (dep_wi.status <> 'done' OR ${completedAt} > ${nowParam}))
+            OR (wid.dependency_type = 'start-to-start'
+              AND (dep_wi.status = 'todo' OR ${startedAt} > ${nowParam}))
+          )
       )
     `;
 
     if (includeTags && includeTags.length > 0) {
-      whereConditions += ` AND (wi.tags IS NOT NULL AND wi.tags @> $${paramIndex++}::text[])`;
+      whereConditions += ` AND (wi.tags IS NOT NULL AND ${this.dialect.tagsContainAll('wi.tags', `$${paramIndex++}`)})`;
       queryParams.push(includeTags);
     }
 
     if (excludeTags && excludeTags.length > 0) {
-      whereConditions += ` AND (wi.tags IS NULL OR NOT (wi.tags && $${paramIndex++}::text[]))`;
+      whereConditions += ` AND (wi.tags IS NULL OR NOT ${this.dialect.tagsOverlap('wi.tags', `$${paramIndex++}`)})`;
       queryParams.push(excludeTags);
     }
 
@@ -350,4 +391,54 @@ export class WorkItemRepositorySearchOrder extends WorkItemRepositoryBase {
       throw error;
     }
   }
+
+  /**
+   * Counts how many active items use each tag, grouped by the root project the items belong to.
+   */
+  public async findTagUsageCounts(projectId?: string | null, client?: DbClient | DbPool): Promise<TagUsageCount[]> {
+    const dbClient = client || this.pool;
+    const queryParams: any[] = [];
+    let rootCondition = '';
+    if (projectId) {
+      if (!this.validateUuid(projectId, 'findTagUsageCounts projectId')) {
+        return [];
+      }
+      rootCondition = `AND work_item_id = $1`;
+      queryParams.push(projectId);
+    }
+
+    const tags = this.dialect.unnestTags('wi.tags', 'item_tag');
+    const sqlQuery = `
+      WITH RECURSIVE item_roots AS (
+        SELECT work_item_id, work_item_id AS root_id
+        FROM work_items
+        WHERE parent_work_item_id IS NULL AND is_active = TRUE ${rootCondition}
+        UNION ALL
+        SELECT wi.work_item_id, ir.root_id
+        FROM work_items wi
+        INNER JOIN item_roots ir ON wi.parent_work_item_id = ir.work_item_id
+        WHERE wi.is_active = TRUE
+      )
+      SELECT ir.root_id AS project_id, root.name AS project_name, ${tags.tag} AS tag, COUNT(*)::int AS usage_count
+      FROM item_roots ir
+      JOIN work_items wi ON wi.work_item_id = ir.work_item_id
+      JOIN work_items root ON root.work_item_id = ir.root_id
+      ${tags.join}
+      GROUP BY ir.root_id, root.name, ${tags.tag}
+      ORDER BY root.name ASC, usage_count DESC, tag ASC
+    `;
+
+    try {
+      const result = await dbClient.query(sqlQuery, queryParams);
+      return result.rows.map((row) => ({
+        project_id: row.project_id,
+        project_name: row.project_name,
+        tag: row.tag,
+        usage_count: Number(row.usage_count),
+      }));
+    } catch (error) {
+      logger.error('[WorkItemRepositorySearchOrder] Error in findTagUsageCounts:', { projectId, error });
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,180 @@
+// src/repositories/WorkItemRepositoryTemplates.ts
+import type { DbClient, DbPool } from '../db/DatabaseTypes.js';
+import { logger } from '../utils/logger.js';
+import { WorkItemRepositoryBase, type WorkItemData } from './WorkItemRepositoryBase.js';
+
+/** One item of a template version; names and descriptions may contain `{{variable}}` placeholders. */
+export interface TemplateItemNode {
+  name: string;
+  description: string | null;
+  priority: WorkItemData['priority'];
+  estimated_duration_days: number | null;
+  tags: string[];
+  /** Days from the instantiation start date to the due date, or null for no due date. */
+  due_offset_days: number | null;
+  children: TemplateItemNode[];
+}
+
+export interface WorkItemTemplateData {
+  template_id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+  latest_version: number;
+}
+
+export interface WorkItemTemplateVersionData {
+  template_id: string;
+  version: number;
+  structure: TemplateItemNode;
+  created_at: string;
+}
+
+const TEMPLATE_COLUMNS = `t.*, (
+  SELECT MAX(v.version) FROM work_item_template_versions v WHERE v.template_id = t.template_id
+) AS latest_version`;
+
+/**
+ * Handles the work_item_templates and work_item_template_versions tables. Versions are only ever added, so an
+ * older version stays available after the template changes.
+ */
+export class WorkItemRepositoryTemplates extends WorkItemRepositoryBase {
+  constructor(pool: DbPool) {
+    super(pool);
+  }
+
+  public async findTemplateByName(name: string, client?: DbClient | DbPool): Promise<WorkItemTemplateData | undefined> {
+    const dbClient = client || this.pool;
+    const sql = `SELECT ${TEMPLATE_COLUMNS} FROM work_item_templates t WHERE t.name = $1;`;
+    try {
+      const result = await dbClient.query(sql, [name]);
+      return result.rows.length > 0 ? this.mapRowToTemplateData(result.rows[0]) : undefined;
+    } catch (error: unknown) {
+      logger.error(`[WorkItemRepositoryTemplates] Failed to find template "${name}":`, error);
+      throw error;
+    }
+  }
+
+  public async findAllTemplates(client?: DbClient | DbPool): Promise<WorkItemTemplateData[]> {
+    const dbClient = client || this.pool;
+    const sql = `SELECT ${TEMPLATE_COLUMNS} FROM work_item_templates t ORDER BY t.name ASC;`;
+    try {
+      const result = await dbClient.query(sql);
+      return result.rows.map((row) => this.mapRowToTemplateData(row));
+    } catch (error: unknown) {
+      logger.error('[WorkItemRepositoryTemplates] Failed to list templates:', error);
+      throw error;
+    }
+  }
+
+  /** Every version of the given templates, oldest first. */
+  public async findTemplateVersions(
+    templateIds: string[],
+    client?: DbClient | DbPool
+  ): Promise<WorkItemTemplateVersionData[]> {
+    if (templateIds.length === 0) {
+      return [];
+    }
+    const dbClient = client || this.pool;
+    const placeholders = templateIds.map((_, index) => `$${index + 1}`).join(', ');
+    const sql = `
+      SELECT * FROM work_item_template_versions
+      WHERE template_id IN (${placeholders})
+      ORDER BY template_id ASC, version ASC;
+    `;
+    try {
+      const result = await dbClient.query(sql, templateIds);
+      return result.rows.map((row) => this.mapRowToTemplateVersionData(row));
+    } catch (error: unknown) {
+      logger.error('[WorkItemRepositoryTemplates] Failed to find template versions:', { templateIds, error });
+      throw error;
+    }
+  }
+
+  public async findTemplateVersion(
+    templateId: string,
+    version: number,
+    client?: DbClient | DbPool
+  ): Promise<WorkItemTemplateVersionData | undefined> {
+    const dbClient = client || this.pool;
+    const sql = `SELECT * FROM work_item_template_versions WHERE template_id = $1 AND version = $2;`;
+    try {
+      const result = await dbClient.query(sql, [templateId, version]);
+      return result.rows.length > 0 ? this.mapRowToTemplateVersionData(result.rows[0]) : undefined;
+    } catch (error: unknown) {
+      logger.error(`[WorkItemRepositoryTemplates] Failed to find version ${version} of template ${templateId}:`, error);
+      throw error;
+    }
+  }
+
+  public async createTemplate(client: DbClient, template: Omit<WorkItemTemplateData, 'latest_version'>): Promise<void> {
+    const dbClient = this.getClient(client);
+    const sql = `
+      INSERT INTO work_item_templates (template_id, name, description, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5);
+    `;
+    const result = await dbClient.query(sql, [
+      template.template_id,
+      template.name,
+      template.description,
+      template.created_at,
+      template.updated_at,
+    ]);
+    if (result.rowCount !== 1) {
+      throw new Error(`Failed to insert template "${template.name}".`);
+    }
+    logger.debug(`[WorkItemRepositoryTemplates] Created template ${template.template_id} ("${template.name}").`);
+  }
+
+  public async updateTemplate(
+    client: DbClient,
+    templateId: string,
+    payload: Pick<WorkItemTemplateData, 'description' | 'updated_at'>
+  ): Promise<void> {
+    const dbClient = this.getClient(client);
+    const sql = `UPDATE work_item_templates SET description = $1, updated_at = $2 WHERE template_id = $3;`;
+    await dbClient.query(sql, [payload.description, payload.updated_at, templateId]);
+  }
+
+  public async createTemplateVersion(client: DbClient, versionData: WorkItemTemplateVersionData): Promise<void> {
+    const dbClient = this.getClient(client);
+    const sql = `
+      INSERT INTO work_item_template_versions (template_id, version, structure, created_at)
+      VALUES ($1, $2, $3, $4);
+    `;
+    const result = await dbClient.query(sql, [
+      versionData.template_id,
+      versionData.version,
+      JSON.stringify(versionData.structure),
+      versionData.created_at,
+    ]);
+    if (result.rowCount !== 1) {
+      throw new Error(`Failed to insert version ${versionData.version} of template ${versionData.template_id}.`);
+    }
+    logger.debug(
+      `[WorkItemRepositoryTemplates] Created version ${versionData.version} of template ${versionData.template_id}.`
+    );
+  }
+
+  private mapRowToTemplateData(row: any): WorkItemTemplateData {
+    return {
+      template_id: row.template_id,
+      name: row.name,
+      description: row.description ?? null,
+      created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at,
+      updated_at: row.updated_at instanceof Date ? row.updated_at.toISOString() : row.updated_at,
+      latest_version: Number(row.latest_version ?? 0),
+    };
+  }
+
+  // PostgreSQL returns JSONB already parsed, SQLite returns the JSON text.
+  private mapRowToTemplateVersionData(row: any): WorkItemTemplateVersionData {
+    return {
+      template_id: row.template_id,
+      version: Number(row.version),
+      structure: typeof row.structure === 'string' ? JSON.parse(row.structure) : row.structure,
+      created_at: row.created_at instanceof Date ? row.created_at.toISOString() : row.created_at,
+    };
+  }
+}
@@ -1,5 +1,5 @@
 // src/repositories/WorkItemRepositoryUndoRedo.ts
-import { Pool, PoolClient, QueryResult } from 'pg';
+import type { DbClient, DbPool, DbQueryResult } from '../db/DatabaseTypes.js';
 import { logger } from '../utils/logger.js';
 import { WorkItemRepositoryBase } from './WorkItemRepositoryBase.js';
 import { validate as uuidValidate } from 'uuid';
@@ -9,7 +9,7 @@ import { validate as uuidValidate } from 'uuid';
  * NOTE: updateRowState was removed as its logic is now handled directly in WorkItemHistoryService.
  */
 export class WorkItemRepositoryUndoRedo extends WorkItemRepositoryBase {
-  constructor(pool: Pool) {
+  constructor(pool: DbPool) {
     super(pool);
   }
 
@@ -19,7 +19,7 @@ export class WorkItemRepositoryUndoRedo extends WorkItemRepositoryBase {
    * Inserts a row into the specified table. Uses ON CONFLICT DO NOTHING.
    * Potentially useful for other history mechanisms if implemented later.
    */
-  public async insertRow(client: PoolClient, tableName: string, data: object): Promise<void> {
+  public async insertRow(client: DbClient, tableName: string, data: object): Promise<void> {
     const dbClient = this.getClient(client);
 
     const columns: string[] = [];
@@ -55,7 +55,7 @@ export class WorkItemRepositoryUndoRedo extends WorkItemRepositoryBase {
 
     const sql = ` INSERT INTO "${tableName}" (${columns.join(',')}) VALUES (${placeholders.join(',')}) ON CONFLICT ${conflictTarget} DO NOTHING; `;
     try {
-      const result: QueryResult = await dbClient.query(sql, params);
+      const result: DbQueryResult = await dbClient.query(sql, params);
       if ((result.rowCount ?? 0) > 0) logger.debug(`[WorkItemRepositoryUndoRedo] Inserted row into ${tableName}.`);
       else logger.warn(`[WorkItemRepositoryUndoRedo] Insert into ${tableName} resulted in conflict or no insert.`);
     } catch (error: unknown) {
@@ -71,7 +71,7 @@ export class WorkItemRepositoryUndoRedo extends WorkItemRepositoryBase {
    * Deletes a row from the specified table using its primary key.
    * Potentially useful for other history mechanisms if implemented later.
    */
-  public async deleteRow(client: PoolClient, tableName: string, recordId: string): Promise<void> {
+  public async deleteRow(client: DbClient, tableName: string, recordId: string): Promise<void> {
     logger.debug(`[WorkItemRepositoryUndoRedo] deleteRow called for table: ${tableName}, recordId: ${recordId}`);
     const dbClient = this.getClient(client);
 
@@ -3,9 +3,16 @@
 // Export the main composed classes
 export * from './WorkItemRepository.js';
 export * from './ActionHistoryRepository.js';
+export * from './InMemoryRepositories.js';
 
 // Export shared types/interfaces directly (re-export from base)
 export type { WorkItemData, WorkItemDependencyData } from './WorkItemRepositoryBase.js';
+export type { TagUsageCount } from './WorkItemRepositorySearchOrder.js';
+export type {
+  TemplateItemNode,
+  WorkItemTemplateData,
+  WorkItemTemplateVersionData,
+} from './WorkItemRepositoryTemplates.js';
 
 export type {
   ActionHistoryData,
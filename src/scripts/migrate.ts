@@ -0,0 +1,60 @@
+// src/scripts/migrate.ts
+// Usage: node dist/scripts/migrate.js [status|up]
+//   status (default)  Lists every migration with its state; exits with 1 if any are not applied.
+//   up                Applies pending migrations.
+import { DatabaseManager } from '../db/DatabaseManager.js';
+import { MigrationRunner, type MigrationStatus } from '../db/MigrationRunner.js';
+import { ConfigurationManager } from '../config/ConfigurationManager.js';
+import { logger } from '../utils/logger.js';
+
+const printStatus = (statuses: MigrationStatus[]): void => {
+  for (const status of statuses) {
+    const version = String(status.version).padStart(4, '0');
+    console.log(`${version}  ${status.state.padEnd(8)}  ${(status.applied_at ?? '-').padEnd(24)}  ${status.name}`);
+  }
+  if (statuses.length === 0) {
+    console.log('No migrations found.');
+  }
+};
+
+async function main() {
+  const command = process.argv[2] ?? 'status';
+  if (command !== 'status' && command !== 'up') {
+    console.error(`Unknown command "${command}". Usage: migrate [status|up]`);
+    process.exit(2);
+  }
+
+  // The status command must not change the schema, so keep DatabaseManager from migrating on connect.
+  process.env.AUTO_MIGRATE = 'false';
+  ConfigurationManager.getInstance();
+
+  let exitCode = 0;
+  try {
+    const dbManager = await DatabaseManager.getInstance();
+    const runner = new MigrationRunner(dbManager.getPool());
+
+    if (command === 'up') {
+      const applied = await runner.migrate();
+      console.log(
+        applied.length > 0
+          ? `Applied ${applied.length} migration(s): ${applied.map((m) => `${m.version}_${m.name}`).join(', ')}`
+          : 'Schema is up to date.'
+      );
+    }
+
+    const statuses = await runner.getStatus();
+    printStatus(statuses);
+    if (statuses.some((status) => status.state !== 'applied')) {
+      exitCode = 1;
+    }
+  } catch (error) {
+    logger.error('[migrateScript] Migration command failed:', error);
+    console.error(error instanceof Error ? error.message : error);
+    exitCode = 1;
+  } finally {
+    await DatabaseManager.shutdown();
+  }
+  process.exit(exitCode);
+}
+
+main();
@@ -1,23 +1,83 @@
 ﻿import { createServer } from './createServer.js'; // createServer is now sync
 import { logger } from './utils/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { Server as HttpServer } from 'node:http';
+import { ConfigurationManager } from './config/ConfigurationManager.js';
+import { DatabaseManager } from './db/DatabaseManager.js';
+import { WorkItemRepository, ActionHistoryRepository } from './repositories/index.js';
+import { WorkItemService } from './services/index.js';
+import { createHttpApp, startHttpServer, stopHttpServer } from './api/httpServer.js';
+import sseNotificationService from './services/SseNotificationService.js';
+import { PgNotificationRelay } from './services/PgNotificationRelay.js';
 
 // Keep main async only because server.connect is async
 const main = async () => {
+  const config = ConfigurationManager.getInstance();
+  const stdioEnabled = config.isStdioEnabled();
+  const httpEnabled = config.isHttpEnabled();
+  let server: ReturnType<typeof createServer> | null = null;
+  let httpServer: HttpServer | null = null;
+  let shuttingDown = false;
+
+  // Share change notifications with other processes on the same database (e.g. stdio MCP -> HTTP/UI).
+  const relay =
+    config.isPgNotifyEnabled() && config.getStorageBackend() === 'postgres'
+      ? new PgNotificationRelay(async () => (await DatabaseManager.getInstance()).getPgPool(), sseNotificationService)
+      : null;
+  sseNotificationService.setRelay(relay);
+
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    logger.info(`Received ${signal}, shutting down...`);
+    try {
+      if (httpServer) {
+        await stopHttpServer(httpServer);
+      }
+      if (server) {
+        await server.close();
+      }
+      relay?.stop();
+      await DatabaseManager.shutdown();
+    } catch (error) {
+      logger.error('Error during shutdown', error);
+    } finally {
+      process.exit(0);
+    }
+  };
+  process.on('SIGINT', () => void shutdown('SIGINT'));
+  process.on('SIGTERM', () => void shutdown('SIGTERM'));
+
   try {
-    // createServer is sync again
-    const server = createServer();
-    logger.info('MCP server setup complete.');
+    if (!stdioEnabled && !httpEnabled) {
+      throw new Error('Both the stdio transport and the HTTP server are disabled; nothing to start.');
+    }
+
+    if (stdioEnabled) {
+      // createServer is sync again
+      server = createServer();
+      logger.info('MCP server setup complete.');
+
+      const transport = new StdioServerTransport();
+      logger.info('Connecting transport', {
+        transport: transport.constructor.name,
+      });
 
-    const transport = new StdioServerTransport();
-    logger.info('Connecting transport', {
-      transport: transport.constructor.name,
-    });
+      // Connect transport *after* synchronous setup/registration
+      await server.connect(transport);
 
-    // Connect transport *after* synchronous setup/registration
-    await server.connect(transport);
+      logger.info('MCP Server connected and listening');
+    }
 
-    logger.info('MCP Server connected and listening');
+    if (httpEnabled) {
+      const dbManager = await DatabaseManager.getInstance();
+      const pool = dbManager.getPool();
+      const workItemService = new WorkItemService(new WorkItemRepository(pool), new ActionHistoryRepository(pool));
+      if (relay) {
+        await relay.listen();
+      }
+      httpServer = await startHttpServer(createHttpApp(workItemService), config.getHttpHost(), config.getHttpPort());
+    }
   } catch (error) {
     logger.error('Failed to start server', error);
     console.error('Fallback console log: Failed to start server:', error);
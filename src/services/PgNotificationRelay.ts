@@ -0,0 +1,142 @@
+// src/services/PgNotificationRelay.ts
+import { Notification, Pool, PoolClient } from 'pg';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/index.js';
+import { SseNotificationService, type SseEvent, type SseEventRelay } from './SseNotificationService.js';
+
+export const PG_NOTIFY_CHANNEL = 'work_item_events';
+
+const RECONNECT_DELAY_MS = 1000;
+
+interface RelayedEvent {
+  /** Instance that published the event; it has already delivered it to its own clients. */
+  origin: string;
+  event: SseEvent;
+}
+
+/**
+ * Carries SSE events between processes sharing the database via PostgreSQL LISTEN/NOTIFY.
+ * Every process publishes the events its services broadcast (after their transaction committed);
+ * the process serving SSE clients also listens and delivers the events published by the others.
+ */
+export class PgNotificationRelay implements SseEventRelay {
+  private readonly instanceId = uuidv4();
+  private listenClient: PoolClient | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private listening = false;
+
+  constructor(
+    private readonly getPool: () => Promise<Pool>,
+    private readonly sseService: SseNotificationService,
+    private readonly channel: string = PG_NOTIFY_CHANNEL
+  ) {}
+
+  public publish(event: SseEvent): void {
+    void this.send(event);
+  }
+
+  private async send(event: SseEvent): Promise<void> {
+    const payload: RelayedEvent = { origin: this.instanceId, event };
+    try {
+      const pool = await this.getPool();
+      await pool.query('SELECT pg_notify($1, $2)', [this.channel, JSON.stringify(payload)]);
+    } catch (error) {
+      logger.warn(`[PgNotificationRelay] Failed to publish ${event.type} on channel ${this.channel}:`, error);
+    }
+  }
+
+  /**
+   * Starts listening on a dedicated connection. If the connection is lost it is re-established,
+   * and SSE clients are told to resync since notifications sent in between are gone.
+   */
+  public async listen(): Promise<void> {
+    this.listening = true;
+    await this.connectListener(false);
+  }
+
+  private async connectListener(isReconnect: boolean): Promise<void> {
+    const pool = await this.getPool();
+    const client = await pool.connect();
+    client.on('notification', (message: Notification) => {
+      if (message.channel === this.channel) {
+        this.handleNotification(message.payload);
+      }
+    });
+    client.on('error', (error) => {
+      logger.error('[PgNotificationRelay] Listener connection failed:', error);
+      this.dropListener(client, error);
+      this.scheduleReconnect();
+    });
+    try {
+      await client.query(`LISTEN ${client.escapeIdentifier(this.channel)}`);
+    } catch (error) {
+      client.release(error as Error);
+      throw error;
+    }
+    this.listenClient = client;
+    logger.info(`[PgNotificationRelay] Listening on channel ${this.channel}`);
+    if (isReconnect) {
+      this.sseService.resyncClients();
+    }
+  }
+
+  private dropListener(client: PoolClient, error?: Error): void {
+    if (this.listenClient === client) {
+      this.listenClient = null;
+    }
+    client.removeAllListeners('notification');
+    client.removeAllListeners('error');
+    // Keep a handler so late errors on the discarded connection don't crash the process.
+    client.on('error', () => undefined);
+    client.release(error ?? true);
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.listening || this.reconnectTimer) {
+      return;
+    }
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.connectListener(true).catch((error) => {
+        logger.error('[PgNotificationRelay] Reconnecting the listener failed:', error);
+        this.scheduleReconnect();
+      });
+    }, RECONNECT_DELAY_MS);
+    this.reconnectTimer.unref();
+  }
+
+  /**
+   * Delivers an event published by another process to this process's SSE clients.
+   */
+  public handleNotification(payload: string | undefined): void {
+    if (!payload) {
+      return;
+    }
+    let relayed: RelayedEvent;
+    try {
+      relayed = JSON.parse(payload) as RelayedEvent;
+    } catch (error) {
+      logger.warn(`[PgNotificationRelay] Ignoring malformed notification on ${this.channel}:`, error);
+      return;
+    }
+    if (relayed.origin === this.instanceId || !relayed.event?.type) {
+      return;
+    }
+    this.sseService.deliver(relayed.event);
+  }
+
+  public stop(): void {
+    this.listening = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const client = this.listenClient;
+    if (!client) {
+      return;
+    }
+    // The connection is destroyed rather than returned to the pool, which also ends the LISTEN.
+    this.dropListener(client);
+    logger.info(`[PgNotificationRelay] Stopped listening on channel ${this.channel}`);
+  }
+}
@@ -1,11 +1,15 @@
 // src/services/SseNotificationService.ts
 import { Response } from 'express';
+import { v4 as uuidv4 } from 'uuid';
 import { WorkItemData } from '../repositories/index.js'; // Added .js
 import { logger } from '../utils/index.js'; // Added .js
+import { ConfigurationManager } from '../config/ConfigurationManager.js';
 
 interface Client {
   id: string;
   res: Response;
+  /** Projects whose tree events the client receives; null means every project. */
+  projectIds: Set<string> | null;
 }
 
 export type SseEventType =
@@ -20,29 +24,95 @@ export interface SseEvent {
   payload: any;
 }
 
-class SseNotificationService {
+interface BufferedEvent {
+  /** Position in this boot's sequence; the event id sent to clients is `<bootId>-<seq>`. */
+  seq: number;
+  message: string;
+  /** Project the event is scoped to; null for events on the global channel. */
+  projectId: string | null;
+}
+
+export interface SseClientOptions {
+  /** ID of the last event the client saw (the Last-Event-ID header). */
+  lastEventId?: string;
+  /** Limits `projectTreeUpdated` events to these projects; omitted or empty subscribes to all of them. */
+  projectIds?: string[];
+}
+
+/**
+ * Forwards broadcast events to other processes sharing the database (see PgNotificationRelay).
+ */
+export interface SseEventRelay {
+  publish(event: SseEvent): void;
+}
+
+export interface SseNotificationServiceOptions {
+  /** Number of recent events kept for Last-Event-ID replay. */
+  bufferSize?: number;
+  /** Interval between heartbeat comments on idle connections; 0 disables them. */
+  heartbeatIntervalMs?: number;
+  /** Prefix of every event id issued by this instance; defaults to a random one per process start. */
+  bootId?: string;
+}
+
+const DEFAULT_BUFFER_SIZE = 500;
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 25000;
+
+export class SseNotificationService {
   public clients: Client[] = [];
+  private readonly bufferSize: number;
+  private readonly heartbeatIntervalMs: number;
+  private readonly bootId: string;
+  private eventBuffer: BufferedEvent[] = [];
+  private lastSeq = 0;
+  private clientCounter = 0;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private relay: SseEventRelay | null = null;
 
-  constructor() {
+  constructor(options: SseNotificationServiceOptions = {}) {
+    this.bufferSize = Math.max(0, options.bufferSize ?? DEFAULT_BUFFER_SIZE);
+    this.heartbeatIntervalMs = Math.max(0, options.heartbeatIntervalMs ?? DEFAULT_HEARTBEAT_INTERVAL_MS);
+    this.bootId = options.bootId ?? uuidv4().slice(0, 8);
     logger.info('[SseNotificationService] Initialized');
   }
 
-  addClient(res: Response): string {
-    const clientId = Date.now().toString();
+  /**
+   * Registers an SSE client. When the client reconnects with the ID of the last event it saw
+   * (the Last-Event-ID header), the events it missed are replayed; if they are no longer buffered,
+   * a `resync` event tells it to reload everything instead. Event ids are `<bootId>-<n>`, so an id
+   * issued before a server restart is never mistaken for one issued since.
+   *
+   * A client subscribed to specific projects only receives `projectTreeUpdated` events for those
+   * projects; every other event type (e.g. `projectListUpdated`) is global and goes to all clients.
+   */
+  addClient(res: Response, options: SseClientOptions = {}): string {
+    const { lastEventId, projectIds } = options;
+    const clientId = `${Date.now()}-${++this.clientCounter}`;
     res.setHeader('Content-Type', 'text/event-stream');
     res.setHeader('Cache-Control', 'no-cache');
     res.setHeader('Connection', 'keep-alive');
     res.flushHeaders();
 
-    const newClient = { id: clientId, res };
+    const newClient: Client = {
+      id: clientId,
+      res,
+      projectIds: projectIds && projectIds.length > 0 ? new Set(projectIds) : null,
+    };
     this.clients.push(newClient);
-    logger.info(`[SseNotificationService] Client connected: ${clientId}, Total clients: ${this.clients.length}`);
+    const scope = newClient.projectIds ? `projects ${[...newClient.projectIds].join(', ')}` : 'all projects';
+    logger.info(
+      `[SseNotificationService] Client connected: ${clientId} (${scope}), Total clients: ${this.clients.length}`
+    );
 
-    res.write(`event: connected\ndata: ${JSON.stringify({ clientId })}\n\n`);
+    res.write(`event: connected\ndata: ${JSON.stringify({ clientId, lastEventId: this.eventId(this.lastSeq) })}\n\n`);
+    if (lastEventId !== undefined && lastEventId !== '') {
+      this.replayMissedEvents(newClient, lastEventId);
+    }
 
     res.on('close', () => {
       this.removeClient(clientId);
     });
+    this.startHeartbeat();
 
     return clientId;
   }
@@ -50,22 +120,123 @@ class SseNotificationService {
   removeClient(clientId: string): void {
     this.clients = this.clients.filter((client) => client.id !== clientId);
     logger.info(`[SseNotificationService] Client disconnected: ${clientId}, Total clients: ${this.clients.length}`);
+    if (this.clients.length === 0) {
+      this.stopHeartbeat();
+    }
   }
 
+  public setRelay(relay: SseEventRelay | null): void {
+    this.relay = relay;
+  }
+
+  /**
+   * Sends an event to this process's clients and hands it to the relay, if any, for other processes.
+   */
   public broadcast(event: SseEvent): void {
+    this.deliver(event);
+    this.relay?.publish(event);
+  }
+
+  /**
+   * Sends an event to this process's clients only; used for events relayed from another process.
+   */
+  public deliver(event: SseEvent): void {
+    const seq = ++this.lastSeq;
+    const id = this.eventId(seq);
+    const message = `id: ${id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.payload)}\n\n`;
+    const projectId = event.type === 'projectTreeUpdated' ? (event.payload?.projectId ?? null) : null;
+    if (this.bufferSize > 0) {
+      this.eventBuffer.push({ seq, message, projectId });
+      if (this.eventBuffer.length > this.bufferSize) {
+        this.eventBuffer.shift();
+      }
+    }
+    const recipients = this.clients.filter((client) => this.isSubscribed(client, projectId));
+    if (recipients.length === 0) {
+      return;
+    }
+    logger.info(`[SseNotificationService] Broadcasting event ${id}: ${event.type} to ${recipients.length} client(s)`);
+    recipients.forEach((client) => this.writeToClient(client, message));
+  }
+
+  private isSubscribed(client: Client, projectId: string | null): boolean {
+    return projectId === null || client.projectIds === null || client.projectIds.has(projectId);
+  }
+
+  private eventId(seq: number): string {
+    return `${this.bootId}-${seq}`;
+  }
+
+  private replayMissedEvents(client: Client, lastEventIdHeader: string): void {
+    const match = /^(.+)-(\d+)$/.exec(lastEventIdHeader);
+    const lastSeenSeq = match ? Number(match[2]) : NaN;
+    const oldestBufferedSeq = this.eventBuffer.length > 0 ? this.eventBuffer[0].seq : this.lastSeq + 1;
+    // A gap we cannot fill: unparseable id, an id from another boot, or events evicted from the buffer.
+    if (!match || match[1] !== this.bootId || lastSeenSeq < oldestBufferedSeq - 1 || lastSeenSeq > this.lastSeq) {
+      logger.info(
+        `[SseNotificationService] Client ${client.id} cannot be caught up from event ${lastEventIdHeader}; sending resync.`
+      );
+      this.writeToClient(client, this.resyncMessage());
+      return;
+    }
+    const missed = this.eventBuffer.filter(
+      (event) => event.seq > lastSeenSeq && this.isSubscribed(client, event.projectId)
+    );
+    logger.info(`[SseNotificationService] Replaying ${missed.length} event(s) to client ${client.id}.`);
+    missed.forEach((event) => this.writeToClient(client, event.message));
+  }
+
+  /**
+   * Tells every connected client to reload, e.g. after events from other processes may have been lost.
+   */
+  public resyncClients(): void {
     if (this.clients.length === 0) {
       return;
     }
-    const message = `event: ${event.type}\ndata: ${JSON.stringify(event.payload)}\n\n`;
-    logger.info(`[SseNotificationService] Broadcasting event: ${event.type} to ${this.clients.length} client(s)`);
-    this.clients.forEach((client) => client.res.write(message));
+    logger.info(`[SseNotificationService] Sending resync to ${this.clients.length} client(s).`);
+    const message = this.resyncMessage();
+    this.clients.forEach((client) => this.writeToClient(client, message));
   }
 
-  notifyWorkItemCreated(workItem: WorkItemData, parentWorkItemId: string | null): void {
-    if (parentWorkItemId) {
+  private resyncMessage(): string {
+    const id = this.eventId(this.lastSeq);
+    return `id: ${id}\nevent: resync\ndata: ${JSON.stringify({ lastEventId: id })}\n\n`;
+  }
+
+  private writeToClient(client: Client, message: string): void {
+    try {
+      client.res.write(message);
+    } catch (error) {
+      logger.warn(`[SseNotificationService] Failed to write to client ${client.id}:`, error);
+    }
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeatTimer || this.heartbeatIntervalMs === 0) {
+      return;
+    }
+    // Comment lines are ignored by EventSource but keep proxies from closing idle connections.
+    this.heartbeatTimer = setInterval(() => {
+      this.clients.forEach((client) => this.writeToClient(client, `: heartbeat ${Date.now()}\n\n`));
+    }, this.heartbeatIntervalMs);
+    this.heartbeatTimer.unref();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  // The projectId passed to the notify* methods is the top-level project containing the item,
+  // or null when the item is itself a project.
+
+  notifyWorkItemCreated(workItem: WorkItemData, projectId: string | null): void {
+    if (projectId) {
       this.broadcast({
         type: 'projectTreeUpdated',
-        payload: { projectId: parentWorkItemId, reason: 'child_created', newItemId: workItem.work_item_id },
+        payload: { projectId, reason: 'child_created', newItemId: workItem.work_item_id },
       });
     } else {
       this.broadcast({
@@ -75,18 +246,12 @@ class SseNotificationService {
     }
   }
 
-  notifyWorkItemUpdated(workItem: WorkItemData, parentWorkItemId: string | null): void {
-    if (parentWorkItemId) {
+  notifyWorkItemUpdated(workItem: WorkItemData, projectId: string | null): void {
+    if (projectId) {
       this.broadcast({
         type: 'projectTreeUpdated',
-        payload: { projectId: parentWorkItemId, reason: 'item_updated', updatedItemId: workItem.work_item_id },
+        payload: { projectId, reason: 'item_updated', updatedItemId: workItem.work_item_id },
       });
-      if (this.isProject(workItem)) {
-        this.broadcast({
-          type: 'projectTreeUpdated',
-          payload: { projectId: workItem.work_item_id, reason: 'item_updated', updatedItemId: workItem.work_item_id },
-        });
-      }
     } else {
       this.broadcast({
         type: 'projectListUpdated',
@@ -99,39 +264,45 @@ class SseNotificationService {
     }
   }
 
-  notifyWorkItemDeleted(workItemId: string, parentWorkItemId: string | null, isProject: boolean): void {
-    if (parentWorkItemId) {
+  notifyWorkItemDeleted(workItemId: string, projectId: string | null): void {
+    if (projectId) {
       this.broadcast({
         type: 'projectTreeUpdated',
-        payload: { projectId: parentWorkItemId, reason: 'item_deleted', deletedItemId: workItemId },
+        payload: { projectId, reason: 'item_deleted', deletedItemId: workItemId },
       });
-    } else if (isProject) {
+    } else {
       this.broadcast({ type: 'projectListUpdated', payload: { reason: 'project_deleted', deletedItemId: workItemId } });
-    }
-    this.broadcast({
-      type: 'projectTreeUpdated',
-      payload: { projectId: workItemId, reason: 'project_deleted_itself', deletedItemId: workItemId },
-    });
-  }
-
-  private isProject(item: WorkItemData): boolean {
-    return !item.parent_work_item_id;
-  }
-
-  notifyDependencyChanged(workItemId: string, parentWorkItemId: string | null): void {
-    logger.info(`[SseNotificationService] Dependency changed for: ${workItemId}`);
-    if (parentWorkItemId) {
       this.broadcast({
         type: 'projectTreeUpdated',
-        payload: { projectId: parentWorkItemId, reason: 'dependency_changed', itemId: workItemId },
+        payload: { projectId: workItemId, reason: 'project_deleted_itself', deletedItemId: workItemId },
       });
     }
+  }
+
+  notifyDependencyChanged(workItemId: string, projectId: string | null): void {
+    logger.info(`[SseNotificationService] Dependency changed for: ${workItemId}`);
     this.broadcast({
       type: 'projectTreeUpdated',
-      payload: { projectId: workItemId, reason: 'dependency_changed', itemId: workItemId },
+      payload: { projectId: projectId ?? workItemId, reason: 'dependency_changed', itemId: workItemId },
     });
   }
+
+  /**
+   * Announces a change spanning several projects at once, e.g. an undo/redo or a promotion.
+   */
+  notifyProjectsChanged(projectIds: string[], reason: string, projectListChanged: boolean): void {
+    if (projectListChanged) {
+      this.broadcast({ type: 'projectListUpdated', payload: { reason } });
+    }
+    for (const projectId of new Set(projectIds)) {
+      this.broadcast({ type: 'projectTreeUpdated', payload: { projectId, reason } });
+    }
+  }
 }
 
-const sseNotificationService = new SseNotificationService();
+const configManager = ConfigurationManager.getInstance();
+const sseNotificationService = new SseNotificationService({
+  bufferSize: configManager.getSseBufferSize(),
+  heartbeatIntervalMs: configManager.getSseHeartbeatIntervalMs(),
+});
 export default sseNotificationService;
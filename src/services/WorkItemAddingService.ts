@@ -1,9 +1,10 @@
 // Modified src/services/WorkItemAddingService.ts
-import { PoolClient } from 'pg';
+import type { DbClient } from '../db/DatabaseTypes.js';
 import { v4 as uuidv4, validate as uuidValidate } from 'uuid';
 import {
   WorkItemRepository,
   ActionHistoryRepository,
+  ActionHistoryData,
   WorkItemData,
   WorkItemDependencyData,
   CreateActionHistoryInput,
@@ -12,8 +13,11 @@ import {
 import { AddWorkItemInput, PositionEnum } from './WorkItemServiceTypes.js';
 import { ChildTaskInputRecursive } from '../tools/add_child_tasks_params.js';
 import { WorkItemHistoryService } from './WorkItemHistoryService.js';
-// import sseNotificationServiceInstance from './SseNotificationService.js';
+import { WorkItemReadingService } from './WorkItemReadingService.js';
+import { WorkItemDependencyCycleService } from './WorkItemDependencyCycleService.js';
+import sseNotificationService, { SseNotificationService } from './SseNotificationService.js';
 import { WorkItemUtilsService } from './WorkItemUtilsService.js';
+import { WorkItemOrderKeyService } from './WorkItemOrderKeyService.js';
 import { NotFoundError, ValidationError, DatabaseError } from '../utils/errors.js';
 import { logger } from '../utils/logger.js';
 
@@ -21,22 +25,28 @@ export class WorkItemAddingService {
   private workItemRepository: WorkItemRepository;
   private actionHistoryRepository: ActionHistoryRepository;
   private historyService: WorkItemHistoryService;
-  //private sseService: typeof SseNotificationServiceInstance;
+  private readingService: WorkItemReadingService;
+  private cycleService: WorkItemDependencyCycleService;
+  private orderKeyService: WorkItemOrderKeyService;
+  private sseService: SseNotificationService;
 
   constructor(
     workItemRepository: WorkItemRepository,
     actionHistoryRepository: ActionHistoryRepository,
-    historyService: WorkItemHistoryService //,
-    //sseService: typeof SseNotificationServiceInstance
+    historyService: WorkItemHistoryService,
+    sseService: SseNotificationService = sseNotificationService
   ) {
     this.workItemRepository = workItemRepository;
     this.actionHistoryRepository = actionHistoryRepository;
     this.historyService = historyService;
-    // this.sseService = sseService;
+    this.readingService = new WorkItemReadingService(workItemRepository);
+    this.cycleService = new WorkItemDependencyCycleService(workItemRepository);
+    this.orderKeyService = new WorkItemOrderKeyService(workItemRepository);
+    this.sseService = sseService;
   }
 
   private async determineOrderKeys(
-    client: PoolClient,
+    client: DbClient,
     parentId: string | null,
     insertAt?: typeof PositionEnum._type,
     insertAfterId?: string,
@@ -84,27 +94,29 @@ export class WorkItemAddingService {
     return { keyBefore, keyAfter };
   }
 
-  private async determineOrderKeysForNewItemInTree(client: PoolClient, parentId: string | null): Promise<string> {
+  /** Appends under `parentId`; undo steps for siblings renumbered to make room are added to `renumberSteps`. */
+  private async determineOrderKeysForNewItemInTree(
+    client: DbClient,
+    parentId: string | null,
+    renumberSteps: CreateUndoStepInput[]
+  ): Promise<string> {
     const keyBefore = await this.workItemRepository.findSiblingEdgeOrderKey(parentId, 'last', client);
-    const keyAfter = null;
-    const order_key = WorkItemUtilsService.calculateOrderKey(keyBefore, keyAfter);
-    if (order_key === null) {
-      logger.error('[WorkItemAddingService] Failed to calculate order key for new tree item.', { parentId });
-      throw new DatabaseError('Failed to calculate a valid order key for the new work item in tree.');
-    }
-    return order_key;
+    const placement = await this.orderKeyService.orderKeyBetween(client, parentId, keyBefore, null);
+    renumberSteps.push(...placement.undoSteps);
+    return placement.orderKey;
   }
 
   private async createSingleWorkItemInTree(
     itemData: ChildTaskInputRecursive,
     parentId: string | null,
-    client: PoolClient
+    client: DbClient,
+    renumberSteps: CreateUndoStepInput[]
   ): Promise<WorkItemData> {
     logger.debug(
       `[WorkItemAddingService-createSingleWorkItemInTree] Creating item: "${itemData.name}" under parent: ${parentId}`
     );
 
-    const order_key = await this.determineOrderKeysForNewItemInTree(client, parentId);
+    const order_key = await this.determineOrderKeysForNewItemInTree(client, parentId, renumberSteps);
     const now = new Date().toISOString();
     const newWorkItemData: WorkItemData = {
       work_item_id: uuidv4(),
@@ -118,6 +130,9 @@ export class WorkItemAddingService {
       is_active: true,
       created_at: now,
       updated_at: now,
+      tags: itemData.tags ? Array.from(new Set(itemData.tags)) : [],
+      estimated_duration_days: itemData.estimated_duration_days ?? null,
+      ...WorkItemUtilsService.statusTimestamps(itemData.status || 'todo', now),
     };
 
     const createdItem = await this.workItemRepository.create(client, newWorkItemData);
@@ -133,10 +148,12 @@ export class WorkItemAddingService {
   private async addWorkItemTreeRecursiveInternal(
     currentParentId: string | null,
     tasksToCreate: ChildTaskInputRecursive[],
-    client: PoolClient,
-    accumulatedCreatedItems: WorkItemData[]
+    client: DbClient,
+    accumulatedCreatedItems: WorkItemData[],
+    renumberSteps: CreateUndoStepInput[],
+    allowDoneParents: boolean
   ): Promise<void> {
-    if (currentParentId) {
+    if (currentParentId && !(allowDoneParents && accumulatedCreatedItems.length > 0)) {
       const parentItem = await this.workItemRepository.findById(currentParentId, { isActive: true }, client);
       if (!parentItem) {
         throw new NotFoundError(
@@ -151,19 +168,96 @@ export class WorkItemAddingService {
     }
 
     for (const taskDef of tasksToCreate) {
-      const createdItem = await this.createSingleWorkItemInTree(taskDef, currentParentId, client);
+      const createdItem = await this.createSingleWorkItemInTree(taskDef, currentParentId, client, renumberSteps);
       accumulatedCreatedItems.push(createdItem);
       if (taskDef.children && taskDef.children.length > 0) {
         await this.addWorkItemTreeRecursiveInternal(
           createdItem.work_item_id,
           taskDef.children,
           client,
-          accumulatedCreatedItems
+          accumulatedCreatedItems,
+          renumberSteps,
+          allowDoneParents
         );
       }
     }
   }
 
+  /**
+   * Creates `childTasksTree` under `parentId` (null for a new project) in the caller's transaction without
+   * recording history, returning the items in the order they were created: depth first, in input order.
+   * Undo steps for siblings renumbered to make room are added to `renumberSteps`. With `allowDoneParents`, items
+   * created here may be "done" and still get children, which copies of finished work need.
+   */
+  public async createWorkItemTreeInClient(
+    client: DbClient,
+    parentId: string | null,
+    childTasksTree: ChildTaskInputRecursive[],
+    renumberSteps: CreateUndoStepInput[],
+    allowDoneParents = false
+  ): Promise<WorkItemData[]> {
+    const createdItems: WorkItemData[] = [];
+    await this.addWorkItemTreeRecursiveInternal(
+      parentId,
+      childTasksTree,
+      client,
+      createdItems,
+      renumberSteps,
+      allowDoneParents
+    );
+    return createdItems;
+  }
+
+  /**
+   * Records items made by createWorkItemTreeInClient (or an import), and any `dependencies` created between them,
+   * as one action in the caller's transaction, so a single undo removes them and puts renumbered siblings back.
+   * Redo restores each item as it was created, so items imported inactive stay inactive.
+   */
+  public async recordTreeCreation(
+    client: DbClient,
+    actionData: CreateActionHistoryInput,
+    items: WorkItemData[],
+    renumberSteps: CreateUndoStepInput[],
+    dependencies: WorkItemDependencyData[] = []
+  ): Promise<ActionHistoryData> {
+    const undoSteps: CreateUndoStepInput[] = items.map((item, index) => ({
+      step_order: index + 1,
+      step_type: 'UPDATE',
+      table_name: 'work_items',
+      record_id: item.work_item_id,
+      old_data: { is_active: false },
+      new_data: { ...item },
+    }));
+    dependencies.forEach((dep) => {
+      undoSteps.push({
+        step_order: undoSteps.length + 1,
+        step_type: 'UPDATE',
+        table_name: 'work_item_dependencies',
+        record_id: `${dep.work_item_id}:${dep.depends_on_work_item_id}`,
+        old_data: { is_active: false },
+        new_data: { ...dep },
+      });
+    });
+    // Later renumbering moved items created earlier in the batch, so it is redone after them.
+    const ownStepCount = undoSteps.length;
+    renumberSteps.forEach((step, index) => {
+      undoSteps.push({ ...step, step_order: ownStepCount + index + 1 });
+    });
+
+    const createdAction = await this.actionHistoryRepository.createActionInClient(
+      { ...actionData, description: actionData.description?.substring(0, 250) ?? null },
+      client
+    );
+    for (const step of undoSteps) {
+      await this.actionHistoryRepository.createUndoStepInClient(
+        { ...step, action_id: createdAction.action_id },
+        client
+      );
+    }
+    await this.historyService.invalidateRedoStack(client, createdAction.action_id);
+    return createdAction;
+  }
+
   public async addWorkItemTree(
     initialParentId: string,
     childTasksTree: ChildTaskInputRecursive[]
@@ -182,26 +276,21 @@ export class WorkItemAddingService {
       );
     }
     const allCreatedItems: WorkItemData[] = [];
+    const renumberSteps: CreateUndoStepInput[] = [];
+    let projectId: string | null = null;
     await this.actionHistoryRepository.withTransaction(async (txClient) => {
-      await this.addWorkItemTreeRecursiveInternal(initialParentId, childTasksTree, txClient, allCreatedItems);
+      allCreatedItems.push(
+        ...(await this.createWorkItemTreeInClient(txClient, initialParentId, childTasksTree, renumberSteps))
+      );
       if (allCreatedItems.length > 0) {
         const topLevelCreatedNames = childTasksTree.map((t) => t.name).join(', ');
-        const description = `Added task tree (${allCreatedItems.length} total items) under "${parentItem.name}": ${topLevelCreatedNames}`;
         const actionData: CreateActionHistoryInput = {
           action_type: 'ADD_TASK_TREE',
           work_item_id: initialParentId,
-          description: description.substring(0, 250),
+          description: `Added task tree (${allCreatedItems.length} total items) under "${parentItem.name}": ${topLevelCreatedNames}`,
         };
-        const undoStepsForBatch: CreateUndoStepInput[] = allCreatedItems.map((createdItem, index) => ({
-          step_order: index + 1,
-          step_type: 'UPDATE',
-          table_name: 'work_items',
-          record_id: createdItem.work_item_id,
-          old_data: { is_active: false },
-          new_data: { ...createdItem, is_active: true },
-        }));
-        const createdAction = await this.actionHistoryRepository.createActionWithSteps(actionData, undoStepsForBatch);
-        await this.historyService.invalidateRedoStack(txClient, createdAction.action_id);
+        const createdAction = await this.recordTreeCreation(txClient, actionData, allCreatedItems, renumberSteps);
+        projectId = (await this.readingService.getProjectIdsOf([initialParentId], txClient))[0] ?? initialParentId;
         logger.info(
           `[WorkItemAddingService] Task tree creation transaction committed. Action ID: ${createdAction.action_id}. Total items: ${allCreatedItems.length}.`
         );
@@ -209,8 +298,8 @@ export class WorkItemAddingService {
         logger.info(`[WorkItemAddingService] No items were specified in the task tree for parent ${initialParentId}.`);
       }
     });
-    if (allCreatedItems.length > 0) {
-      //this.sseService.notifyWorkItemUpdated(parentItem, parentItem.parent_work_item_id);
+    if (allCreatedItems.length > 0 && projectId) {
+      this.sseService.notifyProjectsChanged([projectId], 'children_created', false);
     }
     return allCreatedItems;
   }
@@ -218,6 +307,7 @@ export class WorkItemAddingService {
   public async addWorkItem(input: AddWorkItemInput): Promise<WorkItemData> {
     logger.info('[WorkItemAddingService] addWorkItem called with input:', input);
     let createdItemGlobal: WorkItemData | undefined;
+    let projectId: string | null = null;
 
     await this.actionHistoryRepository.withTransaction(async (txClient) => {
       if (input.parent_work_item_id && !uuidValidate(input.parent_work_item_id)) {
@@ -246,8 +336,8 @@ export class WorkItemAddingService {
         input.insertBefore_work_item_id
       );
 
-      const order_key = WorkItemUtilsService.calculateOrderKey(keyBefore, keyAfter);
-      if (order_key === null) throw new DatabaseError('Failed to calculate order key.');
+      const placement = await this.orderKeyService.orderKeyBetween(txClient, parentId, keyBefore, keyAfter);
+      const order_key = placement.orderKey;
 
       const now = new Date().toISOString();
       const newWorkItemId = uuidv4();
@@ -263,6 +353,9 @@ export class WorkItemAddingService {
         is_active: true,
         created_at: now,
         updated_at: now,
+        tags: input.tags ? Array.from(new Set(input.tags)) : [],
+        estimated_duration_days: input.estimated_duration_days ?? null,
+        ...WorkItemUtilsService.statusTimestamps(input.status || 'todo', now),
       };
 
       let dependenciesForRepoCreate: WorkItemDependencyData[] | undefined = undefined;
@@ -272,8 +365,10 @@ export class WorkItemAddingService {
           work_item_id: newWorkItemId,
           depends_on_work_item_id: d.depends_on_work_item_id,
           dependency_type: d.dependency_type || 'finish-to-start',
+          lag_days: d.lag_days ?? 0,
           is_active: true,
         }));
+        await this.cycleService.assertNoCycle(newWorkItemId, dependenciesForRepoCreate, txClient);
       }
 
       const createdItem = await this.workItemRepository.create(txClient, newWorkItemData, dependenciesForRepoCreate);
@@ -304,17 +399,25 @@ export class WorkItemAddingService {
           });
         });
       }
+      const ownStepCount = undoStepsForSingleAdd.length;
+      placement.undoSteps.forEach((step) => {
+        undoStepsForSingleAdd.push({ ...step, step_order: ownStepCount + step.step_order });
+      });
 
       const actionInput: CreateActionHistoryInput = {
         action_type: 'ADD_WORK_ITEM',
         work_item_id: createdItem.work_item_id,
         description: `Added work item "${createdItem.name}"`,
       };
-      const createdAction = await this.actionHistoryRepository.createActionWithSteps(
-        actionInput,
-        undoStepsForSingleAdd
-      );
+      const createdAction = await this.actionHistoryRepository.createActionInClient(actionInput, txClient);
+      for (const step of undoStepsForSingleAdd) {
+        await this.actionHistoryRepository.createUndoStepInClient(
+          { ...step, action_id: createdAction.action_id },
+          txClient
+        );
+      }
       await this.historyService.invalidateRedoStack(txClient, createdAction.action_id);
+      projectId = await this.readingService.getProjectIdOf(createdItem, txClient);
       logger.info(
         `[WorkItemAddingService] Added single work item ${createdItem.work_item_id}. Action ID: ${createdAction.action_id}`
       );
@@ -323,6 +426,7 @@ export class WorkItemAddingService {
     if (!createdItemGlobal) {
       throw new DatabaseError('Failed to create work item, item reference not set.');
     }
+    this.sseService.notifyWorkItemCreated(createdItemGlobal, projectId);
     return createdItemGlobal;
   }
 }
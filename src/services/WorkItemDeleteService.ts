@@ -1,5 +1,6 @@
 // src/services/WorkItemDeleteService.ts
-import { PoolClient, Pool } from 'pg'; // Import Pool
+import type { DbClient, DbPool } from '../db/DatabaseTypes.js';
+import { getSqlDialect } from '../db/SqlDialect.js';
 import {
   WorkItemRepository, // Import main repo class
   ActionHistoryRepository, // Import main repo class
@@ -9,7 +10,9 @@ import {
   CreateUndoStepInput,
 } from '../repositories/index.js';
 import { logger } from '../utils/logger.js';
+import { ValidationError } from '../utils/errors.js';
 import { WorkItemHistoryService } from './WorkItemHistoryService.js';
+import sseNotificationService, { SseNotificationService } from './SseNotificationService.js';
 import { validate as uuidValidate } from 'uuid';
 
 /**
@@ -19,9 +22,14 @@ export class WorkItemDeleteService {
   private workItemRepository: WorkItemRepository;
   private actionHistoryRepository: ActionHistoryRepository;
   private historyService: WorkItemHistoryService;
-  private pool: Pool; // Store pool instance
+  private pool: DbPool; // Store pool instance
+  private sseService: SseNotificationService;
 
-  constructor(workItemRepository: WorkItemRepository, actionHistoryRepository: ActionHistoryRepository) {
+  constructor(
+    workItemRepository: WorkItemRepository,
+    actionHistoryRepository: ActionHistoryRepository,
+    sseService: SseNotificationService = sseNotificationService
+  ) {
     this.workItemRepository = workItemRepository;
     this.actionHistoryRepository = actionHistoryRepository;
     // Defer historyService initialization to avoid circular dependency if HistoryService uses DeleteService
@@ -31,13 +39,16 @@ export class WorkItemDeleteService {
     // Let's initialize it here assuming no direct constructor cycle:
     this.historyService = new WorkItemHistoryService(workItemRepository, actionHistoryRepository);
     this.pool = workItemRepository.getPool(); // Get pool from repository
+    this.sseService = sseService;
   }
 
   /**
    * Soft deletes work items and their dependencies recursively.
    * Returns the count of work items actually marked as inactive by the repository operation.
+   * Refuses with a ValidationError if that would deactivate links other active items depend on,
+   * unless `force` confirms it.
    */
-  public async deleteWorkItem(ids: string[]): Promise<number> {
+  public async deleteWorkItem(ids: string[], options?: { force?: boolean }): Promise<number> {
     if (!ids || ids.length === 0 || !ids.every(uuidValidate)) {
       logger.warn('[WorkItemDeleteService] deleteWorkItem called with empty or invalid ID array.');
       return 0;
@@ -53,6 +64,9 @@ export class WorkItemDeleteService {
     const deactivatedLinkKeys: { work_item_id: string; depends_on_work_item_id: string }[] = []; // Track links actually deactivated
     const itemsToDeleteBeforeState: WorkItemData[] = []; // Capture state BEFORE delete
     const linksToDeleteBeforeState: WorkItemDependencyData[] = []; // Capture state BEFORE delete
+    // Requested items that were deleted, with their containing project (null for projects), for notifications
+    const deletedRequestedItems: { workItemId: string; projectId: string | null }[] = [];
+    let linkedProjectIds: string[] = [];
 
     // Determine all items to delete (including descendants) *before* the transaction
     const allItemIdsToDeleteSet: Set<string> = new Set();
@@ -69,7 +83,7 @@ export class WorkItemDeleteService {
       while (queue.length > 0) {
         const currentId = queue.shift()!;
         // Find ALL children (active or inactive), as we need to include them in the potential delete scope
-        const children = await this.workItemRepository.findChildren(currentId, { isActive: undefined }); // Find all regardless of status
+        const children = await this.workItemRepository.findChildren(currentId, { isActive: undefined }, tempClient); // Find all regardless of status
 
         for (const child of children) {
           if (!visited.has(child.work_item_id)) {
@@ -110,6 +124,9 @@ export class WorkItemDeleteService {
       logger.debug(
         `[WorkItemDeleteService Tx DEBUG] Before State Captured: ${itemsToDeleteBeforeState.length} active items, ${linksToDeleteBeforeState.length} active links.`
       );
+      if (!options?.force) {
+        await this.assertNoBrokenDependents(linksToDeleteBeforeState, allItemIdsToDeleteSet, client);
+      }
 
       // 2. Perform soft delete (items) - only operate on items captured in before state
       const itemIdsToDeleteNow = itemsToDeleteBeforeState.map((i) => i.work_item_id);
@@ -223,6 +240,23 @@ export class WorkItemDeleteService {
           // Invalidate redo stack using the initialized historyService
           await this.historyService.invalidateRedoStack(client, createdAction.action_id);
           logger.info(`[WorkItemDeleteService Tx] Recorded history for delete action ${createdAction.action_id}.`);
+
+          const roots = await this.workItemRepository.findRootWorkItemIds(ids, client);
+          itemsToDeleteBeforeState
+            .filter((item) => ids.includes(item.work_item_id))
+            .forEach((item) =>
+              deletedRequestedItems.push({
+                workItemId: item.work_item_id,
+                projectId: item.parent_work_item_id ? (roots.get(item.work_item_id) ?? null) : null,
+              })
+            );
+          // Links into other projects (e.g. promoted projects) change those projects' trees too
+          const linkEndpointRoots = await this.workItemRepository.findRootWorkItemIds(
+            linksToDeleteBeforeState.flatMap((link) => [link.work_item_id, link.depends_on_work_item_id]),
+            client
+          );
+          const ownProjectIds = new Set(Array.from(roots.values()));
+          linkedProjectIds = Array.from(new Set(linkEndpointRoots.values())).filter((id) => !ownProjectIds.has(id));
         }
         // Removed the 'else' block that skipped history recording if no steps were generated,
         // as the throw above should prevent reaching here in that inconsistent state.
@@ -231,10 +265,61 @@ export class WorkItemDeleteService {
       }
     }); // End Transaction
 
+    for (const { workItemId, projectId } of deletedRequestedItems) {
+      this.sseService.notifyWorkItemDeleted(workItemId, projectId);
+    }
+    if (linkedProjectIds.length > 0) {
+      this.sseService.notifyProjectsChanged(linkedProjectIds, 'dependency_changed', false);
+    }
+
     logger.debug(`[WorkItemDeleteService] Returning count: ${actualDeletedItemCount} (based on repository rowCount)`);
     return actualDeletedItemCount;
   }
 
+  /**
+   * Throws a ValidationError listing the links among `links` that active items outside the deletion
+   * depend on, if there are any: deleting would silently drop those dependencies.
+   */
+  private async assertNoBrokenDependents(
+    links: WorkItemDependencyData[],
+    deletedIds: Set<string>,
+    client: DbClient
+  ): Promise<void> {
+    const inbound = links.filter(
+      (link) => deletedIds.has(link.depends_on_work_item_id) && !deletedIds.has(link.work_item_id)
+    );
+    if (inbound.length === 0) {
+      return;
+    }
+    const endpointIds = [...new Set(inbound.flatMap((link) => [link.work_item_id, link.depends_on_work_item_id]))];
+    const items = new Map(
+      (await this.workItemRepository.findByIds(endpointIds, undefined, client)).map((item) => [item.work_item_id, item])
+    );
+    const broken = inbound.filter((link) => items.get(link.work_item_id)?.is_active);
+    if (broken.length === 0) {
+      return;
+    }
+
+    const description = broken
+      .map(
+        (link) =>
+          `"${items.get(link.work_item_id)!.name}" depends on "${items.get(link.depends_on_work_item_id)?.name}" (${link.dependency_type})`
+      )
+      .join('; ');
+    logger.warn(`[WorkItemDeleteService] Delete would break ${broken.length} dependency link(s): ${description}`);
+    throw new ValidationError(
+      `Deleting would remove ${broken.length} dependency link(s) that active items rely on: ${description}. ` +
+        'Check get_impact, then pass force: true to delete anyway.',
+      {
+        broken_dependencies: broken.map((link) => ({
+          work_item_id: link.work_item_id,
+          depends_on_work_item_id: link.depends_on_work_item_id,
+          dependency_type: link.dependency_type,
+        })),
+      }
+    );
+  }
+
   /**
    * Finds all descendant work item IDs recursively. Uses the pool.
    * @param rootId The starting item ID.
@@ -274,14 +359,15 @@ export class WorkItemDeleteService {
   /** Helper to find all dependency links involving the items being deleted. Uses pool or provided client. */
   private async findLinksToDeactivate(
     itemIds: string[],
-    clientOrPool?: PoolClient | Pool
+    clientOrPool?: DbClient | DbPool
   ): Promise<WorkItemDependencyData[]> {
     if (itemIds.length === 0) return [];
     const dbClient = clientOrPool ?? this.pool; // Can use client if provided for consistency within transaction
+    const dialect = getSqlDialect(this.pool);
     // Find links where either the item OR the item it depends on is in the list of items being deleted
     const sql = `
        SELECT * FROM work_item_dependencies
-       WHERE work_item_id = ANY($1::uuid[]) OR depends_on_work_item_id = ANY($1::uuid[]);
+       WHERE ${dialect.inUuidArray('work_item_id', '$1')} OR ${dialect.inUuidArray('depends_on_work_item_id', '$1')};
      `;
     const params = [itemIds];
     try {
@@ -0,0 +1,98 @@
+// src/services/WorkItemDependencyCycleService.ts
+import { type WorkItemRepository } from '../repositories/index.js';
+import { logger } from '../utils/logger.js';
+import { ValidationError } from '../utils/errors.js';
+import type { DbClient } from '../db/DatabaseTypes.js';
+
+/**
+ * Dependency types that order the dependent item after its prerequisite, and so must never form a cycle.
+ * Only 'linked' is a plain reference.
+ */
+const BLOCKING_DEPENDENCY_TYPES = new Set(['finish-to-start', 'start-to-start', 'finish-to-finish', 'start-to-finish']);
+
+/**
+ * Guards the graph of active scheduling dependencies against cycles. A cycle would leave the items on it
+ * waiting for each other forever, so get_next_task could never suggest them and no schedule exists.
+ */
+export class WorkItemDependencyCycleService {
+  private workItemRepository: WorkItemRepository;
+
+  constructor(workItemRepository: WorkItemRepository) {
+    this.workItemRepository = workItemRepository;
+  }
+
+  /**
+   * Throws a ValidationError naming the full cycle if `workItemId` depending on any of `dependencies`
+   * would close a cycle. Runs on `client` so it sees the caller's uncommitted changes. Correct whether
+   * or not the new links are already written: a path back to `workItemId` never needs its own links.
+   */
+  public async assertNoCycle(
+    workItemId: string,
+    dependencies: { depends_on_work_item_id: string; dependency_type?: string | null }[],
+    client: DbClient
+  ): Promise<void> {
+    const targetIds = dependencies
+      .filter((dep) => BLOCKING_DEPENDENCY_TYPES.has(dep.dependency_type ?? 'finish-to-start'))
+      .map((dep) => dep.depends_on_work_item_id);
+    if (targetIds.length === 0) {
+      return;
+    }
+
+    const cycle = await this.findPathBack(workItemId, targetIds, client);
+    if (!cycle) {
+      return;
+    }
+
+    const items = await this.workItemRepository.findByIds([...new Set(cycle)], undefined, client);
+    const names = new Map(items.map((item) => [item.work_item_id, item.name]));
+    const description = cycle.map((id) => `"${names.get(id) ?? id}" (${id})`).join(' -> ');
+    logger.warn(`[WorkItemDependencyCycleService] Rejected dependency cycle: ${cycle.join(' -> ')}`);
+    throw new ValidationError(
+      `Dependency cycle detected: ${description}. Each item would wait for the next one, so none of them could ever be scheduled.`,
+      { cycle }
+    );
+  }
+
+  /**
+   * Breadth-first search from the new dependency targets along active scheduling links, looking
+   * for `workItemId`. Returns the cycle `[workItemId, target, ..., workItemId]`, or null if there is none.
+   */
+  private async findPathBack(workItemId: string, targetIds: string[], client: DbClient): Promise<string[] | null> {
+    // Maps each visited item to the item that depends on it on the way from workItemId.
+    const reachedFrom = new Map<string, string>();
+    let frontier: string[] = [];
+    for (const targetId of targetIds) {
+      if (!reachedFrom.has(targetId)) {
+        reachedFrom.set(targetId, workItemId);
+        frontier.push(targetId);
+      }
+    }
+
+    while (frontier.length > 0) {
+      if (frontier.includes(workItemId)) {
+        const path = [workItemId];
+        for (let id = reachedFrom.get(workItemId)!; id !== workItemId; id = reachedFrom.get(id)!) {
+          path.unshift(id);
+        }
+        path.unshift(workItemId);
+        return path;
+      }
+
+      const links = await this.workItemRepository.findDependenciesByItemList(
+        frontier,
+        { isActive: true, dependsOnActive: true },
+        client
+      );
+      const next: string[] = [];
+      for (const link of links) {
+        if (!BLOCKING_DEPENDENCY_TYPES.has(link.dependency_type) || reachedFrom.has(link.depends_on_work_item_id)) {
+          continue;
+        }
+        reachedFrom.set(link.depends_on_work_item_id, link.work_item_id);
+        next.push(link.depends_on_work_item_id);
+      }
+      frontier = next;
+    }
+    return null;
+  }
+}
@@ -12,7 +12,9 @@ import { NotFoundError, ValidationError } from '../utils/errors.js';
 import { type FullWorkItemData } from './WorkItemServiceTypes.js';
 import { WorkItemReadingService } from './WorkItemReadingService.js';
 import { WorkItemHistoryService } from './WorkItemHistoryService.js';
-import { type PoolClient } from 'pg';
+import { WorkItemDependencyCycleService } from './WorkItemDependencyCycleService.js';
+import type { DbClient } from '../db/DatabaseTypes.js';
+import sseNotificationService, { type SseNotificationService } from './SseNotificationService.js';
 import { type DependencyInput } from '../tools/add_dependencies_params.js';
 
 export class WorkItemDependencyUpdateService {
@@ -20,23 +22,39 @@ export class WorkItemDependencyUpdateService {
   private actionHistoryRepository: ActionHistoryRepository;
   private readingService: WorkItemReadingService;
   private historyService: WorkItemHistoryService;
-
-  constructor(workItemRepository: WorkItemRepository, actionHistoryRepository: ActionHistoryRepository) {
+  private cycleService: WorkItemDependencyCycleService;
+  private sseService: SseNotificationService;
+
+  constructor(
+    workItemRepository: WorkItemRepository,
+    actionHistoryRepository: ActionHistoryRepository,
+    sseService: SseNotificationService = sseNotificationService
+  ) {
     this.workItemRepository = workItemRepository;
     this.actionHistoryRepository = actionHistoryRepository;
     this.readingService = new WorkItemReadingService(workItemRepository);
     this.historyService = new WorkItemHistoryService(workItemRepository, actionHistoryRepository);
+    this.cycleService = new WorkItemDependencyCycleService(workItemRepository);
+    this.sseService = sseService;
   }
 
+  /**
+   * Adds or reactivates dependencies and records an ADD_DEPENDENCIES action.
+   * Pass `outerClient` to run inside a transaction the caller already holds; clients are then not notified,
+   * since the change is not committed yet, and the caller notifies them once its transaction commits.
+   */
   public async addDependencies(
     workItemId: string,
-    dependenciesToAddInput: DependencyInput[]
+    dependenciesToAddInput: DependencyInput[],
+    outerClient?: DbClient
   ): Promise<FullWorkItemData> {
     logger.info(
       `[WorkItemDependencyUpdateService] Adding/updating ${dependenciesToAddInput.length} dependencies for work item ${workItemId}`
     );
 
     let itemReceivingDependencies: WorkItemData | undefined;
+    let projectId: string | null = null;
+    let changed = false;
     const depsOfItemBeforeThisOperationMap: Map<string, WorkItemDependencyData> = new Map();
 
     if (!dependenciesToAddInput || dependenciesToAddInput.length === 0) {
@@ -54,7 +72,7 @@ export class WorkItemDependencyUpdateService {
       depsOfItemBeforeThisOperationMap.set(dep.depends_on_work_item_id, dep)
     );
 
-    await this.actionHistoryRepository.withTransaction(async (client: PoolClient) => {
+    await this.actionHistoryRepository.withTransaction(async (client: DbClient) => {
       itemReceivingDependencies = await this.workItemRepository.findById(workItemId, { isActive: true }, client);
       if (!itemReceivingDependencies) {
         throw new NotFoundError(`Work item with ID ${workItemId} (to add dependencies to) not found or is inactive.`);
@@ -77,10 +95,13 @@ export class WorkItemDependencyUpdateService {
         }
       }
 
+      await this.cycleService.assertNoCycle(workItemId, dependenciesToAddInput, client);
+
       const dependenciesToUpsert: WorkItemDependencyData[] = dependenciesToAddInput.map((depInput) => ({
         work_item_id: workItemId,
         depends_on_work_item_id: depInput.depends_on_work_item_id,
         dependency_type: depInput.dependency_type ?? 'finish-to-start',
+        lag_days: depInput.lag_days ?? 0,
         is_active: true,
       }));
 
@@ -124,9 +145,10 @@ export class WorkItemDependencyUpdateService {
           if (
             stateBeforeThisOp.is_active &&
             stateAfterThisOp.is_active &&
-            stateBeforeThisOp.dependency_type !== stateAfterThisOp.dependency_type
+            (stateBeforeThisOp.dependency_type !== stateAfterThisOp.dependency_type ||
+              stateBeforeThisOp.lag_days !== stateAfterThisOp.lag_days)
           ) {
-            // Type changed on active link
+            // Type or lag changed on active link
             effectiveChangeMade = true;
           }
         }
@@ -139,6 +161,7 @@ export class WorkItemDependencyUpdateService {
                 work_item_id: workItemId,
                 depends_on_work_item_id: dependsOnId,
                 dependency_type: intendedChange.dependency_type,
+                lag_days: intendedChange.lag_days,
                 is_active: false, // If it was new, undoing makes it inactive/non-existent
               };
 
@@ -160,6 +183,8 @@ export class WorkItemDependencyUpdateService {
           work_item_id: workItemId,
           description: actionDescription,
         };
+        projectId = await this.readingService.getProjectIdOf(itemReceivingDependencies, client);
+        changed = true;
         const createdAction = await this.actionHistoryRepository.createActionInClient(actionData, client);
         for (const step of undoStepsData) {
           await this.actionHistoryRepository.createUndoStepInClient(
@@ -176,8 +201,11 @@ export class WorkItemDependencyUpdateService {
           `[WorkItemDependencyUpdateService] addDependencies for ${workItemId}: No effective changes to dependencies detected for history record.`
         );
       }
-    });
+    }, outerClient);
 
+    if (changed && !outerClient) {
+      this.sseService.notifyDependencyChanged(workItemId, projectId);
+    }
     const fullUpdatedItem = await this.readingService.getWorkItemById(workItemId, { isActive: undefined });
     if (!fullUpdatedItem) {
       throw new Error(`Failed to retrieve full details for item ${workItemId} after addDependencies.`);
@@ -192,12 +220,14 @@ export class WorkItemDependencyUpdateService {
     );
 
     let itemBeforeUpdate: WorkItemData | undefined;
+    let projectId: string | null = null;
+    let changed = false;
 
     if (!dependsOnIdsToRemove || dependsOnIdsToRemove.length === 0) {
       throw new ValidationError('No dependency IDs provided to remove.');
     }
 
-    await this.actionHistoryRepository.withTransaction(async (client: PoolClient) => {
+    await this.actionHistoryRepository.withTransaction(async (client: DbClient) => {
       itemBeforeUpdate = await this.workItemRepository.findById(workItemId, { isActive: true }, client);
       if (!itemBeforeUpdate) {
         throw new NotFoundError(`Work item with ID ${workItemId} not found or is inactive.`);
@@ -266,6 +296,8 @@ export class WorkItemDependencyUpdateService {
           work_item_id: workItemId,
           description: actionDescription,
         };
+        projectId = await this.readingService.getProjectIdOf(itemBeforeUpdate, client);
+        changed = true;
         const createdAction = await this.actionHistoryRepository.createActionInClient(actionData, client);
         for (const step of undoStepsData) {
           await this.actionHistoryRepository.createUndoStepInClient(
@@ -284,6 +316,9 @@ export class WorkItemDependencyUpdateService {
       }
     });
 
+    if (changed) {
+      this.sseService.notifyDependencyChanged(workItemId, projectId);
+    }
     const fullUpdatedItem = await this.readingService.getWorkItemById(workItemId, { isActive: undefined });
     if (!fullUpdatedItem) {
       logger.error(
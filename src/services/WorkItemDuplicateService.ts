@@ -0,0 +1,187 @@
+// src/services/WorkItemDuplicateService.ts
+import type { DbClient } from '../db/DatabaseTypes.js';
+import {
+  WorkItemRepository,
+  ActionHistoryRepository,
+  WorkItemData,
+  WorkItemDependencyData,
+  CreateActionHistoryInput,
+  CreateUndoStepInput,
+} from '../repositories/index.js';
+import { FullWorkItemData, DuplicateWorkItemOptions } from './WorkItemServiceTypes.js';
+import { ChildTaskInputRecursive } from '../tools/add_child_tasks_params.js';
+import { WorkItemAddingService } from './WorkItemAddingService.js';
+import { WorkItemReadingService } from './WorkItemReadingService.js';
+import { WorkItemHistoryService } from './WorkItemHistoryService.js';
+import { WorkItemUtilsService } from './WorkItemUtilsService.js';
+import { DAY_MS } from './WorkItemScheduleService.js';
+import sseNotificationService, { SseNotificationService } from './SseNotificationService.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Service responsible for deep-copying a work item, and optionally its subtree, as a single undoable action.
+ */
+export class WorkItemDuplicateService {
+  private workItemRepository: WorkItemRepository;
+  private actionHistoryRepository: ActionHistoryRepository;
+  private readingService: WorkItemReadingService;
+  private historyService: WorkItemHistoryService;
+  private addingService: WorkItemAddingService;
+  private sseService: SseNotificationService;
+
+  constructor(
+    workItemRepository: WorkItemRepository,
+    actionHistoryRepository: ActionHistoryRepository,
+    sseService: SseNotificationService = sseNotificationService
+  ) {
+    this.workItemRepository = workItemRepository;
+    this.actionHistoryRepository = actionHistoryRepository;
+    this.readingService = new WorkItemReadingService(workItemRepository);
+    this.historyService = new WorkItemHistoryService(workItemRepository, actionHistoryRepository);
+    this.addingService = new WorkItemAddingService(
+      workItemRepository,
+      actionHistoryRepository,
+      this.historyService,
+      sseService
+    );
+    this.sseService = sseService;
+  }
+
+  /**
+   * Turns the active subtree under `item` into the input add_child_tasks takes, collecting the originals in the
+   * same depth-first order the copies will be created in.
+   */
+  private async buildCopyTree(
+    client: DbClient,
+    item: WorkItemData,
+    options: DuplicateWorkItemOptions,
+    originals: WorkItemData[]
+  ): Promise<ChildTaskInputRecursive> {
+    originals.push(item);
+    const offsetDays = options.due_date_offset_days ?? 0;
+    const node: ChildTaskInputRecursive = {
+      name: item.name,
+      description: item.description,
+      status: options.reset_status || item.status === 'blocked' ? 'todo' : item.status,
+      priority: item.priority,
+      due_date:
+        item.due_date && offsetDays !== 0
+          ? new Date(Date.parse(item.due_date) + offsetDays * DAY_MS).toISOString()
+          : item.due_date,
+      estimated_duration_days: item.estimated_duration_days,
+      tags: options.include_tags === false ? [] : item.tags,
+    };
+    if (options.include_descendants !== false) {
+      const children = (await this.workItemRepository.findChildren(item.work_item_id, { isActive: true }, client)).sort(
+        (a, b) => WorkItemUtilsService.compareOrderKeys(a.order_key, b.order_key)
+      );
+      node.children = [];
+      for (const child of children) {
+        node.children.push(await this.buildCopyTree(client, child, options, originals));
+      }
+    }
+    return node;
+  }
+
+  /**
+   * Copies `workItemId` under the chosen parent, after its last child, using the same creation path as
+   * add_child_tasks. Dependencies between copied items are re-created between the copies. The items, the
+   * dependencies and any renumbered siblings are recorded as one DUPLICATE_WORK_ITEM action.
+   */
+  public async duplicateWorkItem(
+    workItemId: string,
+    options: DuplicateWorkItemOptions = {}
+  ): Promise<FullWorkItemData> {
+    logger.info(`[WorkItemDuplicateService] Duplicating work item ${workItemId}.`);
+    let createdItems: WorkItemData[] = [];
+    const createdDependencies: WorkItemDependencyData[] = [];
+    let targetParentId: string | null = null;
+    let projectId: string | null = null;
+
+    await this.actionHistoryRepository.withTransaction(async (client: DbClient) => {
+      const source = await this.workItemRepository.findById(workItemId, { isActive: true }, client);
+      if (!source) {
+        throw new NotFoundError(`Work item with ID ${workItemId} not found or is inactive.`);
+      }
+      targetParentId =
+        options.parent_work_item_id === undefined ? source.parent_work_item_id : options.parent_work_item_id;
+      if (targetParentId) {
+        const parentItem = await this.workItemRepository.findById(targetParentId, { isActive: true }, client);
+        if (!parentItem) {
+          throw new NotFoundError(`Parent work item with ID ${targetParentId} not found or is inactive.`);
+        }
+        if (parentItem.status === 'done') {
+          throw new ValidationError(
+            `Parent work item "${parentItem.name}" (ID: ${targetParentId}) is "done", cannot add the copy.`
+          );
+        }
+      }
+
+      const originals: WorkItemData[] = [];
+      const copyTree = await this.buildCopyTree(client, source, options, originals);
+      if (options.name !== undefined) {
+        copyTree.name = options.name;
+      }
+      const renumberSteps: CreateUndoStepInput[] = [];
+      createdItems = await this.addingService.createWorkItemTreeInClient(
+        client,
+        targetParentId,
+        [copyTree],
+        renumberSteps,
+        true
+      );
+
+      if (options.include_dependencies !== false) {
+        const copyIds = new Map(
+          originals.map((original, index) => [original.work_item_id, createdItems[index].work_item_id])
+        );
+        for (const original of originals) {
+          const copyId = copyIds.get(original.work_item_id) as string;
+          const dependencies: WorkItemDependencyData[] = (
+            await this.workItemRepository.findDependencies(original.work_item_id, { isActive: true }, client)
+          )
+            .filter((dep) => copyIds.has(dep.depends_on_work_item_id))
+            .map((dep) => ({
+              work_item_id: copyId,
+              depends_on_work_item_id: copyIds.get(dep.depends_on_work_item_id) as string,
+              dependency_type: dep.dependency_type,
+              lag_days: dep.lag_days,
+              is_active: true,
+            }));
+          if (dependencies.length > 0) {
+            await this.workItemRepository.addOrUpdateDependencies(client, copyId, dependencies);
+            createdDependencies.push(...dependencies);
+          }
+        }
+      }
+
+      const actionData: CreateActionHistoryInput = {
+        action_type: 'DUPLICATE_WORK_ITEM',
+        work_item_id: createdItems[0].work_item_id,
+        description: `Duplicated "${source.name}" as "${createdItems[0].name}" (${createdItems.length} items, ${createdDependencies.length} dependencies)`,
+      };
+      const createdAction = await this.addingService.recordTreeCreation(
+        client,
+        actionData,
+        createdItems,
+        renumberSteps,
+        createdDependencies
+      );
+      if (targetParentId) {
+        projectId = (await this.readingService.getProjectIdsOf([targetParentId], client))[0] ?? targetParentId;
+      }
+      logger.info(
+        `[WorkItemDuplicateService] Copied ${createdItems.length} items and ${createdDependencies.length} dependencies. Action ID: ${createdAction.action_id}`
+      );
+    });
+
+    const copyRoot = createdItems[0];
+    this.sseService.notifyWorkItemCreated(copyRoot, projectId);
+    const fullCopy = await this.readingService.getWorkItemById(copyRoot.work_item_id, { isActive: true });
+    if (!fullCopy) {
+      throw new NotFoundError(`Copy ${copyRoot.work_item_id} could not be retrieved after duplication.`);
+    }
+    return fullCopy;
+  }
+}
@@ -0,0 +1,205 @@
+// src/services/WorkItemExportService.ts
+import { WorkItemRepository, WorkItemData } from '../repositories/index.js';
+import { ImportWorkItemNode, ImportWorkItemNodeSchema } from '../tools/import_project_params.js';
+import {
+  EXPORT_FORMAT_NAME,
+  CURRENT_EXPORT_FORMAT_VERSION,
+  ProjectExportDocument,
+  ProjectExportDocumentSchema,
+} from '../tools/export_project_params.js';
+import { WorkItemStatusEnum } from './WorkItemServiceTypes.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+import { z } from 'zod';
+
+/**
+ * Service responsible for serialising a project into the versioned export format
+ * and for validating/upgrading export documents before they are imported.
+ */
+export class WorkItemExportService {
+  private workItemRepository: WorkItemRepository;
+
+  constructor(workItemRepository: WorkItemRepository) {
+    this.workItemRepository = workItemRepository;
+  }
+
+  public async exportProject(
+    projectId: string,
+    options?: { includeInactive?: boolean }
+  ): Promise<ProjectExportDocument> {
+    const includeInactive = options?.includeInactive ?? false;
+    logger.info(`[WorkItemExportService] Exporting project ${projectId} (includeInactive: ${includeInactive})`);
+    const itemFilter = { isActive: includeInactive ? undefined : true };
+    const depFilter = { isActive: includeInactive ? undefined : true };
+
+    const rootItem = await this.workItemRepository.findById(projectId, itemFilter);
+    if (!rootItem) {
+      throw new NotFoundError(`Project with ID ${projectId} not found.`);
+    }
+
+    // First pass: the real parent/child hierarchy. Promoted (linked) projects are not children.
+    const exportedItems: { item: WorkItemData; node: ImportWorkItemNode }[] = [];
+    const buildNode = async (item: WorkItemData): Promise<ImportWorkItemNode> => {
+      // The import schema has no 'blocked'; rewriting it would make the round trip lossy, so it is refused instead.
+      const status = WorkItemStatusEnum.safeParse(item.status);
+      if (!status.success) {
+        throw new ValidationError(
+          `Work item "${item.name}" (ID: ${item.work_item_id}) has status "${item.status}", which the export format cannot represent. Change its status before exporting.`
+        );
+      }
+      const node: ImportWorkItemNode = {
+        local_id: item.work_item_id,
+        name: item.name,
+        description: item.description,
+        status: status.data,
+        priority: item.priority,
+        due_date: item.due_date,
+        estimated_duration_days: item.estimated_duration_days,
+        tags: item.tags,
+        order_key: item.order_key,
+        is_active: item.is_active,
+        started_at: item.started_at,
+        completed_at: item.completed_at,
+      };
+      exportedItems.push({ item, node });
+      const children = await this.workItemRepository.findChildren(item.work_item_id, itemFilter);
+      if (children.length > 0) {
+        node.children = [];
+        for (const child of children) {
+          node.children.push(await buildNode(child));
+        }
+      }
+      return node;
+    };
+    const projectNode = await buildNode(rootItem);
+
+    // Second pass: dependency edges, referencing exported items by local_id and anything else by UUID.
+    const exportedIds = new Set(exportedItems.map(({ item }) => item.work_item_id));
+    for (const { item, node } of exportedItems) {
+      const dependencies = await this.workItemRepository.findDependencies(item.work_item_id, depFilter);
+      if (dependencies.length > 0) {
+        node.dependencies = dependencies.map((dep) => ({
+          ...(exportedIds.has(dep.depends_on_work_item_id)
+            ? { depends_on_local_id: dep.depends_on_work_item_id }
+            : { depends_on_work_item_id: dep.depends_on_work_item_id }),
+          dependency_type: dep.dependency_type,
+          lag_days: dep.lag_days,
+          is_active: dep.is_active,
+        }));
+      }
+    }
+
+    const rootDependents = await this.workItemRepository.findDependents(rootItem.work_item_id, depFilter);
+    const linkedFrom = rootDependents
+      .filter((dep) => dep.dependency_type === 'linked' && !exportedIds.has(dep.work_item_id))
+      .map((dep) => dep.work_item_id);
+
+    logger.info(`[WorkItemExportService] Exported ${exportedItems.length} items for project ${projectId}.`);
+    return {
+      format: EXPORT_FORMAT_NAME,
+      format_version: CURRENT_EXPORT_FORMAT_VERSION,
+      exported_at: new Date().toISOString(),
+      include_inactive: includeInactive,
+      project: projectNode,
+      linked_from_work_item_ids: linkedFrom,
+    };
+  }
+
+  /**
+   * Validates a parsed export document and upgrades older formats to the current version.
+   * - format_version 2: the current document.
+   * - No format_version with a { message, data } envelope: the original placeholder export of a get_full_tree result.
+   * - No format_version otherwise: a bare project node, as accepted by the first import_project implementation.
+   */
+  public static parseProjectExport(raw: unknown): ProjectExportDocument {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new ValidationError('Project export data must be a JSON object.');
+    }
+    const data = raw as Record<string, any>;
+
+    if (data.format_version !== undefined) {
+      if (data.format_version !== CURRENT_EXPORT_FORMAT_VERSION) {
+        throw new ValidationError(
+          `Unsupported export format_version ${JSON.stringify(data.format_version)}. Supported: ${CURRENT_EXPORT_FORMAT_VERSION}.`
+        );
+      }
+      return WorkItemExportService.validateWith(ProjectExportDocumentSchema, data);
+    }
+
+    if (typeof data.message === 'string' && data.data && typeof data.data === 'object') {
+      logger.info('[WorkItemExportService] Upgrading legacy tree export envelope to the current export format.');
+      return WorkItemExportService.upgradeLegacyTree(data.data);
+    }
+
+    const project = WorkItemExportService.validateWith(ImportWorkItemNodeSchema, data);
+    return {
+      format: EXPORT_FORMAT_NAME,
+      format_version: CURRENT_EXPORT_FORMAT_VERSION,
+      exported_at: new Date().toISOString(),
+      include_inactive: false,
+      project,
+      linked_from_work_item_ids: [],
+    };
+  }
+
+  private static upgradeLegacyTree(tree: any): ProjectExportDocument {
+    // Children whose parent is not the current node are linked (promoted) branches rendered with an "(L)" suffix.
+    const isRealChild = (parent: any, child: any): boolean =>
+      child && typeof child === 'object' && child.parent_work_item_id === parent.work_item_id;
+
+    const exportedIds = new Set<string>();
+    const collectIds = (treeNode: any): void => {
+      exportedIds.add(treeNode.work_item_id);
+      (treeNode.children ?? []).filter((c: any) => isRealChild(treeNode, c)).forEach(collectIds);
+    };
+    collectIds(tree);
+
+    const convert = (treeNode: any): ImportWorkItemNode => {
+      const dependencies = Array.isArray(treeNode.dependencies) ? treeNode.dependencies : [];
+      const children = (treeNode.children ?? []).filter((c: any) => isRealChild(treeNode, c));
+      return {
+        local_id: treeNode.work_item_id,
+        name: treeNode.name,
+        description: treeNode.description ?? null,
+        status: treeNode.status,
+        priority: treeNode.priority,
+        due_date: treeNode.due_date ?? null,
+        tags: Array.isArray(treeNode.tags) ? treeNode.tags : undefined,
+        order_key: treeNode.order_key === null || treeNode.order_key === undefined ? null : String(treeNode.order_key),
+        is_active: treeNode.is_active,
+        dependencies: dependencies.map((dep: any) => ({
+          ...(exportedIds.has(dep.depends_on_work_item_id)
+            ? { depends_on_local_id: dep.depends_on_work_item_id }
+            : { depends_on_work_item_id: dep.depends_on_work_item_id }),
+          dependency_type: dep.dependency_type,
+          lag_days: dep.lag_days,
+          is_active: dep.is_active,
+        })),
+        children: children.length > 0 ? children.map(convert) : undefined,
+      };
+    };
+
+    const rootDependents = Array.isArray(tree.dependents) ? tree.dependents : [];
+    return WorkItemExportService.validateWith(ProjectExportDocumentSchema, {
+      format: EXPORT_FORMAT_NAME,
+      format_version: CURRENT_EXPORT_FORMAT_VERSION,
+      exported_at: new Date().toISOString(),
+      include_inactive: false,
+      project: convert(tree),
+      linked_from_work_item_ids: rootDependents
+        .filter((dep: any) => dep.dependency_type === 'linked' && !exportedIds.has(dep.work_item_id))
+        .map((dep: any) => dep.work_item_id),
+    });
+  }
+
+  private static validateWith<T>(schema: z.ZodType<T>, value: unknown): T {
+    const validation = schema.safeParse(value);
+    if (!validation.success) {
+      const issues = validation.error.issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+      throw new ValidationError(`Invalid project export data: ${issues}`);
+    }
+    return validation.data;
+  }
+}
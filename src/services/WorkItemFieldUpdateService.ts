@@ -8,12 +8,13 @@ import {
 } from '../repositories/index.js';
 import { logger } from '../utils/logger.js';
 import { NotFoundError, ValidationError } from '../utils/errors.js';
-import { FullWorkItemData } from './WorkItemServiceTypes.js';
+import { FullWorkItemData, WorkItemFieldUpdates, MAX_TAGS_PER_ITEM } from './WorkItemServiceTypes.js';
 // WorkItemUtilsService no longer needed here after removing calculateShortname
 // import { WorkItemUtilsService } from './WorkItemUtilsService.js';
 import { WorkItemReadingService } from './WorkItemReadingService.js';
 import { WorkItemHistoryService } from './WorkItemHistoryService.js';
-import { PoolClient } from 'pg';
+import type { DbClient } from '../db/DatabaseTypes.js';
+import sseNotificationService, { SseNotificationService } from './SseNotificationService.js';
 import { WorkItemStatusEnum, WorkItemPriorityEnum } from '../tools/add_task_params.js';
 import { z } from 'zod';
 
@@ -29,20 +30,27 @@ export class WorkItemFieldUpdateService {
   // private utilsService: WorkItemUtilsService; // Removed - no longer needed
   private readingService: WorkItemReadingService;
   private historyService: WorkItemHistoryService;
+  private sseService: SseNotificationService;
 
-  constructor(workItemRepository: WorkItemRepository, actionHistoryRepository: ActionHistoryRepository) {
+  constructor(
+    workItemRepository: WorkItemRepository,
+    actionHistoryRepository: ActionHistoryRepository,
+    sseService: SseNotificationService = sseNotificationService
+  ) {
     this.workItemRepository = workItemRepository;
     this.actionHistoryRepository = actionHistoryRepository;
     // this.utilsService = new WorkItemUtilsService(); // Removed instantiation
     this.readingService = new WorkItemReadingService(workItemRepository);
     this.historyService = new WorkItemHistoryService(workItemRepository, actionHistoryRepository);
+    this.sseService = sseService;
   }
 
   public async setStatus(workItemId: string, status: WorkItemStatus): Promise<FullWorkItemData> {
     logger.info(`[WorkItemFieldUpdateService] Setting status to '${status}' for work item ${workItemId}`);
     let itemBeforeUpdate: WorkItemData | undefined;
     let itemAfterUpdate: WorkItemData | null = null;
-    await this.actionHistoryRepository.withTransaction(async (client: PoolClient) => {
+    let projectId: string | null = null;
+    await this.actionHistoryRepository.withTransaction(async (client: DbClient) => {
       itemBeforeUpdate = await this.workItemRepository.findById(workItemId, { isActive: true });
       if (!itemBeforeUpdate) {
         const inactiveItem = await this.workItemRepository.findById(workItemId, { isActive: false });
@@ -74,8 +82,18 @@ export class WorkItemFieldUpdateService {
           step_type: 'UPDATE',
           table_name: 'work_items',
           record_id: workItemId,
-          old_data: { status: itemBeforeUpdate.status, updated_at: itemBeforeUpdate.updated_at },
-          new_data: { status: itemAfterUpdate.status, updated_at: itemAfterUpdate.updated_at },
+          old_data: {
+            status: itemBeforeUpdate.status,
+            started_at: itemBeforeUpdate.started_at,
+            completed_at: itemBeforeUpdate.completed_at,
+            updated_at: itemBeforeUpdate.updated_at,
+          },
+          new_data: {
+            status: itemAfterUpdate.status,
+            started_at: itemAfterUpdate.started_at,
+            completed_at: itemAfterUpdate.completed_at,
+            updated_at: itemAfterUpdate.updated_at,
+          },
         },
       ];
       const actionDescription = `Set status to '${status}' for work item "${itemAfterUpdate.name}"`;
@@ -84,6 +102,7 @@ export class WorkItemFieldUpdateService {
         work_item_id: workItemId,
         description: actionDescription,
       };
+      projectId = await this.readingService.getProjectIdOf(itemAfterUpdate, client);
       const createdAction = await this.actionHistoryRepository.createActionInClient(actionData, client);
       for (const step of undoStepsData) {
         await this.actionHistoryRepository.createUndoStepInClient(
@@ -94,6 +113,9 @@ export class WorkItemFieldUpdateService {
       await this.historyService.invalidateRedoStack(client, createdAction.action_id);
       logger.info(`[WorkItemFieldUpdateService] Recorded history for setting status on work item ${workItemId}.`);
     });
+    if (itemAfterUpdate) {
+      this.sseService.notifyWorkItemUpdated(itemAfterUpdate, projectId);
+    }
     const finalItemState = itemAfterUpdate ?? itemBeforeUpdate;
     if (!finalItemState) {
       logger.error(
@@ -117,7 +139,8 @@ export class WorkItemFieldUpdateService {
     logger.info(`[WorkItemFieldUpdateService] Setting name to "${name}" for work item ${workItemId}`);
     let itemBeforeUpdate: WorkItemData | undefined;
     let itemAfterUpdate: WorkItemData | null = null;
-    await this.actionHistoryRepository.withTransaction(async (client: PoolClient) => {
+    let projectId: string | null = null;
+    await this.actionHistoryRepository.withTransaction(async (client: DbClient) => {
       itemBeforeUpdate = await this.workItemRepository.findById(workItemId, { isActive: true });
       if (!itemBeforeUpdate) {
         const inactiveItem = await this.workItemRepository.findById(workItemId, { isActive: false });
@@ -178,6 +201,7 @@ export class WorkItemFieldUpdateService {
         work_item_id: workItemId,
         description: actionDescription,
       };
+      projectId = await this.readingService.getProjectIdOf(itemAfterUpdate, client);
       const createdAction = await this.actionHistoryRepository.createActionInClient(actionData, client);
       for (const step of undoStepsData) {
         await this.actionHistoryRepository.createUndoStepInClient(
@@ -188,6 +212,9 @@ export class WorkItemFieldUpdateService {
       await this.historyService.invalidateRedoStack(client, createdAction.action_id);
       logger.info(`[WorkItemFieldUpdateService] Recorded history for setting name on work item ${workItemId}.`);
     });
+    if (itemAfterUpdate) {
+      this.sseService.notifyWorkItemUpdated(itemAfterUpdate, projectId);
+    }
     const finalItemState = itemAfterUpdate ?? itemBeforeUpdate;
     if (!finalItemState) {
       logger.error(
@@ -211,7 +238,8 @@ export class WorkItemFieldUpdateService {
     logger.info(`[WorkItemFieldUpdateService] Setting description for work item ${workItemId}.`);
     let itemBeforeUpdate: WorkItemData | undefined;
     let itemAfterUpdate: WorkItemData | null = null;
-    await this.actionHistoryRepository.withTransaction(async (client: PoolClient) => {
+    let projectId: string | null = null;
+    await this.actionHistoryRepository.withTransaction(async (client: DbClient) => {
       itemBeforeUpdate = await this.workItemRepository.findById(workItemId, { isActive: true });
       if (!itemBeforeUpdate) {
         const inactiveItem = await this.workItemRepository.findById(workItemId, { isActive: false });
@@ -255,6 +283,7 @@ export class WorkItemFieldUpdateService {
         work_item_id: workItemId,
         description: actionDescription,
       };
+      projectId = await this.readingService.getProjectIdOf(itemAfterUpdate, client);
       const createdAction = await this.actionHistoryRepository.createActionInClient(actionData, client);
       for (const step of undoStepsData) {
         await this.actionHistoryRepository.createUndoStepInClient(
@@ -265,6 +294,9 @@ export class WorkItemFieldUpdateService {
       await this.historyService.invalidateRedoStack(client, createdAction.action_id);
       logger.info(`[WorkItemFieldUpdateService] Recorded history for setting description on work item ${workItemId}.`);
     });
+    if (itemAfterUpdate) {
+      this.sseService.notifyWorkItemUpdated(itemAfterUpdate, projectId);
+    }
     const finalItemState = itemAfterUpdate ?? itemBeforeUpdate;
     if (!finalItemState) {
       logger.error(
@@ -288,7 +320,8 @@ export class WorkItemFieldUpdateService {
     logger.info(`[WorkItemFieldUpdateService] Setting priority to '${priority}' for work item ${workItemId}`);
     let itemBeforeUpdate: WorkItemData | undefined;
     let itemAfterUpdate: WorkItemData | null = null;
-    await this.actionHistoryRepository.withTransaction(async (client: PoolClient) => {
+    let projectId: string | null = null;
+    await this.actionHistoryRepository.withTransaction(async (client: DbClient) => {
       itemBeforeUpdate = await this.workItemRepository.findById(workItemId, { isActive: true });
       if (!itemBeforeUpdate) {
         const inactiveItem = await this.workItemRepository.findById(workItemId, { isActive: false });
@@ -331,6 +364,7 @@ export class WorkItemFieldUpdateService {
         work_item_id: workItemId,
         description: actionDescription,
       };
+      projectId = await this.readingService.getProjectIdOf(itemAfterUpdate, client);
       const createdAction = await this.actionHistoryRepository.createActionInClient(actionData, client);
       for (const step of undoStepsData) {
         await this.actionHistoryRepository.createUndoStepInClient(
@@ -341,6 +375,9 @@ export class WorkItemFieldUpdateService {
       await this.historyService.invalidateRedoStack(client, createdAction.action_id);
       logger.info(`[WorkItemFieldUpdateService] Recorded history for setting priority on work item ${workItemId}.`);
     });
+    if (itemAfterUpdate) {
+      this.sseService.notifyWorkItemUpdated(itemAfterUpdate, projectId);
+    }
     const finalItemState = itemAfterUpdate ?? itemBeforeUpdate;
     if (!finalItemState) {
       logger.error(
@@ -368,8 +405,9 @@ export class WorkItemFieldUpdateService {
 
     let itemBeforeUpdate: WorkItemData | undefined;
     let itemAfterUpdate: WorkItemData | null = null;
+    let projectId: string | null = null;
 
-    await this.actionHistoryRepository.withTransaction(async (client: PoolClient) => {
+    await this.actionHistoryRepository.withTransaction(async (client: DbClient) => {
       itemBeforeUpdate = await this.workItemRepository.findById(workItemId, { isActive: true });
       if (!itemBeforeUpdate) {
         const inactiveItem = await this.workItemRepository.findById(workItemId, { isActive: false });
@@ -427,6 +465,7 @@ export class WorkItemFieldUpdateService {
         work_item_id: workItemId,
         description: actionDescription,
       };
+      projectId = await this.readingService.getProjectIdOf(itemAfterUpdate, client);
       const createdAction = await this.actionHistoryRepository.createActionInClient(actionData, client);
       for (const step of undoStepsData) {
         await this.actionHistoryRepository.createUndoStepInClient(
@@ -438,6 +477,9 @@ export class WorkItemFieldUpdateService {
       logger.info(`[WorkItemFieldUpdateService] Recorded history for setting due_date on work item ${workItemId}.`);
     });
 
+    if (itemAfterUpdate) {
+      this.sseService.notifyWorkItemUpdated(itemAfterUpdate, projectId);
+    }
     const finalItemState = itemAfterUpdate ?? itemBeforeUpdate;
     if (!finalItemState) {
       logger.error(
@@ -457,4 +499,181 @@ export class WorkItemFieldUpdateService {
     }
     return fullUpdatedItem;
   }
+
+  /**
+   * Sets or clears the estimated duration, in days, of a specific work item.
+   */
+  public async setEstimatedDuration(workItemId: string, estimatedDays: number | null): Promise<FullWorkItemData> {
+    logger.info(`[WorkItemFieldUpdateService] Setting estimated_duration_days for work item ${workItemId}.`);
+
+    let itemBeforeUpdate: WorkItemData | undefined;
+    let itemAfterUpdate: WorkItemData | null = null;
+    let projectId: string | null = null;
+
+    await this.actionHistoryRepository.withTransaction(async (client: DbClient) => {
+      itemBeforeUpdate = await this.workItemRepository.findById(workItemId, { isActive: true }, client);
+      if (!itemBeforeUpdate) {
+        const inactiveItem = await this.workItemRepository.findById(workItemId, { isActive: false }, client);
+        if (inactiveItem) {
+          throw new ValidationError(`Work item with ID ${workItemId} is inactive and cannot be modified.`);
+        } else {
+          throw new NotFoundError(`Work item with ID ${workItemId} not found.`);
+        }
+      }
+
+      if (itemBeforeUpdate.estimated_duration_days === estimatedDays) {
+        logger.info(
+          `[WorkItemFieldUpdateService] Estimated duration for ${workItemId} is unchanged. No update needed.`
+        );
+        return;
+      }
+
+      itemAfterUpdate = await this.workItemRepository.updateFields(client, workItemId, {
+        estimated_duration_days: estimatedDays,
+      });
+      if (itemAfterUpdate === null) {
+        throw new NotFoundError(
+          `Failed to update estimated_duration_days for work item ${workItemId}, it might have been modified or deactivated concurrently.`
+        );
+      }
+
+      const undoStep: CreateUndoStepInput = {
+        step_order: 1,
+        step_type: 'UPDATE',
+        table_name: 'work_items',
+        record_id: workItemId,
+        old_data: {
+          estimated_duration_days: itemBeforeUpdate.estimated_duration_days,
+          updated_at: itemBeforeUpdate.updated_at,
+        },
+        new_data: {
+          estimated_duration_days: itemAfterUpdate.estimated_duration_days,
+          updated_at: itemAfterUpdate.updated_at,
+        },
+      };
+      const actionData: CreateActionHistoryInput = {
+        action_type: 'SET_ESTIMATED_DURATION',
+        work_item_id: workItemId,
+        description:
+          estimatedDays === null
+            ? `Cleared estimated duration for work item "${itemAfterUpdate.name}"`
+            : `Set estimated duration to ${estimatedDays} day(s) for work item "${itemAfterUpdate.name}"`,
+      };
+      projectId = await this.readingService.getProjectIdOf(itemAfterUpdate, client);
+      const createdAction = await this.actionHistoryRepository.createActionInClient(actionData, client);
+      await this.actionHistoryRepository.createUndoStepInClient(
+        { ...undoStep, action_id: createdAction.action_id },
+        client
+      );
+      await this.historyService.invalidateRedoStack(client, createdAction.action_id);
+    });
+
+    if (itemAfterUpdate) {
+      this.sseService.notifyWorkItemUpdated(itemAfterUpdate, projectId);
+    }
+    const fullUpdatedItem = await this.readingService.getWorkItemById(workItemId, { isActive: true });
+    if (!fullUpdatedItem) {
+      throw new Error(`Failed to retrieve full details for item ${workItemId} after setting estimated_duration_days.`);
+    }
+    return fullUpdatedItem;
+  }
+
+  /**
+   * Changes several fields at once in one transaction, recorded as a single UPDATE_FIELDS action so one undo
+   * reverts them all. Each field is normalised and checked as its set_* method does; unchanged fields are skipped.
+   */
+  public async updateFields(workItemId: string, updates: WorkItemFieldUpdates): Promise<FullWorkItemData> {
+    logger.info(`[WorkItemFieldUpdateService] Updating fields of work item ${workItemId}.`);
+    let itemAfterUpdate: WorkItemData | null = null;
+    let projectId: string | null = null;
+
+    await this.actionHistoryRepository.withTransaction(async (client: DbClient) => {
+      const itemBeforeUpdate = await this.workItemRepository.findById(workItemId, { isActive: true }, client);
+      if (!itemBeforeUpdate) {
+        const inactiveItem = await this.workItemRepository.findById(workItemId, { isActive: false }, client);
+        if (inactiveItem) {
+          throw new ValidationError(`Work item with ID ${workItemId} is inactive and cannot be modified.`);
+        } else {
+          throw new NotFoundError(`Work item with ID ${workItemId} not found.`);
+        }
+      }
+
+      const normalized: Partial<WorkItemData> = { ...updates };
+      if (updates.due_date !== undefined) {
+        normalized.due_date = updates.due_date ? new Date(updates.due_date).toISOString() : null;
+      }
+      if (updates.tags !== undefined) {
+        normalized.tags = Array.from(new Set(updates.tags));
+        if (normalized.tags.length > MAX_TAGS_PER_ITEM) {
+          throw new ValidationError(
+            `Work item "${itemBeforeUpdate.name}" would have ${normalized.tags.length} tags; a work item cannot have more than ${MAX_TAGS_PER_ITEM}.`
+          );
+        }
+      }
+      const current: Partial<WorkItemData> = {
+        ...itemBeforeUpdate,
+        due_date: itemBeforeUpdate.due_date ? new Date(itemBeforeUpdate.due_date).toISOString() : null,
+      };
+      const updatePayload: Partial<WorkItemData> = {};
+      for (const [key, value] of Object.entries(normalized) as [keyof WorkItemData, unknown][]) {
+        if (value !== undefined && JSON.stringify(current[key]) !== JSON.stringify(value)) {
+          (updatePayload as any)[key] = value;
+        }
+      }
+      const changedFields = Object.keys(updatePayload) as (keyof WorkItemData)[];
+      if (changedFields.length === 0) {
+        logger.info(`[WorkItemFieldUpdateService] Fields of ${workItemId} are unchanged. No update needed.`);
+        return;
+      }
+
+      itemAfterUpdate = await this.workItemRepository.updateFields(client, workItemId, updatePayload);
+      if (itemAfterUpdate === null) {
+        throw new NotFoundError(
+          `Failed to update work item ${workItemId}, it might have been modified or deactivated concurrently.`
+        );
+      }
+
+      // A status change also moves started_at and completed_at, which undo must put back.
+      const recordedFields: (keyof WorkItemData)[] = [
+        ...changedFields,
+        ...(updatePayload.status !== undefined ? (['started_at', 'completed_at'] as const) : []),
+        'updated_at',
+      ];
+      const oldData: Partial<WorkItemData> = {};
+      const newData: Partial<WorkItemData> = {};
+      for (const key of recordedFields) {
+        (oldData as any)[key] = itemBeforeUpdate[key];
+        (newData as any)[key] = itemAfterUpdate[key];
+      }
+      const undoStep: CreateUndoStepInput = {
+        step_order: 1,
+        step_type: 'UPDATE',
+        table_name: 'work_items',
+        record_id: workItemId,
+        old_data: oldData,
+        new_data: newData,
+      };
+      const actionData: CreateActionHistoryInput = {
+        action_type: 'UPDATE_FIELDS',
+        work_item_id: workItemId,
+        description: `Updated ${changedFields.join(', ')} for work item "${itemAfterUpdate.name}"`.substring(0, 250),
+      };
+      projectId = await this.readingService.getProjectIdOf(itemAfterUpdate, client);
+      const createdAction = await this.actionHistoryRepository.createActionInClient(actionData, client);
+      await this.actionHistoryRepository.createUndoStepInClient(
+        { ...undoStep, action_id: createdAction.action_id },
+        client
+      );
+      await this.historyService.invalidateRedoStack(client, createdAction.action_id);
+    });
+
+    if (itemAfterUpdate) {
+      this.sseService.notifyWorkItemUpdated(itemAfterUpdate, projectId);
+    }
+    const fullUpdatedItem = await this.readingService.getWorkItemById(workItemId, { isActive: true });
+    if (!fullUpdatedItem) {
+      throw new Error(`Failed to retrieve full details for item ${workItemId} after updating its fields.`);
+    }
+    return fullUpdatedItem;
+  }
 }
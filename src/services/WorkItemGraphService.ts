@@ -0,0 +1,185 @@
+// src/services/WorkItemGraphService.ts
+import { type WorkItemRepository, type WorkItemData, type WorkItemDependencyData } from '../repositories/index.js';
+import { logger } from '../utils/logger.js';
+import { NotFoundError } from '../utils/errors.js';
+import { type DependencyGraphFormat, type DependencyGraphResult } from './WorkItemServiceTypes.js';
+
+/** Fill and border colour per status, shared by both formats. */
+const STATUS_COLORS: Record<WorkItemData['status'], { fill: string; stroke: string }> = {
+  todo: { fill: '#e5e7eb', stroke: '#6b7280' },
+  'in-progress': { fill: '#bfdbfe', stroke: '#2563eb' },
+  review: { fill: '#fde68a', stroke: '#d97706' },
+  done: { fill: '#bbf7d0', stroke: '#16a34a' },
+  blocked: { fill: '#fecaca', stroke: '#dc2626' },
+};
+
+/**
+ * How each dependency type is drawn. Edges point from the prerequisite to the item that depends on it.
+ * `mermaid` is the link syntax, `dot` the Graphviz edge attributes.
+ */
+const EDGE_STYLES: Record<
+  WorkItemDependencyData['dependency_type'],
+  { abbreviation: string; mermaid: string; dot: string }
+> = {
+  'finish-to-start': { abbreviation: 'FS', mermaid: '-->', dot: 'style=solid' },
+  'start-to-start': { abbreviation: 'SS', mermaid: '-.->', dot: 'style=dashed, color="#2563eb"' },
+  'finish-to-finish': { abbreviation: 'FF', mermaid: '==>', dot: 'style=bold, color="#7c3aed"' },
+  'start-to-finish': { abbreviation: 'SF', mermaid: '-.->', dot: 'style=dotted, color="#db2777"' },
+  linked: { abbreviation: 'linked', mermaid: '-.-', dot: 'style=dotted, arrowhead=none, color="#9ca3af"' },
+};
+
+interface GraphNode {
+  item: WorkItemData;
+  /** Outside the rendered subtree, shown because a link crosses into it. */
+  external: boolean;
+}
+
+/** Edge label: the type, unless it is the default finish-to-start, and any lag. */
+const edgeLabel = (link: WorkItemDependencyData): string => {
+  const parts = link.dependency_type === 'finish-to-start' ? [] : [EDGE_STYLES[link.dependency_type].abbreviation];
+  if (link.lag_days > 0) {
+    parts.push(`+${link.lag_days}d`);
+  }
+  return parts.join(' ');
+};
+
+const mermaidText = (text: string): string =>
+  text.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;').replace(/\n/g, ' ');
+
+const dotText = (text: string): string => text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, ' ');
+
+const renderMermaid = (nodes: GraphNode[], links: WorkItemDependencyData[]): string => {
+  const ids = new Map(nodes.map((node, index) => [node.item.work_item_id, `n${index}`]));
+  const lines = ['flowchart LR'];
+  for (const { item } of nodes) {
+    lines.push(`  ${ids.get(item.work_item_id)}["${mermaidText(item.name)}<br/>${item.status}"]`);
+  }
+  for (const link of links) {
+    const label = edgeLabel(link);
+    const arrow = EDGE_STYLES[link.dependency_type].mermaid;
+    const from = ids.get(link.depends_on_work_item_id);
+    const to = ids.get(link.work_item_id);
+    lines.push(label ? `  ${from} ${arrow}|${mermaidText(label)}| ${to}` : `  ${from} ${arrow} ${to}`);
+  }
+  for (const [status, colors] of Object.entries(STATUS_COLORS)) {
+    const members = nodes.filter((node) => node.item.status === status).map((node) => ids.get(node.item.work_item_id));
+    if (members.length > 0) {
+      const className = status.replace('-', '_');
+      lines.push(`  classDef ${className} fill:${colors.fill},stroke:${colors.stroke},color:#111827`);
+      lines.push(`  class ${members.join(',')} ${className}`);
+    }
+  }
+  for (const node of nodes.filter((candidate) => candidate.external)) {
+    lines.push(`  style ${ids.get(node.item.work_item_id)} stroke-dasharray: 5 5`);
+  }
+  return lines.join('\n') + '\n';
+};
+
+const renderDot = (nodes: GraphNode[], links: WorkItemDependencyData[]): string => {
+  const lines = [
+    'digraph dependencies {',
+    '  rankdir=LR;',
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica"];',
+    '  edge [fontname="Helvetica", fontsize=10];',
+  ];
+  for (const { item, external } of nodes) {
+    const colors = STATUS_COLORS[item.status] ?? STATUS_COLORS.todo;
+    const style = external ? ', style="rounded,filled,dashed"' : '';
+    lines.push(
+      `  "${item.work_item_id}" [label="${dotText(item.name)}\\n(${item.status})", ` +
+        `fillcolor="${colors.fill}", color="${colors.stroke}"${style}];`
+    );
+  }
+  for (const link of links) {
+    const label = edgeLabel(link);
+    const attributes = [EDGE_STYLES[link.dependency_type].dot, ...(label ? [`label="${dotText(label)}"`] : [])];
+    lines.push(`  "${link.depends_on_work_item_id}" -> "${link.work_item_id}" [${attributes.join(', ')}];`);
+  }
+  lines.push('}');
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * Renders the dependencies inside a project subtree as a Mermaid flowchart or a Graphviz DOT document,
+ * with nodes coloured by status and edges styled by dependency type.
+ */
+export class WorkItemGraphService {
+  private workItemRepository: WorkItemRepository;
+
+  constructor(workItemRepository: WorkItemRepository) {
+    this.workItemRepository = workItemRepository;
+  }
+
+  /**
+   * Draws every active item below `rootId` (the root included) and the active links between them, in tree
+   * order. Items outside the subtree that a link connects to are drawn with a dashed border unless
+   * `includeExternal` is false; done items and their links are left out if `includeDone` is false.
+   */
+  public async renderDependencyGraph(
+    rootId: string,
+    options?: { format?: DependencyGraphFormat; includeDone?: boolean; includeExternal?: boolean }
+  ): Promise<DependencyGraphResult> {
+    const format = options?.format ?? 'mermaid';
+    logger.info(`[WorkItemGraphService] Rendering ${format} dependency graph for ${rootId}.`);
+    const root = await this.workItemRepository.findById(rootId, { isActive: true });
+    if (!root) {
+      throw new NotFoundError(`Work item with ID ${rootId} not found or is inactive.`);
+    }
+
+    const subtree = await this.loadSubtree(root);
+    const subtreeIds = subtree.map((item) => item.work_item_id);
+    const outgoing = await this.workItemRepository.findDependenciesByItemList(subtreeIds, {
+      isActive: true,
+      dependsOnActive: true,
+    });
+    const incoming = await this.workItemRepository.findDependentsByItemList(subtreeIds, {
+      isActive: true,
+      dependentIsActive: true,
+    });
+
+    const inSubtree = new Set(subtreeIds);
+    let links = [...outgoing, ...incoming.filter((link) => !inSubtree.has(link.work_item_id))];
+    if (options?.includeExternal === false) {
+      links = links.filter((link) => inSubtree.has(link.work_item_id) && inSubtree.has(link.depends_on_work_item_id));
+    }
+    const externalIds = [...new Set(links.flatMap((link) => [link.work_item_id, link.depends_on_work_item_id]))].filter(
+      (id) => !inSubtree.has(id)
+    );
+    const externalItems = await this.workItemRepository.findByIds(externalIds, { isActive: true });
+
+    let nodes: GraphNode[] = [
+      ...subtree.map((item) => ({ item, external: false })),
+      ...externalItems.map((item) => ({ item, external: true })),
+    ];
+    if (options?.includeDone === false) {
+      nodes = nodes.filter((node) => node.item.status !== 'done');
+    }
+    const drawn = new Set(nodes.map((node) => node.item.work_item_id));
+    links = links.filter((link) => drawn.has(link.work_item_id) && drawn.has(link.depends_on_work_item_id));
+
+    const diagram = format === 'dot' ? renderDot(nodes, links) : renderMermaid(nodes, links);
+    logger.info(
+      `[WorkItemGraphService] Rendered ${nodes.length} node(s) and ${links.length} edge(s) for ${rootId} as ${format}.`
+    );
+    return {
+      root_work_item_id: root.work_item_id,
+      format,
+      node_count: nodes.length,
+      edge_count: links.length,
+      diagram,
+    };
+  }
+
+  /** The active items below `root`, root first, each parent followed by its children in sibling order. */
+  private async loadSubtree(root: WorkItemData): Promise<WorkItemData[]> {
+    const items: WorkItemData[] = [];
+    const visit = async (item: WorkItemData): Promise<void> => {
+      items.push(item);
+      for (const child of await this.workItemRepository.findChildren(item.work_item_id, { isActive: true })) {
+        await visit(child);
+      }
+    };
+    await visit(root);
+    return items;
+  }
+}
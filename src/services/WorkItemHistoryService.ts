@@ -1,6 +1,6 @@
 // File: src/services/WorkItemHistoryService.ts
 // src/services/WorkItemHistoryService.ts
-import { PoolClient } from 'pg';
+import type { DbClient } from '../db/DatabaseTypes.js';
 import {
   WorkItemRepository,
   ActionHistoryRepository,
@@ -12,6 +12,10 @@ import {
 } from '../repositories/index.js';
 import { logger } from '../utils/logger.js';
 import { validate as uuidValidate } from 'uuid';
+import sseNotificationService, { SseNotificationService } from './SseNotificationService.js';
+
+/** Projects touched by an undo/redo, and whether any touched item is itself a project. */
+type AffectedProjects = { projectIds: string[]; includesProject: boolean };
 
 /**
  * Service responsible for managing history, undo, and redo operations
@@ -19,10 +23,16 @@ import { validate as uuidValidate } from 'uuid';
 export class WorkItemHistoryService {
   private workItemRepository: WorkItemRepository; // Keep for potential future use if needed
   private actionHistoryRepository: ActionHistoryRepository;
+  private sseService: SseNotificationService;
 
-  constructor(workItemRepository: WorkItemRepository, actionHistoryRepository: ActionHistoryRepository) {
+  constructor(
+    workItemRepository: WorkItemRepository,
+    actionHistoryRepository: ActionHistoryRepository,
+    sseService: SseNotificationService = sseNotificationService
+  ) {
     this.workItemRepository = workItemRepository;
     this.actionHistoryRepository = actionHistoryRepository;
+    this.sseService = sseService;
   }
 
   // --- undoLastAction and redoLastUndo remain the same ---
@@ -76,6 +86,7 @@ export class WorkItemHistoryService {
     }
 
     let executedSuccessfully = false;
+    let affectedProjects: AffectedProjects | null = null;
     try {
       await this.actionHistoryRepository.withTransaction(async (client) => {
         logger.debug(
@@ -103,6 +114,7 @@ export class WorkItemHistoryService {
           client
         );
 
+        affectedProjects = await this.findAffectedProjects(client, undoSteps);
         logger.info(`[WorkItemHistoryService] Successfully undid action ${originalActionToUndo.action_id}`);
         executedSuccessfully = true;
       });
@@ -116,6 +128,7 @@ export class WorkItemHistoryService {
 
     // Return the original action's final state (now marked as undone) if successful
     if (executedSuccessfully) {
+      this.notifyAffectedProjects(affectedProjects, 'undo');
       const finalState = await this.actionHistoryRepository.findActionById(originalActionToUndo.action_id);
       return finalState ?? null;
     } else {
@@ -196,6 +209,7 @@ export class WorkItemHistoryService {
 
     // Proceed with redoing the steps
     let executedSuccessfully = false;
+    let affectedProjects: AffectedProjects | null = null;
     try {
       await this.actionHistoryRepository.withTransaction(async (client) => {
         logger.debug(
@@ -225,6 +239,7 @@ export class WorkItemHistoryService {
           client
         );
 
+        affectedProjects = await this.findAffectedProjects(client, originalUndoSteps);
         logger.info(`[WorkItemHistoryService] Successfully redid action ${originalAction.action_id}`);
         executedSuccessfully = true;
       });
@@ -238,6 +253,7 @@ export class WorkItemHistoryService {
 
     // Return the original action's final state (now marked as not undone) if successful
     if (executedSuccessfully) {
+      this.notifyAffectedProjects(affectedProjects, 'redo');
       const finalStateOriginalAction = await this.actionHistoryRepository.findActionById(originalAction.action_id);
       return finalStateOriginalAction ?? null;
     } else {
@@ -245,6 +261,24 @@ export class WorkItemHistoryService {
     }
   }
 
+  /**
+   * Resolves the projects touched by a set of undo steps.
+   */
+  private async findAffectedProjects(client: DbClient, steps: UndoStepData[]): Promise<AffectedProjects> {
+    const workItemIds = steps.flatMap((step) =>
+      step.table_name === 'work_item_dependencies' ? step.record_id.split(':') : [step.record_id]
+    );
+    const roots = await this.workItemRepository.findRootWorkItemIds(workItemIds, client);
+    const includesProject = Array.from(roots.entries()).some(([itemId, rootId]) => itemId === rootId);
+    return { projectIds: Array.from(new Set(roots.values())), includesProject };
+  }
+
+  private notifyAffectedProjects(affectedProjects: AffectedProjects | null, reason: 'undo' | 'redo'): void {
+    if (affectedProjects) {
+      this.sseService.notifyProjectsChanged(affectedProjects.projectIds, reason, affectedProjects.includesProject);
+    }
+  }
+
   /**
    * Builds the SQL SET clauses and parameters for an UPDATE statement based on the provided data object.
    * @param dataObject The object containing the data to apply (either old_data for undo or new_data for redo).
@@ -312,7 +346,7 @@ export class WorkItemHistoryService {
   /**
    * Executes a single undo step, applying the 'old_data' state.
    */
-  private async executeUndoStep(client: PoolClient, step: UndoStepData, originalActionId: string): Promise<void> {
+  private async executeUndoStep(client: DbClient, step: UndoStepData, originalActionId: string): Promise<void> {
     logger.debug(
       `[WorkItemHistoryService] Executing undo step ${step.step_order} (${step.step_type}) on ${step.table_name} record ${step.record_id} for action ${originalActionId}`
     );
@@ -380,7 +414,7 @@ export class WorkItemHistoryService {
   /**
    * Executes a single redo step, applying the 'new_data' state.
    */
-  private async executeRedoStep(client: PoolClient, step: UndoStepData, originalActionId: string): Promise<void> {
+  private async executeRedoStep(client: DbClient, step: UndoStepData, originalActionId: string): Promise<void> {
     logger.debug(
       `[WorkItemHistoryService] Re-executing redo step ${step.step_order} (${step.step_type}) on ${step.table_name} record ${step.record_id} from original action ${originalActionId}`
     );
@@ -449,7 +483,7 @@ export class WorkItemHistoryService {
    * Marks any pending UNDO actions (that haven't been redone/invalidated) as undone
    * by the new action ID, effectively clearing the redo stack.
    */
-  public async invalidateRedoStack(client: PoolClient, newActionId: string): Promise<void> {
+  public async invalidateRedoStack(client: DbClient, newActionId: string): Promise<void> {
     // Find UNDO actions that are currently NOT undone (meaning they are available for redo)
     const recentUndoActions = await this.actionHistoryRepository.findRecentUndoActionsInClient(client);
     let invalidationCount = 0;
@@ -0,0 +1,218 @@
+// src/services/WorkItemImpactService.ts
+import { type WorkItemRepository, type WorkItemData, type WorkItemDependencyData } from '../repositories/index.js';
+import { logger } from '../utils/logger.js';
+import { NotFoundError } from '../utils/errors.js';
+import { DAY_MS, EPSILON, earliestStartAllowed, roundDays } from './WorkItemScheduleService.js';
+import {
+  type ImpactResult,
+  type ImpactedProject,
+  type ImpactedWorkItem,
+  type MissedDueDate,
+} from './WorkItemServiceTypes.js';
+
+interface ImpactLink {
+  predecessorId: string;
+  successorId: string;
+  type: WorkItemDependencyData['dependency_type'];
+  lag: number;
+}
+
+const remainingDays = (item: WorkItemData): number =>
+  item.status === 'done' ? 0 : (item.estimated_duration_days ?? 0);
+
+/**
+ * Finds everything that waits, directly or through other items, on a work item, across projects.
+ * Work below the item counts as the item itself, so dependents of its descendants are included too.
+ */
+export class WorkItemImpactService {
+  private workItemRepository: WorkItemRepository;
+
+  constructor(workItemRepository: WorkItemRepository) {
+    this.workItemRepository = workItemRepository;
+  }
+
+  /**
+   * Walks active dependents transitively (every type except 'linked', which only references) and skips
+   * done ones, which no longer wait for anything. If the item finishes `slipDays` later than its estimate
+   * says, each affected item is projected to finish as its dependencies, their lags and the estimates
+   * allow, starting now; dependencies on items outside the affected set are not taken into account.
+   */
+  public async getImpact(workItemId: string, options?: { slipDays?: number }): Promise<ImpactResult> {
+    const slipDays = options?.slipDays ?? 0;
+    logger.info(`[WorkItemImpactService] Computing impact of ${workItemId} slipping ${slipDays} day(s).`);
+    const item = await this.workItemRepository.findById(workItemId, { isActive: true });
+    if (!item) {
+      throw new NotFoundError(`Work item with ID ${workItemId} not found or is inactive.`);
+    }
+
+    const sourceIds = new Set([item.work_item_id, ...(await this.findActiveDescendantIds(item.work_item_id))]);
+    const affected = new Map<
+      string,
+      { item: WorkItemData; depth: number; via: string; type: WorkItemDependencyData['dependency_type'] }
+    >();
+    const links: ImpactLink[] = [];
+    let frontier = [...sourceIds];
+    for (let depth = 1; frontier.length > 0; depth++) {
+      const dependents = (
+        await this.workItemRepository.findDependentsByItemList(frontier, { isActive: true, dependentIsActive: true })
+      ).filter((link) => link.dependency_type !== 'linked' && !sourceIds.has(link.work_item_id));
+      const dependentItems = await this.workItemRepository.findByIds(
+        [...new Set(dependents.map((link) => link.work_item_id))],
+        { isActive: true }
+      );
+      const openItems = new Map(
+        dependentItems.filter((dependent) => dependent.status !== 'done').map((d) => [d.work_item_id, d])
+      );
+
+      const next: string[] = [];
+      for (const link of dependents) {
+        const dependent = openItems.get(link.work_item_id);
+        if (!dependent) {
+          continue;
+        }
+        links.push({
+          predecessorId: sourceIds.has(link.depends_on_work_item_id) ? item.work_item_id : link.depends_on_work_item_id,
+          successorId: link.work_item_id,
+          type: link.dependency_type,
+          lag: link.lag_days,
+        });
+        if (!affected.has(link.work_item_id)) {
+          affected.set(link.work_item_id, {
+            item: dependent,
+            depth,
+            via: link.depends_on_work_item_id,
+            type: link.dependency_type,
+          });
+          next.push(link.work_item_id);
+        }
+      }
+      frontier = next;
+    }
+
+    const items = new Map<string, WorkItemData>([
+      [item.work_item_id, item],
+      ...[...affected].map(([id, entry]) => [id, entry.item] as [string, WorkItemData]),
+    ]);
+    const startMs = Date.now();
+    const baseline = this.projectFinishes(items, links, item.work_item_id, 0);
+    const slipped = this.projectFinishes(items, links, item.work_item_id, slipDays);
+    const toDate = (days: number) => new Date(startMs + days * DAY_MS).toISOString();
+    const daysLate = (finish: number, dueDate: string) => (startMs + finish * DAY_MS - Date.parse(dueDate)) / DAY_MS;
+
+    const missedDueDates: MissedDueDate[] = [];
+    for (const candidate of items.values()) {
+      if (!candidate.due_date || candidate.status === 'done') {
+        continue;
+      }
+      const late = daysLate(slipped.get(candidate.work_item_id)!, candidate.due_date);
+      if (late > EPSILON) {
+        missedDueDates.push({
+          work_item_id: candidate.work_item_id,
+          name: candidate.name,
+          due_date: candidate.due_date,
+          projected_finish: toDate(slipped.get(candidate.work_item_id)!),
+          days_late: roundDays(late),
+          already_late: daysLate(baseline.get(candidate.work_item_id)!, candidate.due_date) > EPSILON,
+        });
+      }
+    }
+    const missedIds = new Set(missedDueDates.map((missed) => missed.work_item_id));
+
+    // Group by project, in the order the walk first reached each project.
+    const roots = await this.workItemRepository.findRootWorkItemIds([...affected.keys()]);
+    const projectItems = await this.workItemRepository.findByIds([...new Set(roots.values())]);
+    const projectNames = new Map(projectItems.map((project) => [project.work_item_id, project.name]));
+    const projects = new Map<string, ImpactedProject>();
+    for (const [id, entry] of affected) {
+      const projectId = roots.get(id) ?? id;
+      let project = projects.get(projectId);
+      if (!project) {
+        project = { project_id: projectId, project_name: projectNames.get(projectId) ?? projectId, items: [] };
+        projects.set(projectId, project);
+      }
+      const impacted: ImpactedWorkItem = {
+        work_item_id: id,
+        name: entry.item.name,
+        status: entry.item.status,
+        due_date: entry.item.due_date,
+        depth: entry.depth,
+        via_work_item_id: entry.via,
+        dependency_type: entry.type,
+        projected_finish: toDate(slipped.get(id)!),
+        misses_due_date: missedIds.has(id),
+      };
+      project.items.push(impacted);
+    }
+
+    logger.info(
+      `[WorkItemImpactService] ${affected.size} item(s) in ${projects.size} project(s) wait on ${workItemId}; ` +
+        `${missedDueDates.length} due date(s) missed with a ${slipDays} day slip.`
+    );
+    return {
+      work_item_id: item.work_item_id,
+      name: item.name,
+      slip_days: slipDays,
+      affected_count: affected.size,
+      projects: [...projects.values()],
+      missed_due_dates: missedDueDates,
+    };
+  }
+
+  /**
+   * Earliest finish, in days from now, of every item in `items` when `sourceId` takes `slipDays` longer
+   * than estimated. A cycle, which adding dependencies rejects, is cut where it closes.
+   */
+  private projectFinishes(
+    items: Map<string, WorkItemData>,
+    links: ImpactLink[],
+    sourceId: string,
+    slipDays: number
+  ): Map<string, number> {
+    const predecessors = new Map<string, ImpactLink[]>([...items.keys()].map((id) => [id, []]));
+    for (const link of links) {
+      predecessors.get(link.successorId)!.push(link);
+    }
+
+    const starts = new Map<string, number>();
+    const finishes = new Map<string, number>();
+    const visiting = new Set<string>();
+    const finishOf = (id: string): number | undefined => {
+      if (finishes.has(id) || visiting.has(id)) {
+        return finishes.get(id);
+      }
+      visiting.add(id);
+      const duration = remainingDays(items.get(id)!) + (id === sourceId ? slipDays : 0);
+      let start = 0;
+      for (const link of predecessors.get(id)!) {
+        const predecessorFinish = finishOf(link.predecessorId);
+        if (predecessorFinish !== undefined) {
+          const predecessor = { earliestStart: starts.get(link.predecessorId)!, earliestFinish: predecessorFinish };
+          start = Math.max(start, earliestStartAllowed(link, predecessor, duration));
+        }
+      }
+      visiting.delete(id);
+      starts.set(id, start);
+      finishes.set(id, start + duration);
+      return start + duration;
+    };
+    for (const id of items.keys()) {
+      finishOf(id);
+    }
+    return finishes;
+  }
+
+  private async findActiveDescendantIds(workItemId: string): Promise<string[]> {
+    const descendantIds: string[] = [];
+    let frontier = [workItemId];
+    while (frontier.length > 0) {
+      const next: string[] = [];
+      for (const parentId of frontier) {
+        const children = await this.workItemRepository.findChildren(parentId, { isActive: true });
+        next.push(...children.map((child) => child.work_item_id));
+      }
+      descendantIds.push(...next);
+      frontier = next;
+    }
+    return descendantIds;
+  }
+}
@@ -0,0 +1,277 @@
+// src/services/WorkItemImportService.ts
+import type { DbClient } from '../db/DatabaseTypes.js';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  WorkItemRepository,
+  ActionHistoryRepository,
+  WorkItemData,
+  WorkItemDependencyData,
+  CreateActionHistoryInput,
+} from '../repositories/index.js';
+import { FullWorkItemData } from './WorkItemServiceTypes.js';
+import { ImportWorkItemNode } from '../tools/import_project_params.js';
+import { WorkItemReadingService } from './WorkItemReadingService.js';
+import { WorkItemHistoryService } from './WorkItemHistoryService.js';
+import { WorkItemAddingService } from './WorkItemAddingService.js';
+import { WorkItemUtilsService } from './WorkItemUtilsService.js';
+import { WorkItemOrderKeyService } from './WorkItemOrderKeyService.js';
+import { WorkItemDependencyCycleService } from './WorkItemDependencyCycleService.js';
+import sseNotificationService, { SseNotificationService } from './SseNotificationService.js';
+import { ValidationError, DatabaseError, NotFoundError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Service responsible for importing a complete project hierarchy as a new root project.
+ */
+export class WorkItemImportService {
+  private workItemRepository: WorkItemRepository;
+  private actionHistoryRepository: ActionHistoryRepository;
+  private readingService: WorkItemReadingService;
+  private historyService: WorkItemHistoryService;
+  private addingService: WorkItemAddingService;
+  private orderKeyService: WorkItemOrderKeyService;
+  private cycleService: WorkItemDependencyCycleService;
+  private sseService: SseNotificationService;
+
+  constructor(
+    workItemRepository: WorkItemRepository,
+    actionHistoryRepository: ActionHistoryRepository,
+    sseService: SseNotificationService = sseNotificationService
+  ) {
+    this.workItemRepository = workItemRepository;
+    this.actionHistoryRepository = actionHistoryRepository;
+    this.readingService = new WorkItemReadingService(workItemRepository);
+    this.historyService = new WorkItemHistoryService(workItemRepository, actionHistoryRepository);
+    this.addingService = new WorkItemAddingService(
+      workItemRepository,
+      actionHistoryRepository,
+      this.historyService,
+      sseService
+    );
+    this.orderKeyService = new WorkItemOrderKeyService(workItemRepository);
+    this.cycleService = new WorkItemDependencyCycleService(workItemRepository);
+    this.sseService = sseService;
+  }
+
+  /**
+   * Checks local_id uniqueness and that every dependency points at a local_id declared in the same file.
+   */
+  private validateLocalReferences(root: ImportWorkItemNode): void {
+    const localIds = new Set<string>();
+    const collectIds = (node: ImportWorkItemNode): void => {
+      if (node.local_id !== undefined) {
+        if (localIds.has(node.local_id)) {
+          throw new ValidationError(`Duplicate local_id "${node.local_id}" in import data.`);
+        }
+        localIds.add(node.local_id);
+      }
+      node.children?.forEach(collectIds);
+    };
+    collectIds(root);
+
+    const checkDependencies = (node: ImportWorkItemNode): void => {
+      for (const dep of node.dependencies ?? []) {
+        if (dep.depends_on_local_id === undefined) {
+          continue;
+        }
+        if (!localIds.has(dep.depends_on_local_id)) {
+          throw new ValidationError(
+            `Item "${node.name}" depends on unknown local_id "${dep.depends_on_local_id}" in import data.`
+          );
+        }
+        if (dep.depends_on_local_id === node.local_id) {
+          throw new ValidationError(`Item "${node.name}" cannot depend on itself.`);
+        }
+      }
+      node.children?.forEach(checkDependencies);
+    };
+    checkDependencies(root);
+  }
+
+  private async createItemsRecursive(
+    client: DbClient,
+    node: ImportWorkItemNode,
+    parentId: string | null,
+    orderKey: string,
+    localIdMap: Map<string, string>,
+    createdItems: WorkItemData[],
+    pendingDependencies: { node: ImportWorkItemNode; workItemId: string }[]
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const newWorkItemData: WorkItemData = {
+      work_item_id: uuidv4(),
+      name: node.name,
+      description: node.description || null,
+      parent_work_item_id: parentId,
+      status: node.status || 'todo',
+      priority: node.priority || 'medium',
+      due_date: node.due_date || null,
+      order_key: orderKey,
+      is_active: node.is_active ?? true,
+      created_at: now,
+      updated_at: now,
+      tags: node.tags ? Array.from(new Set(node.tags)) : [],
+      estimated_duration_days: node.estimated_duration_days ?? null,
+      ...WorkItemUtilsService.statusTimestamps(node.status || 'todo', now, node),
+    };
+
+    const createdItem = await this.workItemRepository.create(client, newWorkItemData);
+    if (!createdItem) {
+      throw new DatabaseError(`Failed to create imported work item "${node.name}" in repository.`);
+    }
+    createdItems.push(createdItem);
+    if (node.local_id !== undefined) {
+      localIdMap.set(node.local_id, createdItem.work_item_id);
+    }
+    if (node.dependencies && node.dependencies.length > 0) {
+      pendingDependencies.push({ node, workItemId: createdItem.work_item_id });
+    }
+
+    const children = node.children ?? [];
+    const childOrderKeys = this.childOrderKeys(children);
+    for (const [index, child] of children.entries()) {
+      await this.createItemsRecursive(
+        client,
+        child,
+        createdItem.work_item_id,
+        childOrderKeys[index],
+        localIdMap,
+        createdItems,
+        pendingDependencies
+      );
+    }
+  }
+
+  /**
+   * Exported documents carry their order keys and list children in that order, so the keys are kept. Keys
+   * from hand-written documents, or numeric ones from older exports, are replaced by keys in array order.
+   */
+  private childOrderKeys(children: ImportWorkItemNode[]): string[] {
+    const carried = children.map((child) => child.order_key);
+    const usable = carried.every(
+      (key, index) =>
+        WorkItemUtilsService.isValidOrderKey(key) &&
+        (index === 0 || WorkItemUtilsService.compareOrderKeys(carried[index - 1], key) < 0)
+    );
+    return usable ? (carried as string[]) : WorkItemUtilsService.spreadOrderKeys(children.length);
+  }
+
+  /**
+   * Creates the root project and its whole descendant hierarchy, then the dependencies between imported items.
+   * Dependencies on items outside the file, and 'linked' dependencies from the items the project was promoted
+   * from, are only restored if those items still exist.
+   * Everything is recorded as a single IMPORT_PROJECT action so one undo removes the whole import.
+   */
+  public async importProject(
+    projectData: ImportWorkItemNode,
+    options?: { linkedFromWorkItemIds?: string[] }
+  ): Promise<FullWorkItemData> {
+    logger.info(`[WorkItemImportService] Importing project "${projectData.name}"`);
+    this.validateLocalReferences(projectData);
+
+    const createdItems: WorkItemData[] = [];
+    const createdDependencies: WorkItemDependencyData[] = [];
+    const linkedFromIds: string[] = [];
+
+    await this.actionHistoryRepository.withTransaction(async (client: DbClient) => {
+      const lastRootKey = await this.workItemRepository.findSiblingEdgeOrderKey(null, 'last', client);
+      const rootPlacement = await this.orderKeyService.orderKeyBetween(client, null, lastRootKey, null);
+
+      const localIdMap = new Map<string, string>();
+      const pendingDependencies: { node: ImportWorkItemNode; workItemId: string }[] = [];
+      await this.createItemsRecursive(
+        client,
+        { ...projectData, is_active: true },
+        null,
+        rootPlacement.orderKey,
+        localIdMap,
+        createdItems,
+        pendingDependencies
+      );
+
+      for (const { node, workItemId } of pendingDependencies) {
+        const dependencies: WorkItemDependencyData[] = [];
+        for (const dep of node.dependencies ?? []) {
+          let targetId: string;
+          if (dep.depends_on_local_id !== undefined) {
+            targetId = localIdMap.get(dep.depends_on_local_id) as string;
+          } else {
+            targetId = dep.depends_on_work_item_id as string;
+            const externalTarget = await this.workItemRepository.findById(targetId, undefined, client);
+            if (!externalTarget) {
+              logger.warn(
+                `[WorkItemImportService] Skipping dependency of "${node.name}" on missing external item ${targetId}.`
+              );
+              continue;
+            }
+          }
+          dependencies.push({
+            work_item_id: workItemId,
+            depends_on_work_item_id: targetId,
+            dependency_type: dep.dependency_type || 'finish-to-start',
+            lag_days: dep.lag_days ?? 0,
+            is_active: dep.is_active ?? true,
+          });
+        }
+        if (dependencies.length > 0) {
+          // Each item's links are checked against those written before it, so a cycle is caught at its last link.
+          await this.cycleService.assertNoCycle(
+            workItemId,
+            dependencies.filter((dep) => dep.is_active),
+            client
+          );
+          await this.workItemRepository.addOrUpdateDependencies(client, workItemId, dependencies);
+          createdDependencies.push(...dependencies);
+        }
+      }
+
+      const rootId = createdItems[0].work_item_id;
+      for (const linkedFromId of options?.linkedFromWorkItemIds ?? []) {
+        const linkedFromItem = await this.workItemRepository.findById(linkedFromId, { isActive: true }, client);
+        if (!linkedFromItem) {
+          logger.warn(`[WorkItemImportService] Skipping promoted-project link from missing item ${linkedFromId}.`);
+          continue;
+        }
+        const link: WorkItemDependencyData = {
+          work_item_id: linkedFromId,
+          depends_on_work_item_id: rootId,
+          dependency_type: 'linked',
+          lag_days: 0,
+          is_active: true,
+        };
+        await this.workItemRepository.addOrUpdateDependencies(client, linkedFromId, [link]);
+        createdDependencies.push(link);
+        linkedFromIds.push(linkedFromId);
+      }
+
+      const rootItem = createdItems[0];
+      const actionData: CreateActionHistoryInput = {
+        action_type: 'IMPORT_PROJECT',
+        work_item_id: rootItem.work_item_id,
+        description: `Imported project "${rootItem.name}" (${createdItems.length} items, ${createdDependencies.length} dependencies)`,
+      };
+      const createdAction = await this.addingService.recordTreeCreation(
+        client,
+        actionData,
+        createdItems,
+        rootPlacement.undoSteps,
+        createdDependencies
+      );
+      logger.info(
+        `[WorkItemImportService] Imported ${createdItems.length} items and ${createdDependencies.length} dependencies. Action ID: ${createdAction.action_id}`
+      );
+    });
+
+    const rootId = createdItems[0].work_item_id;
+    this.sseService.notifyWorkItemCreated(createdItems[0], null);
+    if (linkedFromIds.length > 0) {
+      const linkedProjectIds = await this.readingService.getProjectIdsOf(linkedFromIds);
+      this.sseService.notifyProjectsChanged(linkedProjectIds, 'dependency_changed', false);
+    }
+    const importedProject = await this.readingService.getWorkItemById(rootId, { isActive: true });
+    if (!importedProject) {
+      throw new NotFoundError(`Imported project ${rootId} could not be retrieved after import.`);
+    }
+    return importedProject;
+  }
+}
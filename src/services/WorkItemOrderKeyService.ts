@@ -0,0 +1,138 @@
+// src/services/WorkItemOrderKeyService.ts
+import type { DbClient } from '../db/DatabaseTypes.js';
+import { type WorkItemRepository, type WorkItemData, type CreateUndoStepInput } from '../repositories/index.js';
+import { logger } from '../utils/logger.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { type MovePosition } from './WorkItemServiceTypes.js';
+import { WorkItemUtilsService } from './WorkItemUtilsService.js';
+
+export interface OrderKeyPlacement {
+  orderKey: string;
+  /**
+   * Steps that undo renumbering the siblings, numbered from 1, or none if the key fitted. Callers record them
+   * after their own steps, so redoing an action renumbers after restoring the items it created.
+   */
+  undoSteps: CreateUndoStepInput[];
+}
+
+/**
+ * Finds order keys for items placed among their siblings, renumbering the siblings in the caller's transaction
+ * when the gap between two keys is used up.
+ */
+export class WorkItemOrderKeyService {
+  private workItemRepository: WorkItemRepository;
+
+  constructor(workItemRepository: WorkItemRepository) {
+    this.workItemRepository = workItemRepository;
+  }
+
+  /**
+   * A key between `keyBefore` and `keyAfter` under `parentId` (null for projects); either may be null for the
+   * start or end of the list. If no short key fits, the active siblings under the parent are given evenly
+   * spaced keys with the new position left free. `workItemId` is the item being placed, which is
+   * left out of the renumbering when it is already one of the siblings.
+   */
+  public async orderKeyBetween(
+    client: DbClient,
+    parentId: string | null,
+    keyBefore: string | null,
+    keyAfter: string | null,
+    workItemId?: string
+  ): Promise<OrderKeyPlacement> {
+    const orderKey = WorkItemUtilsService.calculateOrderKey(keyBefore, keyAfter);
+    if (orderKey !== null) {
+      return { orderKey, undoSteps: [] };
+    }
+
+    const siblings = await this.findSortedSiblings(client, parentId, workItemId);
+    const countKeys = (matches: (key: string) => boolean) =>
+      siblings.filter((sibling) => sibling.order_key !== null && matches(sibling.order_key)).length;
+    const position =
+      keyBefore !== null
+        ? countKeys((key) => WorkItemUtilsService.compareOrderKeys(key, keyBefore) <= 0)
+        : keyAfter !== null
+          ? countKeys((key) => WorkItemUtilsService.compareOrderKeys(key, keyAfter) < 0)
+          : siblings.length;
+
+    const keys = WorkItemUtilsService.spreadOrderKeys(siblings.length + 1);
+    const undoSteps: CreateUndoStepInput[] = [];
+    for (const [index, sibling] of siblings.entries()) {
+      const newKey = keys[index < position ? index : index + 1];
+      if (newKey === sibling.order_key) {
+        continue;
+      }
+      const renumbered = await this.workItemRepository.updateFields(client, sibling.work_item_id, {
+        order_key: newKey,
+      });
+      if (!renumbered) {
+        throw new NotFoundError(`Failed to renumber work item ${sibling.work_item_id}; it might have been modified.`);
+      }
+      undoSteps.push({
+        step_order: undoSteps.length + 1,
+        step_type: 'UPDATE',
+        table_name: 'work_items',
+        record_id: sibling.work_item_id,
+        old_data: { order_key: sibling.order_key, updated_at: sibling.updated_at },
+        new_data: { order_key: renumbered.order_key, updated_at: renumbered.updated_at },
+      });
+    }
+    logger.info(
+      `[WorkItemOrderKeyService] Renumbered ${undoSteps.length} of ${siblings.length} sibling(s) under ` +
+        `${parentId ?? 'the project list'} to make room at position ${position + 1}.`
+    );
+    return { orderKey: keys[position], undoSteps };
+  }
+
+  /**
+   * The keys either side of `position` among the active children of `parentId` (null for projects), leaving
+   * out `workItemId` so that an item can be placed relative to the siblings it already has.
+   */
+  public async neighbourKeysAt(
+    client: DbClient,
+    parentId: string | null,
+    position: MovePosition,
+    workItemId: string
+  ): Promise<{ keyBefore: string | null; keyAfter: string | null }> {
+    const { moveTo, moveAfter_work_item_id, moveBefore_work_item_id } = position;
+    if ([moveTo, moveAfter_work_item_id, moveBefore_work_item_id].filter((p) => p !== undefined).length > 1) {
+      throw new ValidationError(
+        'Provide only one positioning parameter: moveTo, moveAfter_work_item_id, or moveBefore_work_item_id.'
+      );
+    }
+    const siblings = await this.findSortedSiblings(client, parentId, workItemId);
+
+    const targetId = moveAfter_work_item_id ?? moveBefore_work_item_id;
+    if (targetId !== undefined) {
+      if (targetId === workItemId) {
+        throw new ValidationError('A work item cannot be moved relative to itself.');
+      }
+      const index = siblings.findIndex((sibling) => sibling.work_item_id === targetId);
+      if (index === -1) {
+        throw new ValidationError(
+          `Work item ${targetId} is not an active ${parentId ? `child of ${parentId}` : 'project'}, so it cannot be used as a position.`
+        );
+      }
+      return moveAfter_work_item_id !== undefined
+        ? { keyBefore: siblings[index].order_key, keyAfter: siblings[index + 1]?.order_key ?? null }
+        : { keyBefore: siblings[index - 1]?.order_key ?? null, keyAfter: siblings[index].order_key };
+    }
+    if (moveTo === 'start') {
+      return { keyBefore: null, keyAfter: siblings[0]?.order_key ?? null };
+    }
+    return { keyBefore: siblings[siblings.length - 1]?.order_key ?? null, keyAfter: null };
+  }
+
+  private async findSortedSiblings(
+    client: DbClient,
+    parentId: string | null,
+    workItemId?: string
+  ): Promise<WorkItemData[]> {
+    return (
+      parentId
+        ? await this.workItemRepository.findChildren(parentId, { isActive: true }, client)
+        : await this.workItemRepository.findRoots({ isActive: true }, client)
+    )
+      .filter((sibling) => sibling.work_item_id !== workItemId)
+      .sort((a, b) => WorkItemUtilsService.compareOrderKeys(a.order_key, b.order_key));
+  }
+}
@@ -8,11 +8,13 @@ import {
 } from '../repositories/index.js';
 import { logger } from '../utils/logger.js';
 import { NotFoundError, ValidationError } from '../utils/errors.js';
-import { FullWorkItemData } from './WorkItemServiceTypes.js';
+import { FullWorkItemData, MovePosition } from './WorkItemServiceTypes.js';
+import { WorkItemOrderKeyService } from './WorkItemOrderKeyService.js';
 import { WorkItemUtilsService } from './WorkItemUtilsService.js';
 import { WorkItemReadingService } from './WorkItemReadingService.js';
 import { WorkItemHistoryService } from './WorkItemHistoryService.js';
-import { PoolClient } from 'pg';
+import type { DbClient } from '../db/DatabaseTypes.js';
+import sseNotificationService, { SseNotificationService } from './SseNotificationService.js';
 
 /**
  * Service responsible for updating work item positions (order).
@@ -23,20 +25,30 @@ export class WorkItemPositionUpdateService {
   // Removed utilsService instance variable
   private readingService: WorkItemReadingService;
   private historyService: WorkItemHistoryService;
+  private orderKeyService: WorkItemOrderKeyService;
+  private sseService: SseNotificationService;
 
-  constructor(workItemRepository: WorkItemRepository, actionHistoryRepository: ActionHistoryRepository) {
+  constructor(
+    workItemRepository: WorkItemRepository,
+    actionHistoryRepository: ActionHistoryRepository,
+    sseService: SseNotificationService = sseNotificationService
+  ) {
     this.workItemRepository = workItemRepository;
     this.actionHistoryRepository = actionHistoryRepository;
     // Removed instantiation of WorkItemUtilsService as its methods are static
     this.readingService = new WorkItemReadingService(workItemRepository);
     this.historyService = new WorkItemHistoryService(workItemRepository, actionHistoryRepository);
+    this.orderKeyService = new WorkItemOrderKeyService(workItemRepository);
+    this.sseService = sseService;
   }
 
   public async moveItemToStart(workItemId: string): Promise<FullWorkItemData> {
     logger.info(`[WorkItemPositionUpdateService] Moving work item ${workItemId} to start.`);
     let itemBeforeUpdate: WorkItemData | undefined;
     let itemAfterUpdate: WorkItemData | null = null;
-    await this.actionHistoryRepository.withTransaction(async (client: PoolClient) => {
+    let projectId: string | null = null;
+    let moved = false;
+    await this.actionHistoryRepository.withTransaction(async (client: DbClient) => {
       itemBeforeUpdate = await this.workItemRepository.findById(workItemId, { isActive: true });
       if (!itemBeforeUpdate) {
         const inactiveItem = await this.workItemRepository.findById(workItemId, { isActive: false });
@@ -54,12 +66,9 @@ export class WorkItemPositionUpdateService {
         itemAfterUpdate = itemBeforeUpdate; // Ensure itemAfterUpdate is set
         return;
       }
-      // MODIFIED: Call calculateOrderKey statically
-      const newOrderKey = WorkItemUtilsService.calculateOrderKey(keyBefore, keyAfter);
-      if (newOrderKey === null) {
-        throw new Error(`Failed to calculate a new order key for moving item ${workItemId} to start.`);
-      }
-      if (newOrderKey === itemBeforeUpdate.order_key) {
+      const placement = await this.orderKeyService.orderKeyBetween(client, parentId, keyBefore, keyAfter, workItemId);
+      const newOrderKey = placement.orderKey;
+      if (newOrderKey === itemBeforeUpdate.order_key && placement.undoSteps.length === 0) {
         logger.info(
           `[WorkItemPositionUpdateService] Calculated new order key for ${workItemId} is same as current. No effective change.`
         );
@@ -86,6 +95,7 @@ export class WorkItemPositionUpdateService {
           old_data: { order_key: itemBeforeUpdate.order_key, updated_at: itemBeforeUpdate.updated_at },
           new_data: { order_key: itemAfterUpdate.order_key, updated_at: itemAfterUpdate.updated_at },
         },
+        ...placement.undoSteps.map((step) => ({ ...step, step_order: step.step_order + 1 })),
       ];
       const actionDescription = `Moved work item "${itemAfterUpdate.name}" to start of list.`;
       const actionData: CreateActionHistoryInput = {
@@ -93,6 +103,8 @@ export class WorkItemPositionUpdateService {
         work_item_id: workItemId,
         description: actionDescription,
       };
+      projectId = await this.readingService.getProjectIdOf(itemAfterUpdate, client);
+      moved = true;
       const createdAction = await this.actionHistoryRepository.createActionInClient(actionData, client);
       for (const step of undoStepsData) {
         await this.actionHistoryRepository.createUndoStepInClient(
@@ -110,6 +122,9 @@ export class WorkItemPositionUpdateService {
       );
       throw new Error(`Failed to determine final item state after moveItemToStart for ID ${workItemId}.`);
     }
+    if (moved) {
+      this.sseService.notifyWorkItemUpdated(finalItemState, projectId);
+    }
     const fullUpdatedItem = await this.readingService.getWorkItemById(finalItemState.work_item_id, {
       isActive: finalItemState.is_active,
     });
@@ -126,7 +141,9 @@ export class WorkItemPositionUpdateService {
     logger.info(`[WorkItemPositionUpdateService] Moving work item ${workItemId} to end.`);
     let itemBeforeUpdate: WorkItemData | undefined;
     let itemAfterUpdate: WorkItemData | null = null;
-    await this.actionHistoryRepository.withTransaction(async (client: PoolClient) => {
+    let projectId: string | null = null;
+    let moved = false;
+    await this.actionHistoryRepository.withTransaction(async (client: DbClient) => {
       itemBeforeUpdate = await this.workItemRepository.findById(workItemId, { isActive: true });
       if (!itemBeforeUpdate) {
         const inactiveItem = await this.workItemRepository.findById(workItemId, { isActive: false });
@@ -144,12 +161,9 @@ export class WorkItemPositionUpdateService {
         itemAfterUpdate = itemBeforeUpdate; // Ensure itemAfterUpdate is set
         return;
       }
-      // MODIFIED: Call calculateOrderKey statically
-      const newOrderKey = WorkItemUtilsService.calculateOrderKey(keyBefore, keyAfter);
-      if (newOrderKey === null) {
-        throw new Error(`Failed to calculate a new order key for moving item ${workItemId} to end.`);
-      }
-      if (newOrderKey === itemBeforeUpdate.order_key) {
+      const placement = await this.orderKeyService.orderKeyBetween(client, parentId, keyBefore, keyAfter, workItemId);
+      const newOrderKey = placement.orderKey;
+      if (newOrderKey === itemBeforeUpdate.order_key && placement.undoSteps.length === 0) {
         logger.info(
           `[WorkItemPositionUpdateService] Calculated new order key for ${workItemId} is same as current. No effective change.`
         );
@@ -176,6 +190,7 @@ export class WorkItemPositionUpdateService {
           old_data: { order_key: itemBeforeUpdate.order_key, updated_at: itemBeforeUpdate.updated_at },
           new_data: { order_key: itemAfterUpdate.order_key, updated_at: itemAfterUpdate.updated_at },
         },
+        ...placement.undoSteps.map((step) => ({ ...step, step_order: step.step_order + 1 })),
       ];
       const actionDescription = `Moved work item "${itemAfterUpdate.name}" to end of list.`;
       const actionData: CreateActionHistoryInput = {
@@ -183,6 +198,8 @@ export class WorkItemPositionUpdateService {
         work_item_id: workItemId,
         description: actionDescription,
       };
+      projectId = await this.readingService.getProjectIdOf(itemAfterUpdate, client);
+      moved = true;
       const createdAction = await this.actionHistoryRepository.createActionInClient(actionData, client);
       for (const step of undoStepsData) {
         await this.actionHistoryRepository.createUndoStepInClient(
@@ -200,6 +217,9 @@ export class WorkItemPositionUpdateService {
       );
       throw new Error(`Failed to determine final item state after moveItemToEnd for ID ${workItemId}.`);
     }
+    if (moved) {
+      this.sseService.notifyWorkItemUpdated(finalItemState, projectId);
+    }
     const fullUpdatedItem = await this.readingService.getWorkItemById(finalItemState.work_item_id, {
       isActive: finalItemState.is_active,
     });
@@ -216,10 +236,12 @@ export class WorkItemPositionUpdateService {
     logger.info(`[WorkItemPositionUpdateService] Moving work item ${workItemIdToMove} after ${targetSiblingId}.`);
     let itemToMoveBefore: WorkItemData | undefined;
     let itemToMoveAfter: WorkItemData | null = null;
+    let projectId: string | null = null;
+    let moved = false;
     if (workItemIdToMove === targetSiblingId) {
       throw new ValidationError('A work item cannot be moved relative to itself.');
     }
-    await this.actionHistoryRepository.withTransaction(async (client: PoolClient) => {
+    await this.actionHistoryRepository.withTransaction(async (client: DbClient) => {
       itemToMoveBefore = await this.workItemRepository.findById(workItemIdToMove, { isActive: true });
       if (!itemToMoveBefore) {
         throw new NotFoundError(`Work item to move (ID: ${workItemIdToMove}) not found or is inactive.`);
@@ -262,7 +284,7 @@ export class WorkItemPositionUpdateService {
       // if keyAfter is itemToMove itself.
       // If itemToMove's current order_key IS keyAfter, it means itemToMove is already the item after targetSiblingItem's original 'after' item.
       // This condition seems complex, let's simplify: we want itemToMove between targetSiblingItem and whatever was after targetSiblingItem.
-      let newOrderKey: string | null;
+      let nextKey = keyAfter;
       if (itemToMoveBefore.order_key === keyAfter) {
         // itemToMove is currently the one after target's original "after" item.
         // This means we're moving itemToMove into the slot of keyAfter, relative to keyBefore (targetSiblingItem.order_key).
@@ -275,17 +297,17 @@ export class WorkItemPositionUpdateService {
           'after',
           client
         );
-        // MODIFIED: Call calculateOrderKey statically
-        newOrderKey = WorkItemUtilsService.calculateOrderKey(keyBefore, originalNeighboursOfItemToMove.after);
-      } else {
-        // MODIFIED: Call calculateOrderKey statically
-        newOrderKey = WorkItemUtilsService.calculateOrderKey(keyBefore, keyAfter);
+        nextKey = originalNeighboursOfItemToMove.after;
       }
-
-      if (newOrderKey === null) {
-        throw new Error(`Failed to calculate an order key for moving ${workItemIdToMove} after ${targetSiblingId}.`);
-      }
-      if (newOrderKey === itemToMoveBefore.order_key) {
+      const placement = await this.orderKeyService.orderKeyBetween(
+        client,
+        parentId,
+        keyBefore,
+        nextKey,
+        workItemIdToMove
+      );
+      const newOrderKey = placement.orderKey;
+      if (newOrderKey === itemToMoveBefore.order_key && placement.undoSteps.length === 0) {
         logger.info(
           `[WorkItemPositionUpdateService] Calculated new order key for ${workItemIdToMove} is same as current. No effective change.`
         );
@@ -314,6 +336,7 @@ export class WorkItemPositionUpdateService {
           old_data: { order_key: itemToMoveBefore.order_key, updated_at: itemToMoveBefore.updated_at },
           new_data: { order_key: itemToMoveAfter.order_key, updated_at: itemToMoveAfter.updated_at },
         },
+        ...placement.undoSteps.map((step) => ({ ...step, step_order: step.step_order + 1 })),
       ];
       const actionDescription = `Moved work item "${itemToMoveAfter.name}" after sibling "${targetSiblingItem.name}".`;
       const actionData: CreateActionHistoryInput = {
@@ -321,6 +344,8 @@ export class WorkItemPositionUpdateService {
         work_item_id: workItemIdToMove,
         description: actionDescription,
       };
+      projectId = await this.readingService.getProjectIdOf(itemToMoveAfter, client);
+      moved = true;
       const createdAction = await this.actionHistoryRepository.createActionInClient(actionData, client);
       for (const step of undoStepsData) {
         await this.actionHistoryRepository.createUndoStepInClient(
@@ -340,6 +365,9 @@ export class WorkItemPositionUpdateService {
       );
       throw new Error(`No final state for ${workItemIdToMove}.`);
     }
+    if (moved) {
+      this.sseService.notifyWorkItemUpdated(finalItemState, projectId);
+    }
     const fullUpdatedItem = await this.readingService.getWorkItemById(finalItemState.work_item_id, {
       isActive: finalItemState.is_active,
     });
@@ -356,10 +384,12 @@ export class WorkItemPositionUpdateService {
     logger.info(`[WorkItemPositionUpdateService] Moving work item ${workItemIdToMove} before ${targetSiblingId}.`);
     let itemToMoveBefore: WorkItemData | undefined;
     let itemToMoveAfter: WorkItemData | null = null;
+    let projectId: string | null = null;
+    let moved = false;
     if (workItemIdToMove === targetSiblingId) {
       throw new ValidationError('A work item cannot be moved relative to itself.');
     }
-    await this.actionHistoryRepository.withTransaction(async (client: PoolClient) => {
+    await this.actionHistoryRepository.withTransaction(async (client: DbClient) => {
       itemToMoveBefore = await this.workItemRepository.findById(workItemIdToMove, { isActive: true });
       if (!itemToMoveBefore) {
         throw new NotFoundError(`Work item to move (ID: ${workItemIdToMove}) not found or is inactive.`);
@@ -396,7 +426,7 @@ export class WorkItemPositionUpdateService {
       );
       const keyBefore = neighboursOfTarget.before; // itemToMove will be after this key
 
-      let newOrderKey: string | null;
+      let previousKey = keyBefore;
       if (itemToMoveBefore.order_key === keyBefore) {
         // itemToMove is currently the one before target's original "before" item.
         const originalNeighboursOfItemToMove = await this.workItemRepository.findNeighbourOrderKeys(
@@ -405,17 +435,17 @@ export class WorkItemPositionUpdateService {
           'before',
           client
         );
-        // MODIFIED: Call calculateOrderKey statically
-        newOrderKey = WorkItemUtilsService.calculateOrderKey(originalNeighboursOfItemToMove.before, keyAfter);
-      } else {
-        // MODIFIED: Call calculateOrderKey statically
-        newOrderKey = WorkItemUtilsService.calculateOrderKey(keyBefore, keyAfter);
-      }
-
-      if (newOrderKey === null) {
-        throw new Error(`Failed to calculate an order key for moving ${workItemIdToMove} before ${targetSiblingId}.`);
+        previousKey = originalNeighboursOfItemToMove.before;
       }
-      if (newOrderKey === itemToMoveBefore.order_key) {
+      const placement = await this.orderKeyService.orderKeyBetween(
+        client,
+        parentId,
+        previousKey,
+        keyAfter,
+        workItemIdToMove
+      );
+      const newOrderKey = placement.orderKey;
+      if (newOrderKey === itemToMoveBefore.order_key && placement.undoSteps.length === 0) {
         logger.info(
           `[WorkItemPositionUpdateService] Calculated new order key for ${workItemIdToMove} is same as current. No effective change.`
         );
@@ -444,6 +474,7 @@ export class WorkItemPositionUpdateService {
           old_data: { order_key: itemToMoveBefore.order_key, updated_at: itemToMoveBefore.updated_at },
           new_data: { order_key: itemToMoveAfter.order_key, updated_at: itemToMoveAfter.updated_at },
         },
+        ...placement.undoSteps.map((step) => ({ ...step, step_order: step.step_order + 1 })),
       ];
       const actionDescription = `Moved work item "${itemToMoveAfter.name}" before sibling "${targetSiblingItem.name}".`;
       const actionData: CreateActionHistoryInput = {
@@ -451,6 +482,8 @@ export class WorkItemPositionUpdateService {
         work_item_id: workItemIdToMove,
         description: actionDescription,
       };
+      projectId = await this.readingService.getProjectIdOf(itemToMoveAfter, client);
+      moved = true;
       const createdAction = await this.actionHistoryRepository.createActionInClient(actionData, client);
       for (const step of undoStepsData) {
         await this.actionHistoryRepository.createUndoStepInClient(
@@ -470,6 +503,9 @@ export class WorkItemPositionUpdateService {
       );
       throw new Error(`No final state for ${workItemIdToMove}.`);
     }
+    if (moved) {
+      this.sseService.notifyWorkItemUpdated(finalItemState, projectId);
+    }
     const fullUpdatedItem = await this.readingService.getWorkItemById(finalItemState.work_item_id, {
       isActive: finalItemState.is_active,
     });
@@ -481,4 +517,265 @@ export class WorkItemPositionUpdateService {
     }
     return fullUpdatedItem;
   }
+
+  /**
+   * Exchanges the positions of two items in one MOVE_ITEM action: each takes the other's parent and order key.
+   * Siblings just trade places; items under different parents also trade parents. An item cannot be swapped with
+   * one of its own descendants, which would make it its own ancestor, nor moved under a "done" parent. A project
+   * and a task cannot be swapped, since that would skip what promote_to_project and demote_to_task do to links.
+   */
+  public async swapItems(firstId: string, secondId: string): Promise<[FullWorkItemData, FullWorkItemData]> {
+    logger.info(`[WorkItemPositionUpdateService] Swapping work items ${firstId} and ${secondId}.`);
+    if (firstId === secondId) {
+      throw new ValidationError('A work item cannot be swapped with itself.');
+    }
+    const affectedProjectIds: string[] = [];
+    let projectListChanged = false;
+    await this.actionHistoryRepository.withTransaction(async (client: DbClient) => {
+      const first = await this.workItemRepository.findById(firstId, { isActive: true }, client);
+      if (!first) {
+        throw new NotFoundError(`Work item to swap (ID: ${firstId}) not found or is inactive.`);
+      }
+      const second = await this.workItemRepository.findById(secondId, { isActive: true }, client);
+      if (!second) {
+        throw new NotFoundError(`Work item to swap (ID: ${secondId}) not found or is inactive.`);
+      }
+
+      const sameParent = first.parent_work_item_id === second.parent_work_item_id;
+      if (!sameParent) {
+        for (const [ancestor, descendant] of [
+          [first, second],
+          [second, first],
+        ]) {
+          const descendantIds = await this.workItemRepository.findDescendantWorkItemIds(ancestor.work_item_id, client);
+          if (descendantIds.includes(descendant.work_item_id)) {
+            throw new ValidationError(
+              `Work item "${descendant.name}" is below "${ancestor.name}", so the two cannot be swapped.`
+            );
+          }
+        }
+        if ((first.parent_work_item_id === null) !== (second.parent_work_item_id === null)) {
+          const [project, task] = first.parent_work_item_id === null ? [first, second] : [second, first];
+          throw new ValidationError(
+            `"${project.name}" is a project and "${task.name}" is a task, so the two cannot be swapped. ` +
+              `Use promote_to_project and demote_to_task to change which items are projects.`
+          );
+        }
+        for (const newParentId of [first.parent_work_item_id, second.parent_work_item_id]) {
+          const newParent = await this.workItemRepository.findById(newParentId!, { isActive: true }, client);
+          if (newParent?.status === 'done') {
+            throw new ValidationError(
+              `Parent work item "${newParent.name}" (ID: ${newParentId}) is "done", cannot add children.`
+            );
+          }
+        }
+      }
+      const projectsBefore = await this.readingService.getProjectIdsOf([firstId, secondId], client);
+
+      const firstAfter = await this.workItemRepository.updateFields(client, firstId, {
+        parent_work_item_id: second.parent_work_item_id,
+        order_key: second.order_key,
+      });
+      const secondAfter = await this.workItemRepository.updateFields(client, secondId, {
+        parent_work_item_id: first.parent_work_item_id,
+        order_key: first.order_key,
+      });
+      if (!firstAfter || !secondAfter) {
+        throw new NotFoundError(
+          `Failed to swap work items ${firstId} and ${secondId}, one might have been modified or deactivated concurrently.`
+        );
+      }
+
+      const undoStepsData: CreateUndoStepInput[] = [first, second].map((before, index) => {
+        const after = index === 0 ? firstAfter : secondAfter;
+        return {
+          step_order: index + 1,
+          step_type: 'UPDATE',
+          table_name: 'work_items',
+          record_id: before.work_item_id,
+          old_data: {
+            parent_work_item_id: before.parent_work_item_id,
+            order_key: before.order_key,
+            updated_at: before.updated_at,
+          },
+          new_data: {
+            parent_work_item_id: after.parent_work_item_id,
+            order_key: after.order_key,
+            updated_at: after.updated_at,
+          },
+        };
+      });
+      const actionData: CreateActionHistoryInput = {
+        action_type: 'MOVE_ITEM',
+        work_item_id: firstId,
+        description: `Swapped the positions of work items "${first.name}" and "${second.name}".`,
+      };
+      const createdAction = await this.actionHistoryRepository.createActionInClient(actionData, client);
+      for (const step of undoStepsData) {
+        await this.actionHistoryRepository.createUndoStepInClient(
+          { ...step, action_id: createdAction.action_id },
+          client
+        );
+      }
+      await this.historyService.invalidateRedoStack(client, createdAction.action_id);
+
+      affectedProjectIds.push(
+        ...projectsBefore,
+        ...(await this.readingService.getProjectIdsOf([firstId, secondId], client))
+      );
+      projectListChanged = first.parent_work_item_id === null || second.parent_work_item_id === null;
+      logger.info(`[WorkItemPositionUpdateService] Recorded history for swapping ${firstId} and ${secondId}.`);
+    });
+    this.sseService.notifyProjectsChanged(affectedProjectIds, 'items_swapped', projectListChanged);
+
+    const swapped: FullWorkItemData[] = [];
+    for (const id of [firstId, secondId]) {
+      const fullItem = await this.readingService.getWorkItemById(id, { isActive: true });
+      if (!fullItem) {
+        logger.error(`[WorkItemPositionUpdateService] Failed to retrieve full details for item ${id} after swap.`);
+        throw new Error(`Failed to retrieve full details for item ${id}.`);
+      }
+      swapped.push(fullItem);
+    }
+    return [swapped[0], swapped[1]];
+  }
+
+  /**
+   * Moves a task, with everything below it, under another parent at `position` (the end of the list by default),
+   * as one MOVE_ITEM action. Projects are not moved this way, and neither is an item into its own subtree.
+   */
+  public async moveItemToParent(
+    workItemId: string,
+    newParentId: string,
+    position: MovePosition = {}
+  ): Promise<FullWorkItemData> {
+    logger.info(`[WorkItemPositionUpdateService] Moving work item ${workItemId} under ${newParentId}.`);
+    let itemBeforeUpdate: WorkItemData | undefined;
+    let itemAfterUpdate: WorkItemData | null = null;
+    const affectedProjectIds: string[] = [];
+    let moved = false;
+    await this.actionHistoryRepository.withTransaction(async (client: DbClient) => {
+      itemBeforeUpdate = await this.workItemRepository.findById(workItemId, { isActive: true }, client);
+      if (!itemBeforeUpdate) {
+        const inactiveItem = await this.workItemRepository.findById(workItemId, { isActive: false }, client);
+        if (inactiveItem) {
+          throw new ValidationError(`Work item with ID ${workItemId} is inactive and cannot be moved.`);
+        } else {
+          throw new NotFoundError(`Work item with ID ${workItemId} not found.`);
+        }
+      }
+      if (itemBeforeUpdate.parent_work_item_id === null) {
+        throw new ValidationError(
+          `Work item "${itemBeforeUpdate.name}" is a project; only tasks can be moved to another parent.`
+        );
+      }
+      if (newParentId === workItemId) {
+        throw new ValidationError(`Work item "${itemBeforeUpdate.name}" cannot be moved under itself.`);
+      }
+      const newParent = await this.workItemRepository.findById(newParentId, { isActive: true }, client);
+      if (!newParent) {
+        throw new NotFoundError(`New parent work item (ID: ${newParentId}) not found or is inactive.`);
+      }
+      // Reordering under a finished parent is still allowed; only adding to it is not.
+      if (newParent.status === 'done' && newParentId !== itemBeforeUpdate.parent_work_item_id) {
+        throw new ValidationError(
+          `Parent work item "${newParent.name}" (ID: ${newParentId}) is "done", cannot add children.`
+        );
+      }
+      const descendantIds = await this.workItemRepository.findDescendantWorkItemIds(workItemId, client);
+      if (descendantIds.includes(newParentId)) {
+        throw new ValidationError(
+          `Work item "${newParent.name}" is below "${itemBeforeUpdate.name}", so "${itemBeforeUpdate.name}" cannot be moved under it.`
+        );
+      }
+
+      const { keyBefore, keyAfter } = await this.orderKeyService.neighbourKeysAt(
+        client,
+        newParentId,
+        position,
+        workItemId
+      );
+      const currentKey = itemBeforeUpdate.order_key;
+      if (
+        itemBeforeUpdate.parent_work_item_id === newParentId &&
+        currentKey !== null &&
+        (keyBefore === null || WorkItemUtilsService.compareOrderKeys(keyBefore, currentKey) < 0) &&
+        (keyAfter === null || WorkItemUtilsService.compareOrderKeys(currentKey, keyAfter) < 0)
+      ) {
+        logger.info(`[WorkItemPositionUpdateService] Item ${workItemId} is already in place. No update needed.`);
+        itemAfterUpdate = itemBeforeUpdate;
+        return;
+      }
+      const projectsBefore = await this.readingService.getProjectIdsOf([workItemId], client);
+
+      const placement = await this.orderKeyService.orderKeyBetween(
+        client,
+        newParentId,
+        keyBefore,
+        keyAfter,
+        workItemId
+      );
+      itemAfterUpdate = await this.workItemRepository.updateFields(client, workItemId, {
+        parent_work_item_id: newParentId,
+        order_key: placement.orderKey,
+      });
+      if (itemAfterUpdate === null) {
+        logger.error(
+          `[WorkItemPositionUpdateService] Failed to move ${workItemId} under ${newParentId}. Before state:`,
+          itemBeforeUpdate
+        );
+        throw new NotFoundError(
+          `Failed to move work item ${workItemId}, it might have been modified or deactivated concurrently.`
+        );
+      }
+      const undoStepsData: CreateUndoStepInput[] = [
+        {
+          step_order: 1,
+          step_type: 'UPDATE',
+          table_name: 'work_items',
+          record_id: workItemId,
+          old_data: {
+            parent_work_item_id: itemBeforeUpdate.parent_work_item_id,
+            order_key: itemBeforeUpdate.order_key,
+            updated_at: itemBeforeUpdate.updated_at,
+          },
+          new_data: {
+            parent_work_item_id: itemAfterUpdate.parent_work_item_id,
+            order_key: itemAfterUpdate.order_key,
+            updated_at: itemAfterUpdate.updated_at,
+          },
+        },
+        ...placement.undoSteps.map((step) => ({ ...step, step_order: step.step_order + 1 })),
+      ];
+      const actionData: CreateActionHistoryInput = {
+        action_type: 'MOVE_ITEM',
+        work_item_id: workItemId,
+        description: `Moved work item "${itemAfterUpdate.name}" under "${newParent.name}".`,
+      };
+      const createdAction = await this.actionHistoryRepository.createActionInClient(actionData, client);
+      for (const step of undoStepsData) {
+        await this.actionHistoryRepository.createUndoStepInClient(
+          { ...step, action_id: createdAction.action_id },
+          client
+        );
+      }
+      await this.historyService.invalidateRedoStack(client, createdAction.action_id);
+
+      affectedProjectIds.push(...projectsBefore, ...(await this.readingService.getProjectIdsOf([workItemId], client)));
+      moved = true;
+      logger.info(`[WorkItemPositionUpdateService] Recorded history for moving ${workItemId} under ${newParentId}.`);
+    });
+    if (moved) {
+      this.sseService.notifyProjectsChanged(affectedProjectIds, 'item_moved_to_parent', false);
+    }
+
+    const fullUpdatedItem = await this.readingService.getWorkItemById(workItemId, { isActive: true });
+    if (!fullUpdatedItem) {
+      logger.error(
+        `[WorkItemPositionUpdateService] Failed to retrieve full details for item ${workItemId} after moveItemToParent.`
+      );
+      throw new Error(`Failed to retrieve full details for item ${workItemId} after moveItemToParent.`);
+    }
+    return fullUpdatedItem;
+  }
 }
@@ -1,5 +1,5 @@
 // File: src/services/WorkItemPromoteService.ts
-import { PoolClient } from 'pg';
+import type { DbClient } from '../db/DatabaseTypes.js';
 import {
   WorkItemRepository,
   ActionHistoryRepository,
@@ -10,14 +10,15 @@ import {
 } from '../repositories/index.js';
 import { logger } from '../utils/logger.js';
 import { NotFoundError, ValidationError } from '../utils/errors.js';
-import { type FullWorkItemData } from './WorkItemServiceTypes.js';
-import { WorkItemUtilsService } from './WorkItemUtilsService.js';
+import { type FullWorkItemData, type MovePosition } from './WorkItemServiceTypes.js';
+import { WorkItemOrderKeyService } from './WorkItemOrderKeyService.js';
 import { WorkItemReadingService } from './WorkItemReadingService.js';
 import { WorkItemHistoryService } from './WorkItemHistoryService.js';
 import { WorkItemDependencyUpdateService } from './WorkItemDependencyUpdateService.js';
+import sseNotificationService, { SseNotificationService } from './SseNotificationService.js';
 
 /**
- * Service responsible for promoting a task to a project.
+ * Service responsible for promoting a task to a project, and demoting a project back to a task.
  */
 export class WorkItemPromoteService {
   private workItemRepository: WorkItemRepository;
@@ -26,14 +27,26 @@ export class WorkItemPromoteService {
   private readingService: WorkItemReadingService;
   private historyService: WorkItemHistoryService;
   private dependencyUpdateService: WorkItemDependencyUpdateService;
+  private orderKeyService: WorkItemOrderKeyService;
+  private sseService: SseNotificationService;
 
-  constructor(workItemRepository: WorkItemRepository, actionHistoryRepository: ActionHistoryRepository) {
+  constructor(
+    workItemRepository: WorkItemRepository,
+    actionHistoryRepository: ActionHistoryRepository,
+    sseService: SseNotificationService = sseNotificationService
+  ) {
     this.workItemRepository = workItemRepository;
     this.actionHistoryRepository = actionHistoryRepository;
     // Removed instantiation of WorkItemUtilsService
     this.readingService = new WorkItemReadingService(workItemRepository);
     this.historyService = new WorkItemHistoryService(workItemRepository, actionHistoryRepository);
-    this.dependencyUpdateService = new WorkItemDependencyUpdateService(workItemRepository, actionHistoryRepository);
+    this.dependencyUpdateService = new WorkItemDependencyUpdateService(
+      workItemRepository,
+      actionHistoryRepository,
+      sseService
+    );
+    this.orderKeyService = new WorkItemOrderKeyService(workItemRepository);
+    this.sseService = sseService;
   }
 
   public async promoteToProject(workItemId: string): Promise<FullWorkItemData> {
@@ -42,10 +55,11 @@ export class WorkItemPromoteService {
     let itemBeforePromotion: WorkItemData | undefined;
     let itemAfterPromotion: WorkItemData | null = null;
     let originalParentId: string | null = null;
+    let originalProjectId: string | null = null;
     const undoStepsData: CreateUndoStepInput[] = [];
     let stepOrder = 1;
 
-    await this.actionHistoryRepository.withTransaction(async (client: PoolClient) => {
+    await this.actionHistoryRepository.withTransaction(async (client: DbClient) => {
       itemBeforePromotion = await this.workItemRepository.findById(workItemId, {
         isActive: true,
       });
@@ -66,18 +80,17 @@ export class WorkItemPromoteService {
       originalParentId = itemBeforePromotion.parent_work_item_id;
 
       // 1. Update parent_work_item_id to null and recalculate order_key
-      // MODIFIED: Call calculateOrderKey statically
-      const newOrderKey = WorkItemUtilsService.calculateOrderKey(
+      const placement = await this.orderKeyService.orderKeyBetween(
+        client,
+        null,
         await this.workItemRepository.findSiblingEdgeOrderKey(null, 'last', client),
-        null
+        null,
+        workItemId
       );
-      if (newOrderKey === null) {
-        throw new Error(`Failed to calculate a new order key for promoted project ${workItemId}.`);
-      }
 
       const updatePayload: Partial<WorkItemData> = {
         parent_work_item_id: null,
-        order_key: newOrderKey,
+        order_key: placement.orderKey,
       };
 
       itemAfterPromotion = await this.workItemRepository.updateFields(client, workItemId, updatePayload);
@@ -127,19 +140,24 @@ export class WorkItemPromoteService {
           );
           const linkExistedBefore = depsBeforeLinkAdd.find((d) => d.depends_on_work_item_id === workItemId);
 
-          // This call to addDependencies will create its own history entry.
+          // This call to addDependencies will create its own history entry, within this transaction.
           // For the "PROMOTE_TO_PROJECT" action's undo, we record the before/after state of this specific link.
-          await this.dependencyUpdateService.addDependencies(originalParentId, [
-            {
-              depends_on_work_item_id: workItemId,
-              dependency_type: 'linked',
-            },
-          ]);
+          await this.dependencyUpdateService.addDependencies(
+            originalParentId,
+            [
+              {
+                depends_on_work_item_id: workItemId,
+                dependency_type: 'linked',
+              },
+            ],
+            client
+          );
 
           const newLinkData: WorkItemDependencyData = {
             work_item_id: originalParentId,
             depends_on_work_item_id: workItemId,
             dependency_type: 'linked',
+            lag_days: 0,
             is_active: true,
           };
 
@@ -165,12 +183,17 @@ export class WorkItemPromoteService {
         }
       }
 
+      for (const step of placement.undoSteps) {
+        undoStepsData.push({ ...step, step_order: stepOrder++ });
+      }
+
       const actionDescription = `Promoted task "${itemAfterPromotion.name}" to a project.`;
       const actionData: CreateActionHistoryInput = {
         action_type: 'PROMOTE_TO_PROJECT',
         work_item_id: workItemId,
         description: actionDescription,
       };
+      originalProjectId = (await this.readingService.getProjectIdsOf([originalParentId], client))[0] ?? null;
       const createdAction = await this.actionHistoryRepository.createActionInClient(actionData, client);
       for (const step of undoStepsData) {
         await this.actionHistoryRepository.createUndoStepInClient(
@@ -182,6 +205,9 @@ export class WorkItemPromoteService {
       logger.info(`[WorkItemPromoteService] Recorded history for promoting work item ${workItemId}.`);
     });
 
+    const affectedProjectIds = originalProjectId ? [originalProjectId, workItemId] : [workItemId];
+    this.sseService.notifyProjectsChanged(affectedProjectIds, 'item_promoted', true);
+
     const finalItemState = itemAfterPromotion ?? itemBeforePromotion;
     if (!finalItemState) {
       logger.error(
@@ -199,4 +225,153 @@ export class WorkItemPromoteService {
     }
     return fullPromotedItem;
   }
+
+  /**
+   * Moves a project, with everything below it, under `newParentId` at `position` (the end of the list by default)
+   * as one DEMOTE_TO_TASK action. Active 'linked' dependencies pointing at the project, such as the one promoting it
+   * created from its old parent, are removed in the same action; the project's own 'linked' dependencies are kept.
+   */
+  public async demoteToTask(
+    workItemId: string,
+    newParentId: string,
+    position: MovePosition = {}
+  ): Promise<FullWorkItemData> {
+    logger.info(`[WorkItemPromoteService] Attempting to demote project ${workItemId} under ${newParentId}.`);
+
+    let itemBeforeDemotion: WorkItemData | undefined;
+    let newProjectId: string | null = null;
+    let linkedProjectIds: string[] = [];
+    const undoStepsData: CreateUndoStepInput[] = [];
+    let stepOrder = 1;
+
+    await this.actionHistoryRepository.withTransaction(async (client: DbClient) => {
+      itemBeforeDemotion = await this.workItemRepository.findById(workItemId, { isActive: true }, client);
+      if (!itemBeforeDemotion) {
+        const inactiveItem = await this.workItemRepository.findById(workItemId, { isActive: false }, client);
+        if (inactiveItem) {
+          throw new ValidationError(`Work item with ID ${workItemId} is inactive and cannot be demoted.`);
+        } else {
+          throw new NotFoundError(`Work item with ID ${workItemId} not found.`);
+        }
+      }
+      if (itemBeforeDemotion.parent_work_item_id !== null) {
+        throw new ValidationError(`Work item ${workItemId} is not a top-level project.`);
+      }
+      if (newParentId === workItemId) {
+        throw new ValidationError(`Project "${itemBeforeDemotion.name}" cannot be demoted under itself.`);
+      }
+      const newParent = await this.workItemRepository.findById(newParentId, { isActive: true }, client);
+      if (!newParent) {
+        throw new NotFoundError(`New parent work item (ID: ${newParentId}) not found or is inactive.`);
+      }
+      if (newParent.status === 'done') {
+        throw new ValidationError(
+          `Parent work item "${newParent.name}" (ID: ${newParentId}) is "done", cannot add children.`
+        );
+      }
+      const descendantIds = await this.workItemRepository.findDescendantWorkItemIds(workItemId, client);
+      if (descendantIds.includes(newParentId)) {
+        throw new ValidationError(
+          `Work item "${newParent.name}" is below "${itemBeforeDemotion.name}", so "${itemBeforeDemotion.name}" cannot be demoted under it.`
+        );
+      }
+
+      const { keyBefore, keyAfter } = await this.orderKeyService.neighbourKeysAt(
+        client,
+        newParentId,
+        position,
+        workItemId
+      );
+      const placement = await this.orderKeyService.orderKeyBetween(
+        client,
+        newParentId,
+        keyBefore,
+        keyAfter,
+        workItemId
+      );
+      const itemAfterDemotion = await this.workItemRepository.updateFields(client, workItemId, {
+        parent_work_item_id: newParentId,
+        order_key: placement.orderKey,
+      });
+      if (!itemAfterDemotion) {
+        throw new NotFoundError(
+          `Failed to update work item ${workItemId} during demotion, it might have been modified or deactivated concurrently.`
+        );
+      }
+      undoStepsData.push({
+        step_order: stepOrder++,
+        step_type: 'UPDATE',
+        table_name: 'work_items',
+        record_id: workItemId,
+        old_data: {
+          parent_work_item_id: itemBeforeDemotion.parent_work_item_id,
+          order_key: itemBeforeDemotion.order_key,
+          updated_at: itemBeforeDemotion.updated_at,
+        },
+        new_data: {
+          parent_work_item_id: itemAfterDemotion.parent_work_item_id,
+          order_key: itemAfterDemotion.order_key,
+          updated_at: itemAfterDemotion.updated_at,
+        },
+      });
+
+      const staleLinks = (await this.workItemRepository.findDependents(workItemId, { isActive: true }, client)).filter(
+        (dep) => dep.dependency_type === 'linked'
+      );
+      if (staleLinks.length > 0) {
+        await this.workItemRepository.softDeleteDependenciesByCompositeKeys(
+          staleLinks.map((dep) => ({
+            work_item_id: dep.work_item_id,
+            depends_on_work_item_id: dep.depends_on_work_item_id,
+          })),
+          client
+        );
+        for (const link of staleLinks) {
+          undoStepsData.push({
+            step_order: stepOrder++,
+            step_type: 'UPDATE',
+            table_name: 'work_item_dependencies',
+            record_id: `${link.work_item_id}:${link.depends_on_work_item_id}`,
+            old_data: { ...link },
+            new_data: { is_active: false },
+          });
+        }
+        logger.info(`[WorkItemPromoteService] Removed ${staleLinks.length} 'linked' dependency(ies) on ${workItemId}.`);
+        linkedProjectIds = await this.readingService.getProjectIdsOf(
+          staleLinks.map((link) => link.work_item_id),
+          client
+        );
+      }
+
+      for (const step of placement.undoSteps) {
+        undoStepsData.push({ ...step, step_order: stepOrder++ });
+      }
+
+      const actionData: CreateActionHistoryInput = {
+        action_type: 'DEMOTE_TO_TASK',
+        work_item_id: workItemId,
+        description: `Demoted project "${itemAfterDemotion.name}" to a task under "${newParent.name}".`,
+      };
+      newProjectId = (await this.readingService.getProjectIdsOf([workItemId], client))[0] ?? null;
+      const createdAction = await this.actionHistoryRepository.createActionInClient(actionData, client);
+      for (const step of undoStepsData) {
+        await this.actionHistoryRepository.createUndoStepInClient(
+          { ...step, action_id: createdAction.action_id },
+          client
+        );
+      }
+      await this.historyService.invalidateRedoStack(client, createdAction.action_id);
+      logger.info(`[WorkItemPromoteService] Recorded history for demoting project ${workItemId}.`);
+    });
+
+    const affectedProjectIds = newProjectId ? [workItemId, newProjectId] : [workItemId];
+    this.sseService.notifyProjectsChanged([...affectedProjectIds, ...linkedProjectIds], 'item_demoted', true);
+
+    const fullDemotedItem = await this.readingService.getWorkItemById(workItemId, { isActive: true });
+    if (!fullDemotedItem) {
+      logger.error(`[WorkItemPromoteService] Failed to retrieve full details for item ${workItemId} after demotion.`);
+      throw new Error(`Failed to retrieve full details for item ${workItemId} after demotion.`);
+    }
+    return fullDemotedItem;
+  }
 }
@@ -1,8 +1,10 @@
 // File: src/services/WorkItemReadingService.ts
+import type { DbClient } from '../db/DatabaseTypes.js';
 import { WorkItemRepository, WorkItemData } from '../repositories/index.js';
 import { logger } from '../utils/logger.js';
 import { ListWorkItemsFilter, FullWorkItemData, WorkItemTreeNode, GetFullTreeOptions } from './WorkItemServiceTypes.js';
 import { NotFoundError } from '../utils/errors.js';
+import { WorkItemUtilsService } from './WorkItemUtilsService.js';
 
 /**
  * Service responsible for reading work items
@@ -45,6 +47,25 @@ export class WorkItemReadingService {
     return fullData;
   }
 
+  /**
+   * Returns the ID of the top-level project containing the item, or null if the item is itself a project.
+   */
+  public async getProjectIdOf(item: WorkItemData, client?: DbClient): Promise<string | null> {
+    if (!item.parent_work_item_id) {
+      return null;
+    }
+    const roots = await this.workItemRepository.findRootWorkItemIds([item.parent_work_item_id], client);
+    return roots.get(item.parent_work_item_id) ?? null;
+  }
+
+  /**
+   * Returns the IDs of the top-level projects containing (or being) the given items.
+   */
+  public async getProjectIdsOf(workItemIds: string[], client?: DbClient): Promise<string[]> {
+    const roots = await this.workItemRepository.findRootWorkItemIds(workItemIds, client);
+    return Array.from(new Set(roots.values()));
+  }
+
   public async listWorkItems(filter: ListWorkItemsFilter): Promise<WorkItemData[]> {
     logger.debug(`[WorkItemReadingService] Listing work items with filter:`, filter);
     try {
@@ -163,11 +184,9 @@ export class WorkItemReadingService {
       }
 
       childrenNodes.sort((a, b) => {
-        if (a.order_key && b.order_key) {
-          return String(a.order_key).localeCompare(String(b.order_key));
+        if (a.order_key || b.order_key) {
+          return WorkItemUtilsService.compareOrderKeys(a.order_key, b.order_key);
         }
-        if (a.order_key) return -1;
-        if (b.order_key) return 1;
         return a.name.localeCompare(b.name);
       });
 
@@ -0,0 +1,222 @@
+// src/services/WorkItemRefService.ts
+import { validate as uuidValidate } from 'uuid';
+import { type WorkItemRepository, type WorkItemData } from '../repositories/index.js';
+import { logger } from '../utils/logger.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { type WithOutlineRef, type WorkItemTreeNode } from './WorkItemServiceTypes.js';
+
+const OUTLINE_REF_PATTERN = /^(\d{1,7}(?:\.\d{1,7})*)(?:@([0-9a-fA-F]{8}[0-9a-fA-F-]{0,28}))?$/;
+const SHORT_ID_PATTERN = /^[0-9a-fA-F]{8}[0-9a-fA-F-]{0,27}$/;
+const SHORT_ID_LENGTH = 8;
+
+export interface ResolveRefOptions {
+  /** Rejects outline refs without a short ID, which cannot be checked against the item they were read from. */
+  requireVerifiedOutlineRef?: boolean;
+}
+
+/**
+ * Translates the short references agents use into UUIDs and back. An outline ref is the 1-based
+ * position of each ancestor among its active siblings, in sibling order, from the top-level project
+ * down, followed by the item's short ID ('3.2.1@1a2b3c4d'). The positions change when items are
+ * added, moved or deleted; the short ID lets a ref read before such a change be detected instead of
+ * silently pointing at whatever item now has that position. A short ID is a prefix of the UUID, like
+ * an abbreviated git hash, and never changes.
+ */
+export class WorkItemRefService {
+  private workItemRepository: WorkItemRepository;
+
+  constructor(workItemRepository: WorkItemRepository) {
+    this.workItemRepository = workItemRepository;
+  }
+
+  /**
+   * Returns the UUID a reference points to. UUIDs, and strings that are no reference at all, are returned
+   * as they are so the operation reports them as before. Outline refs must point at an active item whose
+   * ID starts with the ref's short ID, if it has one, and short IDs must match exactly one active item.
+   */
+  public async resolve(ref: string, options: ResolveRefOptions = {}): Promise<string> {
+    if (uuidValidate(ref)) {
+      return ref;
+    }
+    const outlineRef = OUTLINE_REF_PATTERN.exec(ref);
+    if (outlineRef) {
+      const [, path, shortId] = outlineRef;
+      if (!shortId && options.requireVerifiedOutlineRef) {
+        throw new ValidationError(
+          `Outline ref ${ref} has no short ID, so it cannot be checked against the item it was read from. ` +
+            `Pass the outline_ref as returned (e.g. ${ref}@1a2b3c4d), a short ID or the work_item_id.`
+        );
+      }
+      return this.resolveOutlineRef(ref, path, shortId);
+    }
+    if (SHORT_ID_PATTERN.test(ref)) {
+      return this.resolveShortId(ref);
+    }
+    return ref;
+  }
+
+  public async resolveAll(refs: string[], options: ResolveRefOptions = {}): Promise<string[]> {
+    const ids: string[] = [];
+    for (const ref of refs) {
+      ids.push(await this.resolve(ref, options));
+    }
+    return ids;
+  }
+
+  public async withOutlineRef<T extends WorkItemData>(item: T): Promise<WithOutlineRef<T>> {
+    const [withRef] = await this.withOutlineRefs([item]);
+    return withRef;
+  }
+
+  public async withOutlineRefs<T extends WorkItemData>(items: T[]): Promise<WithOutlineRef<T>[]> {
+    const refs = await this.computeOutlineRefs(items);
+    return items.map((item) => ({ ...item, outline_ref: refs.get(item.work_item_id) ?? null }));
+  }
+
+  /** Adds outline refs to the direct children listed with an item, as get_details returns them. */
+  public async withChildOutlineRefs<T extends WorkItemData & { children: WorkItemData[] }>(
+    item: T
+  ): Promise<WithOutlineRef<T>> {
+    const refs = await this.computeOutlineRefs([item, ...item.children]);
+    return {
+      ...item,
+      outline_ref: refs.get(item.work_item_id) ?? null,
+      children: item.children.map((child) => ({ ...child, outline_ref: refs.get(child.work_item_id) ?? null })),
+    };
+  }
+
+  /** Adds outline refs to every node of a tree, including linked items shown from other projects. */
+  public async withTreeOutlineRefs(tree: WorkItemTreeNode): Promise<WithOutlineRef<WorkItemTreeNode>> {
+    const nodes: WorkItemTreeNode[] = [];
+    const collect = (node: WorkItemTreeNode): void => {
+      nodes.push(node);
+      node.children?.forEach(collect);
+    };
+    collect(tree);
+    const refs = await this.computeOutlineRefs(nodes);
+    const decorate = (node: WorkItemTreeNode): WithOutlineRef<WorkItemTreeNode> => ({
+      ...node,
+      outline_ref: refs.get(node.work_item_id) ?? null,
+      ...(node.children ? { children: node.children.map(decorate) } : {}),
+    });
+    return decorate(tree);
+  }
+
+  private async resolveOutlineRef(ref: string, path: string, shortId: string | undefined): Promise<string> {
+    const positions = path.split('.').map(Number);
+    let item: WorkItemData | undefined;
+    for (let level = 0; level < positions.length; level++) {
+      const siblings = item
+        ? await this.workItemRepository.findChildren(item.work_item_id, { isActive: true })
+        : await this.workItemRepository.findRoots({ isActive: true });
+      const next = siblings[positions[level] - 1];
+      if (!next) {
+        const scope = item
+          ? `${positions.slice(0, level).join('.')} ("${item.name}") has ${siblings.length} active child item(s)`
+          : `there are ${siblings.length} active project(s)`;
+        throw new NotFoundError(
+          `Outline ref ${ref} does not exist: ${scope}. Outline refs follow the current order, so read the ` +
+            `tree again after items are added, moved or deleted, or use the work_item_id.`
+        );
+      }
+      item = next;
+    }
+    if (shortId && !item!.work_item_id.startsWith(shortId.toLowerCase())) {
+      throw new ValidationError(
+        `Outline ref ${ref} is out of date: ${path} is now "${item!.name}" ` +
+          `(${path}@${item!.work_item_id.slice(0, SHORT_ID_LENGTH)}). Outline refs follow the current order, ` +
+          `so read the tree again after items are added, moved or deleted, or use the work_item_id.`
+      );
+    }
+    logger.debug(`[WorkItemRefService] Outline ref ${ref} resolved to ${item!.work_item_id}.`);
+    return item!.work_item_id;
+  }
+
+  private async resolveShortId(ref: string): Promise<string> {
+    const matches = await this.workItemRepository.findByIdPrefix(ref);
+    const active = matches.filter((item) => item.is_active);
+    if (active.length === 1) {
+      return active[0].work_item_id;
+    }
+    if (active.length > 1) {
+      const candidates = await this.withOutlineRefs(active);
+      throw new ValidationError(
+        `Short ID ${ref} is ambiguous: it matches ${candidates
+          .map((item) => `"${item.name}" (${item.outline_ref})`)
+          .join(', ')}. Use more characters of the ID, the full work_item_id or the outline ref.`,
+        {
+          candidates: candidates.map((item) => ({
+            work_item_id: item.work_item_id,
+            name: item.name,
+            outline_ref: item.outline_ref,
+          })),
+        }
+      );
+    }
+    if (matches.length > 0) {
+      throw new NotFoundError(`Short ID ${ref} refers to "${matches[0].name}", which has been deleted.`);
+    }
+    throw new NotFoundError(`No work item has an ID starting with ${ref}.`);
+  }
+
+  /**
+   * Outline refs of the given items, walking up their parents. Siblings are read once per parent, so
+   * decorating a whole tree or list costs one query per distinct parent.
+   */
+  private async computeOutlineRefs(items: WorkItemData[]): Promise<Map<string, string | null>> {
+    const paths = await this.computeOutlinePaths(items);
+    const refs = new Map<string, string | null>();
+    for (const [id, path] of paths) {
+      refs.set(id, path === null ? null : `${path}@${id.slice(0, SHORT_ID_LENGTH)}`);
+    }
+    return refs;
+  }
+
+  /** The positional part of the outline refs of the given items and their ancestors. */
+  private async computeOutlinePaths(items: WorkItemData[]): Promise<Map<string, string | null>> {
+    const known = new Map(items.map((item) => [item.work_item_id, item]));
+    const siblingIds = new Map<string | null, string[]>();
+    const refs = new Map<string, string | null>();
+
+    const positionOf = async (item: WorkItemData): Promise<number> => {
+      const parentId = item.parent_work_item_id ?? null;
+      let ids = siblingIds.get(parentId);
+      if (!ids) {
+        const siblings = parentId
+          ? await this.workItemRepository.findChildren(parentId, { isActive: true })
+          : await this.workItemRepository.findRoots({ isActive: true });
+        siblings.forEach((sibling) => known.set(sibling.work_item_id, sibling));
+        ids = siblings.map((sibling) => sibling.work_item_id);
+        siblingIds.set(parentId, ids);
+      }
+      return ids.indexOf(item.work_item_id) + 1;
+    };
+
+    const refOf = async (item: WorkItemData): Promise<string | null> => {
+      if (refs.has(item.work_item_id)) {
+        return refs.get(item.work_item_id)!;
+      }
+      let ref: string | null = null;
+      const position = item.is_active ? await positionOf(item) : 0;
+      if (position > 0 && !item.parent_work_item_id) {
+        ref = String(position);
+      } else if (position > 0) {
+        const parent =
+          known.get(item.parent_work_item_id!) ??
+          (await this.workItemRepository.findById(item.parent_work_item_id!, { isActive: true }));
+        if (parent) {
+          known.set(parent.work_item_id, parent);
+          const parentRef = await refOf(parent);
+          ref = parentRef ? `${parentRef}.${position}` : null;
+        }
+      }
+      refs.set(item.work_item_id, ref);
+      return ref;
+    };
+
+    for (const item of items) {
+      await refOf(item);
+    }
+    return refs;
+  }
+}
@@ -0,0 +1,310 @@
+// src/services/WorkItemScheduleService.ts
+import { type WorkItemRepository, type WorkItemData, type WorkItemDependencyData } from '../repositories/index.js';
+import { logger } from '../utils/logger.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { type CriticalPathResult, type DueDateConflict, type ScheduledWorkItem } from './WorkItemServiceTypes.js';
+
+/** Dependency types that constrain when the dependent item can start or finish; 'linked' does not. */
+const SCHEDULING_DEPENDENCY_TYPES = new Set([
+  'finish-to-start',
+  'start-to-start',
+  'finish-to-finish',
+  'start-to-finish',
+]);
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+// Durations are fractional days, so sums can be off by rounding; differences below this are equal.
+export const EPSILON = 1e-9;
+
+interface Link {
+  predecessorId: string;
+  successorId: string;
+  type: WorkItemDependencyData['dependency_type'];
+  lag: number;
+}
+
+interface Activity {
+  item: WorkItemData;
+  duration: number;
+  predecessors: Link[];
+  successors: Link[];
+  earliestStart: number;
+  earliestFinish: number;
+  latestStart: number;
+  latestFinish: number;
+}
+
+export const roundDays = (days: number): number => Math.round(days * 1000) / 1000;
+
+/**
+ * The earliest start a dependency of `type` with `lag` days allows its successor, which takes
+ * `successorDuration` days, given the predecessor's earliest start and finish (in days).
+ */
+export const earliestStartAllowed = (
+  link: { type: WorkItemDependencyData['dependency_type']; lag: number },
+  predecessor: { earliestStart: number; earliestFinish: number },
+  successorDuration: number
+): number => {
+  switch (link.type) {
+    case 'start-to-start':
+      return predecessor.earliestStart + link.lag;
+    case 'finish-to-finish':
+      return predecessor.earliestFinish + link.lag - successorDuration;
+    case 'start-to-finish':
+      return predecessor.earliestStart + link.lag - successorDuration;
+    default:
+      return predecessor.earliestFinish + link.lag;
+  }
+};
+
+/** The latest finish `link` allows its predecessor, given the successor's latest dates. */
+const latestFinishAllowed = (link: Link, predecessor: Activity, successor: Activity): number => {
+  switch (link.type) {
+    case 'start-to-start':
+      return successor.latestStart - link.lag + predecessor.duration;
+    case 'finish-to-finish':
+      return successor.latestFinish - link.lag;
+    case 'start-to-finish':
+      return successor.latestFinish - link.lag + predecessor.duration;
+    default:
+      return successor.latestStart - link.lag;
+  }
+};
+
+/**
+ * Schedules a project subtree with the critical path method. Only leaf tasks are scheduled; a parent item
+ * spans its leaves, so a dependency on (or of) a parent applies to every leaf below it.
+ */
+export class WorkItemScheduleService {
+  private workItemRepository: WorkItemRepository;
+
+  constructor(workItemRepository: WorkItemRepository) {
+    this.workItemRepository = workItemRepository;
+  }
+
+  /**
+   * Computes earliest/latest start and finish and slack for every active leaf below `rootId`, starting
+   * everything as early as its active dependencies and their lags allow from `startDate` (default: now),
+   * but never before it. Done items take no time and items without an estimate count as zero days.
+   * Dependencies on items outside the subtree, and 'linked' ones, are ignored.
+   */
+  public async getCriticalPath(rootId: string, options?: { startDate?: string }): Promise<CriticalPathResult> {
+    logger.info(`[WorkItemScheduleService] Computing critical path for ${rootId}.`);
+    const root = await this.workItemRepository.findById(rootId, { isActive: true });
+    if (!root) {
+      throw new NotFoundError(`Work item with ID ${rootId} not found or is inactive.`);
+    }
+    const startMs = options?.startDate ? Date.parse(options.startDate) : Date.now();
+    if (Number.isNaN(startMs)) {
+      throw new ValidationError(`Invalid start date "${options?.startDate}".`);
+    }
+
+    const { items, leavesUnder } = await this.loadSubtree(root);
+    const activities = new Map<string, Activity>();
+    for (const leafId of leavesUnder(root.work_item_id)) {
+      const item = items.get(leafId)!;
+      activities.set(leafId, {
+        item,
+        duration: item.status === 'done' ? 0 : (item.estimated_duration_days ?? 0),
+        predecessors: [],
+        successors: [],
+        earliestStart: 0,
+        earliestFinish: 0,
+        latestStart: 0,
+        latestFinish: 0,
+      });
+    }
+
+    const links = await this.workItemRepository.findDependenciesByItemList([...items.keys()], {
+      isActive: true,
+      dependsOnActive: true,
+    });
+    for (const link of links) {
+      if (!SCHEDULING_DEPENDENCY_TYPES.has(link.dependency_type) || !items.has(link.depends_on_work_item_id)) {
+        continue;
+      }
+      for (const dependentId of leavesUnder(link.work_item_id)) {
+        for (const prerequisiteId of leavesUnder(link.depends_on_work_item_id)) {
+          if (dependentId !== prerequisiteId) {
+            const edge: Link = {
+              predecessorId: prerequisiteId,
+              successorId: dependentId,
+              type: link.dependency_type,
+              lag: link.lag_days,
+            };
+            activities.get(dependentId)!.predecessors.push(edge);
+            activities.get(prerequisiteId)!.successors.push(edge);
+          }
+        }
+      }
+    }
+
+    const order = this.topologicalOrder(activities);
+
+    let finish = 0;
+    for (const activity of order) {
+      activity.earliestStart = Math.max(
+        0,
+        ...activity.predecessors.map((link) =>
+          earliestStartAllowed(link, activities.get(link.predecessorId)!, activity.duration)
+        )
+      );
+      activity.earliestFinish = activity.earliestStart + activity.duration;
+      finish = Math.max(finish, activity.earliestFinish);
+    }
+    for (const activity of [...order].reverse()) {
+      activity.latestFinish = Math.min(
+        finish,
+        ...activity.successors.map((link) => latestFinishAllowed(link, activity, activities.get(link.successorId)!))
+      );
+      activity.latestStart = activity.latestFinish - activity.duration;
+    }
+
+    const isCritical = (activity: Activity) => activity.latestStart - activity.earliestStart < EPSILON;
+    const toDate = (days: number) => new Date(startMs + days * DAY_MS).toISOString();
+
+    const scheduled: ScheduledWorkItem[] = [...activities.values()].map((activity) => ({
+      work_item_id: activity.item.work_item_id,
+      name: activity.item.name,
+      status: activity.item.status,
+      estimated_duration_days: activity.item.estimated_duration_days,
+      duration_days: activity.duration,
+      earliest_start: toDate(activity.earliestStart),
+      earliest_finish: toDate(activity.earliestFinish),
+      latest_start: toDate(activity.latestStart),
+      latest_finish: toDate(activity.latestFinish),
+      slack_days: roundDays(activity.latestStart - activity.earliestStart),
+      is_critical: isCritical(activity),
+      due_date: activity.item.due_date,
+    }));
+
+    // Walk back from the first activity that finishes last, through critical predecessors whose link is
+    // what sets its earliest start.
+    const criticalPath: { work_item_id: string; name: string }[] = [];
+    let current = [...activities.values()].find((a) => isCritical(a) && finish - a.earliestFinish < EPSILON);
+    while (current) {
+      criticalPath.unshift({ work_item_id: current.item.work_item_id, name: current.item.name });
+      const successor: Activity = current;
+      current = successor.predecessors
+        .map((link) => ({ link, predecessor: activities.get(link.predecessorId)! }))
+        .find(
+          ({ link, predecessor }) =>
+            isCritical(predecessor) &&
+            Math.abs(earliestStartAllowed(link, predecessor, successor.duration) - successor.earliestStart) < EPSILON
+        )?.predecessor;
+    }
+
+    // Any item, including parents and the root, whose earliest finish is after its due date cannot make it.
+    const dueDateConflicts: DueDateConflict[] = [];
+    for (const item of items.values()) {
+      if (!item.due_date || item.status === 'done') {
+        continue;
+      }
+      const earliestFinish = Math.max(
+        ...leavesUnder(item.work_item_id).map((id) => activities.get(id)!.earliestFinish)
+      );
+      const daysLate = (startMs + earliestFinish * DAY_MS - Date.parse(item.due_date)) / DAY_MS;
+      if (daysLate > EPSILON) {
+        dueDateConflicts.push({
+          work_item_id: item.work_item_id,
+          name: item.name,
+          due_date: item.due_date,
+          earliest_finish: toDate(earliestFinish),
+          days_late: roundDays(daysLate),
+        });
+      }
+    }
+
+    logger.info(
+      `[WorkItemScheduleService] Scheduled ${activities.size} item(s) under ${rootId}: ${roundDays(finish)} day(s), ` +
+        `${criticalPath.length} on the critical path, ${dueDateConflicts.length} due date conflict(s).`
+    );
+    return {
+      root_work_item_id: root.work_item_id,
+      start_date: toDate(0),
+      projected_finish_date: toDate(finish),
+      duration_days: roundDays(finish),
+      critical_path: criticalPath,
+      items: scheduled,
+      due_date_conflicts: dueDateConflicts,
+      unestimated_item_ids: [...activities.values()]
+        .filter((a) => a.item.status !== 'done' && a.item.estimated_duration_days === null)
+        .map((a) => a.item.work_item_id),
+    };
+  }
+
+  /**
+   * Loads the active items below `root`, and returns them with a lookup of the leaves under any of them
+   * (an item without children is its own leaf). Leaves are listed in tree order.
+   */
+  private async loadSubtree(root: WorkItemData): Promise<{
+    items: Map<string, WorkItemData>;
+    leavesUnder: (workItemId: string) => string[];
+  }> {
+    const items = new Map<string, WorkItemData>([[root.work_item_id, root]]);
+    const childrenOf = new Map<string, string[]>();
+    let frontier = [root.work_item_id];
+    while (frontier.length > 0) {
+      const next: string[] = [];
+      for (const parentId of frontier) {
+        const children = await this.workItemRepository.findChildren(parentId, { isActive: true });
+        childrenOf.set(
+          parentId,
+          children.map((child) => child.work_item_id)
+        );
+        for (const child of children) {
+          items.set(child.work_item_id, child);
+          next.push(child.work_item_id);
+        }
+      }
+      frontier = next;
+    }
+
+    const leaves = new Map<string, string[]>();
+    const leavesUnder = (workItemId: string): string[] => {
+      let result = leaves.get(workItemId);
+      if (!result) {
+        const children = childrenOf.get(workItemId) ?? [];
+        result = children.length === 0 ? [workItemId] : children.flatMap(leavesUnder);
+        leaves.set(workItemId, result);
+      }
+      return result;
+    };
+    return { items, leavesUnder };
+  }
+
+  /**
+   * Orders activities so every one comes after its predecessors. Cycles are normally rejected when
+   * dependencies are added, but a dependency between a parent and its own descendants can still form one.
+   */
+  private topologicalOrder(activities: Map<string, Activity>): Activity[] {
+    const remaining = new Map([...activities].map(([id, activity]) => [id, activity.predecessors.length]));
+    const order: Activity[] = [];
+    let ready = [...remaining].filter(([, count]) => count === 0).map(([id]) => id);
+    while (ready.length > 0) {
+      const next: string[] = [];
+      for (const id of ready) {
+        remaining.delete(id);
+        const activity = activities.get(id)!;
+        order.push(activity);
+        for (const { successorId } of activity.successors) {
+          const count = remaining.get(successorId)! - 1;
+          remaining.set(successorId, count);
+          if (count === 0) {
+            next.push(successorId);
+          }
+        }
+      }
+      ready = next;
+    }
+
+    if (remaining.size > 0) {
+      const names = [...remaining.keys()].map((id) => `"${activities.get(id)!.item.name}" (${id})`);
+      throw new ValidationError(
+        `Cannot compute a schedule: these items are on, or wait for, a dependency cycle: ${names.join(', ')}.`,
+        { cycle_item_ids: [...remaining.keys()] }
+      );
+    }
+    return order;
+  }
+}
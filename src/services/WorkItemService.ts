@@ -8,10 +8,22 @@ import {
 import {
   type AddWorkItemInput,
   type UpdateWorkItemInput,
+  type WorkItemFieldUpdates,
   type ListWorkItemsFilter,
   type FullWorkItemData,
   type WorkItemTreeNode,
   type GetFullTreeOptions,
+  type ProjectTagUsage,
+  type CriticalPathResult,
+  type ImpactResult,
+  type DependencyGraphFormat,
+  type DependencyGraphResult,
+  type WithOutlineRef,
+  type MovePosition,
+  type DuplicateWorkItemOptions,
+  type CreateTemplateOptions,
+  type InstantiateTemplateOptions,
+  type TemplateSummary,
   WorkItemStatusEnum,
   WorkItemPriorityEnum,
 } from './WorkItemServiceTypes.js';
@@ -26,9 +38,21 @@ import { WorkItemPositionUpdateService } from './WorkItemPositionUpdateService.j
 import { WorkItemDeleteService } from './WorkItemDeleteService.js';
 import { WorkItemHistoryService } from './WorkItemHistoryService.js';
 import { WorkItemPromoteService } from './WorkItemPromoteService.js';
+import { WorkItemImportService } from './WorkItemImportService.js';
+import { WorkItemDuplicateService } from './WorkItemDuplicateService.js';
+import { WorkItemTemplateService } from './WorkItemTemplateService.js';
+import { WorkItemExportService } from './WorkItemExportService.js';
+import { WorkItemTagService } from './WorkItemTagService.js';
+import { WorkItemScheduleService } from './WorkItemScheduleService.js';
+import { WorkItemImpactService } from './WorkItemImpactService.js';
+import { WorkItemGraphService } from './WorkItemGraphService.js';
+import { WorkItemRefService, type ResolveRefOptions } from './WorkItemRefService.js';
+import sseNotificationService, { SseNotificationService } from './SseNotificationService.js';
 import { logger } from '../utils/logger.js';
 import { z } from 'zod';
 import { type ChildTaskInputRecursive } from '../tools/add_child_tasks_params.js';
+import { type ImportWorkItemNode } from '../tools/import_project_params.js';
+import { type ProjectExportDocument } from '../tools/export_project_params.js';
 
 type WorkItemStatus = z.infer<typeof WorkItemStatusEnum>;
 type WorkItemPriority = z.infer<typeof WorkItemPriorityEnum>;
@@ -46,53 +70,111 @@ export class WorkItemService {
   private deleteService: WorkItemDeleteService;
   private historyService: WorkItemHistoryService;
   private promoteService: WorkItemPromoteService;
+  private importService: WorkItemImportService;
+  private duplicateService: WorkItemDuplicateService;
+  private templateService: WorkItemTemplateService;
+  private exportService: WorkItemExportService;
+  private tagService: WorkItemTagService;
+  private scheduleService: WorkItemScheduleService;
+  private impactService: WorkItemImpactService;
+  private graphService: WorkItemGraphService;
+  private refService: WorkItemRefService;
 
-  constructor(workItemRepository: WorkItemRepository, actionHistoryRepository: ActionHistoryRepository) {
+  constructor(
+    workItemRepository: WorkItemRepository,
+    actionHistoryRepository: ActionHistoryRepository,
+    sseService: SseNotificationService = sseNotificationService
+  ) {
     this.workItemRepository = workItemRepository;
     this.actionHistoryRepository = actionHistoryRepository;
-    this.historyService = new WorkItemHistoryService(workItemRepository, actionHistoryRepository);
-    this.addingService = new WorkItemAddingService(workItemRepository, actionHistoryRepository, this.historyService);
+    this.historyService = new WorkItemHistoryService(workItemRepository, actionHistoryRepository, sseService);
+    this.addingService = new WorkItemAddingService(
+      workItemRepository,
+      actionHistoryRepository,
+      this.historyService,
+      sseService
+    );
     this.readingService = new WorkItemReadingService(workItemRepository);
-    this.updateService = new WorkItemUpdateService(workItemRepository, actionHistoryRepository);
-    this.fieldUpdateService = new WorkItemFieldUpdateService(workItemRepository, actionHistoryRepository);
-    this.dependencyUpdateService = new WorkItemDependencyUpdateService(workItemRepository, actionHistoryRepository);
-    this.positionUpdateService = new WorkItemPositionUpdateService(workItemRepository, actionHistoryRepository);
-    this.deleteService = new WorkItemDeleteService(workItemRepository, actionHistoryRepository);
-    this.promoteService = new WorkItemPromoteService(workItemRepository, actionHistoryRepository);
+    this.updateService = new WorkItemUpdateService(workItemRepository, actionHistoryRepository, sseService);
+    this.fieldUpdateService = new WorkItemFieldUpdateService(workItemRepository, actionHistoryRepository, sseService);
+    this.dependencyUpdateService = new WorkItemDependencyUpdateService(
+      workItemRepository,
+      actionHistoryRepository,
+      sseService
+    );
+    this.positionUpdateService = new WorkItemPositionUpdateService(
+      workItemRepository,
+      actionHistoryRepository,
+      sseService
+    );
+    this.deleteService = new WorkItemDeleteService(workItemRepository, actionHistoryRepository, sseService);
+    this.promoteService = new WorkItemPromoteService(workItemRepository, actionHistoryRepository, sseService);
+    this.importService = new WorkItemImportService(workItemRepository, actionHistoryRepository, sseService);
+    this.duplicateService = new WorkItemDuplicateService(workItemRepository, actionHistoryRepository, sseService);
+    this.templateService = new WorkItemTemplateService(workItemRepository, actionHistoryRepository, sseService);
+    this.exportService = new WorkItemExportService(workItemRepository);
+    this.tagService = new WorkItemTagService(workItemRepository, actionHistoryRepository, sseService);
+    this.scheduleService = new WorkItemScheduleService(workItemRepository);
+    this.impactService = new WorkItemImpactService(workItemRepository);
+    this.graphService = new WorkItemGraphService(workItemRepository);
+    this.refService = new WorkItemRefService(workItemRepository);
   }
 
-  public async addWorkItem(input: AddWorkItemInput): Promise<WorkItemData> {
-    return this.addingService.addWorkItem(input);
+  public async addWorkItem(input: AddWorkItemInput): Promise<WithOutlineRef<WorkItemData>> {
+    const resolved = await this.resolveRefFields(input, [
+      'parent_work_item_id',
+      'insertAfter_work_item_id',
+      'insertBefore_work_item_id',
+    ]);
+    if (input.dependencies) {
+      resolved.dependencies = await this.resolveDependencies(input.dependencies);
+    }
+    return this.refService.withOutlineRef(await this.addingService.addWorkItem(resolved));
   }
 
   public async addWorkItemTree(
     initialParentId: string,
     childTasksTree: ChildTaskInputRecursive[]
-  ): Promise<WorkItemData[]> {
-    return this.addingService.addWorkItemTree(initialParentId, childTasksTree);
+  ): Promise<WithOutlineRef<WorkItemData>[]> {
+    const parentId = await this.refService.resolve(initialParentId);
+    return this.refService.withOutlineRefs(await this.addingService.addWorkItemTree(parentId, childTasksTree));
   }
 
-  public async getWorkItemById(id: string, filter?: { isActive?: boolean }): Promise<FullWorkItemData | null> {
-    return this.readingService.getWorkItemById(id, filter);
+  public async getWorkItemById(
+    id: string,
+    filter?: { isActive?: boolean }
+  ): Promise<WithOutlineRef<FullWorkItemData> | null> {
+    const item = await this.readingService.getWorkItemById(await this.refService.resolve(id), filter);
+    return item && this.refService.withChildOutlineRefs(item);
   }
 
-  public async listWorkItems(filter: ListWorkItemsFilter): Promise<WorkItemData[]> {
-    return this.readingService.listWorkItems(filter);
+  public async listWorkItems(filter: ListWorkItemsFilter): Promise<WithOutlineRef<WorkItemData>[]> {
+    const resolved = await this.resolveRefFields(filter, ['parent_work_item_id']);
+    return this.refService.withOutlineRefs(await this.readingService.listWorkItems(resolved));
   }
 
   public async updateWorkItem(
     id: string,
     updates: UpdateWorkItemInput,
-    dependenciesInput?: {
-      depends_on_work_item_id: string;
-      dependency_type?: 'finish-to-start' | 'linked';
-    }[]
-  ): Promise<FullWorkItemData> {
-    return this.updateService.updateWorkItem(id, updates, dependenciesInput);
+    dependenciesInput?: DependencyInput[]
+  ): Promise<WithOutlineRef<FullWorkItemData>> {
+    const resolvedUpdates = await this.resolveRefFields(updates, [
+      'parent_work_item_id',
+      'moveAfter_work_item_id',
+      'moveBefore_work_item_id',
+    ]);
+    const updated = await this.updateService.updateWorkItem(
+      await this.refService.resolve(id),
+      resolvedUpdates,
+      dependenciesInput && (await this.resolveDependencies(dependenciesInput))
+    );
+    return this.refService.withChildOutlineRefs(updated);
   }
 
-  public async deleteWorkItem(ids: string[]): Promise<number> {
-    return this.deleteService.deleteWorkItem(ids);
+  /** Bare outline refs are refused here, since a stale one would delete whichever item now has that position. */
+  public async deleteWorkItem(ids: string[], options?: { force?: boolean }): Promise<number> {
+    const resolvedIds = await this.refService.resolveAll(ids, { requireVerifiedOutlineRef: true });
+    return this.deleteService.deleteWorkItem(resolvedIds, options);
   }
 
   public async undoLastAction(): Promise<ActionHistoryData | null> {
@@ -107,62 +189,242 @@ export class WorkItemService {
     return this.actionHistoryRepository.listRecentActions(filter);
   }
 
-  public async addDependencies(workItemId: string, dependenciesToAdd: DependencyInput[]): Promise<FullWorkItemData> {
-    return this.dependencyUpdateService.addDependencies(workItemId, dependenciesToAdd);
+  public async listHistoryByDateRange(filter?: {
+    startDate?: string;
+    endDate?: string;
+    limit?: number;
+  }): Promise<ActionHistoryData[]> {
+    return this.actionHistoryRepository.listHistoryByDateRange(filter);
+  }
+
+  public async addDependencies(
+    workItemId: string,
+    dependenciesToAdd: DependencyInput[]
+  ): Promise<WithOutlineRef<FullWorkItemData>> {
+    const updated = await this.dependencyUpdateService.addDependencies(
+      await this.refService.resolve(workItemId),
+      await this.resolveDependencies(dependenciesToAdd)
+    );
+    return this.refService.withChildOutlineRefs(updated);
+  }
+
+  public async deleteDependencies(
+    workItemId: string,
+    dependsOnIdsToRemove: string[]
+  ): Promise<WithOutlineRef<FullWorkItemData>> {
+    const updated = await this.dependencyUpdateService.deleteDependencies(
+      await this.refService.resolve(workItemId),
+      await this.refService.resolveAll(dependsOnIdsToRemove, { requireVerifiedOutlineRef: true })
+    );
+    return this.refService.withChildOutlineRefs(updated);
+  }
+
+  public async setStatus(workItemId: string, status: WorkItemStatus): Promise<WithOutlineRef<FullWorkItemData>> {
+    const id = await this.refService.resolve(workItemId);
+    return this.refService.withChildOutlineRefs(await this.fieldUpdateService.setStatus(id, status));
+  }
+
+  public async setName(workItemId: string, name: string): Promise<WithOutlineRef<FullWorkItemData>> {
+    const id = await this.refService.resolve(workItemId);
+    return this.refService.withChildOutlineRefs(await this.fieldUpdateService.setName(id, name));
+  }
+
+  public async setDescription(
+    workItemId: string,
+    description: string | null
+  ): Promise<WithOutlineRef<FullWorkItemData>> {
+    const id = await this.refService.resolve(workItemId);
+    return this.refService.withChildOutlineRefs(await this.fieldUpdateService.setDescription(id, description));
+  }
+
+  public async setPriority(workItemId: string, priority: WorkItemPriority): Promise<WithOutlineRef<FullWorkItemData>> {
+    const id = await this.refService.resolve(workItemId);
+    return this.refService.withChildOutlineRefs(await this.fieldUpdateService.setPriority(id, priority));
+  }
+
+  public async setDueDate(workItemId: string, dueDate: string | null): Promise<WithOutlineRef<FullWorkItemData>> {
+    const id = await this.refService.resolve(workItemId);
+    return this.refService.withChildOutlineRefs(await this.fieldUpdateService.setDueDate(id, dueDate));
+  }
+
+  public async setEstimatedDuration(
+    workItemId: string,
+    estimatedDays: number | null
+  ): Promise<WithOutlineRef<FullWorkItemData>> {
+    const id = await this.refService.resolve(workItemId);
+    return this.refService.withChildOutlineRefs(await this.fieldUpdateService.setEstimatedDuration(id, estimatedDays));
+  }
+
+  public async updateFields(
+    workItemId: string,
+    updates: WorkItemFieldUpdates
+  ): Promise<WithOutlineRef<FullWorkItemData>> {
+    const id = await this.refService.resolve(workItemId);
+    return this.refService.withChildOutlineRefs(await this.fieldUpdateService.updateFields(id, updates));
+  }
+
+  public async moveItemToStart(workItemId: string): Promise<WithOutlineRef<FullWorkItemData>> {
+    const id = await this.refService.resolve(workItemId);
+    return this.refService.withChildOutlineRefs(await this.positionUpdateService.moveItemToStart(id));
+  }
+
+  public async moveItemToEnd(workItemId: string): Promise<WithOutlineRef<FullWorkItemData>> {
+    const id = await this.refService.resolve(workItemId);
+    return this.refService.withChildOutlineRefs(await this.positionUpdateService.moveItemToEnd(id));
+  }
+
+  public async moveItemAfter(
+    workItemIdToMove: string,
+    targetSiblingId: string
+  ): Promise<WithOutlineRef<FullWorkItemData>> {
+    const id = await this.refService.resolve(workItemIdToMove);
+    const targetId = await this.refService.resolve(targetSiblingId);
+    return this.refService.withChildOutlineRefs(await this.positionUpdateService.moveItemAfter(id, targetId));
+  }
+
+  public async moveItemBefore(
+    workItemIdToMove: string,
+    targetSiblingId: string
+  ): Promise<WithOutlineRef<FullWorkItemData>> {
+    const id = await this.refService.resolve(workItemIdToMove);
+    const targetId = await this.refService.resolve(targetSiblingId);
+    return this.refService.withChildOutlineRefs(await this.positionUpdateService.moveItemBefore(id, targetId));
+  }
+
+  public async swapItems(
+    firstWorkItemId: string,
+    secondWorkItemId: string
+  ): Promise<[WithOutlineRef<FullWorkItemData>, WithOutlineRef<FullWorkItemData>]> {
+    const [firstId, secondId] = await this.refService.resolveAll([firstWorkItemId, secondWorkItemId]);
+    const [first, second] = await this.positionUpdateService.swapItems(firstId, secondId);
+    return [await this.refService.withChildOutlineRefs(first), await this.refService.withChildOutlineRefs(second)];
+  }
+
+  public async moveItemToParent(
+    workItemId: string,
+    newParentId: string,
+    position: MovePosition = {}
+  ): Promise<WithOutlineRef<FullWorkItemData>> {
+    const [id, parentId] = await this.refService.resolveAll([workItemId, newParentId]);
+    const resolvedPosition = await this.resolveRefFields(position, [
+      'moveAfter_work_item_id',
+      'moveBefore_work_item_id',
+    ]);
+    return this.refService.withChildOutlineRefs(
+      await this.positionUpdateService.moveItemToParent(id, parentId, resolvedPosition)
+    );
+  }
+
+  public async getFullTree(
+    workItemId: string,
+    options?: GetFullTreeOptions
+  ): Promise<WithOutlineRef<WorkItemTreeNode> | null> {
+    const tree = await this.readingService.getFullTree(await this.refService.resolve(workItemId), options);
+    return tree && this.refService.withTreeOutlineRefs(tree);
+  }
+
+  public async promoteToProject(workItemId: string): Promise<WithOutlineRef<FullWorkItemData>> {
+    const id = await this.refService.resolve(workItemId);
+    return this.refService.withChildOutlineRefs(await this.promoteService.promoteToProject(id));
+  }
+
+  public async demoteToTask(
+    workItemId: string,
+    newParentId: string,
+    position: MovePosition = {}
+  ): Promise<WithOutlineRef<FullWorkItemData>> {
+    const [id, parentId] = await this.refService.resolveAll([workItemId, newParentId]);
+    const resolvedPosition = await this.resolveRefFields(position, [
+      'moveAfter_work_item_id',
+      'moveBefore_work_item_id',
+    ]);
+    return this.refService.withChildOutlineRefs(await this.promoteService.demoteToTask(id, parentId, resolvedPosition));
   }
 
-  public async deleteDependencies(workItemId: string, dependsOnIdsToRemove: string[]): Promise<FullWorkItemData> {
-    return this.dependencyUpdateService.deleteDependencies(workItemId, dependsOnIdsToRemove);
+  public async importProject(
+    projectData: ImportWorkItemNode,
+    options?: { linkedFromWorkItemIds?: string[] }
+  ): Promise<WithOutlineRef<FullWorkItemData>> {
+    return this.refService.withChildOutlineRefs(await this.importService.importProject(projectData, options));
   }
 
-  public async setStatus(workItemId: string, status: WorkItemStatus): Promise<FullWorkItemData> {
-    return this.fieldUpdateService.setStatus(workItemId, status);
+  public async duplicateWorkItem(
+    workItemId: string,
+    options: DuplicateWorkItemOptions = {}
+  ): Promise<WithOutlineRef<FullWorkItemData>> {
+    const id = await this.refService.resolve(workItemId);
+    const resolvedOptions = await this.resolveRefFields(options, ['parent_work_item_id']);
+    return this.refService.withChildOutlineRefs(await this.duplicateService.duplicateWorkItem(id, resolvedOptions));
   }
 
-  public async setName(workItemId: string, name: string): Promise<FullWorkItemData> {
-    return this.fieldUpdateService.setName(workItemId, name);
+  public async createTemplate(workItemId: string, options: CreateTemplateOptions): Promise<TemplateSummary> {
+    return this.templateService.createTemplate(await this.refService.resolve(workItemId), options);
   }
 
-  public async setDescription(workItemId: string, description: string | null): Promise<FullWorkItemData> {
-    return this.fieldUpdateService.setDescription(workItemId, description);
+  public async listTemplates(): Promise<TemplateSummary[]> {
+    return this.templateService.listTemplates();
   }
 
-  public async setPriority(workItemId: string, priority: WorkItemPriority): Promise<FullWorkItemData> {
-    return this.fieldUpdateService.setPriority(workItemId, priority);
+  public async instantiateTemplate(
+    templateName: string,
+    options: InstantiateTemplateOptions = {}
+  ): Promise<WithOutlineRef<FullWorkItemData>> {
+    const resolvedOptions = await this.resolveRefFields(options, ['parent_work_item_id']);
+    return this.refService.withChildOutlineRefs(
+      await this.templateService.instantiateTemplate(templateName, resolvedOptions)
+    );
   }
 
-  public async setDueDate(workItemId: string, dueDate: string | null): Promise<FullWorkItemData> {
-    return this.fieldUpdateService.setDueDate(workItemId, dueDate);
+  public async exportProject(
+    projectId: string,
+    options?: { includeInactive?: boolean }
+  ): Promise<ProjectExportDocument> {
+    return this.exportService.exportProject(await this.refService.resolve(projectId), options);
   }
 
-  public async moveItemToStart(workItemId: string): Promise<FullWorkItemData> {
-    return this.positionUpdateService.moveItemToStart(workItemId);
+  public async addTags(workItemId: string, tags: string[]): Promise<WithOutlineRef<FullWorkItemData>> {
+    const id = await this.refService.resolve(workItemId);
+    return this.refService.withChildOutlineRefs(await this.tagService.addTags(id, tags));
   }
 
-  public async moveItemToEnd(workItemId: string): Promise<FullWorkItemData> {
-    return this.positionUpdateService.moveItemToEnd(workItemId);
+  public async removeTags(workItemId: string, tags: string[]): Promise<WithOutlineRef<FullWorkItemData>> {
+    const id = await this.refService.resolve(workItemId);
+    return this.refService.withChildOutlineRefs(await this.tagService.removeTags(id, tags));
   }
 
-  public async moveItemAfter(workItemIdToMove: string, targetSiblingId: string): Promise<FullWorkItemData> {
-    return this.positionUpdateService.moveItemAfter(workItemIdToMove, targetSiblingId);
+  public async setTags(workItemId: string, tags: string[]): Promise<WithOutlineRef<FullWorkItemData>> {
+    const id = await this.refService.resolve(workItemId);
+    return this.refService.withChildOutlineRefs(await this.tagService.setTags(id, tags));
   }
 
-  public async moveItemBefore(workItemIdToMove: string, targetSiblingId: string): Promise<FullWorkItemData> {
-    return this.positionUpdateService.moveItemBefore(workItemIdToMove, targetSiblingId);
+  public async listTags(projectId?: string): Promise<ProjectTagUsage[]> {
+    return this.tagService.listTags(await this.resolveOptionalRef(projectId));
   }
 
-  public async getFullTree(workItemId: string, options?: GetFullTreeOptions): Promise<WorkItemTreeNode | null> {
-    return this.readingService.getFullTree(workItemId, options);
+  public async getCriticalPath(workItemId: string, options?: { startDate?: string }): Promise<CriticalPathResult> {
+    return this.scheduleService.getCriticalPath(await this.refService.resolve(workItemId), options);
   }
 
-  public async promoteToProject(workItemId: string): Promise<FullWorkItemData> {
-    return this.promoteService.promoteToProject(workItemId);
+  public async getImpact(workItemId: string, options?: { slipDays?: number }): Promise<ImpactResult> {
+    return this.impactService.getImpact(await this.refService.resolve(workItemId), options);
   }
 
-  public async getNextTask(params: GetNextTaskParams): Promise<WorkItemData | null> {
+  public async renderDependencyGraph(
+    workItemId: string,
+    options?: { format?: DependencyGraphFormat; includeDone?: boolean; includeExternal?: boolean }
+  ): Promise<DependencyGraphResult> {
+    return this.graphService.renderDependencyGraph(await this.refService.resolve(workItemId), options);
+  }
+
+  /** The UUID behind a UUID, outline ref or short ID; see WorkItemRefService. */
+  public async resolveWorkItemRef(ref: string, options?: ResolveRefOptions): Promise<string> {
+    return this.refService.resolve(ref, options);
+  }
+
+  public async getNextTask(params: GetNextTaskParams): Promise<WithOutlineRef<WorkItemData> | null> {
     logger.info(`[WorkItemService] getNextTask called with params:`, params);
     const candidateFilters = {
-      scopeItemId: params.scope_item_id,
+      scopeItemId: await this.resolveOptionalRef(params.scope_item_id),
       includeTags: params.include_tags,
       excludeTags: params.exclude_tags,
     };
@@ -172,10 +434,37 @@ export class WorkItemService {
     if (candidates && candidates.length > 0) {
       const nextTask = candidates[0];
       logger.info(`[WorkItemService] Found next task: ${nextTask.work_item_id}`);
-      return nextTask;
+      return this.refService.withOutlineRef(nextTask);
     }
 
     logger.info('[WorkItemService] No suitable task found after repository search.');
     return null;
   }
+
+  /** A copy of `input` with the references in the given fields resolved; absent fields stay absent. */
+  private async resolveRefFields<T extends object>(input: T, fields: (keyof T & string)[]): Promise<T> {
+    const resolved = { ...input };
+    for (const field of fields) {
+      const value = resolved[field];
+      if (typeof value === 'string') {
+        resolved[field] = (await this.refService.resolve(value)) as T[typeof field];
+      }
+    }
+    return resolved;
+  }
+
+  private async resolveOptionalRef<T extends string | null | undefined>(ref: T): Promise<T> {
+    return (typeof ref === 'string' ? await this.refService.resolve(ref) : ref) as T;
+  }
+
+  private async resolveDependencies<T extends { depends_on_work_item_id: string }>(dependencies: T[]): Promise<T[]> {
+    const resolved: T[] = [];
+    for (const dependency of dependencies) {
+      resolved.push({
+        ...dependency,
+        depends_on_work_item_id: await this.refService.resolve(dependency.depends_on_work_item_id),
+      });
+    }
+    return resolved;
+  }
 }
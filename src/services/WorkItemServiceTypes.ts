@@ -5,8 +5,38 @@ import { z } from 'zod';
 // Define and EXPORT Zod enums
 export const WorkItemStatusEnum = z.enum(['todo', 'in-progress', 'review', 'done']);
 export const WorkItemPriorityEnum = z.enum(['high', 'medium', 'low']);
-export const DependencyTypeEnum = z.enum(['finish-to-start', 'linked']);
+export const DependencyTypeEnum = z.enum([
+  'finish-to-start',
+  'start-to-start',
+  'finish-to-finish',
+  'start-to-finish',
+  'linked',
+]);
+export const DependencyLagDaysSchema = z
+  .number()
+  .nonnegative('A dependency lag cannot be negative.')
+  .max(3650, 'A dependency lag cannot exceed 3650 days.');
 export const PositionEnum = z.enum(['start', 'end']);
+export const DependencyGraphFormatEnum = z.enum(['mermaid', 'dot']);
+export const TagSchema = z
+  .string()
+  .min(1, 'Tags cannot be empty.')
+  .max(64, 'Tags cannot exceed 64 characters.')
+  .regex(/^\S(.*\S)?$/, 'Tags cannot start or end with whitespace.');
+export const MAX_TAGS_PER_ITEM = 50;
+export const EstimatedDurationDaysSchema = z
+  .number()
+  .nonnegative('The duration estimate cannot be negative.')
+  .max(3650, 'The duration estimate cannot exceed 3650 days.');
+
+/**
+ * How tools and routes accept a work item: its UUID, its outline ref (1-based positions from the top
+ * level down and, to catch stale refs, its short ID, e.g. '3.2.1@1a2b3c4d') or a short ID (the first 8
+ * or more characters of its UUID).
+ */
+export const WORK_ITEM_REF_PATTERN =
+  /^(?:[0-9a-fA-F]{8}[0-9a-fA-F-]{0,28}|\d{1,7}(?:\.\d{1,7})*(?:@[0-9a-fA-F]{8}[0-9a-fA-F-]{0,28})?)$/;
+export const workItemRefSchema = (message: string) => z.string().regex(WORK_ITEM_REF_PATTERN, message);
 
 // --- AddWorkItemInput ---
 export interface AddWorkItemInput {
@@ -16,9 +46,12 @@ export interface AddWorkItemInput {
   priority?: z.infer<typeof WorkItemPriorityEnum>;
   status?: z.infer<typeof WorkItemStatusEnum>;
   due_date?: string | null;
+  tags?: string[];
+  estimated_duration_days?: number | null;
   dependencies?: {
     depends_on_work_item_id: string;
     dependency_type?: z.infer<typeof DependencyTypeEnum>;
+    lag_days?: number;
   }[];
   insertAt?: z.infer<typeof PositionEnum>;
   insertAfter_work_item_id?: string;
@@ -38,6 +71,20 @@ export interface UpdateWorkItemInput {
   moveBefore_work_item_id?: string;
 }
 
+/** Fields changed together by one update_fields call; omitted fields are left as they are. */
+export interface WorkItemFieldUpdates {
+  name?: string;
+  description?: string | null;
+  status?: z.infer<typeof WorkItemStatusEnum>;
+  priority?: z.infer<typeof WorkItemPriorityEnum>;
+  due_date?: string | null;
+  estimated_duration_days?: number | null;
+  tags?: string[];
+}
+
+/** Where an item goes among its new siblings; at most one field is set, and none means the end of the list. */
+export type MovePosition = Pick<UpdateWorkItemInput, 'moveTo' | 'moveAfter_work_item_id' | 'moveBefore_work_item_id'>;
+
 // --- Other types ---
 export interface ListWorkItemsFilter {
   parent_work_item_id?: string | null;
@@ -56,6 +103,64 @@ export interface WorkItemTreeNode extends WorkItemData {
   dependencies: WorkItemDependencyData[];
   dependents: WorkItemDependencyData[];
   children?: WorkItemTreeNode[];
+  /** Filled in on every node by WorkItemService.getFullTree. */
+  outline_ref?: string | null;
+}
+
+/** A work item as the service returns it, with its outline ref; null for an inactive item. */
+export type WithOutlineRef<T extends WorkItemData> = T & { outline_ref: string | null };
+
+/** How duplicate_work_item copies an item; every copy option is on unless turned off. */
+export interface DuplicateWorkItemOptions {
+  /** Where the copy goes; null for a new project. Defaults to the original's parent. */
+  parent_work_item_id?: string | null;
+  /** A name for the top-level copy; defaults to the original's name. */
+  name?: string;
+  include_descendants?: boolean;
+  /** Dependencies between copied items; dependencies on items outside the copy are never carried over. */
+  include_dependencies?: boolean;
+  include_tags?: boolean;
+  /** Sets every copy to 'todo' instead of keeping the original statuses. */
+  reset_status?: boolean;
+  /** Moves every due date by this many days (negative for earlier). */
+  due_date_offset_days?: number;
+}
+
+export interface CreateTemplateOptions {
+  name: string;
+  description?: string | null;
+  /** Variable name to the literal text it replaces, e.g. { service: 'Payments' } turns "Payments" into "{{service}}". */
+  variables?: Record<string, string>;
+  /** The date due-date offsets are counted from; defaults to the day the source item was created. */
+  anchor_date?: string;
+}
+
+export interface InstantiateTemplateOptions {
+  /** Defaults to the latest version. */
+  version?: number;
+  /** A value for every variable the version uses. */
+  variables?: Record<string, string>;
+  /** Where the new items go; omitted or null for a new project. */
+  parent_work_item_id?: string | null;
+  /** The date due-date offsets are added to; defaults to today. */
+  start_date?: string;
+}
+
+export interface TemplateVersionSummary {
+  version: number;
+  created_at: string;
+  variables: string[];
+  item_count: number;
+}
+
+export interface TemplateSummary {
+  template_id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+  updated_at: string;
+  latest_version: number;
+  versions: TemplateVersionSummary[];
 }
 
 export interface GetFullTreeOptions {
@@ -63,3 +168,92 @@ export interface GetFullTreeOptions {
   include_inactive_dependencies?: boolean;
   max_depth?: number;
 }
+
+export interface ProjectTagUsage {
+  project_id: string;
+  project_name: string;
+  tags: { tag: string; count: number }[];
+}
+
+export interface ScheduledWorkItem {
+  work_item_id: string;
+  name: string;
+  status: WorkItemData['status'];
+  estimated_duration_days: number | null;
+  duration_days: number;
+  earliest_start: string;
+  earliest_finish: string;
+  latest_start: string;
+  latest_finish: string;
+  slack_days: number;
+  is_critical: boolean;
+  due_date: string | null;
+}
+
+export interface DueDateConflict {
+  work_item_id: string;
+  name: string;
+  due_date: string;
+  earliest_finish: string;
+  days_late: number;
+}
+
+export interface CriticalPathResult {
+  root_work_item_id: string;
+  start_date: string;
+  projected_finish_date: string;
+  duration_days: number;
+  critical_path: { work_item_id: string; name: string }[];
+  items: ScheduledWorkItem[];
+  due_date_conflicts: DueDateConflict[];
+  unestimated_item_ids: string[];
+}
+
+export type DependencyGraphFormat = z.infer<typeof DependencyGraphFormatEnum>;
+
+export interface DependencyGraphResult {
+  root_work_item_id: string;
+  format: DependencyGraphFormat;
+  node_count: number;
+  edge_count: number;
+  diagram: string;
+}
+
+export interface ImpactedWorkItem {
+  work_item_id: string;
+  name: string;
+  status: WorkItemData['status'];
+  due_date: string | null;
+  /** Number of dependency links between the analysed item and this one (1 = direct dependent). */
+  depth: number;
+  /** The item this one depends on along the shortest chain back to the analysed item. */
+  via_work_item_id: string;
+  dependency_type: WorkItemDependencyData['dependency_type'];
+  projected_finish: string;
+  misses_due_date: boolean;
+}
+
+export interface ImpactedProject {
+  project_id: string;
+  project_name: string;
+  items: ImpactedWorkItem[];
+}
+
+export interface MissedDueDate {
+  work_item_id: string;
+  name: string;
+  due_date: string;
+  projected_finish: string;
+  days_late: number;
+  /** True if the item would miss its due date even without the slip. */
+  already_late: boolean;
+}
+
+export interface ImpactResult {
+  work_item_id: string;
+  name: string;
+  slip_days: number;
+  affected_count: number;
+  projects: ImpactedProject[];
+  missed_due_dates: MissedDueDate[];
+}
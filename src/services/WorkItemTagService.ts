@@ -0,0 +1,170 @@
+// src/services/WorkItemTagService.ts
+import type { DbClient } from '../db/DatabaseTypes.js';
+import {
+  WorkItemRepository,
+  ActionHistoryRepository,
+  WorkItemData,
+  CreateActionHistoryInput,
+  CreateUndoStepInput,
+} from '../repositories/index.js';
+import { FullWorkItemData, ProjectTagUsage, MAX_TAGS_PER_ITEM } from './WorkItemServiceTypes.js';
+import { WorkItemReadingService } from './WorkItemReadingService.js';
+import { WorkItemHistoryService } from './WorkItemHistoryService.js';
+import sseNotificationService, { SseNotificationService } from './SseNotificationService.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+type TagActionType = 'ADD_TAGS' | 'REMOVE_TAGS' | 'SET_TAGS';
+
+/**
+ * Service responsible for managing the tags of work items.
+ */
+export class WorkItemTagService {
+  private workItemRepository: WorkItemRepository;
+  private actionHistoryRepository: ActionHistoryRepository;
+  private readingService: WorkItemReadingService;
+  private historyService: WorkItemHistoryService;
+  private sseService: SseNotificationService;
+
+  constructor(
+    workItemRepository: WorkItemRepository,
+    actionHistoryRepository: ActionHistoryRepository,
+    sseService: SseNotificationService = sseNotificationService
+  ) {
+    this.workItemRepository = workItemRepository;
+    this.actionHistoryRepository = actionHistoryRepository;
+    this.readingService = new WorkItemReadingService(workItemRepository);
+    this.historyService = new WorkItemHistoryService(workItemRepository, actionHistoryRepository);
+    this.sseService = sseService;
+  }
+
+  public async addTags(workItemId: string, tags: string[]): Promise<FullWorkItemData> {
+    return this.updateTags(
+      workItemId,
+      'ADD_TAGS',
+      (current) => Array.from(new Set([...current, ...tags])),
+      (name) => `Added tags [${tags.join(', ')}] to work item "${name}"`
+    );
+  }
+
+  public async removeTags(workItemId: string, tags: string[]): Promise<FullWorkItemData> {
+    const toRemove = new Set(tags);
+    return this.updateTags(
+      workItemId,
+      'REMOVE_TAGS',
+      (current) => current.filter((tag) => !toRemove.has(tag)),
+      (name) => `Removed tags [${tags.join(', ')}] from work item "${name}"`
+    );
+  }
+
+  public async setTags(workItemId: string, tags: string[]): Promise<FullWorkItemData> {
+    return this.updateTags(
+      workItemId,
+      'SET_TAGS',
+      () => Array.from(new Set(tags)),
+      (name) => `Set tags to [${tags.join(', ')}] for work item "${name}"`
+    );
+  }
+
+  /**
+   * Lists tag usage counts per project, optionally restricted to a single project.
+   */
+  public async listTags(projectId?: string): Promise<ProjectTagUsage[]> {
+    if (projectId) {
+      const project = await this.workItemRepository.findById(projectId, { isActive: true });
+      if (!project) {
+        throw new NotFoundError(`Project with ID ${projectId} not found.`);
+      }
+      if (project.parent_work_item_id !== null) {
+        throw new ValidationError(`Work item ${projectId} is not a top-level project.`);
+      }
+    }
+    const counts = await this.workItemRepository.findTagUsageCounts(projectId);
+    const byProject = new Map<string, ProjectTagUsage>();
+    for (const row of counts) {
+      let usage = byProject.get(row.project_id);
+      if (!usage) {
+        usage = { project_id: row.project_id, project_name: row.project_name, tags: [] };
+        byProject.set(row.project_id, usage);
+      }
+      usage.tags.push({ tag: row.tag, count: row.usage_count });
+    }
+    return Array.from(byProject.values());
+  }
+
+  private async updateTags(
+    workItemId: string,
+    actionType: TagActionType,
+    computeTags: (current: string[]) => string[],
+    describe: (name: string) => string
+  ): Promise<FullWorkItemData> {
+    logger.info(`[WorkItemTagService] ${actionType} for work item ${workItemId}`);
+    let itemBeforeUpdate: WorkItemData | undefined;
+    let itemAfterUpdate: WorkItemData | null = null;
+    let projectId: string | null = null;
+    await this.actionHistoryRepository.withTransaction(async (client: DbClient) => {
+      itemBeforeUpdate = await this.workItemRepository.findById(workItemId, { isActive: true }, client);
+      if (!itemBeforeUpdate) {
+        const inactiveItem = await this.workItemRepository.findById(workItemId, { isActive: false }, client);
+        if (inactiveItem) {
+          throw new ValidationError(`Work item with ID ${workItemId} is inactive.`);
+        } else {
+          throw new NotFoundError(`Work item with ID ${workItemId} not found.`);
+        }
+      }
+      const newTags = computeTags(itemBeforeUpdate.tags);
+      // The tools only bound their input, so repeated add_tags calls are checked against the resulting set.
+      if (newTags.length > MAX_TAGS_PER_ITEM) {
+        throw new ValidationError(
+          `Work item "${itemBeforeUpdate.name}" would have ${newTags.length} tags; a work item cannot have more than ${MAX_TAGS_PER_ITEM}.`
+        );
+      }
+      const unchanged =
+        newTags.length === itemBeforeUpdate.tags.length &&
+        newTags.every((tag, index) => tag === itemBeforeUpdate?.tags[index]);
+      if (unchanged) {
+        logger.info(`[WorkItemTagService] Tags for ${workItemId} are unchanged. No update needed.`);
+        return;
+      }
+      itemAfterUpdate = await this.workItemRepository.updateFields(client, workItemId, { tags: newTags });
+      if (itemAfterUpdate === null) {
+        throw new NotFoundError(
+          `Failed to update tags for work item ${workItemId}, it might have been modified or deactivated concurrently.`
+        );
+      }
+      const undoStepsData: CreateUndoStepInput[] = [
+        {
+          step_order: 1,
+          step_type: 'UPDATE',
+          table_name: 'work_items',
+          record_id: workItemId,
+          old_data: { tags: itemBeforeUpdate.tags, updated_at: itemBeforeUpdate.updated_at },
+          new_data: { tags: itemAfterUpdate.tags, updated_at: itemAfterUpdate.updated_at },
+        },
+      ];
+      const actionData: CreateActionHistoryInput = {
+        action_type: actionType,
+        work_item_id: workItemId,
+        description: describe(itemAfterUpdate.name).substring(0, 250),
+      };
+      projectId = await this.readingService.getProjectIdOf(itemAfterUpdate, client);
+      const createdAction = await this.actionHistoryRepository.createActionInClient(actionData, client);
+      for (const step of undoStepsData) {
+        await this.actionHistoryRepository.createUndoStepInClient(
+          { ...step, action_id: createdAction.action_id },
+          client
+        );
+      }
+      await this.historyService.invalidateRedoStack(client, createdAction.action_id);
+      logger.info(`[WorkItemTagService] Recorded history for ${actionType} on work item ${workItemId}.`);
+    });
+    if (itemAfterUpdate) {
+      this.sseService.notifyWorkItemUpdated(itemAfterUpdate, projectId);
+    }
+    const fullUpdatedItem = await this.readingService.getWorkItemById(workItemId, { isActive: true });
+    if (!fullUpdatedItem) {
+      throw new NotFoundError(`Work item ${workItemId} could not be retrieved after updating tags.`);
+    }
+    return fullUpdatedItem;
+  }
+}
@@ -0,0 +1,340 @@
+// src/services/WorkItemTemplateService.ts
+import { v4 as uuidv4 } from 'uuid';
+import type { DbClient } from '../db/DatabaseTypes.js';
+import {
+  WorkItemRepository,
+  ActionHistoryRepository,
+  WorkItemData,
+  TemplateItemNode,
+  WorkItemTemplateData,
+  WorkItemTemplateVersionData,
+  CreateActionHistoryInput,
+  CreateUndoStepInput,
+} from '../repositories/index.js';
+import {
+  FullWorkItemData,
+  CreateTemplateOptions,
+  InstantiateTemplateOptions,
+  TemplateSummary,
+} from './WorkItemServiceTypes.js';
+import { ChildTaskInputRecursive } from '../tools/add_child_tasks_params.js';
+import { WorkItemAddingService } from './WorkItemAddingService.js';
+import { WorkItemReadingService } from './WorkItemReadingService.js';
+import { WorkItemHistoryService } from './WorkItemHistoryService.js';
+import { WorkItemUtilsService } from './WorkItemUtilsService.js';
+import { DAY_MS } from './WorkItemScheduleService.js';
+import sseNotificationService, { SseNotificationService } from './SseNotificationService.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { logger } from '../utils/logger.js';
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+const startOfUtcDay = (time: number): number => Math.floor(time / DAY_MS) * DAY_MS;
+
+const parseDate = (value: string, field: string): number => {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new ValidationError(`${field} must be a valid ISO 8601 date-time string.`);
+  }
+  return time;
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** The variable names used in a template version, in the order they first appear. */
+const collectVariables = (node: TemplateItemNode, found: Set<string> = new Set()): string[] => {
+  for (const text of [node.name, node.description ?? '']) {
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+      found.add(match[1]);
+    }
+  }
+  node.children.forEach((child) => collectVariables(child, found));
+  return [...found];
+};
+
+const countItems = (node: TemplateItemNode): number =>
+  1 + node.children.reduce((count, child) => count + countItems(child), 0);
+
+/**
+ * Service for named project templates: saving an existing subtree as a new template version, listing templates,
+ * and building new items from a version. Saving a template is not part of the undo history; instantiating one is.
+ */
+export class WorkItemTemplateService {
+  private workItemRepository: WorkItemRepository;
+  private actionHistoryRepository: ActionHistoryRepository;
+  private readingService: WorkItemReadingService;
+  private historyService: WorkItemHistoryService;
+  private addingService: WorkItemAddingService;
+  private sseService: SseNotificationService;
+
+  constructor(
+    workItemRepository: WorkItemRepository,
+    actionHistoryRepository: ActionHistoryRepository,
+    sseService: SseNotificationService = sseNotificationService
+  ) {
+    this.workItemRepository = workItemRepository;
+    this.actionHistoryRepository = actionHistoryRepository;
+    this.readingService = new WorkItemReadingService(workItemRepository);
+    this.historyService = new WorkItemHistoryService(workItemRepository, actionHistoryRepository);
+    this.addingService = new WorkItemAddingService(
+      workItemRepository,
+      actionHistoryRepository,
+      this.historyService,
+      sseService
+    );
+    this.sseService = sseService;
+  }
+
+  /**
+   * Turns the active subtree under `item` into a template tree. Occurrences of a variable's value become its
+   * placeholder, longest value first, and due dates become whole days from `anchorTime`.
+   */
+  private async buildTemplateNode(
+    client: DbClient,
+    item: WorkItemData,
+    replace: (text: string) => string,
+    anchorTime: number
+  ): Promise<TemplateItemNode> {
+    const children = (await this.workItemRepository.findChildren(item.work_item_id, { isActive: true }, client)).sort(
+      (a, b) => WorkItemUtilsService.compareOrderKeys(a.order_key, b.order_key)
+    );
+    const node: TemplateItemNode = {
+      name: replace(item.name),
+      description: item.description === null ? null : replace(item.description),
+      priority: item.priority,
+      estimated_duration_days: item.estimated_duration_days,
+      tags: item.tags,
+      due_offset_days: item.due_date ? Math.round((Date.parse(item.due_date) - anchorTime) / DAY_MS) : null,
+      children: [],
+    };
+    for (const child of children) {
+      node.children.push(await this.buildTemplateNode(client, child, replace, anchorTime));
+    }
+    return node;
+  }
+
+  private toChildTaskInput(
+    node: TemplateItemNode,
+    fill: (text: string) => string,
+    startTime: number
+  ): ChildTaskInputRecursive {
+    const name = fill(node.name);
+    if (name.length > 255) {
+      throw new ValidationError(`The name "${name.substring(0, 40)}..." would exceed 255 characters.`);
+    }
+    const description = node.description === null ? null : fill(node.description);
+    if (description !== null && description.length > 1024) {
+      throw new ValidationError(`The description of "${name}" would exceed 1024 characters.`);
+    }
+    return {
+      name,
+      description,
+      status: 'todo',
+      priority: node.priority,
+      due_date:
+        node.due_offset_days === null ? null : new Date(startTime + node.due_offset_days * DAY_MS).toISOString(),
+      estimated_duration_days: node.estimated_duration_days,
+      tags: node.tags,
+      children: node.children.map((child) => this.toChildTaskInput(child, fill, startTime)),
+    };
+  }
+
+  private summarize(template: WorkItemTemplateData, versions: WorkItemTemplateVersionData[]): TemplateSummary {
+    return {
+      ...template,
+      versions: versions.map((version) => ({
+        version: version.version,
+        created_at: version.created_at,
+        variables: collectVariables(version.structure),
+        item_count: countItems(version.structure),
+      })),
+    };
+  }
+
+  /**
+   * Saves `workItemId` and its active descendants as the next version of the template called `options.name`,
+   * creating the template if there is none yet. Statuses and dependencies are not stored.
+   */
+  public async createTemplate(workItemId: string, options: CreateTemplateOptions): Promise<TemplateSummary> {
+    logger.info(`[WorkItemTemplateService] Saving ${workItemId} as template "${options.name}".`);
+    const variables = Object.entries(options.variables ?? {});
+    const variableByValue = new Map<string, string>();
+    for (const [variable, value] of variables) {
+      if (!VARIABLE_NAME_PATTERN.test(variable)) {
+        throw new ValidationError(
+          `Variable name "${variable}" must start with a letter or underscore and contain only letters, digits and underscores.`
+        );
+      }
+      if (value.length === 0) {
+        throw new ValidationError(`The text for variable "${variable}" cannot be empty.`);
+      }
+      if (variableByValue.has(value)) {
+        throw new ValidationError(
+          `Variables "${variableByValue.get(value)}" and "${variable}" both stand for "${value}".`
+        );
+      }
+      variableByValue.set(value, variable);
+    }
+    const valuePattern =
+      variables.length > 0
+        ? new RegExp(
+            [...variableByValue.keys()]
+              .sort((a, b) => b.length - a.length)
+              .map(escapeRegExp)
+              .join('|'),
+            'g'
+          )
+        : null;
+    const replace = (text: string): string =>
+      valuePattern ? text.replace(valuePattern, (value) => `{{${variableByValue.get(value)}}}`) : text;
+
+    let templateId = '';
+    await this.actionHistoryRepository.withTransaction(async (client: DbClient) => {
+      const source = await this.workItemRepository.findById(workItemId, { isActive: true }, client);
+      if (!source) {
+        throw new NotFoundError(`Work item with ID ${workItemId} not found or is inactive.`);
+      }
+      const anchorTime = options.anchor_date
+        ? parseDate(options.anchor_date, 'anchor_date')
+        : startOfUtcDay(Date.parse(source.created_at));
+      const structure = await this.buildTemplateNode(client, source, replace, anchorTime);
+      const usedVariables = collectVariables(structure);
+      const unusedVariables = variables.map(([variable]) => variable).filter((v) => !usedVariables.includes(v));
+      if (unusedVariables.length > 0) {
+        throw new ValidationError(
+          `The text for these variables does not appear in "${source.name}" or below it: ${unusedVariables.join(', ')}.`
+        );
+      }
+
+      const now = new Date().toISOString();
+      const existing = await this.workItemRepository.findTemplateByName(options.name, client);
+      let version = 1;
+      if (existing) {
+        templateId = existing.template_id;
+        version = existing.latest_version + 1;
+        await this.workItemRepository.updateTemplate(client, templateId, {
+          description: options.description === undefined ? existing.description : options.description,
+          updated_at: now,
+        });
+      } else {
+        templateId = uuidv4();
+        await this.workItemRepository.createTemplate(client, {
+          template_id: templateId,
+          name: options.name,
+          description: options.description ?? null,
+          created_at: now,
+          updated_at: now,
+        });
+      }
+      await this.workItemRepository.createTemplateVersion(client, {
+        template_id: templateId,
+        version,
+        structure,
+        created_at: now,
+      });
+      logger.info(
+        `[WorkItemTemplateService] Saved version ${version} of template "${options.name}" (${countItems(structure)} items).`
+      );
+    });
+
+    const template = (await this.workItemRepository.findTemplateByName(options.name)) as WorkItemTemplateData;
+    return this.summarize(template, await this.workItemRepository.findTemplateVersions([templateId]));
+  }
+
+  /** Every template with a summary of each of its versions, by name. */
+  public async listTemplates(): Promise<TemplateSummary[]> {
+    const templates = await this.workItemRepository.findAllTemplates();
+    const versions = await this.workItemRepository.findTemplateVersions(
+      templates.map((template) => template.template_id)
+    );
+    return templates.map((template) =>
+      this.summarize(
+        template,
+        versions.filter((version) => version.template_id === template.template_id)
+      )
+    );
+  }
+
+  /**
+   * Builds a new project, or a subtree at the end of `parent_work_item_id`'s children, from a template version.
+   * Placeholders are filled in, every item starts as 'todo' and due dates are the offsets added to the start date.
+   * The items and any renumbered siblings are recorded as one INSTANTIATE_TEMPLATE action.
+   */
+  public async instantiateTemplate(
+    templateName: string,
+    options: InstantiateTemplateOptions = {}
+  ): Promise<FullWorkItemData> {
+    logger.info(`[WorkItemTemplateService] Instantiating template "${templateName}".`);
+    const template = await this.workItemRepository.findTemplateByName(templateName);
+    if (!template) {
+      throw new NotFoundError(`Template "${templateName}" not found.`);
+    }
+    const version = options.version ?? template.latest_version;
+    const versionData = await this.workItemRepository.findTemplateVersion(template.template_id, version);
+    if (!versionData) {
+      throw new NotFoundError(`Template "${templateName}" has no version ${version}.`);
+    }
+
+    const values = options.variables ?? {};
+    const usedVariables = collectVariables(versionData.structure);
+    const missing = usedVariables.filter((variable) => values[variable] === undefined);
+    if (missing.length > 0) {
+      throw new ValidationError(`Version ${version} of template "${templateName}" needs: ${missing.join(', ')}.`);
+    }
+    const unknown = Object.keys(values).filter((variable) => !usedVariables.includes(variable));
+    if (unknown.length > 0) {
+      throw new ValidationError(
+        `Version ${version} of template "${templateName}" does not use: ${unknown.join(', ')}.`
+      );
+    }
+    const fill = (text: string): string => text.replace(PLACEHOLDER_PATTERN, (_, variable: string) => values[variable]);
+    const startTime = options.start_date ? parseDate(options.start_date, 'start_date') : startOfUtcDay(Date.now());
+    const tree = this.toChildTaskInput(versionData.structure, fill, startTime);
+
+    const parentId = options.parent_work_item_id ?? null;
+    let createdItems: WorkItemData[] = [];
+    let projectId: string | null = null;
+    await this.actionHistoryRepository.withTransaction(async (client: DbClient) => {
+      if (parentId) {
+        const parentItem = await this.workItemRepository.findById(parentId, { isActive: true }, client);
+        if (!parentItem) {
+          throw new NotFoundError(`Parent work item with ID ${parentId} not found or is inactive.`);
+        }
+        if (parentItem.status === 'done') {
+          throw new ValidationError(
+            `Parent work item "${parentItem.name}" (ID: ${parentId}) is "done", cannot add the template's items.`
+          );
+        }
+      }
+
+      const renumberSteps: CreateUndoStepInput[] = [];
+      createdItems = await this.addingService.createWorkItemTreeInClient(client, parentId, [tree], renumberSteps);
+      const actionData: CreateActionHistoryInput = {
+        action_type: 'INSTANTIATE_TEMPLATE',
+        work_item_id: createdItems[0].work_item_id,
+        description: `Created "${createdItems[0].name}" from version ${version} of template "${templateName}" (${createdItems.length} items)`,
+      };
+      const createdAction = await this.addingService.recordTreeCreation(
+        client,
+        actionData,
+        createdItems,
+        renumberSteps
+      );
+      if (parentId) {
+        projectId = (await this.readingService.getProjectIdsOf([parentId], client))[0] ?? parentId;
+      }
+      logger.info(
+        `[WorkItemTemplateService] Created ${createdItems.length} items from template "${templateName}" v${version}. Action ID: ${createdAction.action_id}`
+      );
+    });
+
+    const root = createdItems[0];
+    this.sseService.notifyWorkItemCreated(root, projectId);
+    const fullRoot = await this.readingService.getWorkItemById(root.work_item_id, { isActive: true });
+    if (!fullRoot) {
+      throw new NotFoundError(`Work item ${root.work_item_id} could not be retrieved after instantiation.`);
+    }
+    return fullRoot;
+  }
+}
@@ -10,10 +10,13 @@ import {
 import { logger } from '../utils/logger.js';
 import { NotFoundError, ValidationError } from '../utils/errors.js';
 import { UpdateWorkItemInput, FullWorkItemData } from './WorkItemServiceTypes.js';
-import { WorkItemUtilsService } from './WorkItemUtilsService.js';
+import { WorkItemOrderKeyService } from './WorkItemOrderKeyService.js';
 import { WorkItemReadingService } from './WorkItemReadingService.js';
 import { WorkItemHistoryService } from './WorkItemHistoryService.js';
-import { PoolClient } from 'pg';
+import { WorkItemDependencyCycleService } from './WorkItemDependencyCycleService.js';
+import type { DbClient } from '../db/DatabaseTypes.js';
+import sseNotificationService, { SseNotificationService } from './SseNotificationService.js';
+import { type DependencyInput } from '../tools/add_dependencies_params.js';
 
 /**
  * Service responsible for the (now deprecated) general update logic for work items.
@@ -25,13 +28,23 @@ export class WorkItemUpdateService {
   // Removed utilsService instance variable
   private readingService: WorkItemReadingService;
   private historyService: WorkItemHistoryService;
+  private cycleService: WorkItemDependencyCycleService;
+  private orderKeyService: WorkItemOrderKeyService;
+  private sseService: SseNotificationService;
 
-  constructor(workItemRepository: WorkItemRepository, actionHistoryRepository: ActionHistoryRepository) {
+  constructor(
+    workItemRepository: WorkItemRepository,
+    actionHistoryRepository: ActionHistoryRepository,
+    sseService: SseNotificationService = sseNotificationService
+  ) {
     this.workItemRepository = workItemRepository;
     this.actionHistoryRepository = actionHistoryRepository;
     // Removed instantiation of WorkItemUtilsService
     this.readingService = new WorkItemReadingService(workItemRepository);
     this.historyService = new WorkItemHistoryService(workItemRepository, actionHistoryRepository);
+    this.cycleService = new WorkItemDependencyCycleService(workItemRepository);
+    this.orderKeyService = new WorkItemOrderKeyService(workItemRepository);
+    this.sseService = sseService;
   }
 
   /**
@@ -41,10 +54,7 @@ export class WorkItemUpdateService {
   public async updateWorkItem(
     id: string,
     updates: UpdateWorkItemInput,
-    dependenciesInput?: {
-      depends_on_work_item_id: string;
-      dependency_type?: 'finish-to-start' | 'linked';
-    }[]
+    dependenciesInput?: DependencyInput[]
   ): Promise<FullWorkItemData> {
     logger.warn(`[WorkItemUpdateService - DEPRECATED] Call to updateWorkItem for ID ${id}.`);
     logger.debug(`[WorkItemUpdateService - DEPRECATED] Updating work item ${id} with data:`, {
@@ -54,6 +64,8 @@ export class WorkItemUpdateService {
 
     let itemBeforeUpdate: WorkItemData | undefined;
     let itemAfterUpdate: WorkItemData | undefined;
+    let projectId: string | null = null;
+    let changed = false;
     const depsBeforeUpdateMap: Map<string, WorkItemDependencyData> = new Map();
 
     const { moveTo, moveAfter_work_item_id, moveBefore_work_item_id, ...coreUpdates } = updates;
@@ -67,7 +79,7 @@ export class WorkItemUpdateService {
       );
     }
 
-    await this.actionHistoryRepository.withTransaction(async (client: PoolClient) => {
+    await this.actionHistoryRepository.withTransaction(async (client: DbClient) => {
       itemBeforeUpdate = await this.workItemRepository.findById(id, { isActive: true }, client);
       if (!itemBeforeUpdate) throw new NotFoundError(`Active work item with ID ${id} not found.`);
 
@@ -89,7 +101,8 @@ export class WorkItemUpdateService {
       }
 
       const requiresReorder = positioningParamCount > 0 || parentChanged;
-      let calculatedOrderKey: string | null | undefined = undefined;
+      let calculatedOrderKey: string | undefined = undefined;
+      let renumberSteps: CreateUndoStepInput[] = [];
 
       if (requiresReorder) {
         logger.debug(
@@ -124,11 +137,9 @@ export class WorkItemUpdateService {
           keyBefore = await this.workItemRepository.findSiblingEdgeOrderKey(targetParentId, 'last', client);
           keyAfter = null;
         }
-        // MODIFIED: Call calculateOrderKey statically
-        calculatedOrderKey = WorkItemUtilsService.calculateOrderKey(keyBefore, keyAfter);
-        if (calculatedOrderKey === null) {
-          throw new Error(`Failed to calculate a valid order key for moving item "${id}"`);
-        }
+        const placement = await this.orderKeyService.orderKeyBetween(client, targetParentId, keyBefore, keyAfter, id);
+        calculatedOrderKey = placement.orderKey;
+        renumberSteps = placement.undoSteps;
         updatePayload.order_key = calculatedOrderKey;
       }
 
@@ -137,18 +148,27 @@ export class WorkItemUpdateService {
           work_item_id: id, // This is correct as WorkItemRepository.update expects full WorkItemDependencyData
           depends_on_work_item_id: dep.depends_on_work_item_id,
           dependency_type: dep.dependency_type ?? 'finish-to-start',
+          lag_days: dep.lag_days ?? 0,
           is_active: true,
         })) ?? undefined;
 
       const hasCoreUpdates = Object.keys(coreUpdates).some((key) => (coreUpdates as any)[key] !== undefined);
       const hasOrderKeyUpdate = calculatedOrderKey !== undefined && calculatedOrderKey !== itemBeforeUpdate.order_key;
 
-      if (!hasCoreUpdates && !hasOrderKeyUpdate && newDependenciesDesiredState === undefined) {
+      if (
+        !hasCoreUpdates &&
+        !hasOrderKeyUpdate &&
+        renumberSteps.length === 0 &&
+        newDependenciesDesiredState === undefined
+      ) {
         logger.info(
           `[WorkItemUpdateService - DEPRECATED] No effective changes for item ${id}. Skipping update and history.`
         );
         itemAfterUpdate = itemBeforeUpdate;
       } else {
+        if (newDependenciesDesiredState) {
+          await this.cycleService.assertNoCycle(id, newDependenciesDesiredState, client);
+        }
         itemAfterUpdate = await this.workItemRepository.update(client, id, updatePayload, newDependenciesDesiredState);
 
         const depsAfterUpdate = await this.workItemRepository.findDependencies(id, { isActive: false }, client);
@@ -231,7 +251,11 @@ export class WorkItemUpdateService {
           }
         }
 
-        if (itemEffectivelyChanged || dependenciesEffectivelyChanged) {
+        for (const step of renumberSteps) {
+          undoStepsData.push({ ...step, step_order: stepOrder++ });
+        }
+
+        if (itemEffectivelyChanged || dependenciesEffectivelyChanged || renumberSteps.length > 0) {
           const actionDescription = `Updated work item "${itemAfterUpdate!.name}" (via deprecated method)`;
           const actionData: CreateActionHistoryInput = {
             action_type: 'UPDATE_WORK_ITEM',
@@ -246,6 +270,8 @@ export class WorkItemUpdateService {
             );
           }
           await this.historyService.invalidateRedoStack(client, createdAction.action_id);
+          projectId = await this.readingService.getProjectIdOf(itemAfterUpdate!, client);
+          changed = true;
           logger.info(`[WorkItemUpdateService - DEPRECATED] Recorded history for update of work item ${id}.`);
         } else {
           logger.info(
@@ -261,6 +287,9 @@ export class WorkItemUpdateService {
       logger.error(`[WorkItemUpdateService - DEPRECATED] CRITICAL: No item state available for ID ${id}.`);
       throw new Error(`Failed to determine final item state after update for ID ${id}.`);
     }
+    if (changed) {
+      this.sseService.notifyWorkItemUpdated(finalItemState, projectId);
+    }
     const fullUpdatedItem = await this.readingService.getWorkItemById(finalItemState.work_item_id, {
       isActive: finalItemState.is_active,
     });
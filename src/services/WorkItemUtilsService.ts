@@ -3,53 +3,152 @@ import { logger } from '../utils/logger.js';
 // CRITICAL: Ensure NO OTHER IMPORT exists on line 2, especially any self-referential import
 // like "import { WorkItemUtilsService } from '../../WorkItemUtilsService.js';"
 
+// Order keys are strings over these digits, read as base-36 fractions after the point ('i' is 0.5). Plain
+// string comparison then orders them by value, in JavaScript and in the database (byte order), as long as
+// no key ends in '0', which would make two spellings of one value.
+const ORDER_KEY_DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+const ORDER_KEY_PATTERN = /^[0-9a-z]*[1-9a-z]$/;
+
+/** Keys longer than this mean the gap between two siblings is used up and they should be renumbered. */
+export const MAX_ORDER_KEY_LENGTH = 12;
+
+/** A key strictly between `a` (or 0 when empty) and `b` (or 1 when null), preferring short keys. */
+const midpoint = (a: string, b: string | null): string => {
+  if (b !== null) {
+    let common = 0;
+    while ((a[common] ?? '0') === b[common]) {
+      common++;
+    }
+    if (common > 0) {
+      return b.slice(0, common) + midpoint(a.slice(common), b.slice(common));
+    }
+  }
+  const digitA = a ? ORDER_KEY_DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? ORDER_KEY_DIGITS.indexOf(b[0]) : ORDER_KEY_DIGITS.length;
+  if (digitB - digitA > 1) {
+    return ORDER_KEY_DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  if (b !== null && b.length > 1) {
+    return b[0];
+  }
+  return ORDER_KEY_DIGITS[digitA] + midpoint(a.slice(1), null);
+};
+
+/** The shortest key after `key` that increments one of its digits, so appending grows keys slowly. */
+const keyAfterKey = (key: string): string => {
+  for (let index = 0; index < key.length; index++) {
+    if (key[index] !== 'z') {
+      return key.slice(0, index) + ORDER_KEY_DIGITS[ORDER_KEY_DIGITS.indexOf(key[index]) + 1];
+    }
+  }
+  return midpoint(key, null);
+};
+
+/** The shortest key before `key` that decrements one of its digits without ending in '0'. */
+const keyBeforeKey = (key: string): string => {
+  for (let index = 0; index < key.length; index++) {
+    const digit = ORDER_KEY_DIGITS.indexOf(key[index]);
+    if (digit > 1) {
+      return key.slice(0, index) + ORDER_KEY_DIGITS[digit - 1];
+    }
+  }
+  return midpoint('', key);
+};
+
 /**
  * Utility service with helper methods for work item operations
  */
 export class WorkItemUtilsService {
   // No constructor needed as methods are static
 
+  public static isValidOrderKey(key: string | null | undefined): key is string {
+    return typeof key === 'string' && ORDER_KEY_PATTERN.test(key);
+  }
+
+  /** Sorts by order key, the only comparison used for sibling order; items without a key go last. */
+  public static compareOrderKeys(a: string | null | undefined, b: string | null | undefined): number {
+    if (a === b) return 0;
+    if (a === null || a === undefined) return 1;
+    if (b === null || b === undefined) return -1;
+    return a < b ? -1 : 1;
+  }
+
+  /**
+   * A key that sorts between `keyBefore` and `keyAfter`; either may be null for the start or end of the list.
+   * Returns null when the keys are not valid, not in order, or so close that the new key would be longer
+   * than MAX_ORDER_KEY_LENGTH. The siblings need renumbering then (see spreadOrderKeys).
+   */
   public static calculateOrderKey(
     keyBefore: string | null | undefined,
     keyAfter: string | null | undefined
   ): string | null {
-    logger.debug(`[WorkItemUtilsService] Calculating numeric order key. Before: "${keyBefore}", After: "${keyAfter}"`);
+    logger.debug(`[WorkItemUtilsService] Calculating order key. Before: "${keyBefore}", After: "${keyAfter}"`);
 
-    const numBefore = keyBefore ? Number(keyBefore) : null;
-    const numAfter = keyAfter ? Number(keyAfter) : null;
-
-    if (keyBefore && (numBefore === null || isNaN(numBefore))) {
-      logger.error(`[WorkItemUtilsService] Invalid numeric format for keyBefore: "${keyBefore}"`);
+    const before = keyBefore ?? null;
+    const after = keyAfter ?? null;
+    if (before !== null && !WorkItemUtilsService.isValidOrderKey(before)) {
+      logger.warn(`[WorkItemUtilsService] Invalid order key before the gap: "${before}"`);
       return null;
     }
-    if (keyAfter && (numAfter === null || isNaN(numAfter))) {
-      logger.error(`[WorkItemUtilsService] Invalid numeric format for keyAfter: "${keyAfter}"`);
+    if (after !== null && !WorkItemUtilsService.isValidOrderKey(after)) {
+      logger.warn(`[WorkItemUtilsService] Invalid order key after the gap: "${after}"`);
+      return null;
+    }
+    if (before !== null && after !== null && before >= after) {
+      logger.warn(`[WorkItemUtilsService] Order keys "${before}" and "${after}" are not in order.`);
       return null;
     }
 
-    let newKeyNum: number;
-
-    if (numBefore !== null && numAfter !== null) {
-      newKeyNum = (numBefore + numAfter) / 2;
-      logger.debug(`[WorkItemUtilsService] Calculated key between ${numBefore} and ${numAfter}: ${newKeyNum}`);
-    } else if (numBefore !== null && numAfter === null) {
-      newKeyNum = numBefore + 1;
-      logger.debug(`[WorkItemUtilsService] Calculated key after ${numBefore}: ${newKeyNum}`);
-    } else if (numBefore === null && numAfter !== null) {
-      newKeyNum = numAfter - 1;
-      logger.debug(`[WorkItemUtilsService] Calculated key before ${numAfter}: ${newKeyNum}`);
+    let newKey: string;
+    if (before !== null && after !== null) {
+      newKey = midpoint(before, after);
+    } else if (before !== null) {
+      newKey = keyAfterKey(before);
+    } else if (after !== null) {
+      newKey = keyBeforeKey(after);
     } else {
-      newKeyNum = 1000;
-      logger.debug(`[WorkItemUtilsService] Calculated key for first item in empty list: ${newKeyNum}`);
+      newKey = midpoint('', null);
     }
 
-    if (isNaN(newKeyNum) || !isFinite(newKeyNum)) {
-      logger.error(`[WorkItemUtilsService] Calculation resulted in invalid number: ${newKeyNum}`);
+    if (newKey.length > MAX_ORDER_KEY_LENGTH) {
+      logger.info(`[WorkItemUtilsService] No room between "${before}" and "${after}"; siblings need renumbering.`);
       return null;
     }
+    logger.debug(`[WorkItemUtilsService] Generated order key: ${newKey}`);
+    return newKey;
+  }
+
+  /**
+   * `count` evenly spaced keys in ascending order, at least 36 steps apart at their last digit, so every gap
+   * and both ends have room for many insertions.
+   */
+  public static spreadOrderKeys(count: number): string[] {
+    let length = 1;
+    while (ORDER_KEY_DIGITS.length ** (length - 1) < count + 1) {
+      length++;
+    }
+    const space = ORDER_KEY_DIGITS.length ** length;
+    const keys: string[] = [];
+    for (let position = 1; position <= count; position++) {
+      const value = Math.floor((position * space) / (count + 1));
+      keys.push(value.toString(36).padStart(length, '0').replace(/0+$/, ''));
+    }
+    return keys;
+  }
 
-    const newKeyStr = String(newKeyNum);
-    logger.info(`[WorkItemUtilsService] Generated numeric order key: ${newKeyStr}`);
-    return newKeyStr;
+  /**
+   * The start and completion times of an item created with `status` at `at`. Later status changes keep
+   * them up to date in the repository. Times carried over from elsewhere (e.g. an export) are kept where
+   * the status allows them.
+   */
+  public static statusTimestamps(
+    status: string,
+    at: string,
+    carried?: { started_at?: string | null; completed_at?: string | null }
+  ): { started_at: string | null; completed_at: string | null } {
+    return {
+      started_at: status === 'todo' ? null : (carried?.started_at ?? at),
+      completed_at: status === 'done' ? (carried?.completed_at ?? at) : null,
+    };
   }
 }
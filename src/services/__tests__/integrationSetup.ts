@@ -1,7 +1,8 @@
 // src/services/__tests__/integrationSetup.ts
-import { Pool, type PoolClient } from 'pg';
 import net from 'node:net'; // Import the 'net' module for TCP checks
 import { DatabaseManager } from '../../db/DatabaseManager.js';
+import type { DbClient, DbPool } from '../../db/DatabaseTypes.js';
+import { getSqlDialect } from '../../db/SqlDialect.js';
 import { ConfigurationManager } from '../../config/ConfigurationManager.js';
 import { WorkItemRepository, ActionHistoryRepository } from '../../repositories/index.js';
 import { WorkItemService } from '../WorkItemService.js';
@@ -67,20 +68,24 @@ async function checkDatabaseConnection(host: string, port: number): Promise<void
 // --- End Helper Function ---
 
 // Helper function to set up test environment
+// Runs against PostgreSQL unless STORAGE_BACKEND says otherwise (`npm run test:integration:memory`).
 export async function setupTestEnvironment() {
   // Ensure correct test database is used
   process.env.PGDATABASE = process.env.PGDATABASE ?? 'taskmanager_db';
 
   // Initialize configuration
   const configManager = ConfigurationManager.getInstance();
-  const dbHost = configManager.getPgHost();
-  const dbPort = configManager.getPgPort();
 
-  // --- Check connection availability before initializing DatabaseManager ---
-  logger.debug(`[integrationSetup] Running pre-connection check for ${dbHost}:${dbPort}...`);
-  await checkDatabaseConnection(dbHost, dbPort);
-  logger.debug(`[integrationSetup] Pre-connection check passed for ${dbHost}:${dbPort}.`);
-  // --- End Check ---
+  if (configManager.getStorageBackend() === 'postgres') {
+    const dbHost = configManager.getPgHost();
+    const dbPort = configManager.getPgPort();
+
+    // --- Check connection availability before initializing DatabaseManager ---
+    logger.debug(`[integrationSetup] Running pre-connection check for ${dbHost}:${dbPort}...`);
+    await checkDatabaseConnection(dbHost, dbPort);
+    logger.debug(`[integrationSetup] Pre-connection check passed for ${dbHost}:${dbPort}.`);
+    // --- End Check ---
+  }
 
   // Initialize database (NOW should be more likely to succeed immediately)
   const dbManager = await DatabaseManager.getInstance();
@@ -100,22 +105,28 @@ export async function setupTestEnvironment() {
 }
 
 // Helper to clean database before each test
-export async function cleanDatabase(pool: Pool) {
+export async function cleanDatabase(pool: DbPool) {
   logger.debug('[integrationSetup] Starting database clean up...');
-  let client: PoolClient | null = null;
+  // SQLite has no TRUNCATE; deleting in dependency order does the same there.
+  const isPostgres = getSqlDialect(pool).backend === 'postgres';
+  const clearTable = (table: string) => (isPostgres ? `TRUNCATE TABLE ${table} CASCADE` : `DELETE FROM ${table}`);
+  let client: DbClient | null = null;
   try {
     client = await pool.connect();
     logger.debug('[integrationSetup] Acquired client for cleanup.');
     await client.query('BEGIN');
     // Truncate tables... (ensure correct order)
     logger.debug('[integrationSetup] Truncating undo_steps CASCADE...');
-    await client.query('TRUNCATE TABLE undo_steps CASCADE');
+    await client.query(clearTable('undo_steps'));
     logger.debug('[integrationSetup] Truncating action_history CASCADE...');
-    await client.query('TRUNCATE TABLE action_history CASCADE');
+    await client.query(clearTable('action_history'));
     logger.debug('[integrationSetup] Truncating work_item_dependencies CASCADE...');
-    await client.query('TRUNCATE TABLE work_item_dependencies CASCADE');
+    await client.query(clearTable('work_item_dependencies'));
     logger.debug('[integrationSetup] Truncating work_items CASCADE...');
-    await client.query('TRUNCATE TABLE work_items CASCADE');
+    await client.query(clearTable('work_items'));
+    logger.debug('[integrationSetup] Truncating work_item_template_versions and work_item_templates CASCADE...');
+    await client.query(clearTable('work_item_template_versions'));
+    await client.query(clearTable('work_item_templates'));
     await client.query('COMMIT');
     logger.debug('[integrationSetup] Database clean up committed.');
   } catch (error) {
@@ -0,0 +1,100 @@
+// File: src/services/__tests__/unit/InMemoryRepositories.spec.ts
+import { v4 as uuidv4 } from 'uuid';
+import {
+  createInMemoryRepositories,
+  type InMemoryRepositories,
+  type WorkItemData,
+} from '../../../repositories/index.js';
+import { WorkItemService } from '../../WorkItemService.js';
+import { SseNotificationService } from '../../SseNotificationService.js';
+
+const buildItem = (name: string): WorkItemData => {
+  const now = new Date().toISOString();
+  return {
+    work_item_id: uuidv4(),
+    parent_work_item_id: null,
+    name,
+    description: null,
+    status: 'todo',
+    priority: 'medium',
+    order_key: '1',
+    created_at: now,
+    updated_at: now,
+    due_date: null,
+    is_active: true,
+    tags: [],
+    estimated_duration_days: null,
+    started_at: null,
+    completed_at: null,
+  };
+};
+
+describe('In-memory repositories Unit Tests', () => {
+  let repositories: InMemoryRepositories;
+
+  beforeEach(async () => {
+    repositories = await createInMemoryRepositories();
+  });
+
+  afterEach(async () => {
+    await repositories.pool.end();
+  });
+
+  it('should commit the work done inside withTransaction', async () => {
+    const { workItemRepository, actionHistoryRepository } = repositories;
+    const item = buildItem('Committed');
+
+    await actionHistoryRepository.withTransaction(async (client) => {
+      await workItemRepository.create(client, item);
+      await actionHistoryRepository.createActionInClient(
+        { action_type: 'ADD_WORK_ITEM', work_item_id: item.work_item_id, description: 'add' },
+        client
+      );
+    });
+
+    expect(await workItemRepository.findById(item.work_item_id)).toMatchObject({ name: 'Committed', is_active: true });
+    expect(await actionHistoryRepository.findLastOriginalAction()).toMatchObject({ work_item_id: item.work_item_id });
+  });
+
+  it('should roll back everything written inside withTransaction when the callback throws', async () => {
+    const { workItemRepository, actionHistoryRepository } = repositories;
+    const item = buildItem('Rolled back');
+
+    await expect(
+      actionHistoryRepository.withTransaction(async (client) => {
+        await workItemRepository.create(client, item);
+        await actionHistoryRepository.createActionInClient(
+          { action_type: 'ADD_WORK_ITEM', work_item_id: item.work_item_id, description: 'add' },
+          client
+        );
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(await workItemRepository.findById(item.work_item_id)).toBeUndefined();
+    expect(await actionHistoryRepository.findLastOriginalAction()).toBeUndefined();
+
+    // The connection is usable again once the failed transaction has released it.
+    await actionHistoryRepository.withTransaction((client) => workItemRepository.create(client, item));
+    expect(await workItemRepository.findById(item.work_item_id)).toBeDefined();
+  });
+
+  it('should give every call its own empty store that can back a WorkItemService', async () => {
+    const service = new WorkItemService(
+      repositories.workItemRepository,
+      repositories.actionHistoryRepository,
+      new SseNotificationService({ heartbeatIntervalMs: 0 })
+    );
+    const project = await service.addWorkItem({ name: 'Scratch project' });
+
+    const other = await createInMemoryRepositories();
+    try {
+      expect(await other.workItemRepository.findById(project.work_item_id)).toBeUndefined();
+    } finally {
+      await other.pool.end();
+    }
+
+    await service.undoLastAction();
+    expect(await service.getWorkItemById(project.work_item_id, { isActive: true })).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+// File: src/services/__tests__/unit/MigrationRunner.spec.ts
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { SqlitePool } from '../../../db/SqlitePool.js';
+import { MigrationRunner } from '../../../db/MigrationRunner.js';
+
+describe('MigrationRunner Unit Tests', () => {
+  let pool: SqlitePool;
+  let migrationsDir: string;
+
+  const writeMigration = (fileName: string, sql: string) => fs.writeFileSync(path.join(migrationsDir, fileName), sql);
+  const tableNames = async () =>
+    (await pool.query(`SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name`)).rows.map((r) => r.name);
+
+  beforeEach(() => {
+    pool = new SqlitePool(':memory:');
+    migrationsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrations-'));
+    writeMigration('0001_create_notes.sql', 'CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT NOT NULL);');
+    writeMigration('0002_add_note_title.sql', 'ALTER TABLE notes ADD COLUMN title TEXT;');
+    writeMigration('README.md', 'Not a migration.');
+  });
+
+  afterEach(async () => {
+    await pool.end();
+    fs.rmSync(migrationsDir, { recursive: true, force: true });
+  });
+
+  it('should apply pending migrations in version order and record them', async () => {
+    const runner = new MigrationRunner(pool, migrationsDir);
+    expect((await runner.getStatus()).map((s) => [s.version, s.state])).toEqual([
+      [1, 'pending'],
+      [2, 'pending'],
+    ]);
+
+    const applied = await runner.migrate();
+    expect(applied.map((m) => m.name)).toEqual(['create_notes', 'add_note_title']);
+    await pool.query('INSERT INTO notes (body, title) VALUES ($1, $2)', ['kept', 'Title']);
+
+    writeMigration('0003_create_labels.sql', 'CREATE TABLE labels (id INTEGER PRIMARY KEY);');
+    expect((await runner.migrate()).map((m) => m.version)).toEqual([3]);
+    expect(await runner.migrate()).toEqual([]);
+
+    const statuses = await runner.getStatus();
+    expect(statuses.every((s) => s.state === 'applied' && s.applied_at !== null)).toBe(true);
+    expect((await pool.query('SELECT body FROM notes')).rows).toEqual([{ body: 'kept' }]);
+  });
+
+  it('should roll back a failing migration together with its bookkeeping row', async () => {
+    writeMigration('0003_broken.sql', 'CREATE TABLE labels (id INTEGER PRIMARY KEY); INSERT INTO missing VALUES (1);');
+    const runner = new MigrationRunner(pool, migrationsDir);
+
+    await expect(runner.migrate()).rejects.toThrow('Migration 3_broken failed.');
+    expect(await tableNames()).not.toContain('labels');
+    expect((await runner.getStatus()).map((s) => s.state)).toEqual(['applied', 'applied', 'pending']);
+  });
+
+  it('should refuse to migrate when an applied migration was modified or removed', async () => {
+    const runner = new MigrationRunner(pool, migrationsDir);
+    await runner.migrate();
+
+    writeMigration('0002_add_note_title.sql', 'ALTER TABLE notes ADD COLUMN subtitle TEXT;');
+    writeMigration('0003_create_labels.sql', 'CREATE TABLE labels (id INTEGER PRIMARY KEY);');
+    await expect(runner.migrate()).rejects.toThrow('2_add_note_title is modified');
+
+    fs.rmSync(path.join(migrationsDir, '0002_add_note_title.sql'));
+    expect((await runner.getStatus()).map((s) => [s.version, s.state])).toEqual([
+      [1, 'applied'],
+      [2, 'missing'],
+      [3, 'pending'],
+    ]);
+    await expect(runner.migrate()).rejects.toThrow('2_add_note_title is missing');
+    expect(await tableNames()).not.toContain('labels');
+  });
+
+  it('should ignore line-ending differences when comparing checksums', async () => {
+    const lines = ['CREATE TABLE notes (', '  id INTEGER PRIMARY KEY,', '  body TEXT NOT NULL', ');', ''];
+    writeMigration('0001_create_notes.sql', lines.join('\n'));
+    const runner = new MigrationRunner(pool, migrationsDir);
+    await runner.migrate();
+
+    writeMigration('0001_create_notes.sql', lines.join('\r\n'));
+    expect((await runner.getStatus())[0].state).toBe('applied');
+  });
+
+  it('should bring a new database up to the bundled schema', async () => {
+    await new MigrationRunner(pool).migrate();
+    expect(await tableNames()).toEqual(
+      expect.arrayContaining([
+        'action_history',
+        'schema_migrations',
+        'undo_steps',
+        'work_item_dependencies',
+        'work_items',
+      ])
+    );
+  });
+});
@@ -0,0 +1,63 @@
+// File: src/services/__tests__/unit/OpenApiDocument.spec.ts
+import { type Router } from 'express';
+import { buildOpenApiDocument } from '../../../api/openApiDocument.js';
+import { workItemRoutes } from '../../../api/workItemRoutes.js';
+import { projectRoutes } from '../../../api/projectRoutes.js';
+import { type WorkItemService } from '../../WorkItemService.js';
+
+// Lists "METHOD /path" for every route of an Express router, with `:param` written as `{param}`.
+const routesOf = (router: Router): string[] =>
+  router.stack.flatMap((layer: any) =>
+    layer.route
+      ? Object.keys(layer.route.methods).map(
+          (method) => `${method.toUpperCase()} ${layer.route.path.replace(/:(\w+)/g, '{$1}')}`
+        )
+      : []
+  );
+
+describe('OpenAPI document Unit Tests', () => {
+  const document = buildOpenApiDocument() as any;
+
+  it('should document every REST route', () => {
+    const service = {} as WorkItemService;
+    const documented = Object.entries(document.paths).flatMap(([path, operations]) =>
+      Object.keys(operations as object).map((method) => `${method.toUpperCase()} ${path}`)
+    );
+
+    for (const route of [...routesOf(workItemRoutes(service)), ...routesOf(projectRoutes(service))]) {
+      expect(documented).toContain(route);
+    }
+  });
+
+  it('should resolve every schema reference', () => {
+    const refs = JSON.stringify(document).match(/"\$ref":"#\/components\/schemas\/[^"]+"/g) ?? [];
+    expect(refs.length).toBeGreaterThan(0);
+    for (const ref of refs) {
+      const pointer = ref.slice('"$ref":"#/'.length, -1).split('/');
+      const target = pointer.reduce((node: any, key) => node?.[key], document);
+      expect({ ref, resolved: target !== undefined }).toEqual({ ref, resolved: true });
+    }
+  });
+
+  it('should derive request bodies from the tool schemas without the path parameters', () => {
+    const addDependencies = document.components.schemas.AddDependenciesRequest;
+    expect(Object.keys(addDependencies.properties)).toEqual(['dependencies_to_add']);
+    expect(addDependencies.properties.dependencies_to_add.maxItems).toBe(50);
+    expect(document.paths['/work-items/{id}/dependencies'].post.requestBody.content['application/json'].schema).toEqual(
+      { $ref: '#/components/schemas/AddDependenciesRequest' }
+    );
+  });
+
+  it('should describe recursive trees by reference', () => {
+    const treeNode = document.components.schemas.WorkItemTreeNode;
+    expect(treeNode.properties.children.items).toEqual({ $ref: '#/components/schemas/WorkItemTreeNode' });
+    expect(treeNode.required).toEqual(expect.arrayContaining(['work_item_id', 'dependencies', 'dependents']));
+  });
+
+  it('should turn query schemas into typed query parameters', () => {
+    const parameters = document.paths['/work-items'].get.parameters;
+    expect(parameters).toContainEqual(
+      expect.objectContaining({ name: 'roots_only', in: 'query', required: false, schema: { type: 'boolean' } })
+    );
+  });
+});
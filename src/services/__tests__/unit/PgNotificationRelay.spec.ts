@@ -0,0 +1,87 @@
+// File: src/services/__tests__/unit/PgNotificationRelay.spec.ts
+import { type Pool } from 'pg';
+import { PgNotificationRelay, PG_NOTIFY_CHANNEL } from '../../PgNotificationRelay.js';
+import { SseNotificationService, type SseEvent } from '../../SseNotificationService.js';
+
+class RecordingSseNotificationService extends SseNotificationService {
+  public delivered: SseEvent[] = [];
+
+  public deliver(event: SseEvent): void {
+    this.delivered.push(event);
+  }
+}
+
+// Minimal stand-in for a pg Pool that records the queries it is asked to run.
+class RecordingPool {
+  public queries: { text: string; values: unknown[] }[] = [];
+
+  async query(text: string, values: unknown[]): Promise<void> {
+    this.queries.push({ text, values });
+  }
+
+  asPool(): Pool {
+    return this as unknown as Pool;
+  }
+}
+
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('PgNotificationRelay Unit Tests', () => {
+  const event: SseEvent = { type: 'projectTreeUpdated', payload: { projectId: 'project-a', reason: 'item_updated' } };
+  let pool: RecordingPool;
+  let sseService: RecordingSseNotificationService;
+
+  beforeEach(() => {
+    pool = new RecordingPool();
+    sseService = new RecordingSseNotificationService({ heartbeatIntervalMs: 0 });
+  });
+
+  it('should publish broadcast events with pg_notify', async () => {
+    const relay = new PgNotificationRelay(async () => pool.asPool(), sseService);
+    sseService.setRelay(relay);
+
+    sseService.broadcast(event);
+    await flushPromises();
+
+    expect(pool.queries).toHaveLength(1);
+    expect(pool.queries[0].text).toBe('SELECT pg_notify($1, $2)');
+    expect(pool.queries[0].values[0]).toBe(PG_NOTIFY_CHANNEL);
+    expect(JSON.parse(pool.queries[0].values[1] as string).event).toEqual(event);
+    expect(sseService.delivered).toEqual([event]);
+  });
+
+  it('should deliver events published by other processes but not its own', async () => {
+    const publisher = new PgNotificationRelay(async () => pool.asPool(), new SseNotificationService());
+    const listener = new PgNotificationRelay(async () => pool.asPool(), sseService);
+
+    publisher.publish(event);
+    listener.publish(event);
+    await flushPromises();
+    const [fromOtherProcess, fromSelf] = pool.queries.map((query) => query.values[1] as string);
+
+    listener.handleNotification(fromSelf);
+    expect(sseService.delivered).toHaveLength(0);
+
+    listener.handleNotification(fromOtherProcess);
+    expect(sseService.delivered).toEqual([event]);
+  });
+
+  it('should ignore empty or malformed notifications', () => {
+    const relay = new PgNotificationRelay(async () => pool.asPool(), sseService);
+
+    relay.handleNotification(undefined);
+    relay.handleNotification('not json');
+    relay.handleNotification(JSON.stringify({ origin: 'other' }));
+
+    expect(sseService.delivered).toHaveLength(0);
+  });
+
+  it('should not fail the caller when publishing fails', async () => {
+    const relay = new PgNotificationRelay(async () => {
+      throw new Error('database unavailable');
+    }, sseService);
+
+    expect(() => relay.publish(event)).not.toThrow();
+    await flushPromises();
+  });
+});
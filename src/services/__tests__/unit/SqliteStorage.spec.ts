@@ -0,0 +1,172 @@
+// File: src/services/__tests__/unit/SqliteStorage.spec.ts
+import { SqlitePool, translateSql } from '../../../db/SqlitePool.js';
+import { MigrationRunner } from '../../../db/MigrationRunner.js';
+import { WorkItemRepository, ActionHistoryRepository } from '../../../repositories/index.js';
+import { WorkItemService } from '../../WorkItemService.js';
+import { SseNotificationService } from '../../SseNotificationService.js';
+
+describe('SQLite storage backend Unit Tests', () => {
+  describe('translateSql', () => {
+    it('should turn numbered placeholders into positional ones, repeating reused values', () => {
+      const { sql, params } = translateSql('SELECT * FROM t WHERE a = $2 AND (b LIKE $1 OR c LIKE $1)', ['x', 2]);
+      expect(sql).toBe('SELECT * FROM t WHERE a = ? AND (b LIKE ? OR c LIKE ?)');
+      expect(params).toEqual([2, 'x', 'x']);
+    });
+
+    it('should drop casts and comments and encode booleans and arrays', () => {
+      const { sql, params } = translateSql(
+        'SELECT COUNT(*)::int FROM t WHERE name ILIKE $1 -- was $3\nAND tags = $2::text[] AND is_active = $3',
+        ['%a%', ['x', 'y'], true]
+      );
+      expect(sql).toBe('SELECT COUNT(*) FROM t WHERE name LIKE ? \nAND tags = ? AND is_active = ?');
+      expect(params).toEqual(['%a%', '["x","y"]', 1]);
+    });
+  });
+
+  describe('SqlitePool', () => {
+    let pool: SqlitePool;
+
+    beforeEach(() => {
+      pool = new SqlitePool(':memory:');
+      pool.exec('CREATE TABLE t (value INTEGER);');
+    });
+
+    afterEach(async () => {
+      await pool.end();
+    });
+
+    it('should hold pool queries until an open transaction is released', async () => {
+      const client = await pool.connect();
+      await client.query('BEGIN');
+      await client.query('INSERT INTO t (value) VALUES ($1)', [1]);
+
+      const outside = pool.query('SELECT COUNT(*) AS count FROM t');
+      await client.query('ROLLBACK');
+      client.release();
+
+      expect((await outside).rows).toEqual([{ count: 0 }]);
+    });
+
+    it('should run pool queries made by the holder of the open transaction in its turn', async () => {
+      const client = await pool.connect();
+      await client.query('BEGIN');
+      const count = await pool.runAsHolder(client, async () => {
+        await client.query('INSERT INTO t (value) VALUES ($1)', [1]);
+        return (await pool.query('SELECT COUNT(*) AS count FROM t')).rows[0].count;
+      });
+      await client.query('COMMIT');
+      client.release();
+
+      expect(count).toBe(1);
+    });
+  });
+
+  describe('WorkItemService on SQLite', () => {
+    let pool: SqlitePool;
+    let service: WorkItemService;
+
+    beforeEach(async () => {
+      pool = new SqlitePool(':memory:');
+      await new MigrationRunner(pool).migrate();
+      service = new WorkItemService(
+        new WorkItemRepository(pool),
+        new ActionHistoryRepository(pool),
+        new SseNotificationService({ heartbeatIntervalMs: 0 })
+      );
+    });
+
+    afterEach(async () => {
+      await pool.end();
+    });
+
+    it('should store tags, booleans and order keys in the shapes PostgreSQL returns', async () => {
+      const project = await service.addWorkItem({ name: 'Project' });
+      const first = await service.addWorkItem({
+        parent_work_item_id: project.work_item_id,
+        name: 'First',
+        tags: ['a'],
+      });
+      const second = await service.addWorkItem({ parent_work_item_id: project.work_item_id, name: 'Second' });
+
+      const children = await service.listWorkItems({ parent_work_item_id: project.work_item_id });
+      expect(children.map((item) => item.name)).toEqual(['First', 'Second']);
+      expect(children[0]).toMatchObject({ is_active: true, tags: ['a'] });
+      expect(typeof children[0].order_key).toBe('string');
+      expect(first.order_key! < second.order_key!).toBe(true);
+    });
+
+    it('should filter the next task by tags, dependencies and project scope', async () => {
+      const project = await service.addWorkItem({ name: 'Project' });
+      const otherProject = await service.addWorkItem({ name: 'Other' });
+      const blocker = await service.addWorkItem({
+        parent_work_item_id: project.work_item_id,
+        name: 'Blocker',
+        tags: ['backend', 'slow'],
+      });
+      const blocked = await service.addWorkItem({
+        parent_work_item_id: project.work_item_id,
+        name: 'Blocked',
+        priority: 'high',
+        tags: ['backend'],
+        dependencies: [{ depends_on_work_item_id: blocker.work_item_id }],
+      });
+      await service.addWorkItem({
+        parent_work_item_id: otherProject.work_item_id,
+        name: 'Elsewhere',
+        priority: 'high',
+      });
+
+      const scoped = await service.getNextTask({ scope_item_id: project.work_item_id });
+      expect(scoped?.work_item_id).toBe(blocker.work_item_id);
+      expect(await service.getNextTask({ scope_item_id: project.work_item_id, exclude_tags: ['slow'] })).toBeNull();
+      const tagged = await service.getNextTask({ include_tags: ['backend', 'slow'] });
+      expect(tagged?.work_item_id).toBe(blocker.work_item_id);
+
+      await service.setStatus(blocker.work_item_id, 'done');
+      const unblocked = await service.getNextTask({ scope_item_id: project.work_item_id });
+      expect(unblocked?.work_item_id).toBe(blocked.work_item_id);
+    });
+
+    it('should count tag usage per project', async () => {
+      const project = await service.addWorkItem({ name: 'Project' });
+      await service.addWorkItem({ parent_work_item_id: project.work_item_id, name: 'A', tags: ['x', 'y'] });
+      await service.addWorkItem({ parent_work_item_id: project.work_item_id, name: 'B', tags: ['x'] });
+
+      expect(await service.listTags(project.work_item_id)).toEqual([
+        {
+          project_id: project.work_item_id,
+          project_name: 'Project',
+          tags: [
+            { tag: 'x', count: 2 },
+            { tag: 'y', count: 1 },
+          ],
+        },
+      ]);
+    });
+
+    it('should undo and redo changes recorded in undo steps', async () => {
+      const project = await service.addWorkItem({ name: 'Project' });
+      const task = await service.addWorkItem({ parent_work_item_id: project.work_item_id, name: 'Task', tags: ['a'] });
+
+      await service.setTags(task.work_item_id, ['b', 'c']);
+      await service.undoLastAction();
+      expect((await service.getWorkItemById(task.work_item_id))?.tags).toEqual(['a']);
+
+      await service.redoLastUndo();
+      expect((await service.getWorkItemById(task.work_item_id))?.tags).toEqual(['b', 'c']);
+    });
+
+    it('should delete descendants and restore them on undo', async () => {
+      const project = await service.addWorkItem({ name: 'Project' });
+      const parent = await service.addWorkItem({ parent_work_item_id: project.work_item_id, name: 'Parent' });
+      const child = await service.addWorkItem({ parent_work_item_id: parent.work_item_id, name: 'Child' });
+
+      expect(await service.deleteWorkItem([parent.work_item_id])).toBe(2);
+      expect(await service.getWorkItemById(child.work_item_id, { isActive: true })).toBeNull();
+
+      await service.undoLastAction();
+      const tree = await service.getFullTree(project.work_item_id);
+      expect(tree?.children?.[0]?.children?.map((node) => node.work_item_id)).toEqual([child.work_item_id]);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+// File: src/services/__tests__/unit/SseNotificationService.spec.ts
+import { EventEmitter } from 'node:events';
+import { type Response } from 'express';
+import { SseNotificationService } from '../../SseNotificationService.js';
+
+// Minimal stand-in for an Express response that records what is written to the stream.
+class RecordingStream extends EventEmitter {
+  public chunks: string[] = [];
+  public headers: Record<string, string> = {};
+
+  setHeader(name: string, value: string): void {
+    this.headers[name] = value;
+  }
+
+  flushHeaders(): void {}
+
+  write(chunk: string): boolean {
+    this.chunks.push(chunk);
+    return true;
+  }
+
+  asResponse(): Response {
+    return this as unknown as Response;
+  }
+
+  eventIds(): number[] {
+    return this.chunks.flatMap((chunk) => {
+      const match = /^id: boot-(\d+)\n/.exec(chunk);
+      return match ? [Number(match[1])] : [];
+    });
+  }
+}
+
+const broadcastUpdates = (service: SseNotificationService, count: number): void => {
+  for (let i = 0; i < count; i++) {
+    service.broadcast({ type: 'projectListUpdated', payload: { reason: `update-${i}` } });
+  }
+};
+
+describe('SseNotificationService Unit Tests', () => {
+  it('should assign monotonically increasing ids to broadcast events', () => {
+    const service = new SseNotificationService({ bootId: 'boot', heartbeatIntervalMs: 0 });
+    const stream = new RecordingStream();
+    service.addClient(stream.asResponse());
+
+    broadcastUpdates(service, 3);
+
+    expect(stream.headers['Content-Type']).toBe('text/event-stream');
+    expect(stream.chunks[0]).toMatch(/^event: connected\n/);
+    expect(stream.eventIds()).toEqual([1, 2, 3]);
+    expect(stream.chunks[3]).toBe('id: boot-3\nevent: projectListUpdated\ndata: {"reason":"update-2"}\n\n');
+  });
+
+  it('should replay events missed since Last-Event-ID, including those broadcast without clients', () => {
+    const service = new SseNotificationService({ bootId: 'boot', heartbeatIntervalMs: 0 });
+    broadcastUpdates(service, 5);
+
+    const stream = new RecordingStream();
+    service.addClient(stream.asResponse(), { lastEventId: 'boot-2' });
+
+    expect(stream.eventIds()).toEqual([3, 4, 5]);
+    expect(stream.chunks.some((chunk) => chunk.includes('event: resync'))).toBe(false);
+  });
+
+  it('should replay nothing when the client is up to date', () => {
+    const service = new SseNotificationService({ bootId: 'boot', heartbeatIntervalMs: 0 });
+    broadcastUpdates(service, 2);
+
+    const stream = new RecordingStream();
+    service.addClient(stream.asResponse(), { lastEventId: 'boot-2' });
+
+    expect(stream.chunks).toHaveLength(1);
+  });
+
+  it('should send resync when the missed events are no longer buffered', () => {
+    const service = new SseNotificationService({ bootId: 'boot', bufferSize: 3, heartbeatIntervalMs: 0 });
+    broadcastUpdates(service, 6);
+
+    const stream = new RecordingStream();
+    service.addClient(stream.asResponse(), { lastEventId: 'boot-1' });
+
+    expect(stream.chunks).toHaveLength(2);
+    expect(stream.chunks[1]).toBe('id: boot-6\nevent: resync\ndata: {"lastEventId":"boot-6"}\n\n');
+  });
+
+  it('should send resync for ids it never issued or cannot parse', () => {
+    const service = new SseNotificationService({ bootId: 'boot', heartbeatIntervalMs: 0 });
+    broadcastUpdates(service, 2);
+
+    const fromFuture = new RecordingStream();
+    service.addClient(fromFuture.asResponse(), { lastEventId: 'boot-50' });
+    const garbage = new RecordingStream();
+    service.addClient(garbage.asResponse(), { lastEventId: 'abc' });
+
+    expect(fromFuture.chunks[1]).toMatch(/^id: boot-2\nevent: resync\n/);
+    expect(garbage.chunks[1]).toMatch(/^id: boot-2\nevent: resync\n/);
+  });
+
+  it('should send resync for ids issued before a restart, even if they are in range', () => {
+    const beforeRestart = new SseNotificationService({ bootId: 'old', heartbeatIntervalMs: 0 });
+    broadcastUpdates(beforeRestart, 2);
+    const service = new SseNotificationService({ bootId: 'boot', heartbeatIntervalMs: 0 });
+    broadcastUpdates(service, 5);
+
+    const stream = new RecordingStream();
+    service.addClient(stream.asResponse(), { lastEventId: 'old-2' });
+    const legacy = new RecordingStream();
+    service.addClient(legacy.asResponse(), { lastEventId: '2' });
+
+    expect(stream.eventIds()).toEqual([5]);
+    expect(stream.chunks[1]).toMatch(/^id: boot-5\nevent: resync\n/);
+    expect(legacy.chunks[1]).toMatch(/^id: boot-5\nevent: resync\n/);
+  });
+
+  it('should deliver tree events only to clients subscribed to that project', () => {
+    const service = new SseNotificationService({ bootId: 'boot', heartbeatIntervalMs: 0 });
+    const viewingA = new RecordingStream();
+    service.addClient(viewingA.asResponse(), { projectIds: ['project-a'] });
+    const viewingAandB = new RecordingStream();
+    service.addClient(viewingAandB.asResponse(), { projectIds: ['project-a', 'project-b'] });
+    const unfiltered = new RecordingStream();
+    service.addClient(unfiltered.asResponse());
+
+    service.notifyProjectsChanged(['project-b'], 'item_updated', false);
+    service.notifyProjectsChanged(['project-a'], 'item_updated', false);
+    service.notifyProjectsChanged(['project-c'], 'item_updated', false);
+
+    expect(viewingA.eventIds()).toEqual([2]);
+    expect(viewingAandB.eventIds()).toEqual([1, 2]);
+    expect(unfiltered.eventIds()).toEqual([1, 2, 3]);
+  });
+
+  it('should deliver project list events to every client', () => {
+    const service = new SseNotificationService({ bootId: 'boot', heartbeatIntervalMs: 0 });
+    const viewingA = new RecordingStream();
+    service.addClient(viewingA.asResponse(), { projectIds: ['project-a'] });
+
+    service.notifyProjectsChanged(['project-b'], 'undo', true);
+
+    expect(viewingA.eventIds()).toEqual([1]);
+    expect(viewingA.chunks[1]).toMatch(/^id: boot-1\nevent: projectListUpdated\n/);
+  });
+
+  it('should replay only the missed events the client is subscribed to', () => {
+    const service = new SseNotificationService({ bootId: 'boot', heartbeatIntervalMs: 0 });
+    service.notifyProjectsChanged(['project-a'], 'item_updated', false);
+    service.notifyProjectsChanged(['project-b'], 'item_updated', true);
+    service.notifyProjectsChanged(['project-a'], 'item_deleted', false);
+
+    const stream = new RecordingStream();
+    service.addClient(stream.asResponse(), { lastEventId: 'boot-1', projectIds: ['project-a'] });
+
+    expect(stream.eventIds()).toEqual([2, 4]);
+  });
+
+  it('should write heartbeat comments while clients are connected', async () => {
+    const service = new SseNotificationService({ bootId: 'boot', heartbeatIntervalMs: 10 });
+    const stream = new RecordingStream();
+    service.addClient(stream.asResponse());
+    const heartbeats = () => stream.chunks.filter((chunk) => chunk.startsWith(': heartbeat')).length;
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(heartbeats()).toBeGreaterThanOrEqual(1);
+
+    stream.emit('close');
+    expect(service.clients).toHaveLength(0);
+    const countAfterClose = heartbeats();
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(heartbeats()).toBe(countAfterClose);
+  });
+});
@@ -0,0 +1,168 @@
+// File: src/services/__tests__/unit/WorkItemExportService.spec.ts
+import { WorkItemExportService } from '../../WorkItemExportService.js';
+import { type WorkItemData, type WorkItemRepository } from '../../../repositories/index.js';
+import { CURRENT_EXPORT_FORMAT_VERSION, EXPORT_FORMAT_NAME } from '../../../tools/export_project_params.js';
+
+const ROOT_ID = '11111111-1111-4111-8111-111111111111';
+const CHILD_A_ID = '22222222-2222-4222-8222-222222222222';
+const CHILD_B_ID = '33333333-3333-4333-8333-333333333333';
+const PROMOTED_ID = '44444444-4444-4444-8444-444444444444';
+const OTHER_PARENT_ID = '55555555-5555-4555-8555-555555555555';
+
+describe('WorkItemExportService Unit Tests', () => {
+  describe('exportProject', () => {
+    it('should refuse to export a status the import format cannot represent', async () => {
+      const root = {
+        work_item_id: ROOT_ID,
+        parent_work_item_id: null,
+        name: 'Project',
+        status: 'blocked',
+        is_active: true,
+      } as WorkItemData;
+      const repository = {
+        findById: async () => root,
+        findChildren: async () => [],
+      } as unknown as WorkItemRepository;
+
+      await expect(new WorkItemExportService(repository).exportProject(ROOT_ID)).rejects.toMatchObject({
+        errorCode: 'ValidationError',
+        message: expect.stringContaining('has status "blocked"'),
+      });
+    });
+  });
+
+  describe('parseProjectExport', () => {
+    it('should accept a current-version document unchanged', () => {
+      const document = {
+        format: EXPORT_FORMAT_NAME,
+        format_version: CURRENT_EXPORT_FORMAT_VERSION,
+        exported_at: '2025-01-01T00:00:00.000Z',
+        include_inactive: false,
+        project: {
+          local_id: ROOT_ID,
+          name: 'Project',
+          tags: ['a'],
+          children: [{ local_id: CHILD_A_ID, name: 'Child', order_key: '1000' }],
+        },
+        linked_from_work_item_ids: [OTHER_PARENT_ID],
+      };
+      const parsed = WorkItemExportService.parseProjectExport(document);
+      expect(parsed).toEqual(document);
+    });
+
+    it('should reject unsupported format versions', () => {
+      expect(() =>
+        WorkItemExportService.parseProjectExport({ format: EXPORT_FORMAT_NAME, format_version: 99, project: {} })
+      ).toThrow(/Unsupported export format_version 99/);
+    });
+
+    it('should wrap a bare project node (version 1) in the current envelope', () => {
+      const parsed = WorkItemExportService.parseProjectExport({
+        name: 'Bare Project',
+        children: [{ local_id: 'x', name: 'Task' }],
+      });
+      expect(parsed.format_version).toBe(CURRENT_EXPORT_FORMAT_VERSION);
+      expect(parsed.project.name).toBe('Bare Project');
+      expect(parsed.project.children?.[0].local_id).toBe('x');
+      expect(parsed.linked_from_work_item_ids).toEqual([]);
+    });
+
+    it('should upgrade the legacy placeholder tree export and drop linked branches', () => {
+      const legacy = {
+        message: `Placeholder: Export data for project ${ROOT_ID}`,
+        data: {
+          work_item_id: ROOT_ID,
+          parent_work_item_id: null,
+          name: 'Legacy Project',
+          description: null,
+          status: 'todo',
+          priority: 'medium',
+          order_key: '1000',
+          due_date: null,
+          is_active: true,
+          dependencies: [
+            { work_item_id: ROOT_ID, depends_on_work_item_id: PROMOTED_ID, dependency_type: 'linked', is_active: true },
+          ],
+          dependents: [
+            {
+              work_item_id: OTHER_PARENT_ID,
+              depends_on_work_item_id: ROOT_ID,
+              dependency_type: 'linked',
+              is_active: true,
+            },
+          ],
+          children: [
+            {
+              work_item_id: CHILD_A_ID,
+              parent_work_item_id: ROOT_ID,
+              name: 'Child A',
+              status: 'done',
+              priority: 'high',
+              order_key: '1000',
+              is_active: true,
+              dependencies: [],
+              dependents: [],
+              children: [],
+            },
+            {
+              work_item_id: CHILD_B_ID,
+              parent_work_item_id: ROOT_ID,
+              name: 'Child B',
+              status: 'todo',
+              priority: 'low',
+              order_key: '1001',
+              is_active: true,
+              dependencies: [
+                {
+                  work_item_id: CHILD_B_ID,
+                  depends_on_work_item_id: CHILD_A_ID,
+                  dependency_type: 'finish-to-start',
+                  is_active: true,
+                },
+              ],
+              dependents: [],
+              children: [],
+            },
+            {
+              work_item_id: PROMOTED_ID,
+              parent_work_item_id: null,
+              name: 'Promoted (L)',
+              status: 'todo',
+              priority: 'medium',
+              order_key: '2000',
+              is_active: true,
+              dependencies: [],
+              dependents: [],
+              children: [],
+            },
+          ],
+        },
+      };
+
+      const parsed = WorkItemExportService.parseProjectExport(legacy);
+      expect(parsed.format_version).toBe(CURRENT_EXPORT_FORMAT_VERSION);
+      expect(parsed.project.children?.map((c) => c.name)).toEqual(['Child A', 'Child B']);
+      expect(parsed.project.dependencies).toEqual([
+        { depends_on_work_item_id: PROMOTED_ID, dependency_type: 'linked', is_active: true },
+      ]);
+      expect(parsed.project.children?.[1].dependencies).toEqual([
+        { depends_on_local_id: CHILD_A_ID, dependency_type: 'finish-to-start', is_active: true },
+      ]);
+      expect(parsed.linked_from_work_item_ids).toEqual([OTHER_PARENT_ID]);
+    });
+
+    it('should reject data that is not an object', () => {
+      expect(() => WorkItemExportService.parseProjectExport('nope')).toThrow(/must be a JSON object/);
+      expect(() => WorkItemExportService.parseProjectExport([])).toThrow(/must be a JSON object/);
+    });
+
+    it('should reject dependencies that specify both a local id and a UUID', () => {
+      expect(() =>
+        WorkItemExportService.parseProjectExport({
+          name: 'Bad',
+          dependencies: [{ depends_on_local_id: 'a', depends_on_work_item_id: CHILD_A_ID }],
+        })
+      ).toThrow(/exactly one of depends_on_local_id or depends_on_work_item_id/);
+    });
+  });
+});
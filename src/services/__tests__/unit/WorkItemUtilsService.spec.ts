@@ -1,5 +1,5 @@
 // File: src/services/__tests__/unit/WorkItemUtilsService.spec.ts
-import { WorkItemUtilsService } from '../../WorkItemUtilsService.js'; // This import should now work
+import { WorkItemUtilsService, MAX_ORDER_KEY_LENGTH } from '../../WorkItemUtilsService.js'; // This import should now work
 
 describe('WorkItemUtilsService Unit Tests', () => {
   // No instance 'utilsService' is needed as calculateOrderKey is static.
@@ -8,84 +8,86 @@ describe('WorkItemUtilsService Unit Tests', () => {
   describe('calculateOrderKey', () => {
     it('should return a default key for an empty list', () => {
       const key = WorkItemUtilsService.calculateOrderKey(null, null);
-      expect(key).toBe('1000');
+      expect(key).toBe('i');
     });
 
     it('should return a key before the first item', () => {
-      const key = WorkItemUtilsService.calculateOrderKey(null, '500');
-      expect(key).toBe('499');
+      expect(WorkItemUtilsService.calculateOrderKey(null, 'i')).toBe('h');
+      expect(WorkItemUtilsService.calculateOrderKey(null, 'a3')).toBe('9');
     });
 
-    it('should return a key before the first item (negative result)', () => {
-      const key = WorkItemUtilsService.calculateOrderKey(null, '0');
-      expect(key).toBe('-1');
-    });
-
-    it('should return a key before the first item (fractional)', () => {
-      const key = WorkItemUtilsService.calculateOrderKey(null, '0.5');
-      expect(key).toBe('-0.5');
+    it('should go one digit deeper before a key that cannot be decremented', () => {
+      const key = WorkItemUtilsService.calculateOrderKey(null, '1');
+      expect(key).toBe('0i');
+      expect(key! < '1').toBe(true);
     });
 
     it('should return a key after the last item', () => {
-      const key = WorkItemUtilsService.calculateOrderKey('2000', null);
-      expect(key).toBe('2001');
+      expect(WorkItemUtilsService.calculateOrderKey('i', null)).toBe('j');
+      expect(WorkItemUtilsService.calculateOrderKey('a3', null)).toBe('b');
     });
 
-    it('should return a key after the last item (negative start)', () => {
-      const key = WorkItemUtilsService.calculateOrderKey('-5', null);
-      expect(key).toBe('-4');
+    it('should go one digit deeper after a key that cannot be incremented', () => {
+      expect(WorkItemUtilsService.calculateOrderKey('z', null)).toBe('zi');
+      expect(WorkItemUtilsService.calculateOrderKey('zy', null)).toBe('zz');
     });
 
-    it('should return a key after the last item (fractional start)', () => {
-      const key = WorkItemUtilsService.calculateOrderKey('99.5', null);
-      expect(key).toBe('100.5');
+    it('should return a key between two keys', () => {
+      expect(WorkItemUtilsService.calculateOrderKey('a', 'c')).toBe('b');
+      expect(WorkItemUtilsService.calculateOrderKey('a', 'b')).toBe('ai');
+      expect(WorkItemUtilsService.calculateOrderKey('a', 'a1')).toBe('a0i');
+      expect(WorkItemUtilsService.calculateOrderKey('az', 'b1')).toBe('b');
     });
 
-    it('should return a key between two integer keys', () => {
-      const key = WorkItemUtilsService.calculateOrderKey('100', '200');
-      expect(key).toBe('150');
+    it('should keep finding keys when inserting into the same gap many times', () => {
+      let before = 'h';
+      const after = 'i';
+      const keys: string[] = [];
+      for (let i = 0; i < 40; i++) {
+        const key = WorkItemUtilsService.calculateOrderKey(before, after);
+        expect(key).not.toBeNull();
+        expect(before < key! && key! < after).toBe(true);
+        keys.push(key!);
+        before = key!;
+      }
+      expect(new Set(keys).size).toBe(40);
     });
 
-    it('should return a key between two fractional keys', () => {
-      const key = WorkItemUtilsService.calculateOrderKey('10.5', '11.5');
-      expect(key).toBe('11');
+    it('should return null once a gap is used up, so the siblings get renumbered', () => {
+      const tight = 'h'.repeat(MAX_ORDER_KEY_LENGTH);
+      expect(WorkItemUtilsService.calculateOrderKey(tight, tight + '1')).toBeNull();
     });
 
-    it('should return a key between a negative and positive key', () => {
-      const key = WorkItemUtilsService.calculateOrderKey('-10', '10');
-      expect(key).toBe('0');
+    it('should return null for keys that are equal or out of order', () => {
+      expect(WorkItemUtilsService.calculateOrderKey('i', 'i')).toBeNull();
+      expect(WorkItemUtilsService.calculateOrderKey('r', 'i')).toBeNull();
     });
 
-    it('should return a key between two close fractional keys', () => {
-      const key = WorkItemUtilsService.calculateOrderKey('10.125', '10.25');
-      expect(key).toBe('10.1875');
-    });
-
-    it('should return the average even if keys are identical', () => {
-      const key = WorkItemUtilsService.calculateOrderKey('150', '150');
-      expect(key).toBe('150');
-    });
-
-    it('should return the average even if keyBefore > keyAfter', () => {
-      const key = WorkItemUtilsService.calculateOrderKey('200', '100');
-      expect(key).toBe('150');
+    it('should return null for keys that are not valid order keys', () => {
+      expect(WorkItemUtilsService.calculateOrderKey('1000.5', null)).toBeNull();
+      expect(WorkItemUtilsService.calculateOrderKey(null, '-1')).toBeNull();
+      expect(WorkItemUtilsService.calculateOrderKey('i0', null)).toBeNull();
+      expect(WorkItemUtilsService.calculateOrderKey('I', null)).toBeNull();
     });
+  });
 
-    it('should handle averaging resulting in a non-distinct key (precision loss simulation)', () => {
-      const numBefore = 1;
-      const numAfter = 1 + Number.EPSILON / 2;
-      const key = WorkItemUtilsService.calculateOrderKey(String(numBefore), String(numAfter));
-      expect(key).toBe('1');
+  describe('compareOrderKeys', () => {
+    it('should order keys by their characters, with missing keys last', () => {
+      const keys = ['r', null, '000002i', 'i', 'hz', '1'];
+      expect([...keys].sort(WorkItemUtilsService.compareOrderKeys)).toEqual(['000002i', '1', 'hz', 'i', 'r', null]);
     });
+  });
 
-    it('should return null for invalid keyBefore input', () => {
-      const key = WorkItemUtilsService.calculateOrderKey('not-a-number', '100');
-      expect(key).toBeNull();
-    });
+  describe('spreadOrderKeys', () => {
+    it('should return evenly spaced valid keys in ascending order', () => {
+      expect(WorkItemUtilsService.spreadOrderKeys(1)).toEqual(['i']);
+      expect(WorkItemUtilsService.spreadOrderKeys(3)).toEqual(['9', 'i', 'r']);
 
-    it('should return null for invalid keyAfter input', () => {
-      const key = WorkItemUtilsService.calculateOrderKey('100', 'not-a-number');
-      expect(key).toBeNull();
+      const keys = WorkItemUtilsService.spreadOrderKeys(500);
+      expect(keys).toHaveLength(500);
+      expect(keys.every((key) => WorkItemUtilsService.isValidOrderKey(key))).toBe(true);
+      expect(keys.every((key, index) => index === 0 || keys[index - 1] < key)).toBe(true);
+      expect(Math.max(...keys.map((key) => key.length))).toBeLessThanOrEqual(3);
     });
   });
 });
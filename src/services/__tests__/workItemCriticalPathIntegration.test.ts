@@ -0,0 +1,125 @@
+// src/services/__tests__/workItemCriticalPathIntegration.test.ts
+import { setupTestEnvironment, cleanDatabase } from './integrationSetup.js';
+import { type WorkItemData } from '../../repositories/index.js';
+
+describe('WorkItemService - Critical Path Integration Tests', () => {
+  const startDate = '2030-01-01T00:00:00.000Z';
+  const day = (n: number) => new Date(Date.parse(startDate) + n * 24 * 60 * 60 * 1000).toISOString();
+
+  let testEnvironment: Awaited<ReturnType<typeof setupTestEnvironment>>;
+  let project: WorkItemData, design: WorkItemData, build: WorkItemData, backend: WorkItemData;
+  let frontend: WorkItemData, launch: WorkItemData, docs: WorkItemData;
+
+  beforeAll(async () => {
+    testEnvironment = await setupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(testEnvironment.pool);
+    const service = testEnvironment.workItemService;
+    project = await service.addWorkItem({ name: 'Release', due_date: day(5) });
+    const projectId = project.work_item_id;
+    design = await service.addWorkItem({ parent_work_item_id: projectId, name: 'Design', estimated_duration_days: 3 });
+    build = await service.addWorkItem({ parent_work_item_id: projectId, name: 'Build' });
+    backend = await service.addWorkItem({
+      parent_work_item_id: build.work_item_id,
+      name: 'Backend',
+      estimated_duration_days: 4,
+      dependencies: [{ depends_on_work_item_id: design.work_item_id }],
+    });
+    frontend = await service.addWorkItem({
+      parent_work_item_id: build.work_item_id,
+      name: 'Frontend',
+      estimated_duration_days: 2,
+      dependencies: [{ depends_on_work_item_id: design.work_item_id }],
+    });
+    launch = await service.addWorkItem({
+      parent_work_item_id: projectId,
+      name: 'Launch',
+      estimated_duration_days: 1,
+      due_date: day(7),
+      dependencies: [{ depends_on_work_item_id: build.work_item_id }],
+    });
+    docs = await service.addWorkItem({ parent_work_item_id: projectId, name: 'Docs' });
+  });
+
+  afterAll(async () => {
+    await testEnvironment.pool.end();
+  });
+
+  it('should schedule leaf tasks and return the chain that drives the finish date', async () => {
+    const schedule = await testEnvironment.workItemService.getCriticalPath(project.work_item_id, { startDate });
+
+    expect(schedule.start_date).toBe(startDate);
+    expect(schedule.duration_days).toBe(8);
+    expect(schedule.projected_finish_date).toBe(day(8));
+    expect(schedule.critical_path.map((item) => item.name)).toEqual(['Design', 'Backend', 'Launch']);
+
+    const byName = new Map(schedule.items.map((item) => [item.name, item]));
+    expect([...byName.keys()]).toEqual(['Design', 'Backend', 'Frontend', 'Launch', 'Docs']);
+    expect(byName.get('Frontend')).toMatchObject({
+      earliest_start: day(3),
+      earliest_finish: day(5),
+      latest_start: day(5),
+      latest_finish: day(7),
+      slack_days: 2,
+      is_critical: false,
+    });
+    expect(byName.get('Launch')).toMatchObject({ earliest_start: day(7), slack_days: 0, is_critical: true });
+    expect(byName.get('Docs')).toMatchObject({ duration_days: 0, slack_days: 8 });
+    expect(schedule.unestimated_item_ids).toEqual([docs.work_item_id]);
+  });
+
+  it('should flag items whose dependencies make their due date impossible', async () => {
+    const schedule = await testEnvironment.workItemService.getCriticalPath(project.work_item_id, { startDate });
+
+    expect(schedule.due_date_conflicts).toEqual(
+      expect.arrayContaining([
+        { work_item_id: launch.work_item_id, name: 'Launch', due_date: day(7), earliest_finish: day(8), days_late: 1 },
+        {
+          work_item_id: project.work_item_id,
+          name: 'Release',
+          due_date: day(5),
+          earliest_finish: day(8),
+          days_late: 3,
+        },
+      ])
+    );
+    expect(schedule.due_date_conflicts).toHaveLength(2);
+  });
+
+  it('should treat done tasks as taking no time and schedule a subtree on its own', async () => {
+    await testEnvironment.workItemService.setStatus(design.work_item_id, 'done');
+    const schedule = await testEnvironment.workItemService.getCriticalPath(project.work_item_id, { startDate });
+    expect(schedule.duration_days).toBe(5);
+    expect(schedule.due_date_conflicts).toEqual([]);
+
+    const buildSchedule = await testEnvironment.workItemService.getCriticalPath(build.work_item_id, { startDate });
+    expect(buildSchedule.items.map((item) => item.work_item_id)).toEqual([backend.work_item_id, frontend.work_item_id]);
+    expect(buildSchedule.critical_path.map((item) => item.name)).toEqual(['Backend']);
+  });
+
+  it('should set, undo and redo the duration estimate', async () => {
+    const service = testEnvironment.workItemService;
+    const updated = await service.setEstimatedDuration(frontend.work_item_id, 6.5);
+    expect(updated.estimated_duration_days).toBe(6.5);
+    let schedule = await service.getCriticalPath(project.work_item_id, { startDate });
+    expect(schedule.critical_path.map((item) => item.name)).toEqual(['Design', 'Frontend', 'Launch']);
+    expect(schedule.duration_days).toBe(10.5);
+
+    await service.undoLastAction();
+    expect((await service.getWorkItemById(frontend.work_item_id))?.estimated_duration_days).toBe(2);
+    await service.redoLastUndo();
+    expect((await service.getWorkItemById(frontend.work_item_id))?.estimated_duration_days).toBe(6.5);
+
+    await service.setEstimatedDuration(frontend.work_item_id, null);
+    schedule = await service.getCriticalPath(project.work_item_id, { startDate });
+    expect(schedule.unestimated_item_ids).toEqual([frontend.work_item_id, docs.work_item_id]);
+  });
+
+  it('should reject unknown work items', async () => {
+    await expect(
+      testEnvironment.workItemService.getCriticalPath('00000000-0000-4000-8000-000000000000')
+    ).rejects.toMatchObject({ errorCode: 'NotFound' });
+  });
+});
@@ -3,24 +3,25 @@ import { setupTestEnvironment, cleanDatabase } from './integrationSetup.js';
 // Corrected imports: Use index.js
 import { WorkItemData, WorkItemDependencyData } from '../../repositories/index.js'; // Import necessary types
 import { logger } from '../../utils/logger.js'; // Import logger
-import { Pool, PoolClient } from 'pg'; // Import Pool and PoolClient for type safety
+import type { DbPool } from '../../db/DatabaseTypes.js';
+import { getSqlDialect } from '../../db/SqlDialect.js';
 
 // Helper function to query and log DB state
 // Using console.log for guaranteed visibility in test runs
 const logDatabaseState = async (
-  // Use PoolClient for potentially transaction-aware logging if needed, but Pool is fine here
-  poolOrClient: Pool | PoolClient,
+  pool: DbPool,
   itemIds: string[],
   dependencyToCheck?: { itemId: string; dependsOnId: string },
   context?: string
 ) => {
   // Use console.log directly
+  const dialect = getSqlDialect(pool);
   console.log(`\n--- DB State Check${context ? `: ${context}` : ''} ---`);
   // Check work items
-  const itemsResult = await poolOrClient.query(
+  const itemsResult = await pool.query(
     `SELECT work_item_id, name, is_active, status, parent_work_item_id, order_key, created_at, updated_at
        FROM work_items
-       WHERE work_item_id = ANY($1::uuid[])
+       WHERE ${dialect.inUuidArray('work_item_id', '$1')}
        ORDER BY created_at`,
     [itemIds]
   );
@@ -28,7 +29,7 @@ const logDatabaseState = async (
 
   // Check specific dependency
   if (dependencyToCheck) {
-    const depResult = await poolOrClient.query(
+    const depResult = await pool.query(
       `SELECT work_item_id, depends_on_work_item_id, is_active, dependency_type
          FROM work_item_dependencies
          WHERE work_item_id = $1 AND depends_on_work_item_id = $2`,
@@ -43,10 +44,10 @@ const logDatabaseState = async (
     );
   }
   // Log all dependencies involving the items for better context
-  const allDepsResult = await poolOrClient.query(
+  const allDepsResult = await pool.query(
     `SELECT work_item_id, depends_on_work_item_id, is_active, dependency_type
         FROM work_item_dependencies
-        WHERE work_item_id = ANY($1::uuid[]) OR depends_on_work_item_id = ANY($1::uuid[])`,
+        WHERE ${dialect.inUuidArray('work_item_id', '$1')} OR ${dialect.inUuidArray('depends_on_work_item_id', '$1')}`,
     [itemIds]
   );
   console.log(`All Dependencies Found (${allDepsResult.rowCount}):\n${JSON.stringify(allDepsResult.rows, null, 2)}`);
@@ -97,7 +98,7 @@ describe('WorkItemService - Delete Work Item Integration Tests', () => {
   describe('Soft Delete Operations', () => {
     it('should soft delete single work item', async () => {
       const initialCountResult = await testEnvironment.pool.query(
-        'SELECT COUNT(*) FROM work_items WHERE is_active = true'
+        'SELECT COUNT(*) AS count FROM work_items WHERE is_active = true'
       );
       const initialCount = parseInt(initialCountResult.rows[0].count, 10);
 
@@ -111,7 +112,7 @@ describe('WorkItemService - Delete Work Item Integration Tests', () => {
 
       // Verify active count decreased
       const finalCountResult = await testEnvironment.pool.query(
-        'SELECT COUNT(*) FROM work_items WHERE is_active = true'
+        'SELECT COUNT(*) AS count FROM work_items WHERE is_active = true'
       );
       const finalCount = parseInt(finalCountResult.rows[0].count, 10);
       expect(finalCount).toBe(initialCount - 1);
@@ -176,7 +177,7 @@ describe('WorkItemService - Delete Work Item Integration Tests', () => {
       expect(initialDeps[0].is_active).toBe(true);
 
       const initialCountResult = await testEnvironment.pool.query(
-        'SELECT COUNT(*) FROM work_items WHERE is_active = true'
+        'SELECT COUNT(*) AS count FROM work_items WHERE is_active = true'
       );
       const initialCount = parseInt(initialCountResult.rows[0].count, 10); // Should be 4 active items
       expect(initialCount).toBe(4);
@@ -207,7 +208,7 @@ describe('WorkItemService - Delete Work Item Integration Tests', () => {
 
       // Verify active count reduction in DB reflects all items becoming inactive
       const finalCountResult = await testEnvironment.pool.query(
-        'SELECT COUNT(*) FROM work_items WHERE is_active = true'
+        'SELECT COUNT(*) AS count FROM work_items WHERE is_active = true'
       );
       const finalCount = parseInt(finalCountResult.rows[0].count, 10);
       expect(finalCount).toBe(initialCount - descendantIds.length); // Should be 0, verifying all are inactive now
@@ -0,0 +1,83 @@
+// src/services/__tests__/workItemDependencyCyclesIntegration.test.ts
+import { setupTestEnvironment, cleanDatabase } from './integrationSetup.js';
+import { type WorkItemData } from '../../repositories/index.js';
+
+describe('WorkItemService - Dependency Cycle Integration Tests', () => {
+  let testEnvironment: Awaited<ReturnType<typeof setupTestEnvironment>>;
+  let project: WorkItemData, taskA: WorkItemData, taskB: WorkItemData, taskC: WorkItemData;
+
+  beforeAll(async () => {
+    testEnvironment = await setupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(testEnvironment.pool);
+    const service = testEnvironment.workItemService;
+    project = await service.addWorkItem({ name: 'Cycle Project' });
+    taskA = await service.addWorkItem({ parent_work_item_id: project.work_item_id, name: 'Task A' });
+    taskB = await service.addWorkItem({
+      parent_work_item_id: project.work_item_id,
+      name: 'Task B',
+      dependencies: [{ depends_on_work_item_id: taskA.work_item_id }],
+    });
+    taskC = await service.addWorkItem({ parent_work_item_id: project.work_item_id, name: 'Task C' });
+    await service.addDependencies(taskC.work_item_id, [{ depends_on_work_item_id: taskB.work_item_id }]);
+  });
+
+  afterAll(async () => {
+    await testEnvironment.pool.end();
+  });
+
+  it('should reject a dependency that closes a cycle and name the whole path', async () => {
+    const historyBefore = await testEnvironment.actionHistoryRepository.listRecentActions({});
+
+    const attempt = testEnvironment.workItemService.addDependencies(taskA.work_item_id, [
+      { depends_on_work_item_id: taskC.work_item_id },
+    ]);
+
+    await expect(attempt).rejects.toMatchObject({
+      errorCode: 'ValidationError',
+      details: { cycle: [taskA.work_item_id, taskC.work_item_id, taskB.work_item_id, taskA.work_item_id] },
+    });
+    await expect(attempt).rejects.toThrow('"Task A"');
+
+    const taskAAfter = await testEnvironment.workItemService.getWorkItemById(taskA.work_item_id);
+    expect(taskAAfter?.dependencies).toHaveLength(0);
+    expect(await testEnvironment.actionHistoryRepository.listRecentActions({})).toHaveLength(historyBefore.length);
+  });
+
+  it('should reject the same cycle when dependencies are replaced through updateWorkItem', async () => {
+    await expect(
+      testEnvironment.workItemService.updateWorkItem(taskA.work_item_id, { name: 'Renamed A' }, [
+        { depends_on_work_item_id: taskC.work_item_id, dependency_type: 'finish-to-start' },
+      ])
+    ).rejects.toThrow('Dependency cycle detected');
+
+    const taskAAfter = await testEnvironment.workItemService.getWorkItemById(taskA.work_item_id);
+    expect(taskAAfter?.name).toBe('Task A');
+  });
+
+  it('should allow linked dependencies and links that are no longer active', async () => {
+    await testEnvironment.workItemService.addDependencies(taskA.work_item_id, [
+      { depends_on_work_item_id: taskC.work_item_id, dependency_type: 'linked' },
+    ]);
+
+    await testEnvironment.workItemService.deleteDependencies(taskC.work_item_id, [taskB.work_item_id]);
+    const updated = await testEnvironment.workItemService.addDependencies(taskA.work_item_id, [
+      { depends_on_work_item_id: taskC.work_item_id, dependency_type: 'finish-to-start' },
+    ]);
+    expect(updated.dependencies.map((dep) => dep.dependency_type)).toEqual(['finish-to-start']);
+  });
+
+  it('should accept dependencies that share prerequisites without forming a cycle', async () => {
+    const taskD = await testEnvironment.workItemService.addWorkItem({
+      parent_work_item_id: project.work_item_id,
+      name: 'Task D',
+      dependencies: [{ depends_on_work_item_id: taskA.work_item_id }, { depends_on_work_item_id: taskC.work_item_id }],
+    });
+    const updated = await testEnvironment.workItemService.addDependencies(taskD.work_item_id, [
+      { depends_on_work_item_id: taskB.work_item_id },
+    ]);
+    expect(updated.dependencies).toHaveLength(3);
+  });
+});
@@ -0,0 +1,95 @@
+// src/services/__tests__/workItemDependencyGraphIntegration.test.ts
+import { setupTestEnvironment, cleanDatabase } from './integrationSetup.js';
+import { type WorkItemData } from '../../repositories/index.js';
+
+describe('WorkItemService - Dependency Graph Integration Tests', () => {
+  let testEnvironment: Awaited<ReturnType<typeof setupTestEnvironment>>;
+  let project: WorkItemData, design: WorkItemData, build: WorkItemData, docs: WorkItemData;
+  let partner: WorkItemData, integration: WorkItemData;
+
+  beforeAll(async () => {
+    testEnvironment = await setupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(testEnvironment.pool);
+    const service = testEnvironment.workItemService;
+    project = await service.addWorkItem({ name: 'Launch' });
+    const projectId = project.work_item_id;
+    design = await service.addWorkItem({ parent_work_item_id: projectId, name: 'Design "v2"', status: 'done' });
+    build = await service.addWorkItem({
+      parent_work_item_id: projectId,
+      name: 'Build',
+      status: 'in-progress',
+      dependencies: [{ depends_on_work_item_id: design.work_item_id }],
+    });
+    docs = await service.addWorkItem({
+      parent_work_item_id: projectId,
+      name: 'Docs',
+      dependencies: [{ depends_on_work_item_id: build.work_item_id, dependency_type: 'start-to-start', lag_days: 2 }],
+    });
+    partner = await service.addWorkItem({ name: 'Partner' });
+    integration = await service.addWorkItem({
+      parent_work_item_id: partner.work_item_id,
+      name: 'Integration',
+      dependencies: [{ depends_on_work_item_id: build.work_item_id }],
+    });
+  });
+
+  afterAll(async () => {
+    await testEnvironment.pool.end();
+  });
+
+  it('should render a Mermaid flowchart with status classes and typed edges', async () => {
+    const graph = await testEnvironment.workItemService.renderDependencyGraph(project.work_item_id);
+    const lines = graph.diagram.trim().split('\n');
+
+    expect(graph).toMatchObject({ root_work_item_id: project.work_item_id, format: 'mermaid', node_count: 5 });
+    expect(graph.edge_count).toBe(3);
+    expect(lines[0]).toBe('flowchart LR');
+    expect(lines).toEqual(
+      expect.arrayContaining([
+        '  n0["Launch<br/>todo"]',
+        '  n1["Design #quot;v2#quot;<br/>done"]',
+        '  n1 --> n2',
+        '  n2 -.->|SS +2d| n3',
+        '  n2 --> n4',
+        '  class n2 in_progress',
+        '  class n0,n3,n4 todo',
+        '  style n4 stroke-dasharray: 5 5',
+      ])
+    );
+  });
+
+  it('should render Graphviz DOT', async () => {
+    const graph = await testEnvironment.workItemService.renderDependencyGraph(project.work_item_id, { format: 'dot' });
+
+    expect(graph.diagram.startsWith('digraph dependencies {')).toBe(true);
+    expect(graph.diagram).toContain(`"${design.work_item_id}" [label="Design \\"v2\\"\\n(done)"`);
+    expect(graph.diagram).toContain(
+      `"${build.work_item_id}" -> "${docs.work_item_id}" [style=dashed, color="#2563eb", label="SS +2d"];`
+    );
+    expect(graph.diagram).toContain(`"${integration.work_item_id}" [label="Integration\\n(todo)"`);
+    expect(graph.diagram).toContain('style="rounded,filled,dashed"');
+  });
+
+  it('should leave out done and external items on request', async () => {
+    const service = testEnvironment.workItemService;
+    const withoutDone = await service.renderDependencyGraph(project.work_item_id, { includeDone: false });
+    expect(withoutDone).toMatchObject({ node_count: 4, edge_count: 2 });
+    expect(withoutDone.diagram).not.toContain('Design');
+
+    const internal = await service.renderDependencyGraph(project.work_item_id, { includeExternal: false });
+    expect(internal).toMatchObject({ node_count: 4, edge_count: 2 });
+    expect(internal.diagram).not.toContain('Integration');
+
+    const fromPartner = await service.renderDependencyGraph(partner.work_item_id);
+    expect(fromPartner).toMatchObject({ node_count: 3, edge_count: 1 });
+  });
+
+  it('should reject unknown work items', async () => {
+    await expect(
+      testEnvironment.workItemService.renderDependencyGraph('00000000-0000-4000-8000-000000000000')
+    ).rejects.toMatchObject({ errorCode: 'NotFound' });
+  });
+});
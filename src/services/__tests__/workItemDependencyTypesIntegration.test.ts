@@ -0,0 +1,137 @@
+// src/services/__tests__/workItemDependencyTypesIntegration.test.ts
+import { setupTestEnvironment, cleanDatabase } from './integrationSetup.js';
+import { type WorkItemData } from '../../repositories/index.js';
+
+describe('WorkItemService - Dependency Types and Lag Integration Tests', () => {
+  const startDate = '2030-01-01T00:00:00.000Z';
+  const day = (n: number) => new Date(Date.parse(startDate) + n * 24 * 60 * 60 * 1000).toISOString();
+  const inDays = (n: number) => new Date(Date.now() + n * 24 * 60 * 60 * 1000).toISOString();
+
+  let testEnvironment: Awaited<ReturnType<typeof setupTestEnvironment>>;
+  let project: WorkItemData, implementation: WorkItemData, docs: WorkItemData;
+  let tests: WorkItemData;
+
+  const readyNames = async (now?: string) => {
+    const candidates = await testEnvironment.workItemRepository.findCandidateTasksForSuggestion({
+      scopeItemId: project.work_item_id,
+      now,
+    });
+    return candidates.map((item) => item.name).sort();
+  };
+
+  beforeAll(async () => {
+    testEnvironment = await setupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(testEnvironment.pool);
+    const service = testEnvironment.workItemService;
+    project = await service.addWorkItem({ name: 'Feature' });
+    const projectId = project.work_item_id;
+    implementation = await service.addWorkItem({
+      parent_work_item_id: projectId,
+      name: 'Implementation',
+      estimated_duration_days: 4,
+    });
+    const implementationId = implementation.work_item_id;
+    docs = await service.addWorkItem({
+      parent_work_item_id: projectId,
+      name: 'Docs',
+      estimated_duration_days: 3,
+      dependencies: [{ depends_on_work_item_id: implementationId, dependency_type: 'start-to-start', lag_days: 2 }],
+    });
+    tests = await service.addWorkItem({
+      parent_work_item_id: projectId,
+      name: 'Tests',
+      estimated_duration_days: 2,
+      dependencies: [{ depends_on_work_item_id: implementationId, dependency_type: 'finish-to-finish', lag_days: 1 }],
+    });
+    await service.addWorkItem({
+      parent_work_item_id: projectId,
+      name: 'Announcement',
+      estimated_duration_days: 1,
+      dependencies: [{ depends_on_work_item_id: docs.work_item_id, lag_days: 1 }],
+    });
+  });
+
+  afterAll(async () => {
+    await testEnvironment.pool.end();
+  });
+
+  it('should hold start-to-start dependents back until the prerequisite started and the lag passed', async () => {
+    expect(await readyNames()).toEqual(['Implementation', 'Tests']);
+
+    await testEnvironment.workItemService.setStatus(implementation.work_item_id, 'in-progress');
+    expect(await readyNames()).toEqual(['Implementation', 'Tests']);
+    expect(await readyNames(inDays(3))).toEqual(['Docs', 'Implementation', 'Tests']);
+
+    await testEnvironment.workItemService.addDependencies(docs.work_item_id, [
+      { depends_on_work_item_id: implementation.work_item_id, dependency_type: 'start-to-start' },
+    ]);
+    expect(await readyNames()).toEqual(['Docs', 'Implementation', 'Tests']);
+  });
+
+  it('should hold finish-to-start dependents back until the lag after completion passed', async () => {
+    const service = testEnvironment.workItemService;
+    await service.setStatus(implementation.work_item_id, 'in-progress');
+    await service.setStatus(docs.work_item_id, 'done');
+
+    expect(await readyNames()).toEqual(['Implementation', 'Tests']);
+    expect(await readyNames(inDays(2))).toEqual(['Announcement', 'Implementation', 'Tests']);
+  });
+
+  it('should record start and completion times and restore them on undo', async () => {
+    const service = testEnvironment.workItemService;
+    expect(implementation).toMatchObject({ started_at: null, completed_at: null });
+
+    const started = await service.setStatus(implementation.work_item_id, 'in-progress');
+    expect(started.started_at).not.toBeNull();
+    const done = await service.setStatus(implementation.work_item_id, 'done');
+    expect(done).toMatchObject({ started_at: started.started_at });
+    expect(done.completed_at).not.toBeNull();
+
+    await service.undoLastAction();
+    expect(await service.getWorkItemById(implementation.work_item_id)).toMatchObject({
+      status: 'in-progress',
+      started_at: started.started_at,
+      completed_at: null,
+    });
+    await service.undoLastAction();
+    expect(await service.getWorkItemById(implementation.work_item_id)).toMatchObject({ started_at: null });
+  });
+
+  it('should record a lag change and undo it', async () => {
+    const service = testEnvironment.workItemService;
+    const updated = await service.addDependencies(docs.work_item_id, [
+      { depends_on_work_item_id: implementation.work_item_id, dependency_type: 'start-to-start', lag_days: 0.5 },
+    ]);
+    expect(updated.dependencies).toEqual([
+      expect.objectContaining({ dependency_type: 'start-to-start', lag_days: 0.5 }),
+    ]);
+
+    await service.undoLastAction();
+    const restored = await service.getWorkItemById(docs.work_item_id);
+    expect(restored?.dependencies).toEqual([
+      expect.objectContaining({ dependency_type: 'start-to-start', lag_days: 2 }),
+    ]);
+  });
+
+  it('should schedule each dependency type with its lag', async () => {
+    const schedule = await testEnvironment.workItemService.getCriticalPath(project.work_item_id, { startDate });
+    const byName = new Map(schedule.items.map((item) => [item.name, item]));
+
+    expect(byName.get('Docs')).toMatchObject({ earliest_start: day(2), earliest_finish: day(5), slack_days: 0 });
+    expect(byName.get('Tests')).toMatchObject({ earliest_start: day(3), earliest_finish: day(5), slack_days: 2 });
+    expect(byName.get('Announcement')).toMatchObject({ earliest_start: day(6), earliest_finish: day(7) });
+    expect(schedule.duration_days).toBe(7);
+    expect(schedule.critical_path.map((item) => item.name)).toEqual(['Implementation', 'Docs', 'Announcement']);
+  });
+
+  it('should reject cycles through any scheduling dependency type', async () => {
+    await expect(
+      testEnvironment.workItemService.addDependencies(implementation.work_item_id, [
+        { depends_on_work_item_id: tests.work_item_id, dependency_type: 'start-to-finish' },
+      ])
+    ).rejects.toMatchObject({ errorCode: 'ValidationError' });
+  });
+});
@@ -0,0 +1,129 @@
+// src/services/__tests__/workItemDuplicateIntegration.test.ts
+import { setupTestEnvironment, cleanDatabase } from './integrationSetup.js';
+import { type WorkItemData } from '../../repositories/index.js';
+
+describe('WorkItemService - Duplicate Work Item Integration Tests', () => {
+  let testEnvironment: Awaited<ReturnType<typeof setupTestEnvironment>>;
+  let website: WorkItemData, release: WorkItemData, build: WorkItemData, deploy: WorkItemData;
+  let mobile: WorkItemData, outside: WorkItemData;
+
+  const children = async (parentId: string) =>
+    testEnvironment.workItemService.listWorkItems({ parent_work_item_id: parentId, isActive: true });
+  const childNames = async (parentId: string) => (await children(parentId)).map((item) => item.name);
+
+  beforeAll(async () => {
+    testEnvironment = await setupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(testEnvironment.pool);
+    const service = testEnvironment.workItemService;
+    website = await service.addWorkItem({ name: 'Website' });
+    outside = await service.addWorkItem({ parent_work_item_id: website.work_item_id, name: 'Design sign-off' });
+    release = await service.addWorkItem({
+      parent_work_item_id: website.work_item_id,
+      name: 'Release 1.0',
+      tags: ['release'],
+    });
+    build = await service.addWorkItem({
+      parent_work_item_id: release.work_item_id,
+      name: 'Build',
+      due_date: '2026-03-01T00:00:00.000Z',
+      tags: ['ci'],
+    });
+    deploy = await service.addWorkItem({
+      parent_work_item_id: release.work_item_id,
+      name: 'Deploy',
+      due_date: '2026-03-05T00:00:00.000Z',
+      dependencies: [
+        { depends_on_work_item_id: build.work_item_id, dependency_type: 'finish-to-start', lag_days: 1 },
+        { depends_on_work_item_id: outside.work_item_id },
+      ],
+    });
+    mobile = await service.addWorkItem({ name: 'Mobile' });
+  });
+
+  afterAll(async () => {
+    await testEnvironment.pool.end();
+  });
+
+  it('should copy a subtree with its internal dependencies and tags, and remove it with one undo', async () => {
+    const service = testEnvironment.workItemService;
+    const copy = await service.duplicateWorkItem(release.work_item_id, {
+      parent_work_item_id: mobile.work_item_id,
+      name: 'Release 2.0',
+    });
+
+    expect(copy.work_item_id).not.toBe(release.work_item_id);
+    expect(copy.parent_work_item_id).toBe(mobile.work_item_id);
+    expect(copy.name).toBe('Release 2.0');
+    expect(copy.tags).toEqual(['release']);
+    const copiedChildren = await children(copy.work_item_id);
+    expect(copiedChildren.map((item) => item.name)).toEqual(['Build', 'Deploy']);
+    expect(copiedChildren[0].tags).toEqual(['ci']);
+
+    const deployCopy = await service.getWorkItemById(copiedChildren[1].work_item_id);
+    expect(deployCopy!.dependencies).toEqual([
+      expect.objectContaining({
+        depends_on_work_item_id: copiedChildren[0].work_item_id,
+        dependency_type: 'finish-to-start',
+        lag_days: 1,
+        is_active: true,
+      }),
+    ]);
+    expect(await childNames(release.work_item_id)).toEqual(['Build', 'Deploy']);
+
+    const undone = await service.undoLastAction();
+    expect(undone!.action_type).toBe('DUPLICATE_WORK_ITEM');
+    expect(await childNames(mobile.work_item_id)).toEqual([]);
+
+    await service.redoLastUndo();
+    expect(await childNames(mobile.work_item_id)).toEqual(['Release 2.0']);
+  });
+
+  it('should reset statuses and shift due dates when asked, even under a finished item', async () => {
+    const service = testEnvironment.workItemService;
+    await service.setStatus(build.work_item_id, 'done');
+    await service.setStatus(deploy.work_item_id, 'done');
+    await service.setStatus(release.work_item_id, 'done');
+
+    const keptCopy = await service.duplicateWorkItem(release.work_item_id);
+    expect(keptCopy.status).toBe('done');
+    expect((await children(keptCopy.work_item_id)).map((item) => item.status)).toEqual(['done', 'done']);
+
+    const resetCopy = await service.duplicateWorkItem(release.work_item_id, {
+      reset_status: true,
+      due_date_offset_days: 7,
+      include_tags: false,
+    });
+    expect(resetCopy.status).toBe('todo');
+    expect(resetCopy.tags).toEqual([]);
+    const resetChildren = await children(resetCopy.work_item_id);
+    expect(resetChildren.map((item) => item.status)).toEqual(['todo', 'todo']);
+    expect(resetChildren.map((item) => new Date(item.due_date!).toISOString())).toEqual([
+      '2026-03-08T00:00:00.000Z',
+      '2026-03-12T00:00:00.000Z',
+    ]);
+  });
+
+  it("should put the copy after the original's siblings by default, or copy only the item", async () => {
+    const service = testEnvironment.workItemService;
+    await service.duplicateWorkItem(release.work_item_id, { include_descendants: false });
+    const websiteChildren = await children(website.work_item_id);
+    expect(websiteChildren.map((item) => item.name)).toEqual(['Design sign-off', 'Release 1.0', 'Release 1.0']);
+    expect(await childNames(websiteChildren[2].work_item_id)).toEqual([]);
+
+    const projectCopy = await service.duplicateWorkItem(mobile.work_item_id, { name: 'Tablet' });
+    expect(projectCopy.parent_work_item_id).toBeNull();
+    const projects = await service.listWorkItems({ rootsOnly: true, isActive: true });
+    expect(projects.map((item) => item.name)).toEqual(['Website', 'Mobile', 'Tablet']);
+  });
+
+  it('should reject copying under a finished parent', async () => {
+    const service = testEnvironment.workItemService;
+    await service.setStatus(mobile.work_item_id, 'done');
+    await expect(
+      service.duplicateWorkItem(build.work_item_id, { parent_work_item_id: mobile.work_item_id })
+    ).rejects.toMatchObject({ errorCode: 'ValidationError' });
+  });
+});
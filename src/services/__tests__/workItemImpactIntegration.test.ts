@@ -0,0 +1,117 @@
+// src/services/__tests__/workItemImpactIntegration.test.ts
+import { setupTestEnvironment, cleanDatabase } from './integrationSetup.js';
+import { type WorkItemData } from '../../repositories/index.js';
+
+describe('WorkItemService - Impact Integration Tests', () => {
+  const inDays = (n: number) => new Date(Date.now() + n * 24 * 60 * 60 * 1000).toISOString();
+
+  let testEnvironment: Awaited<ReturnType<typeof setupTestEnvironment>>;
+  let core: WorkItemData, api: WorkItemData, client: WorkItemData, release: WorkItemData;
+  let partner: WorkItemData, integration: WorkItemData;
+
+  beforeAll(async () => {
+    testEnvironment = await setupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(testEnvironment.pool);
+    const service = testEnvironment.workItemService;
+    core = await service.addWorkItem({ name: 'Core' });
+    api = await service.addWorkItem({
+      parent_work_item_id: core.work_item_id,
+      name: 'API',
+      estimated_duration_days: 2,
+    });
+    client = await service.addWorkItem({
+      parent_work_item_id: core.work_item_id,
+      name: 'Client',
+      estimated_duration_days: 3,
+      due_date: inDays(6),
+      dependencies: [{ depends_on_work_item_id: api.work_item_id }],
+    });
+    release = await service.addWorkItem({
+      parent_work_item_id: core.work_item_id,
+      name: 'Release',
+      estimated_duration_days: 1,
+      due_date: inDays(10),
+      dependencies: [{ depends_on_work_item_id: client.work_item_id }],
+    });
+    await service.addWorkItem({
+      parent_work_item_id: core.work_item_id,
+      name: 'Spike',
+      status: 'done',
+      dependencies: [{ depends_on_work_item_id: api.work_item_id }],
+    });
+    partner = await service.addWorkItem({ name: 'Partner' });
+    integration = await service.addWorkItem({
+      parent_work_item_id: partner.work_item_id,
+      name: 'Integration',
+      estimated_duration_days: 1,
+      due_date: inDays(7),
+      dependencies: [{ depends_on_work_item_id: client.work_item_id }],
+    });
+  });
+
+  afterAll(async () => {
+    await testEnvironment.pool.end();
+  });
+
+  it('should list open dependents transitively, grouped by project with depth', async () => {
+    const impact = await testEnvironment.workItemService.getImpact(api.work_item_id);
+
+    expect(impact.affected_count).toBe(3);
+    expect(impact.projects.map((project) => project.project_name)).toEqual(['Core', 'Partner']);
+    expect(impact.projects[0].items.map((item) => [item.name, item.depth, item.via_work_item_id])).toEqual([
+      ['Client', 1, api.work_item_id],
+      ['Release', 2, client.work_item_id],
+    ]);
+    expect(impact.projects[1]).toMatchObject({
+      project_id: partner.work_item_id,
+      items: [{ work_item_id: integration.work_item_id, depth: 2, dependency_type: 'finish-to-start' }],
+    });
+    expect(impact.missed_due_dates).toEqual([]);
+  });
+
+  it('should report the due dates a slip would miss', async () => {
+    const impact = await testEnvironment.workItemService.getImpact(api.work_item_id, { slipDays: 2 });
+
+    expect(impact.missed_due_dates).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ work_item_id: client.work_item_id, days_late: 1, already_late: false }),
+        expect.objectContaining({ work_item_id: integration.work_item_id, days_late: 1, already_late: false }),
+      ])
+    );
+    expect(impact.missed_due_dates).toHaveLength(2);
+    const releaseEntry = impact.projects[0].items.find((item) => item.work_item_id === release.work_item_id);
+    expect(releaseEntry?.misses_due_date).toBe(false);
+  });
+
+  it('should include dependents of the items below a project', async () => {
+    const impact = await testEnvironment.workItemService.getImpact(core.work_item_id);
+    expect(impact.projects).toEqual([
+      expect.objectContaining({
+        project_id: partner.work_item_id,
+        items: [expect.objectContaining({ work_item_id: integration.work_item_id, depth: 1 })],
+      }),
+    ]);
+  });
+
+  it('should refuse a delete that breaks dependencies of other active items unless forced', async () => {
+    const service = testEnvironment.workItemService;
+    await expect(service.deleteWorkItem([client.work_item_id])).rejects.toMatchObject({
+      errorCode: 'ValidationError',
+      details: {
+        broken_dependencies: expect.arrayContaining([
+          expect.objectContaining({ work_item_id: release.work_item_id, depends_on_work_item_id: client.work_item_id }),
+          expect.objectContaining({ work_item_id: integration.work_item_id }),
+        ]),
+      },
+    });
+    expect((await service.getWorkItemById(client.work_item_id))?.is_active).toBe(true);
+    await expect(service.deleteWorkItem([core.work_item_id])).rejects.toThrow('"Integration" depends on "Client"');
+
+    expect(await service.deleteWorkItem([partner.work_item_id])).toBe(2);
+    expect(await service.deleteWorkItem([client.work_item_id, release.work_item_id])).toBe(2);
+    expect(await service.deleteWorkItem([api.work_item_id], { force: true })).toBe(1);
+  });
+});
@@ -0,0 +1,185 @@
+// src/services/__tests__/workItemImportIntegration.test.ts
+import { setupTestEnvironment, cleanDatabase } from './integrationSetup.js';
+import { WorkItemService } from '../WorkItemService.js';
+import { WorkItemExportService } from '../WorkItemExportService.js';
+
+describe('WorkItemService - Import Project Integration Tests', () => {
+  let testEnvironment: Awaited<ReturnType<typeof setupTestEnvironment>>;
+  let workItemService: WorkItemService;
+
+  beforeEach(async () => {
+    testEnvironment = await setupTestEnvironment();
+    workItemService = testEnvironment.workItemService;
+    await cleanDatabase(testEnvironment.pool);
+  });
+
+  afterAll(async () => {
+    if (testEnvironment.pool) {
+      await testEnvironment.pool.end();
+    }
+  });
+
+  it('should import a nested project with tags and remapped dependencies', async () => {
+    const imported = await workItemService.importProject({
+      name: 'Imported Project',
+      description: 'From a file',
+      tags: ['imported'],
+      children: [
+        { local_id: 'design', name: 'Design', status: 'done', due_date: '2025-06-01T00:00:00.000Z' },
+        {
+          local_id: 'build',
+          name: 'Build',
+          priority: 'high',
+          dependencies: [{ depends_on_local_id: 'design' }],
+          children: [{ name: 'Build sub-task', tags: ['backend'] }],
+        },
+      ],
+    });
+
+    expect(imported.parent_work_item_id).toBeNull();
+    expect(imported.tags).toEqual(['imported']);
+    expect(imported.children.map((c) => c.name)).toEqual(['Design', 'Build']);
+
+    const design = imported.children[0];
+    const build = imported.children[1];
+    expect(design.status).toBe('done');
+    expect(build.priority).toBe('high');
+
+    const buildDetails = await workItemService.getWorkItemById(build.work_item_id);
+    expect(buildDetails?.dependencies).toHaveLength(1);
+    expect(buildDetails?.dependencies[0].depends_on_work_item_id).toBe(design.work_item_id);
+    expect(buildDetails?.dependencies[0].dependency_type).toBe('finish-to-start');
+    expect(buildDetails?.children[0].tags).toEqual(['backend']);
+  });
+
+  it('should record the import as a single undoable action', async () => {
+    const imported = await workItemService.importProject({
+      name: 'Undoable Import',
+      children: [{ name: 'Child A' }, { name: 'Child B' }],
+    });
+
+    const history = await workItemService.listHistory();
+    expect(history.filter((a) => a.action_type === 'IMPORT_PROJECT')).toHaveLength(1);
+
+    await workItemService.undoLastAction();
+    const afterUndo = await workItemService.getWorkItemById(imported.work_item_id, { isActive: true });
+    expect(afterUndo).toBeNull();
+
+    await workItemService.redoLastUndo();
+    const afterRedo = await workItemService.getWorkItemById(imported.work_item_id, { isActive: true });
+    expect(afterRedo?.children).toHaveLength(2);
+  });
+
+  it('should keep items imported as inactive inactive after undo and redo', async () => {
+    const imported = await workItemService.importProject({
+      name: 'With Deleted Task',
+      children: [{ name: 'Live' }, { name: 'Deleted', is_active: false }],
+    });
+    const all = await workItemService.listWorkItems({ parent_work_item_id: imported.work_item_id });
+    const deleted = all.find((item) => item.name === 'Deleted');
+    expect(deleted?.is_active).toBe(false);
+
+    await workItemService.undoLastAction();
+    await workItemService.redoLastUndo();
+    const afterRedo = await workItemService.getWorkItemById(deleted!.work_item_id);
+    expect(afterRedo?.is_active).toBe(false);
+    const live = await workItemService.getWorkItemById(imported.work_item_id, { isActive: true });
+    expect(live?.children.map((child) => child.name)).toEqual(['Live']);
+  });
+
+  it('should round-trip a project through export_project and import_project', async () => {
+    const original = await workItemService.importProject({
+      name: 'Round Trip',
+      tags: ['rt'],
+      children: [
+        { local_id: 'first', name: 'First' },
+        { local_id: 'second', name: 'Second', dependencies: [{ depends_on_local_id: 'first' }] },
+      ],
+    });
+
+    const exported = await workItemService.exportProject(original.work_item_id);
+    const document = WorkItemExportService.parseProjectExport(JSON.parse(JSON.stringify(exported)));
+    const copy = await workItemService.importProject(document.project, {
+      linkedFromWorkItemIds: document.linked_from_work_item_ids,
+    });
+
+    expect(copy.work_item_id).not.toBe(original.work_item_id);
+    expect(copy.tags).toEqual(['rt']);
+    expect(copy.children.map((c) => c.name)).toEqual(['First', 'Second']);
+    expect(copy.children.map((c) => c.order_key)).toEqual(original.children.map((c) => c.order_key));
+    const secondCopy = await workItemService.getWorkItemById(copy.children[1].work_item_id);
+    expect(secondCopy?.dependencies[0].depends_on_work_item_id).toBe(copy.children[0].work_item_id);
+  });
+
+  it('should keep start and finish times through a round trip so lagged dependents stay ready', async () => {
+    const original = await workItemService.importProject({
+      name: 'Finished Long Ago',
+      children: [
+        {
+          local_id: 'design',
+          name: 'Design',
+          status: 'done',
+          started_at: '2024-01-01T00:00:00.000Z',
+          completed_at: '2024-01-02T00:00:00.000Z',
+        },
+        { name: 'Build', dependencies: [{ depends_on_local_id: 'design', lag_days: 3 }] },
+      ],
+    });
+    expect((await workItemService.getNextTask({ scope_item_id: original.work_item_id }))?.name).toBe('Build');
+
+    const exported = await workItemService.exportProject(original.work_item_id);
+    const document = WorkItemExportService.parseProjectExport(JSON.parse(JSON.stringify(exported)));
+    const copy = await workItemService.importProject(document.project);
+
+    const designCopy = await workItemService.getWorkItemById(copy.children[0].work_item_id);
+    expect(designCopy).toMatchObject({
+      started_at: '2024-01-01T00:00:00.000Z',
+      completed_at: '2024-01-02T00:00:00.000Z',
+    });
+    const next = await workItemService.getNextTask({ scope_item_id: copy.work_item_id });
+    expect(next?.work_item_id).toBe(copy.children[1].work_item_id);
+  });
+
+  it('should reject dependencies on unknown local ids without writing anything', async () => {
+    await expect(
+      workItemService.importProject({
+        name: 'Broken Import',
+        children: [{ name: 'Orphan dependency', dependencies: [{ depends_on_local_id: 'missing' }] }],
+      })
+    ).rejects.toThrow(/unknown local_id "missing"/);
+
+    const roots = await workItemService.listWorkItems({ rootsOnly: true });
+    expect(roots).toHaveLength(0);
+  });
+
+  it('should reject dependency cycles between imported items without writing anything', async () => {
+    await expect(
+      workItemService.importProject({
+        name: 'Circular Import',
+        children: [
+          { local_id: 'a', name: 'Build', dependencies: [{ depends_on_local_id: 'b' }] },
+          {
+            local_id: 'b',
+            name: 'Test',
+            dependencies: [{ depends_on_local_id: 'a', dependency_type: 'start-to-start' }],
+          },
+        ],
+      })
+    ).rejects.toThrow(/Dependency cycle detected/);
+
+    const roots = await workItemService.listWorkItems({ rootsOnly: true });
+    expect(roots).toHaveLength(0);
+  });
+
+  it('should reject duplicate local ids', async () => {
+    await expect(
+      workItemService.importProject({
+        name: 'Duplicate Ids',
+        children: [
+          { local_id: 'a', name: 'First' },
+          { local_id: 'a', name: 'Second' },
+        ],
+      })
+    ).rejects.toThrow(/Duplicate local_id "a"/);
+  });
+});
@@ -0,0 +1,99 @@
+// src/services/__tests__/workItemMoveToParentIntegration.test.ts
+import { setupTestEnvironment, cleanDatabase } from './integrationSetup.js';
+import { type WorkItemData } from '../../repositories/index.js';
+
+describe('WorkItemService - Move To Parent Integration Tests', () => {
+  let testEnvironment: Awaited<ReturnType<typeof setupTestEnvironment>>;
+  let website: WorkItemData, design: WorkItemData, wireframes: WorkItemData, build: WorkItemData;
+  let mobile: WorkItemData, prototype: WorkItemData;
+
+  const childNames = async (parentId: string) =>
+    (await testEnvironment.workItemService.listWorkItems({ parent_work_item_id: parentId, isActive: true })).map(
+      (item) => item.name
+    );
+
+  beforeAll(async () => {
+    testEnvironment = await setupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(testEnvironment.pool);
+    const service = testEnvironment.workItemService;
+    website = await service.addWorkItem({ name: 'Website' });
+    design = await service.addWorkItem({ parent_work_item_id: website.work_item_id, name: 'Design' });
+    wireframes = await service.addWorkItem({ parent_work_item_id: design.work_item_id, name: 'Wireframes' });
+    build = await service.addWorkItem({ parent_work_item_id: website.work_item_id, name: 'Build' });
+    mobile = await service.addWorkItem({ name: 'Mobile' });
+    prototype = await service.addWorkItem({ parent_work_item_id: mobile.work_item_id, name: 'Prototype' });
+    await service.addWorkItem({ parent_work_item_id: mobile.work_item_id, name: 'Review' });
+  });
+
+  afterAll(async () => {
+    await testEnvironment.pool.end();
+  });
+
+  it('should move a task and its descendants under another parent, and undo that in one step', async () => {
+    const service = testEnvironment.workItemService;
+    const moved = await service.moveItemToParent(design.work_item_id, mobile.work_item_id, {
+      moveAfter_work_item_id: prototype.work_item_id,
+    });
+
+    expect(moved.parent_work_item_id).toBe(mobile.work_item_id);
+    expect(await childNames(mobile.work_item_id)).toEqual(['Prototype', 'Design', 'Review']);
+    expect(await childNames(website.work_item_id)).toEqual(['Build']);
+    expect(await childNames(design.work_item_id)).toEqual(['Wireframes']);
+    expect((await service.getWorkItemById(wireframes.work_item_id))?.outline_ref).toBe(
+      `2.2.1@${wireframes.work_item_id.slice(0, 8)}`
+    );
+
+    await service.undoLastAction();
+    expect(await childNames(website.work_item_id)).toEqual(['Design', 'Build']);
+    expect(await childNames(mobile.work_item_id)).toEqual(['Prototype', 'Review']);
+  });
+
+  it('should place the task at the start, the end, or before a new sibling', async () => {
+    const service = testEnvironment.workItemService;
+    await service.moveItemToParent(build.work_item_id, mobile.work_item_id);
+    expect(await childNames(mobile.work_item_id)).toEqual(['Prototype', 'Review', 'Build']);
+
+    await service.moveItemToParent(design.work_item_id, mobile.work_item_id, { moveTo: 'start' });
+    expect(await childNames(mobile.work_item_id)).toEqual(['Design', 'Prototype', 'Review', 'Build']);
+
+    await service.moveItemToParent(build.work_item_id, mobile.work_item_id, {
+      moveBefore_work_item_id: prototype.work_item_id,
+    });
+    expect(await childNames(mobile.work_item_id)).toEqual(['Design', 'Build', 'Prototype', 'Review']);
+  });
+
+  it('should reject moves into the task itself, its subtree, or of a project', async () => {
+    const service = testEnvironment.workItemService;
+    await expect(service.moveItemToParent(design.work_item_id, design.work_item_id)).rejects.toMatchObject({
+      errorCode: 'ValidationError',
+    });
+    await expect(service.moveItemToParent(design.work_item_id, wireframes.work_item_id)).rejects.toThrow(
+      'Work item "Wireframes" is below "Design", so "Design" cannot be moved under it.'
+    );
+    await expect(service.moveItemToParent(mobile.work_item_id, website.work_item_id)).rejects.toThrow(
+      'is a project; only tasks can be moved to another parent'
+    );
+    await expect(
+      service.moveItemToParent(design.work_item_id, mobile.work_item_id, { moveAfter_work_item_id: build.work_item_id })
+    ).rejects.toMatchObject({ errorCode: 'ValidationError' });
+    expect(await childNames(website.work_item_id)).toEqual(['Design', 'Build']);
+  });
+
+  it('should reject a move under a finished parent but still reorder within one', async () => {
+    const service = testEnvironment.workItemService;
+    await service.setStatus(mobile.work_item_id, 'done');
+
+    await expect(service.moveItemToParent(design.work_item_id, mobile.work_item_id)).rejects.toMatchObject({
+      errorCode: 'ValidationError',
+      message: expect.stringContaining('Parent work item "Mobile"'),
+    });
+    expect(await childNames(mobile.work_item_id)).toEqual(['Prototype', 'Review']);
+    expect(await childNames(website.work_item_id)).toEqual(['Design', 'Build']);
+
+    await service.moveItemToParent(prototype.work_item_id, mobile.work_item_id);
+    expect(await childNames(mobile.work_item_id)).toEqual(['Review', 'Prototype']);
+  });
+});
@@ -0,0 +1,121 @@
+// src/services/__tests__/workItemNotificationsIntegration.test.ts
+import { setupTestEnvironment, cleanDatabase } from './integrationSetup.js';
+import { WorkItemService } from '../WorkItemService.js';
+import { SseNotificationService, type SseEvent } from '../SseNotificationService.js';
+
+class RecordingSseNotificationService extends SseNotificationService {
+  public events: SseEvent[] = [];
+
+  public broadcast(event: SseEvent): void {
+    this.events.push(event);
+  }
+}
+
+describe('WorkItemService - SSE Notification Integration Tests', () => {
+  let testEnvironment: Awaited<ReturnType<typeof setupTestEnvironment>>;
+  let sseService: RecordingSseNotificationService;
+  let workItemService: WorkItemService;
+
+  beforeEach(async () => {
+    testEnvironment = await setupTestEnvironment();
+    await cleanDatabase(testEnvironment.pool);
+    sseService = new RecordingSseNotificationService();
+    workItemService = new WorkItemService(
+      testEnvironment.workItemRepository,
+      testEnvironment.actionHistoryRepository,
+      sseService
+    );
+  });
+
+  afterAll(async () => {
+    if (testEnvironment.pool) {
+      await testEnvironment.pool.end();
+    }
+  });
+
+  it('should announce new projects and report nested changes against the top-level project', async () => {
+    const project = await workItemService.addWorkItem({ name: 'Project' });
+    expect(sseService.events).toEqual([
+      { type: 'projectListUpdated', payload: { reason: 'project_created', newItemId: project.work_item_id } },
+    ]);
+
+    const task = await workItemService.addWorkItem({ name: 'Task', parent_work_item_id: project.work_item_id });
+    const subTask = await workItemService.addWorkItem({ name: 'Sub-task', parent_work_item_id: task.work_item_id });
+    sseService.events = [];
+
+    await workItemService.setStatus(subTask.work_item_id, 'in-progress');
+    expect(sseService.events).toEqual([
+      {
+        type: 'projectTreeUpdated',
+        payload: { projectId: project.work_item_id, reason: 'item_updated', updatedItemId: subTask.work_item_id },
+      },
+    ]);
+  });
+
+  it('should not broadcast when a write changes nothing', async () => {
+    const project = await workItemService.addWorkItem({ name: 'Project' });
+    sseService.events = [];
+
+    await workItemService.setName(project.work_item_id, 'Project');
+    expect(sseService.events).toHaveLength(0);
+  });
+
+  it('should broadcast after delete, undo and redo', async () => {
+    const project = await workItemService.addWorkItem({ name: 'Project' });
+    const task = await workItemService.addWorkItem({ name: 'Task', parent_work_item_id: project.work_item_id });
+    sseService.events = [];
+
+    await workItemService.deleteWorkItem([task.work_item_id]);
+    expect(sseService.events).toEqual([
+      {
+        type: 'projectTreeUpdated',
+        payload: { projectId: project.work_item_id, reason: 'item_deleted', deletedItemId: task.work_item_id },
+      },
+    ]);
+
+    sseService.events = [];
+    await workItemService.undoLastAction();
+    expect(sseService.events).toEqual([
+      { type: 'projectTreeUpdated', payload: { projectId: project.work_item_id, reason: 'undo' } },
+    ]);
+
+    sseService.events = [];
+    await workItemService.redoLastUndo();
+    expect(sseService.events).toEqual([
+      { type: 'projectTreeUpdated', payload: { projectId: project.work_item_id, reason: 'redo' } },
+    ]);
+  });
+
+  it('should report a task moved to another parent against both projects', async () => {
+    const website = await workItemService.addWorkItem({ name: 'Website' });
+    const mobile = await workItemService.addWorkItem({ name: 'Mobile' });
+    const task = await workItemService.addWorkItem({ name: 'Task', parent_work_item_id: website.work_item_id });
+    sseService.events = [];
+
+    await workItemService.moveItemToParent(task.work_item_id, mobile.work_item_id);
+    expect(sseService.events).toEqual([
+      { type: 'projectTreeUpdated', payload: { projectId: website.work_item_id, reason: 'item_moved_to_parent' } },
+      { type: 'projectTreeUpdated', payload: { projectId: mobile.work_item_id, reason: 'item_moved_to_parent' } },
+    ]);
+  });
+
+  it('should broadcast a promotion only once it has committed', async () => {
+    const website = await workItemService.addWorkItem({ name: 'Website' });
+    const task = await workItemService.addWorkItem({ name: 'Task', parent_work_item_id: website.work_item_id });
+    sseService.events = [];
+
+    await workItemService.promoteToProject(task.work_item_id);
+    expect(sseService.events).toEqual([
+      { type: 'projectListUpdated', payload: { reason: 'item_promoted' } },
+      { type: 'projectTreeUpdated', payload: { projectId: website.work_item_id, reason: 'item_promoted' } },
+      { type: 'projectTreeUpdated', payload: { projectId: task.work_item_id, reason: 'item_promoted' } },
+    ]);
+  });
+
+  it('should not broadcast when the transaction fails', async () => {
+    await expect(
+      workItemService.addWorkItem({ name: 'Orphan', parent_work_item_id: '00000000-0000-4000-8000-000000000000' })
+    ).rejects.toThrow(/not found/);
+    expect(sseService.events).toHaveLength(0);
+  });
+});
@@ -0,0 +1,77 @@
+// src/services/__tests__/workItemOrderKeysIntegration.test.ts
+import { setupTestEnvironment, cleanDatabase } from './integrationSetup.js';
+import { type WorkItemData } from '../../repositories/index.js';
+import { MAX_ORDER_KEY_LENGTH } from '../WorkItemUtilsService.js';
+
+describe('WorkItemService - Order Keys Integration Tests', () => {
+  let testEnvironment: Awaited<ReturnType<typeof setupTestEnvironment>>;
+  let project: WorkItemData, first: WorkItemData, second: WorkItemData, third: WorkItemData;
+
+  const children = async () =>
+    testEnvironment.workItemService.listWorkItems({ parent_work_item_id: project.work_item_id, isActive: true });
+  const childNames = async () => (await children()).map((item) => item.name);
+
+  beforeAll(async () => {
+    testEnvironment = await setupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(testEnvironment.pool);
+    const service = testEnvironment.workItemService;
+    project = await service.addWorkItem({ name: 'Project' });
+    first = await service.addWorkItem({ parent_work_item_id: project.work_item_id, name: 'First' });
+    second = await service.addWorkItem({ parent_work_item_id: project.work_item_id, name: 'Second' });
+    third = await service.addWorkItem({ parent_work_item_id: project.work_item_id, name: 'Third' });
+  });
+
+  afterAll(async () => {
+    await testEnvironment.pool.end();
+  });
+
+  it('should keep the order when items are moved into the same gap many times', async () => {
+    const service = testEnvironment.workItemService;
+    for (let i = 0; i < 80; i++) {
+      await service.moveItemAfter(i % 2 === 0 ? third.work_item_id : second.work_item_id, first.work_item_id);
+    }
+
+    expect(await childNames()).toEqual(['First', 'Second', 'Third']);
+    const keys = (await children()).map((item) => item.order_key!);
+    expect(new Set(keys).size).toBe(3);
+    expect(keys.every((key) => key.length <= MAX_ORDER_KEY_LENGTH)).toBe(true);
+
+    const tree = await service.getFullTree(project.work_item_id);
+    expect(tree?.children?.map((child) => child.name)).toEqual(['First', 'Second', 'Third']);
+  });
+
+  it('should renumber the siblings when a gap is used up, and undo that with the move', async () => {
+    const service = testEnvironment.workItemService;
+    const thirdKey = third.order_key;
+    let namesBeforeMove: string[] = [];
+    let renumbered = false;
+    for (let i = 0; i < 200 && !renumbered; i++) {
+      namesBeforeMove = await childNames();
+      await service.moveItemBefore(i % 2 === 0 ? first.work_item_id : second.work_item_id, third.work_item_id);
+      renumbered = (await service.getWorkItemById(third.work_item_id))?.order_key !== thirdKey;
+    }
+    expect(renumbered).toBe(true);
+    expect(await childNames()).not.toEqual(namesBeforeMove);
+
+    await service.undoLastAction();
+    expect(await childNames()).toEqual(namesBeforeMove);
+    expect((await service.getWorkItemById(third.work_item_id))?.order_key).toBe(thirdKey);
+  });
+
+  it('should place new items among siblings with string keys', async () => {
+    const service = testEnvironment.workItemService;
+    await service.addWorkItem({ parent_work_item_id: project.work_item_id, name: 'Zeroth', insertAt: 'start' });
+    await service.addWorkItem({
+      parent_work_item_id: project.work_item_id,
+      name: 'Between',
+      insertAfter_work_item_id: first.work_item_id,
+    });
+
+    expect(await childNames()).toEqual(['Zeroth', 'First', 'Between', 'Second', 'Third']);
+    const keys = (await children()).map((item) => item.order_key!);
+    expect([...keys].sort()).toEqual(keys);
+  });
+});
@@ -211,4 +211,100 @@ describe('WorkItemService - Promote to Project Integration Tests', () => {
       // REMOVED shortname assertion
     });
   });
+
+  describe('Demote to Task', () => {
+    const linkFromOriginalParent = async () =>
+      (await testEnvironment.workItemService.getWorkItemById(originalParent.work_item_id))!.dependencies.find(
+        (dep) => dep.depends_on_work_item_id === taskToPromote.work_item_id
+      );
+    const originalChildIds = async () =>
+      (
+        await testEnvironment.workItemService.listWorkItems({
+          parent_work_item_id: originalParent.work_item_id,
+          isActive: true,
+        })
+      ).map((item) => item.work_item_id);
+
+    it('should put a promoted project back under its parent and remove the link-back dependency', async () => {
+      const service = testEnvironment.workItemService;
+      await service.promoteToProject(taskToPromote.work_item_id);
+      expect((await linkFromOriginalParent())?.is_active).toBe(true);
+
+      const demotedItem = await service.demoteToTask(taskToPromote.work_item_id, originalParent.work_item_id, {
+        moveBefore_work_item_id: siblingTask.work_item_id,
+      });
+
+      expect(demotedItem.parent_work_item_id).toBe(originalParent.work_item_id);
+      expect(await originalChildIds()).toEqual([taskToPromote.work_item_id, siblingTask.work_item_id]);
+      expect((await linkFromOriginalParent())?.is_active ?? false).toBe(false);
+      const rootIds = (await service.listWorkItems({ rootsOnly: true, isActive: true })).map((i) => i.work_item_id);
+      expect(rootIds).not.toContain(taskToPromote.work_item_id);
+    });
+
+    it('should undo and redo a demotion as one action', async () => {
+      const service = testEnvironment.workItemService;
+      await service.promoteToProject(taskToPromote.work_item_id);
+      await service.demoteToTask(taskToPromote.work_item_id, originalParent.work_item_id);
+
+      const undoneAction = await service.undoLastAction();
+      expect(undoneAction!.action_type).toBe('DEMOTE_TO_TASK');
+      expect((await service.getWorkItemById(taskToPromote.work_item_id))!.parent_work_item_id).toBeNull();
+      expect((await linkFromOriginalParent())?.is_active).toBe(true);
+
+      await service.redoLastUndo();
+      expect(await originalChildIds()).toEqual([siblingTask.work_item_id, taskToPromote.work_item_id]);
+      expect((await linkFromOriginalParent())?.is_active ?? false).toBe(false);
+    });
+
+    it('should drop the link-back but keep links from the project itself when demoting it elsewhere', async () => {
+      const service = testEnvironment.workItemService;
+      const otherProject = await service.addWorkItem({ name: 'Other Project' });
+      await service.promoteToProject(taskToPromote.work_item_id);
+      await service.addDependencies(taskToPromote.work_item_id, [
+        { depends_on_work_item_id: siblingTask.work_item_id, dependency_type: 'linked' },
+      ]);
+
+      const demotedItem = await service.demoteToTask(taskToPromote.work_item_id, otherProject.work_item_id);
+
+      expect(demotedItem.parent_work_item_id).toBe(otherProject.work_item_id);
+      expect(demotedItem.dependencies).toEqual([
+        expect.objectContaining({
+          depends_on_work_item_id: siblingTask.work_item_id,
+          dependency_type: 'linked',
+          is_active: true,
+        }),
+      ]);
+      expect((await linkFromOriginalParent())?.is_active ?? false).toBe(false);
+
+      await service.undoLastAction();
+      expect((await linkFromOriginalParent())?.is_active).toBe(true);
+      expect((await service.getWorkItemById(taskToPromote.work_item_id))!.parent_work_item_id).toBeNull();
+    });
+
+    it('should reject demoting a project under a finished parent', async () => {
+      const service = testEnvironment.workItemService;
+      const finished = await service.addWorkItem({ name: 'Finished Project' });
+      await service.setStatus(finished.work_item_id, 'done');
+      await service.promoteToProject(taskToPromote.work_item_id);
+
+      await expect(service.demoteToTask(taskToPromote.work_item_id, finished.work_item_id)).rejects.toMatchObject({
+        errorCode: 'ValidationError',
+        message: expect.stringContaining('Parent work item "Finished Project"'),
+      });
+      expect((await service.getWorkItemById(taskToPromote.work_item_id))!.parent_work_item_id).toBeNull();
+    });
+
+    it('should reject demoting a task, or a project into its own subtree', async () => {
+      const service = testEnvironment.workItemService;
+      await expect(service.demoteToTask(siblingTask.work_item_id, taskToPromote.work_item_id)).rejects.toThrow(
+        `Work item ${siblingTask.work_item_id} is not a top-level project.`
+      );
+      await expect(service.demoteToTask(originalParent.work_item_id, siblingTask.work_item_id)).rejects.toThrow(
+        'Work item "Sibling Task" is below "Original Parent Project", so "Original Parent Project" cannot be demoted under it.'
+      );
+      await expect(
+        service.demoteToTask(originalParent.work_item_id, originalParent.work_item_id)
+      ).rejects.toMatchObject({ errorCode: 'ValidationError' });
+    });
+  });
 });
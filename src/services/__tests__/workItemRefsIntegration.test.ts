@@ -0,0 +1,157 @@
+// src/services/__tests__/workItemRefsIntegration.test.ts
+import { setupTestEnvironment, cleanDatabase } from './integrationSetup.js';
+import { type WorkItemData } from '../../repositories/index.js';
+import { type WithOutlineRef } from '../WorkItemServiceTypes.js';
+
+describe('WorkItemService - Outline Refs and Short IDs Integration Tests', () => {
+  let testEnvironment: Awaited<ReturnType<typeof setupTestEnvironment>>;
+  let website: WorkItemData, app: WorkItemData, design: WorkItemData, build: WorkItemData;
+  let backend: WithOutlineRef<WorkItemData>;
+  const refOf = (path: string, item: WorkItemData) => `${path}@${item.work_item_id.slice(0, 8)}`;
+
+  beforeAll(async () => {
+    testEnvironment = await setupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(testEnvironment.pool);
+    const service = testEnvironment.workItemService;
+    website = await service.addWorkItem({ name: 'Website' });
+    app = await service.addWorkItem({ name: 'App' });
+    design = await service.addWorkItem({ parent_work_item_id: app.work_item_id, name: 'Design' });
+    build = await service.addWorkItem({ parent_work_item_id: app.work_item_id, name: 'Build' });
+    backend = await service.addWorkItem({ parent_work_item_id: build.work_item_id, name: 'Backend' });
+  });
+
+  afterAll(async () => {
+    await testEnvironment.pool.end();
+  });
+
+  it('should include outline refs in items, details, lists and trees', async () => {
+    const service = testEnvironment.workItemService;
+    expect(backend.outline_ref).toBe(refOf('2.2.1', backend));
+
+    const roots = await service.listWorkItems({ rootsOnly: true, isActive: true });
+    expect(roots.map((item) => [item.name, item.outline_ref])).toEqual([
+      ['Website', refOf('1', website)],
+      ['App', refOf('2', app)],
+    ]);
+
+    const details = await service.getWorkItemById(build.work_item_id);
+    expect(details).toMatchObject({
+      outline_ref: refOf('2.2', build),
+      children: [{ name: 'Backend', outline_ref: refOf('2.2.1', backend) }],
+    });
+
+    const tree = await service.getFullTree(app.work_item_id);
+    expect(tree?.children?.map((child) => child.outline_ref)).toEqual([refOf('2.1', design), refOf('2.2', build)]);
+    expect(tree?.children?.[1].children?.[0]).toMatchObject({ name: 'Backend', outline_ref: backend.outline_ref });
+  });
+
+  it('should accept outline refs and short IDs wherever an ID is expected', async () => {
+    const service = testEnvironment.workItemService;
+    await service.setStatus('2.2.1', 'in-progress');
+    expect((await service.getWorkItemById(backend.work_item_id))?.status).toBe('in-progress');
+
+    const frontend = await service.addWorkItem({
+      parent_work_item_id: '2.2',
+      name: 'Frontend',
+      dependencies: [{ depends_on_work_item_id: '2.1' }],
+    });
+    expect(frontend).toMatchObject({ parent_work_item_id: build.work_item_id, outline_ref: refOf('2.2.2', frontend) });
+    expect((await service.getWorkItemById(frontend.outline_ref!))?.dependencies).toEqual([
+      expect.objectContaining({ depends_on_work_item_id: design.work_item_id }),
+    ]);
+
+    const moved = await service.moveItemBefore('2.2.2', '2.2.1');
+    expect(moved.outline_ref).toBe(refOf('2.2.1', frontend));
+
+    const renamed = await service.setName(website.work_item_id.slice(0, 8), 'Homepage');
+    expect(renamed).toMatchObject({ work_item_id: website.work_item_id, outline_ref: refOf('1', website) });
+  });
+
+  it('should reject an outline ref read before a sibling was inserted ahead of its target', async () => {
+    const service = testEnvironment.workItemService;
+    const staleRef = backend.outline_ref!;
+    const frontend = await service.addWorkItem({
+      parent_work_item_id: build.work_item_id,
+      name: 'Frontend',
+      insertAt: 'start',
+    });
+
+    await expect(service.setStatus(staleRef, 'done')).rejects.toMatchObject({
+      errorCode: 'ValidationError',
+      message: expect.stringContaining(`is out of date: 2.2.1 is now "Frontend" (${refOf('2.2.1', frontend)})`),
+    });
+    await expect(service.deleteWorkItem([staleRef])).rejects.toMatchObject({ errorCode: 'ValidationError' });
+    expect(await service.getWorkItemById(frontend.work_item_id)).toMatchObject({ status: 'todo', is_active: true });
+
+    const current = await service.getWorkItemById(backend.work_item_id);
+    expect(current?.outline_ref).toBe(refOf('2.2.2', backend));
+    expect((await service.setStatus(current!.outline_ref!, 'done')).status).toBe('done');
+  });
+
+  it('should refuse outline refs without a short ID when deleting', async () => {
+    const service = testEnvironment.workItemService;
+    await service.addDependencies(backend.work_item_id, [{ depends_on_work_item_id: design.work_item_id }]);
+
+    await expect(service.deleteWorkItem(['2.2.1'])).rejects.toThrow('Outline ref 2.2.1 has no short ID');
+    await expect(service.deleteDependencies(backend.work_item_id, ['2.1'])).rejects.toMatchObject({
+      errorCode: 'ValidationError',
+    });
+
+    const updated = await service.deleteDependencies(backend.work_item_id, [refOf('2.1', design)]);
+    expect(updated.dependencies).toEqual([]);
+    expect(await service.deleteWorkItem([backend.outline_ref!])).toBe(1);
+  });
+
+  it('should reject outline refs that point past the current items', async () => {
+    const service = testEnvironment.workItemService;
+    await expect(service.setStatus('2.5', 'done')).rejects.toMatchObject({
+      errorCode: 'NotFound',
+      message: expect.stringContaining('2 ("App") has 2 active child item(s)'),
+    });
+    await expect(service.getFullTree('3')).rejects.toThrow('there are 2 active project(s)');
+
+    await service.deleteWorkItem([design.work_item_id]);
+    await expect(service.getWorkItemById('2.2')).rejects.toMatchObject({ errorCode: 'NotFound' });
+    expect((await service.getWorkItemById('2.1'))?.work_item_id).toBe(build.work_item_id);
+  });
+
+  it('should reject short IDs of deleted items and short IDs that match several items', async () => {
+    const service = testEnvironment.workItemService;
+    await service.deleteWorkItem([website.work_item_id]);
+    await expect(service.getWorkItemById(website.work_item_id.slice(0, 8))).rejects.toThrow(
+      '"Website", which has been deleted'
+    );
+
+    const now = new Date().toISOString();
+    const twin = (id: string, name: string): WorkItemData => ({
+      work_item_id: id,
+      parent_work_item_id: null,
+      name,
+      description: null,
+      status: 'todo',
+      priority: 'medium',
+      order_key: '9',
+      created_at: now,
+      updated_at: now,
+      due_date: null,
+      is_active: true,
+      tags: [],
+      estimated_duration_days: null,
+      started_at: null,
+      completed_at: null,
+    });
+    await testEnvironment.actionHistoryRepository.withTransaction(async (client) => {
+      await testEnvironment.workItemRepository.create(client, twin('abcdef12-0000-4000-8000-000000000001', 'One'));
+      await testEnvironment.workItemRepository.create(client, twin('abcdef12-0000-4000-8000-000000000002', 'Two'));
+    });
+
+    await expect(service.setStatus('abcdef12', 'done')).rejects.toMatchObject({
+      errorCode: 'ValidationError',
+      details: { candidates: [expect.objectContaining({ name: 'One' }), expect.objectContaining({ name: 'Two' })] },
+    });
+    await expect(service.getFullTree('ABCDEF12-0000')).rejects.toThrow('Short ID ABCDEF12-0000 is ambiguous');
+  });
+});
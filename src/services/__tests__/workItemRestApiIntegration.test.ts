@@ -0,0 +1,135 @@
+// src/services/__tests__/workItemRestApiIntegration.test.ts
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { setupTestEnvironment, cleanDatabase } from './integrationSetup.js';
+import { createHttpApp, startHttpServer, stopHttpServer } from '../../api/httpServer.js';
+
+describe('REST API - Integration Tests', () => {
+  let testEnvironment: Awaited<ReturnType<typeof setupTestEnvironment>>;
+  let server: Server;
+  let baseUrl: string;
+
+  const request = async (method: string, path: string, body?: unknown): Promise<{ status: number; body: any }> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  };
+
+  beforeAll(async () => {
+    testEnvironment = await setupTestEnvironment();
+    server = await startHttpServer(createHttpApp(testEnvironment.workItemService), '127.0.0.1', 0);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(testEnvironment.pool);
+  });
+
+  afterAll(async () => {
+    await stopHttpServer(server);
+    if (testEnvironment.pool) {
+      await testEnvironment.pool.end();
+    }
+  });
+
+  it('should create, update, read and delete work items', async () => {
+    const project = await request('POST', '/projects', { name: 'REST Project' });
+    expect(project.status).toBe(201);
+
+    const task = await request('POST', '/work-items', {
+      parent_work_item_id: project.body.work_item_id,
+      name: 'REST Task',
+    });
+    expect(task.status).toBe(201);
+    expect(task.body.status).toBe('todo');
+
+    const updated = await request('PATCH', `/work-items/${task.body.work_item_id}`, {
+      status: 'in-progress',
+      priority: 'high',
+      tags: ['api'],
+    });
+    expect(updated.status).toBe(200);
+    expect(updated.body).toMatchObject({ status: 'in-progress', priority: 'high', tags: ['api'] });
+
+    const children = await request('GET', `/work-items?parent_work_item_id=${project.body.work_item_id}`);
+    expect(children.body.map((item: any) => item.work_item_id)).toEqual([task.body.work_item_id]);
+
+    const deleted = await request('DELETE', `/work-items/${task.body.work_item_id}`);
+    expect(deleted.body).toEqual({ success: true, deleted_count: 1 });
+
+    // Like get_details, the endpoint still returns soft-deleted items.
+    const details = await request('GET', `/work-items/${task.body.work_item_id}`);
+    expect(details.status).toBe(200);
+    expect(details.body.is_active).toBe(false);
+  });
+
+  it('should apply a PATCH as one action that a single undo reverts', async () => {
+    const project = await request('POST', '/projects', { name: 'Project' });
+    const task = await request('POST', '/work-items', { parent_work_item_id: project.body.work_item_id, name: 'Task' });
+
+    const updated = await request('PATCH', `/work-items/${task.body.work_item_id}`, {
+      name: 'Renamed',
+      status: 'done',
+      due_date: '2025-06-01T00:00:00.000Z',
+      tags: ['api', 'api'],
+    });
+    expect(updated.body).toMatchObject({ name: 'Renamed', status: 'done', tags: ['api'] });
+    expect(updated.body.completed_at).not.toBeNull();
+
+    const history = await request('GET', '/history?limit=1');
+    expect(history.body[0].action_type).toBe('UPDATE_FIELDS');
+
+    const undone = await request('POST', '/history/undo');
+    expect(undone.body.action_type).toBe('UPDATE_FIELDS');
+    const afterUndo = await request('GET', `/work-items/${task.body.work_item_id}`);
+    expect(afterUndo.body).toMatchObject({
+      name: 'Task',
+      status: 'todo',
+      due_date: null,
+      tags: [],
+      started_at: null,
+      completed_at: null,
+    });
+  });
+
+  it('should manage dependencies, undo and redo through the history endpoints', async () => {
+    const project = await request('POST', '/projects', { name: 'Project' });
+    const first = await request('POST', '/work-items', { parent_work_item_id: project.body.work_item_id, name: 'A' });
+    const second = await request('POST', '/work-items', { parent_work_item_id: project.body.work_item_id, name: 'B' });
+
+    const withDependency = await request('POST', `/work-items/${second.body.work_item_id}/dependencies`, {
+      dependencies_to_add: [{ depends_on_work_item_id: first.body.work_item_id }],
+    });
+    expect(withDependency.body.dependencies.map((dep: any) => dep.depends_on_work_item_id)).toEqual([
+      first.body.work_item_id,
+    ]);
+
+    const undone = await request('POST', '/history/undo');
+    expect(undone.body.action_type).toBe('ADD_DEPENDENCIES');
+    const afterUndo = await request('GET', `/work-items/${second.body.work_item_id}`);
+    expect(afterUndo.body.dependencies).toHaveLength(0);
+
+    await request('POST', '/history/redo');
+    const afterRedo = await request('GET', `/work-items/${second.body.work_item_id}`);
+    expect(afterRedo.body.dependencies).toHaveLength(1);
+
+    const history = await request('GET', '/history?limit=2');
+    expect(history.body).toHaveLength(2);
+  });
+
+  it('should reject input the tool schemas reject', async () => {
+    const invalidParent = await request('POST', '/work-items', { parent_work_item_id: 'nope', name: 'Task' });
+    expect(invalidParent.status).toBe(400);
+    expect(invalidParent.body.error).toBe('ValidationError');
+    expect(invalidParent.body.details).toEqual([
+      { path: 'parent_work_item_id', message: 'parent_work_item_id must be a UUID, outline ref or short ID.' },
+    ]);
+
+    const project = await request('POST', '/projects', { name: 'Project' });
+    const emptyPatch = await request('PATCH', `/work-items/${project.body.work_item_id}`, {});
+    expect(emptyPatch.status).toBe(400);
+  });
+});
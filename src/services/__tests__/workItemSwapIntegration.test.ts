@@ -0,0 +1,98 @@
+// src/services/__tests__/workItemSwapIntegration.test.ts
+import { setupTestEnvironment, cleanDatabase } from './integrationSetup.js';
+import { type WorkItemData } from '../../repositories/index.js';
+
+describe('WorkItemService - Swap Items Integration Tests', () => {
+  let testEnvironment: Awaited<ReturnType<typeof setupTestEnvironment>>;
+  let website: WorkItemData, design: WorkItemData, build: WorkItemData, launch: WorkItemData;
+  let mobile: WorkItemData, prototype: WorkItemData;
+
+  const childNames = async (parentId: string) =>
+    (await testEnvironment.workItemService.listWorkItems({ parent_work_item_id: parentId, isActive: true })).map(
+      (item) => item.name
+    );
+
+  beforeAll(async () => {
+    testEnvironment = await setupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(testEnvironment.pool);
+    const service = testEnvironment.workItemService;
+    website = await service.addWorkItem({ name: 'Website' });
+    design = await service.addWorkItem({ parent_work_item_id: website.work_item_id, name: 'Design' });
+    build = await service.addWorkItem({ parent_work_item_id: website.work_item_id, name: 'Build' });
+    launch = await service.addWorkItem({ parent_work_item_id: website.work_item_id, name: 'Launch' });
+    mobile = await service.addWorkItem({ name: 'Mobile' });
+    prototype = await service.addWorkItem({ parent_work_item_id: mobile.work_item_id, name: 'Prototype' });
+  });
+
+  afterAll(async () => {
+    await testEnvironment.pool.end();
+  });
+
+  it('should swap two siblings and restore them with a single undo', async () => {
+    const service = testEnvironment.workItemService;
+    const [first, second] = await service.swapItems(design.work_item_id, launch.work_item_id);
+
+    expect(first.order_key).toBe(launch.order_key);
+    expect(second.order_key).toBe(design.order_key);
+    expect(await childNames(website.work_item_id)).toEqual(['Launch', 'Build', 'Design']);
+
+    await service.undoLastAction();
+    expect(await childNames(website.work_item_id)).toEqual(['Design', 'Build', 'Launch']);
+
+    await service.redoLastUndo();
+    expect(await childNames(website.work_item_id)).toEqual(['Launch', 'Build', 'Design']);
+  });
+
+  it('should move items under different parents into the slots of one another', async () => {
+    const service = testEnvironment.workItemService;
+    const [first, second] = await service.swapItems(build.work_item_id, prototype.work_item_id);
+
+    expect(first.parent_work_item_id).toBe(mobile.work_item_id);
+    expect(second.parent_work_item_id).toBe(website.work_item_id);
+    expect(await childNames(website.work_item_id)).toEqual(['Design', 'Prototype', 'Launch']);
+    expect(await childNames(mobile.work_item_id)).toEqual(['Build']);
+
+    await service.undoLastAction();
+    expect(await childNames(website.work_item_id)).toEqual(['Design', 'Build', 'Launch']);
+    expect(await childNames(mobile.work_item_id)).toEqual(['Prototype']);
+  });
+
+  it('should reject swapping an item with itself or with one of its descendants', async () => {
+    const service = testEnvironment.workItemService;
+    await expect(service.swapItems(build.work_item_id, build.work_item_id)).rejects.toMatchObject({
+      errorCode: 'ValidationError',
+    });
+    await expect(service.swapItems(website.work_item_id, launch.work_item_id)).rejects.toThrow(
+      'Work item "Launch" is below "Website", so the two cannot be swapped.'
+    );
+    expect(await childNames(website.work_item_id)).toEqual(['Design', 'Build', 'Launch']);
+  });
+
+  it('should reject swapping a task under a finished parent', async () => {
+    const service = testEnvironment.workItemService;
+    await service.setStatus(mobile.work_item_id, 'done');
+
+    await expect(service.swapItems(build.work_item_id, prototype.work_item_id)).rejects.toMatchObject({
+      errorCode: 'ValidationError',
+      message: expect.stringContaining('Parent work item "Mobile"'),
+    });
+    expect(await childNames(website.work_item_id)).toEqual(['Design', 'Build', 'Launch']);
+    expect(await childNames(mobile.work_item_id)).toEqual(['Prototype']);
+  });
+
+  it('should reject swapping a project with a task', async () => {
+    const service = testEnvironment.workItemService;
+    await expect(service.swapItems(mobile.work_item_id, build.work_item_id)).rejects.toThrow(
+      '"Mobile" is a project and "Build" is a task, so the two cannot be swapped.'
+    );
+    await expect(service.swapItems(build.work_item_id, mobile.work_item_id)).rejects.toMatchObject({
+      errorCode: 'ValidationError',
+    });
+    const projects = await service.listWorkItems({ rootsOnly: true, isActive: true });
+    expect(projects.map((item) => item.name)).toEqual(['Website', 'Mobile']);
+    expect(await childNames(website.work_item_id)).toEqual(['Design', 'Build', 'Launch']);
+  });
+});
@@ -0,0 +1,100 @@
+// src/services/__tests__/workItemTagsIntegration.test.ts
+import { setupTestEnvironment, cleanDatabase } from './integrationSetup.js';
+import { WorkItemService } from '../WorkItemService.js';
+
+describe('WorkItemService - Tags Integration Tests', () => {
+  let testEnvironment: Awaited<ReturnType<typeof setupTestEnvironment>>;
+  let workItemService: WorkItemService;
+
+  beforeEach(async () => {
+    testEnvironment = await setupTestEnvironment();
+    workItemService = testEnvironment.workItemService;
+    await cleanDatabase(testEnvironment.pool);
+  });
+
+  afterAll(async () => {
+    if (testEnvironment.pool) {
+      await testEnvironment.pool.end();
+    }
+  });
+
+  it('should accept tags on creation and surface them on the item', async () => {
+    const project = await workItemService.addWorkItem({ name: 'Tagged Project' });
+    const task = await workItemService.addWorkItem({
+      parent_work_item_id: project.work_item_id,
+      name: 'Tagged Task',
+      tags: ['frontend', 'bug', 'frontend'],
+    });
+    expect(task.tags).toEqual(['frontend', 'bug']);
+
+    const [treeChild] = await workItemService.addWorkItemTree(project.work_item_id, [
+      { name: 'Tree Child', tags: ['backend'] },
+    ]);
+    expect(treeChild.tags).toEqual(['backend']);
+  });
+
+  it('should add, remove and set tags with undo support', async () => {
+    const project = await workItemService.addWorkItem({ name: 'Project' });
+    const task = await workItemService.addWorkItem({ parent_work_item_id: project.work_item_id, name: 'Task' });
+
+    const afterAdd = await workItemService.addTags(task.work_item_id, ['a', 'b']);
+    expect(afterAdd.tags).toEqual(['a', 'b']);
+
+    const afterRemove = await workItemService.removeTags(task.work_item_id, ['a', 'missing']);
+    expect(afterRemove.tags).toEqual(['b']);
+
+    const afterSet = await workItemService.setTags(task.work_item_id, ['x', 'y']);
+    expect(afterSet.tags).toEqual(['x', 'y']);
+
+    await workItemService.undoLastAction();
+    const afterUndo = await workItemService.getWorkItemById(task.work_item_id);
+    expect(afterUndo?.tags).toEqual(['b']);
+
+    await workItemService.redoLastUndo();
+    const afterRedo = await workItemService.getWorkItemById(task.work_item_id);
+    expect(afterRedo?.tags).toEqual(['x', 'y']);
+  });
+
+  it('should list tag usage counts per project', async () => {
+    const projectA = await workItemService.addWorkItem({ name: 'A Project', tags: ['shared'] });
+    await workItemService.addWorkItem({
+      parent_work_item_id: projectA.work_item_id,
+      name: 'A Task',
+      tags: ['shared', 'only-a'],
+    });
+    const projectB = await workItemService.addWorkItem({ name: 'B Project' });
+    await workItemService.addWorkItem({ parent_work_item_id: projectB.work_item_id, name: 'B Task', tags: ['shared'] });
+
+    const usage = await workItemService.listTags();
+    expect(usage).toEqual([
+      {
+        project_id: projectA.work_item_id,
+        project_name: 'A Project',
+        tags: [
+          { tag: 'shared', count: 2 },
+          { tag: 'only-a', count: 1 },
+        ],
+      },
+      { project_id: projectB.work_item_id, project_name: 'B Project', tags: [{ tag: 'shared', count: 1 }] },
+    ]);
+
+    const onlyB = await workItemService.listTags(projectB.work_item_id);
+    expect(onlyB).toHaveLength(1);
+    expect(onlyB[0].project_id).toBe(projectB.work_item_id);
+  });
+
+  it('should refuse add_tags calls that would take an item past the tag limit', async () => {
+    const project = await workItemService.addWorkItem({ name: 'Project' });
+    const tags = (from: number, count: number) => Array.from({ length: count }, (_, index) => `tag-${from + index}`);
+    await workItemService.addTags(project.work_item_id, tags(0, 30));
+    const full = await workItemService.addTags(project.work_item_id, tags(20, 30));
+    expect(full.tags).toHaveLength(50);
+
+    await expect(workItemService.addTags(project.work_item_id, ['one-too-many'])).rejects.toThrow('would have 51 tags');
+    expect((await workItemService.getWorkItemById(project.work_item_id))?.tags).toHaveLength(50);
+  });
+
+  it('should reject tag changes on a missing work item', async () => {
+    await expect(workItemService.addTags('123e4567-e89b-12d3-a456-426614174000', ['x'])).rejects.toThrow(/not found/);
+  });
+});
@@ -0,0 +1,148 @@
+// src/services/__tests__/workItemTemplatesIntegration.test.ts
+import { setupTestEnvironment, cleanDatabase } from './integrationSetup.js';
+import { type WorkItemData } from '../../repositories/index.js';
+
+describe('WorkItemService - Templates Integration Tests', () => {
+  let testEnvironment: Awaited<ReturnType<typeof setupTestEnvironment>>;
+  let launch: WorkItemData, design: WorkItemData, deploy: WorkItemData;
+
+  const children = async (parentId: string) =>
+    testEnvironment.workItemService.listWorkItems({ parent_work_item_id: parentId, isActive: true });
+  const childNames = async (parentId: string) => (await children(parentId)).map((item) => item.name);
+  const saveLaunchTemplate = () =>
+    testEnvironment.workItemService.createTemplate(launch.work_item_id, {
+      name: 'microservice launch',
+      description: 'Everything a new service needs before go-live.',
+      variables: { service: 'Payments', team: 'Core' },
+      anchor_date: '2026-03-01T00:00:00.000Z',
+    });
+
+  beforeAll(async () => {
+    testEnvironment = await setupTestEnvironment();
+  });
+
+  beforeEach(async () => {
+    await cleanDatabase(testEnvironment.pool);
+    const service = testEnvironment.workItemService;
+    launch = await service.addWorkItem({ name: 'Launch Payments' });
+    design = await service.addWorkItem({
+      parent_work_item_id: launch.work_item_id,
+      name: 'Design the Payments API',
+      description: 'Reviewed by Core',
+      priority: 'high',
+      due_date: '2026-03-03T00:00:00.000Z',
+      tags: ['api'],
+    });
+    deploy = await service.addWorkItem({
+      parent_work_item_id: launch.work_item_id,
+      name: 'Deploy Payments',
+      due_date: '2026-03-10T00:00:00.000Z',
+      estimated_duration_days: 2,
+    });
+    await service.addWorkItem({ parent_work_item_id: deploy.work_item_id, name: 'Smoke test' });
+    await service.setStatus(design.work_item_id, 'done');
+  });
+
+  afterAll(async () => {
+    await testEnvironment.pool.end();
+  });
+
+  it('should save a subtree as a template and build a new project from it in one undoable action', async () => {
+    const service = testEnvironment.workItemService;
+    const template = await saveLaunchTemplate();
+    expect(template).toMatchObject({ name: 'microservice launch', latest_version: 1 });
+    expect(template.versions).toEqual([
+      expect.objectContaining({ version: 1, variables: ['service', 'team'], item_count: 4 }),
+    ]);
+
+    const project = await service.instantiateTemplate('microservice launch', {
+      variables: { service: 'Billing', team: 'Platform' },
+      start_date: '2026-06-01T00:00:00.000Z',
+    });
+    expect(project.parent_work_item_id).toBeNull();
+    expect(project.name).toBe('Launch Billing');
+    const created = await children(project.work_item_id);
+    expect(created.map((item) => item.name)).toEqual(['Design the Billing API', 'Deploy Billing']);
+    expect(created[0]).toMatchObject({
+      description: 'Reviewed by Platform',
+      status: 'todo',
+      priority: 'high',
+      tags: ['api'],
+    });
+    expect(created.map((item) => new Date(item.due_date!).toISOString())).toEqual([
+      '2026-06-03T00:00:00.000Z',
+      '2026-06-10T00:00:00.000Z',
+    ]);
+    expect(created[1].estimated_duration_days).toBe(2);
+    expect(await childNames(created[1].work_item_id)).toEqual(['Smoke test']);
+
+    const undone = await service.undoLastAction();
+    expect(undone!.action_type).toBe('INSTANTIATE_TEMPLATE');
+    const projects = await service.listWorkItems({ rootsOnly: true, isActive: true });
+    expect(projects.map((item) => item.name)).toEqual(['Launch Payments']);
+  });
+
+  it('should keep earlier versions available after the template changes', async () => {
+    const service = testEnvironment.workItemService;
+    await saveLaunchTemplate();
+    await service.addWorkItem({ parent_work_item_id: launch.work_item_id, name: 'Announce Payments' });
+    const updated = await service.createTemplate(launch.work_item_id, {
+      name: 'microservice launch',
+      variables: { service: 'Payments' },
+    });
+    expect(updated.latest_version).toBe(2);
+    expect(updated.description).toBe('Everything a new service needs before go-live.');
+    expect(updated.versions.map((version) => [version.version, version.variables])).toEqual([
+      [1, ['service', 'team']],
+      [2, ['service']],
+    ]);
+
+    const mobile = await service.addWorkItem({ name: 'Mobile' });
+    const latest = await service.instantiateTemplate('microservice launch', {
+      variables: { service: 'Search' },
+      parent_work_item_id: mobile.work_item_id,
+    });
+    expect(latest.parent_work_item_id).toBe(mobile.work_item_id);
+    expect(await childNames(latest.work_item_id)).toEqual([
+      'Design the Search API',
+      'Deploy Search',
+      'Announce Search',
+    ]);
+
+    const original = await service.instantiateTemplate('microservice launch', {
+      version: 1,
+      variables: { service: 'Search', team: 'Discovery' },
+      parent_work_item_id: mobile.work_item_id,
+    });
+    expect(await childNames(original.work_item_id)).toEqual(['Design the Search API', 'Deploy Search']);
+    expect(await childNames(mobile.work_item_id)).toEqual(['Launch Search', 'Launch Search']);
+
+    const templates = await service.listTemplates();
+    expect(templates.map((item) => [item.name, item.latest_version])).toEqual([['microservice launch', 2]]);
+  });
+
+  it('should reject missing, unknown or unmatched variables and unknown templates or versions', async () => {
+    const service = testEnvironment.workItemService;
+    await saveLaunchTemplate();
+
+    await expect(
+      service.instantiateTemplate('microservice launch', { variables: { service: 'Billing' } })
+    ).rejects.toThrow('Version 1 of template "microservice launch" needs: team.');
+    await expect(
+      service.instantiateTemplate('microservice launch', {
+        variables: { service: 'Billing', team: 'Platform', owner: 'Sam' },
+      })
+    ).rejects.toThrow('does not use: owner.');
+    await expect(service.instantiateTemplate('incident postmortem')).rejects.toMatchObject({ errorCode: 'NotFound' });
+    await expect(
+      service.instantiateTemplate('microservice launch', { version: 3, variables: { service: 'A', team: 'B' } })
+    ).rejects.toMatchObject({ errorCode: 'NotFound' });
+    await expect(
+      service.createTemplate(launch.work_item_id, { name: 'other', variables: { region: 'EU' } })
+    ).rejects.toMatchObject({ errorCode: 'ValidationError' });
+
+    const projects = await service.listWorkItems({ rootsOnly: true, isActive: true });
+    expect(projects.map((item) => item.name)).toEqual(['Launch Payments']);
+    expect((await service.listTemplates()).map((item) => item.name)).toEqual(['microservice launch']);
+  });
+});
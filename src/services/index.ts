@@ -11,3 +11,13 @@ export * from './WorkItemDeleteService.js';
 export * from './WorkItemHistoryService.js';
 export * from './WorkItemUtilsService.js';
 export * from './WorkItemPromoteService.js'; // New export
+export * from './WorkItemImportService.js';
+export * from './WorkItemDuplicateService.js';
+export * from './WorkItemTemplateService.js';
+export * from './WorkItemExportService.js';
+export * from './WorkItemTagService.js';
+export * from './WorkItemScheduleService.js';
+export * from './WorkItemImpactService.js';
+export * from './WorkItemGraphService.js';
+export * from './WorkItemRefService.js';
+export * from './WorkItemOrderKeyService.js';
@@ -1,12 +1,19 @@
 // upload/src/tools/add_child_tasks_params.ts
 import { z } from 'zod';
 // These enums are directly used in the ChildTaskDataBaseSchema via .nullish()
-import { WorkItemStatusEnum, WorkItemPriorityEnum } from '../services/WorkItemServiceTypes.js';
+import {
+  WorkItemStatusEnum,
+  WorkItemPriorityEnum,
+  TagSchema,
+  MAX_TAGS_PER_ITEM,
+  EstimatedDurationDaysSchema,
+  workItemRefSchema,
+} from '../services/WorkItemServiceTypes.js';
 
 export const TOOL_NAME = 'add_child_tasks';
 export const TOOL_DESCRIPTION = `
 Adds a hierarchy of one or more child tasks (a tree structure) under a specified parent work item.
-Each task in the tree must have a name. Optional fields for each task include: description, status, priority, due_date, and its own 'children' array for further nesting.
+Each task in the tree must have a name. Optional fields for each task include: description, status, priority, due_date, estimated_duration_days, tags, and its own 'children' array for further nesting.
 All tasks in the provided tree will be created under the given parent_work_item_id.
 The order of tasks at each level will be preserved as provided in the input arrays.
 Returns a flat array of all successfully created work item objects (including all descendants).
@@ -36,6 +43,14 @@ const ChildTaskDataBaseSchema = z.object({
     .datetime({ message: 'Due date must be a valid ISO 8601 date-time string.' })
     .nullish()
     .describe('Optional. Due date for the child task in ISO 8601 format or null.'),
+  estimated_duration_days: EstimatedDurationDaysSchema.nullish().describe(
+    'Optional. The estimated duration of the child task in days, or null.'
+  ),
+  tags: z
+    .array(TagSchema)
+    .max(MAX_TAGS_PER_ITEM, `A work item cannot have more than ${MAX_TAGS_PER_ITEM} tags.`)
+    .optional()
+    .describe('Optional. Tags for the child task, e.g. ["frontend", "bug"]. Tags are case-sensitive.'),
 });
 
 export type ChildTaskInputRecursive = z.infer<typeof ChildTaskDataBaseSchema> & {
@@ -50,10 +65,9 @@ const ChildTaskInputSchema: z.ZodType<ChildTaskInputRecursive> = ChildTaskDataBa
 });
 
 export const AddChildTasksBaseSchema = z.object({
-  parent_work_item_id: z
-    .string()
-    .uuid({ message: 'Parent work item ID must be a valid UUID.' })
-    .describe('Required. The UUID of the parent project or task for the new child tasks tree.'),
+  parent_work_item_id: workItemRefSchema('Parent work item ID must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the parent project or task for the new child tasks tree.'
+  ),
   child_tasks_tree: z
     .array(ChildTaskInputSchema)
     .min(1, { message: 'At least one child task/tree structure must be provided.' })
@@ -7,6 +7,7 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { TOOL_NAME, TOOL_DESCRIPTION, AddChildTasksParamsSchema, AddChildTasksArgs } from './add_child_tasks_params.js';
 import { logger } from '../utils/logger.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
 import { DatabaseManager } from '../db/DatabaseManager.js';
 import { WorkItemRepository, ActionHistoryRepository } from '../repositories/index.js';
 import { WorkItemService } from '../services/WorkItemService.js';
@@ -46,6 +47,9 @@ export const addChildTasksTool = (server: McpServer): void => {
     } catch (error: unknown) {
       logger.error(`[${TOOL_NAME}] Error processing request:`, error);
       if (error instanceof McpError) throw error;
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
       const message = error instanceof Error ? error.message : 'An unknown error occurred while adding child tasks.';
       throw new McpError(ErrorCode.InternalError, message);
     }
@@ -1,24 +1,36 @@
 // src/tools/add_dependencies_params.ts
 import { z } from 'zod';
+import { DependencyTypeEnum, DependencyLagDaysSchema, workItemRefSchema } from '../services/WorkItemServiceTypes.js';
 
 export const TOOL_NAME = 'add_dependencies';
 
 export const TOOL_DESCRIPTION = `
 Adds one or more dependency links TO a specified work item.
 If a dependency link to the target already exists but is inactive, it will be reactivated.
-If an active link already exists, its type might be updated if specified differently in the input.
+If an active link already exists, its type and lag are updated if specified differently in the input.
+Types: 'finish-to-start' (this item starts after the target finishes), 'start-to-start' (starts after the target starts), 'finish-to-finish' (finishes after the target finishes), 'start-to-finish' (finishes after the target starts) and 'linked' (no ordering).
+An optional lag_days adds a wait, e.g. start-to-start with lag_days 2: this item can start 2 days after the target starts.
+get_next_task holds this item back until its finish-to-start and linked targets are done and its start-to-start targets have started, plus any lag; finish-to-finish and start-to-finish links only shape the schedule (see 'get_critical_path').
+A link that would close a cycle (the target already waits, directly or indirectly, on this item) is rejected; the error lists the cycle.
 `;
 
-const DependencyInputSchema = z.object({
-  depends_on_work_item_id: z.string().uuid('Each depends_on_work_item_id must be a valid UUID.'),
-  dependency_type: z.enum(['finish-to-start', 'linked']).default('finish-to-start').optional(),
-});
+export const DependencyInputSchema = z
+  .object({
+    depends_on_work_item_id: workItemRefSchema('Each depends_on_work_item_id must be a UUID, outline ref or short ID.'),
+    dependency_type: DependencyTypeEnum.default('finish-to-start').optional(),
+    lag_days: DependencyLagDaysSchema.optional().describe(
+      'Optional. Days to wait after the start or finish of the target (may be fractional). Defaults to 0.'
+    ),
+  })
+  .refine((dep) => !dep.lag_days || dep.dependency_type !== 'linked', {
+    message: "A 'linked' dependency cannot have a lag.",
+    path: ['lag_days'],
+  });
 
 export const AddDependenciesParamsSchema = z.object({
-  work_item_id: z
-    .string()
-    .uuid('The work_item_id must be a valid UUID.')
-    .describe('Required. The UUID of the work item to which dependencies should be added.'),
+  work_item_id: workItemRefSchema('The work_item_id must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the work item to which dependencies should be added.'
+  ),
   dependencies_to_add: z
     .array(DependencyInputSchema)
     .min(1, 'At least one dependency must be provided in dependencies_to_add.')
@@ -0,0 +1,21 @@
+// src/tools/add_tags_params.ts
+import { z } from 'zod';
+import { TagSchema, MAX_TAGS_PER_ITEM, workItemRefSchema } from '../services/WorkItemServiceTypes.js';
+
+export const TOOL_NAME = 'add_tags';
+
+export const TOOL_DESCRIPTION = `Adds one or more tags to a specific work item. Tags already present are left unchanged. Tags are case-sensitive.`;
+
+export const AddTagsParamsSchema = z.object({
+  work_item_id: workItemRefSchema('The work_item_id must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the work item whose tags are to be changed.'
+  ),
+  tags: z
+    .array(TagSchema)
+    .min(1, 'At least one tag must be provided.')
+    .max(MAX_TAGS_PER_ITEM, `A work item cannot have more than ${MAX_TAGS_PER_ITEM} tags.`)
+    .describe('Required. The tags to add (e.g. ["frontend", "bug"]).'),
+});
+
+// Define the expected type for arguments based on the Zod schema
+export type AddTagsArgs = z.infer<typeof AddTagsParamsSchema>;
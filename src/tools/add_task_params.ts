@@ -1,12 +1,19 @@
 // src/tools/add_task_params.ts
 import { z } from 'zod';
+import {
+  TagSchema,
+  MAX_TAGS_PER_ITEM,
+  EstimatedDurationDaysSchema,
+  workItemRefSchema,
+} from '../services/WorkItemServiceTypes.js';
+import { DependencyInputSchema } from './add_dependencies_params.js';
 
 export const TOOL_NAME = 'add_task';
 
 export const TOOL_DESCRIPTION = `
 Adds a new work item (task, sub-task, etc.) as a child of an existing work item.
 Requires the parent_work_item_id (UUID) and a name for the item.
-Also accepts optional description, initial status, priority, due date, and dependencies.
+Also accepts optional description, initial status, priority, due date, duration estimate, tags, and dependencies.
 Optionally specify the desired position within the parent using ONE of: insertAt ('start' or 'end'), insertAfter_work_item_id, or insertBefore_work_item_id. If no position is specified, it defaults to the end.
 Returns the full details of the newly created work item upon success.
 Use 'create_project' to create top-level items.
@@ -14,15 +21,13 @@ Use 'create_project' to create top-level items.
 
 export const WorkItemStatusEnum = z.enum(['todo', 'in-progress', 'review', 'done']);
 export const WorkItemPriorityEnum = z.enum(['high', 'medium', 'low']); // Ensure this is exported
-const DependencyTypeEnum = z.enum(['finish-to-start', 'linked']);
 const InsertPositionEnum = z.enum(['start', 'end']);
 
 // Base schema - parent_work_item_id is now required
 export const AddTaskBaseSchema = z.object({
-  parent_work_item_id: z
-    .string()
-    .uuid('parent_work_item_id must be a valid UUID.')
-    .describe('Required. The unique identifier (UUID) of the parent work item.'),
+  parent_work_item_id: workItemRefSchema('parent_work_item_id must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the parent work item.'
+  ),
 
   name: z
     .string()
@@ -37,16 +42,11 @@ export const AddTaskBaseSchema = z.object({
     .describe('Optional. A detailed description for the work item (max 1024 characters).'),
 
   dependencies: z
-    .array(
-      z.object({
-        depends_on_work_item_id: z.string().uuid('Each depends_on_work_item_id must be a valid UUID.'),
-        dependency_type: DependencyTypeEnum.default('finish-to-start'),
-      })
-    )
+    .array(DependencyInputSchema)
     .max(50, 'A work item cannot have more than 50 dependencies.')
     .optional()
     .describe(
-      "Optional list of dependencies (max 50). Each dependency specifies the ID it depends on and the type ('finish-to-start' or 'linked')."
+      "Optional list of dependencies (max 50). Each dependency specifies the ID it depends on, the type (default 'finish-to-start'; see 'add_dependencies') and an optional lag_days."
     ),
 
   priority: WorkItemPriorityEnum.optional()
@@ -65,15 +65,21 @@ export const AddTaskBaseSchema = z.object({
     .optional()
     .describe('Optional due date for the work item in ISO 8601 format (e.g., "2025-12-31T23:59:59Z").'),
 
+  estimated_duration_days: EstimatedDurationDaysSchema.optional().describe(
+    'Optional. The estimated duration in days (may be fractional, e.g. 0.5). Used by get_critical_path.'
+  ),
+
+  tags: z
+    .array(TagSchema)
+    .max(MAX_TAGS_PER_ITEM, `A work item cannot have more than ${MAX_TAGS_PER_ITEM} tags.`)
+    .optional()
+    .describe('Optional. Tags for the work item, e.g. ["frontend", "bug"]. Tags are case-sensitive.'),
+
   insertAt: InsertPositionEnum.optional().describe("Optional. Insert at the 'start' or 'end' of the sibling list."),
-  insertAfter_work_item_id: z
-    .string()
-    .uuid('insertAfter_work_item_id must be a valid UUID.')
+  insertAfter_work_item_id: workItemRefSchema('insertAfter_work_item_id must be a UUID, outline ref or short ID.')
     .optional()
     .describe('Optional. Insert the new item immediately after the item with this ID.'),
-  insertBefore_work_item_id: z
-    .string()
-    .uuid('insertBefore_work_item_id must be a valid UUID.')
+  insertBefore_work_item_id: workItemRefSchema('insertBefore_work_item_id must be a UUID, outline ref or short ID.')
     .optional()
     .describe('Optional. Insert the new item immediately before the item with this ID.'),
 });
@@ -3,6 +3,7 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { TOOL_NAME, TOOL_DESCRIPTION, AddTaskBaseSchema, AddTaskArgs } from './add_task_params.js';
 import { logger } from '../utils/logger.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
 import { DatabaseManager } from '../db/DatabaseManager.js';
 import { WorkItemRepository, ActionHistoryRepository } from '../repositories/index.js'; // Not needed if service is passed
 import { WorkItemService } from '../services/WorkItemService.js';
@@ -25,7 +26,8 @@ export const addTaskTool = (server: McpServer): void => {
         status,
         priority,
         due_date,
-        //tags,
+        estimated_duration_days,
+        tags,
         dependencies,
         insertAt,
         insertAfter_work_item_id,
@@ -39,7 +41,8 @@ export const addTaskTool = (server: McpServer): void => {
         status,
         priority,
         due_date,
-        //tags,
+        estimated_duration_days,
+        tags,
         dependencies,
         insertAt,
         insertAfter_work_item_id,
@@ -53,6 +56,9 @@ export const addTaskTool = (server: McpServer): void => {
     } catch (error: unknown) {
       logger.error(`[\${TOOL_NAME}] Error processing request:`, error);
       if (error instanceof McpError) throw error;
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
       const message = error instanceof Error ? error.message : 'An unknown error occurred while adding the task.';
       throw new McpError(ErrorCode.InternalError, message);
     }
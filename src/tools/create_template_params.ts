@@ -0,0 +1,50 @@
+// src/tools/create_template_params.ts
+import { z } from 'zod';
+import { workItemRefSchema } from '../services/WorkItemServiceTypes.js';
+
+export const TOOL_NAME = 'create_template';
+
+export const TOOL_DESCRIPTION = `
+Saves a work item and its active descendants as a named template, e.g. "microservice launch" or "incident postmortem".
+Templates are versioned: saving under a name that already exists adds a new version, and earlier versions stay available to instantiate_template.
+'variables' maps a variable name to text in the subtree, e.g. { "service": "Payments" }; every occurrence of that text in names and descriptions is stored as the placeholder {{service}}. Placeholders already written as {{name}} are kept.
+Due dates are stored as whole days from anchor_date (default: the day the work item was created). Names, descriptions, priorities, tags and estimates are kept; statuses and dependencies are not.
+Saving a template is not recorded in the undo history. Returns the template with a summary of each version.
+`;
+
+export const TemplateNameSchema = z
+  .string()
+  .trim()
+  .min(1, 'Template name cannot be empty.')
+  .max(255, 'Template name cannot exceed 255 characters.');
+
+export const TemplateVariableNameSchema = z
+  .string()
+  .regex(
+    /^[A-Za-z_][A-Za-z0-9_]*$/,
+    'Variable names must start with a letter or underscore and contain only letters, digits and underscores.'
+  );
+
+export const CreateTemplateParamsSchema = z.object({
+  work_item_id: workItemRefSchema('The work_item_id must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the work item to save, with its descendants.'
+  ),
+  name: TemplateNameSchema.describe('Required. The template name. An existing name gets a new version.'),
+  description: z
+    .string()
+    .max(1024, 'Template description cannot exceed 1024 characters.')
+    .nullable()
+    .optional()
+    .describe('Optional. What the template is for. Defaults to the current description of an existing template.'),
+  variables: z
+    .record(TemplateVariableNameSchema, z.string().min(1, 'The text a variable stands for cannot be empty.'))
+    .optional()
+    .describe('Optional. Variable names mapped to the text they replace, e.g. { "service": "Payments" }.'),
+  anchor_date: z
+    .string()
+    .datetime({ message: 'The anchor date must be a valid ISO 8601 date-time string.' })
+    .optional()
+    .describe('Optional. The date due-date offsets are counted from. Defaults to the day the work item was created.'),
+});
+
+export type CreateTemplateArgs = z.infer<typeof CreateTemplateParamsSchema>;
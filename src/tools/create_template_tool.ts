@@ -0,0 +1,45 @@
+// src/tools/create_template_tool.ts
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import {
+  TOOL_NAME,
+  TOOL_DESCRIPTION,
+  CreateTemplateParamsSchema,
+  CreateTemplateArgs,
+} from './create_template_params.js';
+import { logger } from '../utils/logger.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { DatabaseManager } from '../db/DatabaseManager.js';
+import { WorkItemRepository, ActionHistoryRepository } from '../repositories/index.js';
+import { WorkItemService } from '../services/WorkItemService.js';
+
+export const createTemplateTool = (server: McpServer): void => {
+  const processRequest = async (args: CreateTemplateArgs): Promise<{ content: { type: 'text'; text: string }[] }> => {
+    logger.info(`[${TOOL_NAME}] Received request to save ${args.work_item_id} as template "${args.name}".`);
+
+    try {
+      const dbManager = await DatabaseManager.getInstance();
+      const pool = dbManager.getPool();
+      const workItemRepository = new WorkItemRepository(pool);
+      const actionHistoryRepository = new ActionHistoryRepository(pool);
+      const workItemService = new WorkItemService(workItemRepository, actionHistoryRepository);
+      const { work_item_id, ...options } = args;
+
+      const template = await workItemService.createTemplate(work_item_id, options);
+
+      logger.info(`[${TOOL_NAME}] Saved version ${template.latest_version} of template "${template.name}".`);
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify(template) }],
+      };
+    } catch (error: unknown) {
+      logger.error(`[${TOOL_NAME}] Error saving template "${args.name}":`, error);
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      } else {
+        const message = error instanceof Error ? error.message : 'An unknown error occurred';
+        throw new McpError(ErrorCode.InternalError, message);
+      }
+    }
+  };
+  server.tool(TOOL_NAME, TOOL_DESCRIPTION, CreateTemplateParamsSchema.shape, processRequest);
+};
@@ -1,5 +1,6 @@
 // src/tools/delete_child_tasks_params.ts
 import { z } from 'zod';
+import { workItemRefSchema } from '../services/WorkItemServiceTypes.js';
 
 export const TOOL_NAME = 'delete_child_tasks';
 export const TOOL_DESCRIPTION = `
@@ -11,12 +12,11 @@ Returns a summary of the deletion operation.
 
 // Define the base schema first
 const baseDeleteChildTasksParamsSchema = z.object({
-  parent_work_item_id: z
-    .string()
-    .uuid({ message: 'Parent work item ID must be a valid UUID.' })
-    .describe('Required. The UUID of the parent work item whose children are to be deleted.'),
+  parent_work_item_id: workItemRefSchema('Parent work item ID must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the parent work item whose children are to be deleted.'
+  ),
   child_task_ids: z
-    .array(z.string().uuid({ message: 'Each child task ID must be a valid UUID.' }))
+    .array(workItemRefSchema('Each child task ID must be a UUID, outline ref or short ID.'))
     .optional()
     .describe(
       'Optional. An array of specific child task UUIDs to delete. If provided and delete_all_children is false, only these are targeted.'
@@ -9,6 +9,7 @@ import {
   DeleteChildTasksParamsSchemaShape, // Used for server.tool registration
 } from './delete_child_tasks_params.js';
 import { logger } from '../utils/logger.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
 import { DatabaseManager } from '../db/DatabaseManager.js';
 import { WorkItemRepository, ActionHistoryRepository } from '../repositories/index.js';
 import { WorkItemService } from '../services/WorkItemService.js';
@@ -62,6 +63,9 @@ export const deleteChildTasksTool = (server: McpServer): void => {
     } catch (error: unknown) {
       logger.error(`[${TOOL_NAME}] Error processing request:`, error);
       if (error instanceof McpError) throw error;
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
       const errMsg = error instanceof Error ? error.message : 'An unknown error occurred while deleting child tasks.';
       throw new McpError(ErrorCode.InternalError, errMsg);
     }
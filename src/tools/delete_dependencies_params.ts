@@ -1,5 +1,6 @@
 // src/tools/delete_dependencies_params.ts
 import { z } from 'zod';
+import { workItemRefSchema } from '../services/WorkItemServiceTypes.js';
 
 export const TOOL_NAME = 'delete_dependencies';
 
@@ -10,12 +11,11 @@ Only affects active dependency links.
 `;
 
 export const DeleteDependenciesParamsSchema = z.object({
-  work_item_id: z
-    .string()
-    .uuid('The work_item_id must be a valid UUID.')
-    .describe('Required. The UUID of the work item from which dependencies should be removed.'),
+  work_item_id: workItemRefSchema('The work_item_id must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the work item from which dependencies should be removed.'
+  ),
   depends_on_ids_to_remove: z
-    .array(z.string().uuid('Each ID in depends_on_ids_to_remove must be a valid UUID.'))
+    .array(workItemRefSchema('Each ID in depends_on_ids_to_remove must be a UUID, outline ref or short ID.'))
     .min(1, 'At least one depends_on_work_item_id must be provided.')
     .max(50, 'Cannot remove more than 50 dependencies at once.')
     .describe("Required. An array of 'depends_on' work item IDs for the dependency links to remove."),
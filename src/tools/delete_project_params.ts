@@ -1,5 +1,6 @@
 // src/tools/delete_project_params.ts
 import { z } from 'zod';
+import { workItemRefSchema } from '../services/WorkItemServiceTypes.js';
 
 export const TOOL_NAME = 'delete_project';
 
@@ -7,14 +8,18 @@ export const TOOL_DESCRIPTION = `
 Soft-deletes a specified top-level project and all its descendant work items (tasks, sub-tasks).
 Requires the project_id (UUID) of the project to delete.
 This performs a recursive soft delete.
+If active items outside the project depend on anything in it, the call is rejected with the links it would break (see 'get_impact'); pass force: true to delete anyway.
 `;
 
 // Zod schema for the parameters
 export const DeleteProjectParamsSchema = z.object({
-  project_id: z
-    .string()
-    .uuid('The project_id must be a valid UUID.')
-    .describe('Required. The unique identifier (UUID) of the top-level project to delete.'),
+  project_id: workItemRefSchema('The project_id must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the top-level project to delete.'
+  ),
+  force: z
+    .boolean()
+    .optional()
+    .describe('Optional. Delete even if active items outside the project depend on items in it.'),
 });
 
 // Define the expected type for arguments based on the Zod schema
@@ -3,7 +3,7 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { TOOL_NAME, TOOL_DESCRIPTION, DeleteProjectParamsSchema, DeleteProjectArgs } from './delete_project_params.js';
 import { logger } from '../utils/logger.js';
-import { NotFoundError } from '../utils/errors.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
 import { DatabaseManager } from '../db/DatabaseManager.js';
 import { WorkItemRepository, ActionHistoryRepository } from '../repositories/index.js';
 import { WorkItemService } from '../services/WorkItemService.js';
@@ -21,11 +21,14 @@ export const deleteProjectTool = (server: McpServer): void => {
       const workItemService = new WorkItemService(workItemRepository, actionHistoryRepository); //); //, sseNotificationService);
 
       // --- Validation Step ---
-      const projectItem = await workItemRepository.findById(args.project_id, { isActive: true }); // Check active projects first
+      const projectId = await workItemService.resolveWorkItemRef(args.project_id, {
+        requireVerifiedOutlineRef: true,
+      });
+      const projectItem = await workItemRepository.findById(projectId, { isActive: true }); // Check active projects first
 
       if (!projectItem) {
         // Maybe it was already deleted? Check inactive.
-        const inactiveProjectItem = await workItemRepository.findById(args.project_id, { isActive: false });
+        const inactiveProjectItem = await workItemRepository.findById(projectId, { isActive: false });
         if (!inactiveProjectItem) {
           throw new NotFoundError(`Project with ID ${args.project_id} not found.`);
         }
@@ -48,7 +51,7 @@ export const deleteProjectTool = (server: McpServer): void => {
       // --- End Validation ---
 
       // Call the existing delete service, which handles the cascade
-      const deletedCount = await workItemService.deleteWorkItem([args.project_id]);
+      const deletedCount = await workItemService.deleteWorkItem([projectId], { force: args.force });
 
       logger.info(
         `[${TOOL_NAME}] Successfully soft-deleted project ${args.project_id} and its descendants (count: ${deletedCount}).`
@@ -63,7 +66,7 @@ export const deleteProjectTool = (server: McpServer): void => {
       };
     } catch (error: unknown) {
       logger.error(`[${TOOL_NAME}] Error processing request for project ${args.project_id}:`, error);
-      if (error instanceof NotFoundError || error instanceof McpError) {
+      if (error instanceof NotFoundError || error instanceof ValidationError || error instanceof McpError) {
         // Catch McpError from validation
         throw new McpError(ErrorCode.InvalidParams, error.message);
       } else {
@@ -1,5 +1,6 @@
 // src/tools/delete_task_params.ts
 import { z } from 'zod';
+import { workItemRefSchema } from '../services/WorkItemServiceTypes.js';
 
 export const TOOL_NAME = 'delete_task'; // Renamed
 
@@ -8,6 +9,7 @@ Marks one or more work items (projects, tasks, etc.) as 'deleted' (soft delete).
 Requires an array of work item IDs to delete. Does not physically remove data.
 Child items are NOT automatically deleted (unlike previous hard delete).
 Returns the count of items successfully marked as deleted.
+If other active items depend on an item being deleted, the call is rejected with the links it would break (see 'get_impact'); pass force: true to delete anyway.
 `;
 
 // Zod schema for the parameters, adapted for work items
@@ -15,14 +17,17 @@ export const TOOL_PARAMS = z.object({
   // project_id removed
   work_item_ids: z // Renamed from task_ids
     .array(
-      z
-        .string()
-        .uuid('Each work_item_id must be a valid UUID.')
-        .describe('A unique identifier (UUID) of a work item to delete.')
+      workItemRefSchema('Each work_item_id must be a UUID, outline ref or short ID.').describe(
+        'An ID or outline ref of a work item to delete.'
+      )
     )
     .min(1, 'At least one work_item_id must be provided.')
     .max(100, 'Cannot delete more than 100 work items per call.')
     .describe('Required. An array of work item IDs (UUIDs, 1-100) to be marked as deleted.'),
+  force: z
+    .boolean()
+    .optional()
+    .describe('Optional. Delete even if active items outside the deletion depend on the deleted items.'),
 });
 
 // Define the expected type for arguments based on the Zod schema
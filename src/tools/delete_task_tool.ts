@@ -4,7 +4,7 @@ import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 // Update import path and constant name
 import { TOOL_NAME, TOOL_DESCRIPTION, TOOL_PARAMS, DeleteTaskArgs } from './delete_task_params.js';
 import { logger } from '../utils/logger.js';
-import { NotFoundError } from '../utils/errors.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
 import { DatabaseManager } from '../db/DatabaseManager.js';
 import { WorkItemRepository, ActionHistoryRepository } from '../repositories/index.js';
 import { WorkItemService } from '../services/WorkItemService.js';
@@ -22,7 +22,7 @@ export const deleteTaskTool = (server: McpServer): void => {
       const actionHistoryRepository = new ActionHistoryRepository(pool);
       const workItemService = new WorkItemService(workItemRepository, actionHistoryRepository); //); //, sseNotificationService);
 
-      const deletedCount = await workItemService.deleteWorkItem(args.work_item_ids);
+      const deletedCount = await workItemService.deleteWorkItem(args.work_item_ids, { force: args.force });
 
       logger.info(`[${TOOL_NAME}] Successfully soft-deleted ${deletedCount} work items.`); // TOOL_NAME is updated
       return {
@@ -35,7 +35,7 @@ export const deleteTaskTool = (server: McpServer): void => {
       };
     } catch (error: unknown) {
       logger.error(`[${TOOL_NAME}] Error processing request:`, error); // TOOL_NAME is updated
-      if (error instanceof NotFoundError) {
+      if (error instanceof NotFoundError || error instanceof ValidationError) {
         throw new McpError(ErrorCode.InvalidParams, error.message);
       } else {
         const message = error instanceof Error ? error.message : 'An unknown error occurred';
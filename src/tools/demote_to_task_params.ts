@@ -0,0 +1,44 @@
+// src/tools/demote_to_task_params.ts
+import { z } from 'zod';
+import { PositionEnum, workItemRefSchema } from '../services/WorkItemServiceTypes.js';
+
+export const TOOL_NAME = 'demote_to_task';
+
+export const TOOL_DESCRIPTION = `
+Converts a top-level project, together with everything below it, into a task under another work item. This is the inverse of 'promote_to_project'.
+Optionally specify the position among the new siblings using ONE of: moveTo ('start' or 'end'), moveAfter_work_item_id, or moveBefore_work_item_id. If no position is specified, it defaults to the end.
+Removes the 'linked' dependencies other items have on the project, such as the one added when it was promoted; the project's own dependencies are kept.
+The project cannot be demoted under itself, under one of its own descendants or under a work item that is 'done'. One undo reverses the whole demotion.
+Returns the full details of the updated work item (now a task).
+`;
+
+export const DemoteToTaskBaseSchema = z.object({
+  work_item_id: workItemRefSchema('The work_item_id must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the project to be demoted to a task.'
+  ),
+  new_parent_work_item_id: workItemRefSchema(
+    'The new_parent_work_item_id must be a UUID, outline ref or short ID.'
+  ).describe('Required. The ID or outline ref of the work item to place the project under.'),
+  moveTo: PositionEnum.optional().describe("Optional. Place the task at the 'start' or 'end' of the new sibling list."),
+  moveAfter_work_item_id: workItemRefSchema('moveAfter_work_item_id must be a UUID, outline ref or short ID.')
+    .optional()
+    .describe('Optional. Place the task immediately after this child of the new parent.'),
+  moveBefore_work_item_id: workItemRefSchema('moveBefore_work_item_id must be a UUID, outline ref or short ID.')
+    .optional()
+    .describe('Optional. Place the task immediately before this child of the new parent.'),
+});
+
+export const DemoteToTaskParamsSchema = DemoteToTaskBaseSchema.superRefine((data, ctx) => {
+  const positioningParams = [data.moveTo, data.moveAfter_work_item_id, data.moveBefore_work_item_id].filter(
+    (p) => p !== undefined
+  );
+
+  if (positioningParams.length > 1) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Provide only one positioning parameter: moveTo, moveAfter_work_item_id, or moveBefore_work_item_id.',
+    });
+  }
+});
+
+export type DemoteToTaskArgs = z.infer<typeof DemoteToTaskParamsSchema>;
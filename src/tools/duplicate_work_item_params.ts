@@ -0,0 +1,50 @@
+// src/tools/duplicate_work_item_params.ts
+import { z } from 'zod';
+import { workItemRefSchema } from '../services/WorkItemServiceTypes.js';
+
+export const TOOL_NAME = 'duplicate_work_item';
+
+export const TOOL_DESCRIPTION = `
+Deep-copies a work item as a single action that one undo removes. By default the copy includes the item's active descendants, the dependencies between the copied items, and tags; each can be turned off.
+The copy is added at the end of the children of parent_work_item_id (null makes it a new project); without it, the copy goes under the original's parent.
+Optionally resets every copied status to 'todo' and shifts every due date by a number of days. Dependencies on items outside the copy are not carried over.
+Returns the full details of the top-level copy.
+`;
+
+export const DuplicateWorkItemParamsSchema = z.object({
+  work_item_id: workItemRefSchema('The work_item_id must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the work item to copy.'
+  ),
+  parent_work_item_id: workItemRefSchema('The parent_work_item_id must be a UUID, outline ref or short ID.')
+    .nullable()
+    .optional()
+    .describe("Optional. Where to put the copy; null for a new project. Defaults to the original's parent."),
+  name: z
+    .string()
+    .min(1, 'Work item name cannot be empty.')
+    .max(255, 'Work item name cannot exceed 255 characters.')
+    .optional()
+    .describe("Optional. A name for the top-level copy. Defaults to the original's name."),
+  include_descendants: z
+    .boolean()
+    .optional()
+    .describe('Optional. Copy the active descendants as well. Defaults to true.'),
+  include_dependencies: z
+    .boolean()
+    .optional()
+    .describe('Optional. Re-create the dependencies between copied items. Defaults to true.'),
+  include_tags: z.boolean().optional().describe('Optional. Copy the tags. Defaults to true.'),
+  reset_status: z
+    .boolean()
+    .optional()
+    .describe("Optional. Set every copy to 'todo' instead of keeping the original statuses. Defaults to false."),
+  due_date_offset_days: z
+    .number()
+    .int('The due date offset must be a whole number of days.')
+    .min(-3650, 'The due date offset cannot be less than -3650 days.')
+    .max(3650, 'The due date offset cannot exceed 3650 days.')
+    .optional()
+    .describe('Optional. Days to move every copied due date by; negative values move them earlier.'),
+});
+
+export type DuplicateWorkItemArgs = z.infer<typeof DuplicateWorkItemParamsSchema>;
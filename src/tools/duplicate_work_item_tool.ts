@@ -0,0 +1,47 @@
+// src/tools/duplicate_work_item_tool.ts
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import {
+  TOOL_NAME,
+  TOOL_DESCRIPTION,
+  DuplicateWorkItemParamsSchema,
+  DuplicateWorkItemArgs,
+} from './duplicate_work_item_params.js';
+import { logger } from '../utils/logger.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { DatabaseManager } from '../db/DatabaseManager.js';
+import { WorkItemRepository, ActionHistoryRepository } from '../repositories/index.js';
+import { WorkItemService } from '../services/WorkItemService.js';
+
+export const duplicateWorkItemTool = (server: McpServer): void => {
+  const processRequest = async (
+    args: DuplicateWorkItemArgs
+  ): Promise<{ content: { type: 'text'; text: string }[] }> => {
+    logger.info(`[${TOOL_NAME}] Received request to duplicate ${args.work_item_id}.`);
+
+    try {
+      const dbManager = await DatabaseManager.getInstance();
+      const pool = dbManager.getPool();
+      const workItemRepository = new WorkItemRepository(pool);
+      const actionHistoryRepository = new ActionHistoryRepository(pool);
+      const workItemService = new WorkItemService(workItemRepository, actionHistoryRepository);
+      const { work_item_id, ...options } = args;
+
+      const copy = await workItemService.duplicateWorkItem(work_item_id, options);
+
+      logger.info(`[${TOOL_NAME}] Successfully duplicated ${work_item_id} as ${copy.work_item_id}.`);
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify(copy) }],
+      };
+    } catch (error: unknown) {
+      logger.error(`[${TOOL_NAME}] Error duplicating ${args.work_item_id}:`, error);
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      } else {
+        const message = error instanceof Error ? error.message : 'An unknown error occurred';
+        throw new McpError(ErrorCode.InternalError, message);
+      }
+    }
+  };
+  server.tool(TOOL_NAME, TOOL_DESCRIPTION, DuplicateWorkItemParamsSchema.shape, processRequest);
+};
@@ -1,21 +1,46 @@
 // src/tools/export_project_params.ts
 import { z } from 'zod';
+import { workItemRefSchema } from '../services/WorkItemServiceTypes.js';
+import { ImportWorkItemNodeSchema } from './import_project_params.js';
 
 export const TOOL_NAME = 'export_project';
 export const TOOL_DESCRIPTION = `
-Exports a specified project and its entire descendant hierarchy as a JSON string.
-Includes tasks, sub-tasks, and their properties.
+Exports a specified project and its entire descendant hierarchy as a versioned JSON document that 'import_project' can re-import losslessly.
+Includes tasks, sub-tasks, their properties, order keys and tags, plus dependency edges with their types.
+Dependencies between exported items reference each item's 'local_id' (its original UUID); dependencies on items outside the project (such as promoted projects) keep the target UUID.
+Promoted projects are NOT inlined as children; they appear only as 'linked' dependencies.
 `;
 
+export const EXPORT_FORMAT_NAME = 'mcp-task-manager-project';
+export const CURRENT_EXPORT_FORMAT_VERSION = 2;
+
+/**
+ * Version 2 export document.
+ * Version 1 was a bare project node (the original import_project input) and version 0 was the
+ * placeholder { message, data } envelope around a get_full_tree result; both are upgraded on load.
+ */
+export const ProjectExportDocumentSchema = z.object({
+  format: z.literal(EXPORT_FORMAT_NAME),
+  format_version: z.literal(CURRENT_EXPORT_FORMAT_VERSION),
+  exported_at: z.string().datetime({ message: 'exported_at must be a valid ISO 8601 date-time string.' }),
+  include_inactive: z.boolean(),
+  project: ImportWorkItemNodeSchema,
+  linked_from_work_item_ids: z
+    .array(z.string().uuid('linked_from_work_item_ids must contain valid UUIDs.'))
+    .describe("Items outside the project holding a 'linked' dependency to its root (the parent it was promoted from)."),
+});
+
+export type ProjectExportDocument = z.infer<typeof ProjectExportDocumentSchema>;
+
 export const ExportProjectParamsSchema = z.object({
-  project_id: z
-    .string()
-    .uuid({ message: 'Project ID must be a valid UUID.' })
-    .describe('Required. The UUID of the project to export.'),
-  // format: z.enum(['json']) // Currently only JSON is planned
-  //   .optional()
-  //   .default('json')
-  //   .describe("Optional. The format for the export. Defaults to 'json'. Currently only 'json' is supported."),
+  project_id: workItemRefSchema('Project ID must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the project to export.'
+  ),
+  include_inactive: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Optional. If true, inactive (deleted) items and dependency links are included. Defaults to false.'),
 });
 
 export type ExportProjectArgs = z.infer<typeof ExportProjectParamsSchema>;
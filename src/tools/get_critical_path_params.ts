@@ -0,0 +1,26 @@
+// src/tools/get_critical_path_params.ts
+import { z } from 'zod';
+import { workItemRefSchema } from '../services/WorkItemServiceTypes.js';
+
+export const TOOL_NAME = 'get_critical_path';
+
+export const TOOL_DESCRIPTION = `
+Schedules a project (or any subtree) with the critical path method over its active dependencies, honouring each link's type and lag_days ('linked' links are ignored).
+Every leaf task below the given work item starts as early as its dependencies allow, using its estimated_duration_days (see 'set_estimated_duration').
+Done tasks take no time; tasks without an estimate count as zero days and are listed in unestimated_item_ids. A dependency on or of a parent item applies to every leaf task below it. Dependencies on items outside the subtree are ignored.
+Returns { start_date, projected_finish_date, duration_days, critical_path: [{ work_item_id, name }], items: [{ earliest_start, earliest_finish, latest_start, latest_finish, slack_days, is_critical, ... }], due_date_conflicts, unestimated_item_ids }.
+due_date_conflicts lists every item (including parents) whose earliest possible finish is after its due_date.
+`;
+
+export const GetCriticalPathParamsSchema = z.object({
+  work_item_id: workItemRefSchema('The work_item_id must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the project or task whose subtree is to be scheduled.'
+  ),
+  start_date: z
+    .string()
+    .datetime({ message: 'Start date must be a valid ISO 8601 timestamp string.' })
+    .optional()
+    .describe('Optional. When work starts (ISO 8601). Defaults to now.'),
+});
+
+export type GetCriticalPathArgs = z.infer<typeof GetCriticalPathParamsSchema>;
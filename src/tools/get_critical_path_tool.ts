@@ -0,0 +1,50 @@
+// src/tools/get_critical_path_tool.ts
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import {
+  TOOL_NAME,
+  TOOL_DESCRIPTION,
+  GetCriticalPathParamsSchema,
+  GetCriticalPathArgs,
+} from './get_critical_path_params.js';
+import { logger } from '../utils/logger.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { DatabaseManager } from '../db/DatabaseManager.js';
+import { WorkItemRepository, ActionHistoryRepository } from '../repositories/index.js';
+import { WorkItemService } from '../services/WorkItemService.js';
+import { CriticalPathResult } from '../services/WorkItemServiceTypes.js';
+
+export const getCriticalPathTool = (server: McpServer): void => {
+  const processRequest = async (args: GetCriticalPathArgs): Promise<{ content: { type: 'text'; text: string }[] }> => {
+    logger.info(`[${TOOL_NAME}] Received request with args:`, args);
+
+    try {
+      const dbManager = await DatabaseManager.getInstance();
+      const pool = dbManager.getPool();
+      const workItemRepository = new WorkItemRepository(pool);
+      const actionHistoryRepository = new ActionHistoryRepository(pool);
+      const workItemService = new WorkItemService(workItemRepository, actionHistoryRepository);
+
+      const schedule: CriticalPathResult = await workItemService.getCriticalPath(args.work_item_id, {
+        startDate: args.start_date,
+      });
+
+      logger.info(
+        `[${TOOL_NAME}] Scheduled ${schedule.items.length} items for ${args.work_item_id}; finish ${schedule.projected_finish_date}.`
+      );
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify(schedule) }],
+      };
+    } catch (error: unknown) {
+      logger.error(`[${TOOL_NAME}] Error processing request for work item ${args.work_item_id}:`, error);
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      } else {
+        const message =
+          error instanceof Error ? error.message : 'An unknown error occurred while computing the critical path.';
+        throw new McpError(ErrorCode.InternalError, message);
+      }
+    }
+  };
+  server.tool(TOOL_NAME, TOOL_DESCRIPTION, GetCriticalPathParamsSchema.shape, processRequest);
+};
@@ -1,5 +1,6 @@
 // src/tools/get_details_params.ts
 import { z } from 'zod';
+import { workItemRefSchema } from '../services/WorkItemServiceTypes.js';
 
 export const TOOL_NAME = 'get_details'; // Renamed from get_work_item_details
 export const TOOL_DESCRIPTION = `
@@ -9,10 +10,9 @@ This includes its direct properties, dependencies, dependents, and direct childr
 
 // Schema name updated for clarity, though not strictly necessary if type name is different
 export const GetDetailsParamsSchema = z.object({
-  work_item_id: z
-    .string()
-    .uuid({ message: 'Work item ID must be a valid UUID.' })
-    .describe('Required. The UUID of the work item to retrieve.'),
+  work_item_id: workItemRefSchema('Work item ID must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the work item to retrieve.'
+  ),
   // Optional: Add flags to control what details are returned, e.g., include_children, include_dependencies
   // For now, it will return FullWorkItemData by default.
 });
@@ -3,6 +3,7 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { TOOL_NAME, TOOL_DESCRIPTION, GetDetailsParamsSchema, GetDetailsArgs } from './get_details_params.js';
 import { logger } from '../utils/logger.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
 import { DatabaseManager } from '../db/DatabaseManager.js';
 import { WorkItemRepository, ActionHistoryRepository } from '../repositories/index.js';
 import { WorkItemService } from '../services/WorkItemService.js';
@@ -43,8 +44,8 @@ export const getDetailsTool = (server: McpServer): void => {
         error instanceof Error ? error.message : 'An unknown error occurred while retrieving work item details.';
       // Check for specific service errors if needed
       // MODIFIED: Changed to ErrorCode.InvalidParams when mapping service's NotFoundError
-      if (error && (error as any).name === 'NotFoundError') {
-        // Service layer NotFoundError
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        // Service layer errors, e.g. an unknown or ambiguous reference
         throw new McpError(ErrorCode.InvalidParams, message); // Map to McpError.InvalidParams
       }
       throw new McpError(ErrorCode.InternalError, message);
@@ -1,5 +1,6 @@
 // src/tools/get_full_tree_params.ts
 import { z } from 'zod';
+import { workItemRefSchema } from '../services/WorkItemServiceTypes.js';
 
 export const TOOL_NAME = 'get_full_tree';
 export const TOOL_DESCRIPTION = `
@@ -8,6 +9,7 @@ Returns a structured JSON object representing the tree.
 
 Key features of the output:
 - Each node in the tree includes the work item's details (ID, name, status, etc.), its direct dependencies, and its dependents.
+- Outline refs: Each node has an "outline_ref" such as "3.2.1", its position among its siblings at each level. Any tool accepts it in place of the work_item_id; it changes when items are added, moved or deleted.
 - Promoted Items (Linked Items): If a task was promoted to a project from under a parent, it will appear as a child of its original parent in this tree view, but its name will be suffixed with " (L)" to indicate it's a "linked" representation.
 - Children of Linked Items: Any children that the promoted (linked) item itself has will also be displayed under it in this tree view, and their names will also be suffixed with " (L)" because they are part of that "linked" branch representation.
 - Actual Project Status: A promoted item (e.g., "Task A (L)") is, in reality, a root-level project. To see its actual project details without the "(L)" suffix and its status as a root item, use the "get_details" tool with its ID, or "list_work_items" with "roots_only: true".
@@ -33,10 +35,9 @@ export const GetFullTreeOptionsSchema = z.object({
 });
 
 export const GetFullTreeParamsSchema = z.object({
-  work_item_id: z
-    .string()
-    .uuid({ message: 'Work item ID must be a valid UUID.' })
-    .describe('Required. The UUID of the root work item for the tree view.'),
+  work_item_id: workItemRefSchema('Work item ID must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the root work item for the tree view.'
+  ),
   options: GetFullTreeOptionsSchema.optional().describe('Optional. Parameters to control tree retrieval options.'),
 });
 
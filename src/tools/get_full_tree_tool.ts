@@ -3,7 +3,7 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js'; // Using the JSON-RPC ErrorCode enum
 import { TOOL_NAME, TOOL_DESCRIPTION, GetFullTreeParamsSchema, GetFullTreeArgs } from './get_full_tree_params.js';
 import { logger } from '../utils/logger.js';
-import { NotFoundError } from '../utils/errors.js'; // Our custom error
+import { NotFoundError, ValidationError } from '../utils/errors.js'; // Our custom error
 import { DatabaseManager } from '../db/DatabaseManager.js';
 import { WorkItemRepository, ActionHistoryRepository } from '../repositories/index.js';
 import { WorkItemService } from '../services/WorkItemService.js';
@@ -36,7 +36,7 @@ export const getFullTreeTool = (server: McpServer): void => {
       };
     } catch (error: unknown) {
       logger.error(`[${TOOL_NAME}] Error processing request for work item ${args.work_item_id}:`, error);
-      if (error instanceof NotFoundError) {
+      if (error instanceof NotFoundError || error instanceof ValidationError) {
         // Use ErrorCode.InvalidParams for "resource not found" scenarios with these error codes
         throw new McpError(ErrorCode.InvalidParams, error.message);
       } else {
@@ -0,0 +1,26 @@
+// src/tools/get_impact_params.ts
+import { z } from 'zod';
+import { workItemRefSchema } from '../services/WorkItemServiceTypes.js';
+
+export const TOOL_NAME = 'get_impact';
+
+export const TOOL_DESCRIPTION = `
+Shows what a work item holds up: every active, not-done item that depends on it or on anything below it, directly or through other items, across projects. 'linked' references are not followed.
+Use it before delaying or deleting an item.
+Returns { work_item_id, name, slip_days, affected_count, projects: [{ project_id, project_name, items: [{ work_item_id, name, status, due_date, depth, via_work_item_id, dependency_type, projected_finish, misses_due_date }] }], missed_due_dates: [{ work_item_id, name, due_date, projected_finish, days_late, already_late }] }.
+depth 1 means a direct dependent. Finishes are projected from now with the estimated durations (see 'set_estimated_duration'), the dependency types and their lags, with the item taking slip_days longer than estimated; missed_due_dates lists the item and affected items that would finish after their due date, and already_late marks those that would even without the slip.
+`;
+
+export const GetImpactParamsSchema = z.object({
+  work_item_id: workItemRefSchema('The work_item_id must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the work item that might slip or be deleted.'
+  ),
+  slip_days: z
+    .number()
+    .nonnegative('The slip cannot be negative.')
+    .max(3650, 'The slip cannot exceed 3650 days.')
+    .optional()
+    .describe('Optional. How many days later than estimated the item finishes. Defaults to 0.'),
+});
+
+export type GetImpactArgs = z.infer<typeof GetImpactParamsSchema>;
@@ -0,0 +1,43 @@
+// src/tools/get_impact_tool.ts
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { TOOL_NAME, TOOL_DESCRIPTION, GetImpactParamsSchema, GetImpactArgs } from './get_impact_params.js';
+import { logger } from '../utils/logger.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { DatabaseManager } from '../db/DatabaseManager.js';
+import { WorkItemRepository, ActionHistoryRepository } from '../repositories/index.js';
+import { WorkItemService } from '../services/WorkItemService.js';
+import { ImpactResult } from '../services/WorkItemServiceTypes.js';
+
+export const getImpactTool = (server: McpServer): void => {
+  const processRequest = async (args: GetImpactArgs): Promise<{ content: { type: 'text'; text: string }[] }> => {
+    logger.info(`[${TOOL_NAME}] Received request with args:`, args);
+
+    try {
+      const dbManager = await DatabaseManager.getInstance();
+      const pool = dbManager.getPool();
+      const workItemRepository = new WorkItemRepository(pool);
+      const actionHistoryRepository = new ActionHistoryRepository(pool);
+      const workItemService = new WorkItemService(workItemRepository, actionHistoryRepository);
+
+      const impact: ImpactResult = await workItemService.getImpact(args.work_item_id, { slipDays: args.slip_days });
+
+      logger.info(
+        `[${TOOL_NAME}] ${impact.affected_count} items wait on ${args.work_item_id}; ${impact.missed_due_dates.length} missed due dates.`
+      );
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify(impact) }],
+      };
+    } catch (error: unknown) {
+      logger.error(`[${TOOL_NAME}] Error processing request for work item ${args.work_item_id}:`, error);
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      } else {
+        const message =
+          error instanceof Error ? error.message : 'An unknown error occurred while computing the impact.';
+        throw new McpError(ErrorCode.InternalError, message);
+      }
+    }
+  };
+  server.tool(TOOL_NAME, TOOL_DESCRIPTION, GetImpactParamsSchema.shape, processRequest);
+};
@@ -1,15 +1,13 @@
 // src/tools/get_next_task_params.ts
 import { z } from 'zod';
-// No import from './common_params.js' needed
+import { workItemRefSchema } from '../services/WorkItemServiceTypes.js';
 
 /**
  * Parameters for the get_next_task tool.
  * All parameters are optional.
  */
 export const GetNextTaskParamsSchema = z.object({
-  scope_item_id: z // Defined inline
-    .string()
-    .uuid({ message: 'scope_item_id must be a valid UUID.' })
+  scope_item_id: workItemRefSchema('scope_item_id must be a UUID, outline ref or short ID.')
     .optional()
     .describe(
       'Optional. If provided, scope the task search to this specific work item and its descendants (its sub-tree). Otherwise, searches across all tasks.'
@@ -4,7 +4,7 @@ import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 // FIX: Removed TOOL_NAME, TOOL_DESCRIPTION from this import
 import { GetNextTaskParamsSchema, GetNextTaskParams } from './get_next_task_params.js';
 import { logger } from '../utils/logger.js';
-import { NotFoundError } from '../utils/errors.js'; // Import custom error
+import { NotFoundError, ValidationError } from '../utils/errors.js'; // Import custom error
 // Import necessary components for instantiation inside the handler
 import { DatabaseManager } from '../db/DatabaseManager.js';
 import { WorkItemRepository, ActionHistoryRepository } from '../repositories/index.js';
@@ -49,7 +49,7 @@ export const getNextTaskTool = (server: McpServer): void => {
       };
     } catch (error: unknown) {
       logger.error(`[${TOOL_NAME}] Error processing request:`, error);
-      if (error instanceof NotFoundError) {
+      if (error instanceof NotFoundError || error instanceof ValidationError) {
         // If scope_item_id was provided but not found, treat as invalid params
         throw new McpError(ErrorCode.InvalidParams, error.message);
       } else {
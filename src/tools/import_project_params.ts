@@ -1,30 +1,86 @@
 // src/tools/import_project_params.ts
 import { z } from 'zod';
+import {
+  WorkItemStatusEnum,
+  WorkItemPriorityEnum,
+  DependencyTypeEnum,
+  DependencyLagDaysSchema,
+  EstimatedDurationDaysSchema,
+} from '../services/WorkItemServiceTypes.js';
 
 export const TOOL_NAME = 'import_project';
 export const TOOL_DESCRIPTION = `
 Imports a project from a JSON string.
-The JSON string should represent the project hierarchy, including its name, description, and any nested tasks with their details.
-Returns the details of the newly created root project upon successful import.
+The JSON string should represent the project hierarchy: the root project (name, description, status, priority, due_date, estimated_duration_days, tags) and any nested tasks in a 'children' array.
+Items may carry 'started_at' and 'completed_at', so lagged dependencies keep counting from when their targets really started or finished.
+Any item may declare a 'local_id'. Dependencies reference other items in the same file by their 'local_id' and are remapped to the newly created UUIDs.
+Documents produced by 'export_project' (any format_version) are accepted and upgraded to the current format before import.
+The whole hierarchy is created in a single transaction and recorded as one undoable action.
+Returns the full details of the newly created root project upon successful import.
 `;
 
-// Define a recursive schema for tasks within the project data for validation
-// Making this any for now to simplify, full schema would be complex
-// In a real scenario, this should be a well-defined Zod schema matching the expected import structure.
-const ImportTaskNodeSchema: z.ZodTypeAny = z.lazy(
-  () =>
-    z
-      .object({
-        name: z.string().min(1).max(255),
-        description: z.string().max(1024).optional(),
-        status: z.enum(['todo', 'inprogress', 'done', 'blocked', 'pending']).optional(),
-        priority: z.enum(['low', 'medium', 'high', 'critical']).optional(),
-        due_date: z.string().datetime({ message: 'Due date must be a valid ISO 8601 date-time string.' }).optional(),
-        children: z.array(ImportTaskNodeSchema).optional(),
-        // Note: Dependencies are complex for direct import, might be a separate step or simplified.
-      })
-      .passthrough() // Allow other fields that might exist in the import data
-);
+const ImportDependencySchema = z
+  .object({
+    depends_on_local_id: z
+      .string()
+      .min(1, 'depends_on_local_id cannot be empty.')
+      .optional()
+      .describe('The local_id of another item in the same import file that this item depends on.'),
+    depends_on_work_item_id: z
+      .string()
+      .uuid('depends_on_work_item_id must be a valid UUID.')
+      .optional()
+      .describe(
+        'The UUID of an existing item outside the import file (e.g. a promoted project). Skipped if it no longer exists.'
+      ),
+    dependency_type: DependencyTypeEnum.optional().describe("Optional. Defaults to 'finish-to-start'."),
+    lag_days: DependencyLagDaysSchema.optional().describe('Optional. Days to wait after the target. Defaults to 0.'),
+    is_active: z.boolean().optional().describe('Optional. Defaults to true.'),
+  })
+  .refine((dep) => (dep.depends_on_local_id === undefined) !== (dep.depends_on_work_item_id === undefined), {
+    message: 'Each dependency must specify exactly one of depends_on_local_id or depends_on_work_item_id.',
+  });
+
+const ImportWorkItemNodeBaseSchema = z.object({
+  local_id: z
+    .string()
+    .min(1, 'local_id cannot be empty.')
+    .optional()
+    .describe('Optional. An identifier unique within the import file, used to reference this item from dependencies.'),
+  name: z
+    .string()
+    .min(1, 'Imported item name cannot be empty.')
+    .max(255, 'Imported item name cannot exceed 255 characters.'),
+  description: z.string().max(1024, 'Imported item description cannot exceed 1024 characters.').nullish(),
+  status: WorkItemStatusEnum.nullish(),
+  priority: WorkItemPriorityEnum.nullish(),
+  due_date: z.string().datetime({ message: 'Due date must be a valid ISO 8601 date-time string.' }).nullish(),
+  estimated_duration_days: EstimatedDurationDaysSchema.nullish(),
+  tags: z.array(z.string().min(1, 'Tags cannot be empty strings.')).optional(),
+  order_key: z.string().nullish(),
+  is_active: z.boolean().optional(),
+  started_at: z
+    .string()
+    .datetime({ message: 'started_at must be a valid ISO 8601 date-time string.' })
+    .nullish()
+    .describe('Optional. When the item left todo; defaults to the import time for items that are not todo.'),
+  completed_at: z
+    .string()
+    .datetime({ message: 'completed_at must be a valid ISO 8601 date-time string.' })
+    .nullish()
+    .describe('Optional. When the item was finished; defaults to the import time for items that are done.'),
+  dependencies: z.array(ImportDependencySchema).optional(),
+});
+
+export type ImportDependencyInput = z.infer<typeof ImportDependencySchema>;
+
+export type ImportWorkItemNode = z.infer<typeof ImportWorkItemNodeBaseSchema> & {
+  children?: ImportWorkItemNode[];
+};
+
+export const ImportWorkItemNodeSchema: z.ZodType<ImportWorkItemNode> = ImportWorkItemNodeBaseSchema.extend({
+  children: z.lazy(() => z.array(ImportWorkItemNodeSchema)).optional(),
+});
 
 export const ImportProjectParamsSchema = z.object({
   project_data_json: z
@@ -32,13 +88,6 @@ export const ImportProjectParamsSchema = z.object({
     .describe(
       'Required. A JSON string representing the project structure to import. Must include at least a project name.'
     ),
-  // An alternative could be to directly expect the object:
-  // project_data: z.object({
-  //   name: z.string().min(1).max(255),
-  //   description: z.string().max(1024).optional(),
-  //   children: z.array(ImportTaskNodeSchema).optional(),
-  //   // ... other project-level fields
-  // }).describe('Required. The project data structure to import.'),
 });
 
 export type ImportProjectArgs = z.infer<typeof ImportProjectParamsSchema>;
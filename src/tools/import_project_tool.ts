@@ -2,11 +2,14 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { TOOL_NAME, TOOL_DESCRIPTION, ImportProjectParamsSchema, ImportProjectArgs } from './import_project_params.js';
+import { ProjectExportDocument } from './export_project_params.js';
 import { logger } from '../utils/logger.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
 import { DatabaseManager } from '../db/DatabaseManager.js';
-import { WorkItemRepository, ActionHistoryRepository, WorkItemData } from '../repositories/index.js';
+import { WorkItemRepository, ActionHistoryRepository } from '../repositories/index.js';
 import { WorkItemService } from '../services/WorkItemService.js';
-import { AddWorkItemInput } from '../services/WorkItemServiceTypes.js';
+import { WorkItemExportService } from '../services/WorkItemExportService.js';
+import { FullWorkItemData } from '../services/WorkItemServiceTypes.js';
 // import sseNotificationService from '../services/SseNotificationService.js';
 
 export const importProjectTool = (server: McpServer): void => {
@@ -14,24 +17,11 @@ export const importProjectTool = (server: McpServer): void => {
     logger.info(`[${TOOL_NAME}] Received request with project_data_json (length: ${args.project_data_json.length})`);
 
     try {
-      const dbManager = await DatabaseManager.getInstance();
-      const pool = dbManager.getPool();
-      const workItemRepository = new WorkItemRepository(pool);
-      const actionHistoryRepository = new ActionHistoryRepository(pool);
-      const workItemService = new WorkItemService(workItemRepository, actionHistoryRepository); //); //, sseNotificationService);
-
-      let parsedProjectData: any;
+      let exportDocument: ProjectExportDocument;
       try {
-        parsedProjectData = JSON.parse(args.project_data_json);
-        // Basic validation for the root project object
-        if (
-          !parsedProjectData ||
-          typeof parsedProjectData !== 'object' ||
-          !parsedProjectData.name ||
-          typeof parsedProjectData.name !== 'string'
-        ) {
-          throw new Error('Imported project data must be an object and contain a valid string "name" property.');
-        }
+        const parsedProjectData: unknown = JSON.parse(args.project_data_json);
+        // Accepts every export format version and upgrades it to the current one.
+        exportDocument = WorkItemExportService.parseProjectExport(parsedProjectData);
       } catch (e) {
         logger.error(`[${TOOL_NAME}] Invalid JSON format or structure for project_data_json.`, e);
         throw new McpError(
@@ -40,47 +30,28 @@ export const importProjectTool = (server: McpServer): void => {
         );
       }
 
-      // Placeholder: Simulate creating the root project item using the service
-      const rootProjectInput: AddWorkItemInput = {
-        name: parsedProjectData.name,
-        description: typeof parsedProjectData.description === 'string' ? parsedProjectData.description : undefined,
-        parent_work_item_id: null, // Root project
-        status: typeof parsedProjectData.status === 'string' ? (parsedProjectData.status as any) : 'todo', // Cast to any if enum doesn't match exactly
-        priority: typeof parsedProjectData.priority === 'string' ? (parsedProjectData.priority as any) : 'medium',
-        // any other fields from parsedProjectData...
-      };
+      const dbManager = await DatabaseManager.getInstance();
+      const pool = dbManager.getPool();
+      const workItemRepository = new WorkItemRepository(pool);
+      const actionHistoryRepository = new ActionHistoryRepository(pool);
+      const workItemService = new WorkItemService(workItemRepository, actionHistoryRepository); //); //, sseNotificationService);
+
+      const importedProject: FullWorkItemData = await workItemService.importProject(exportDocument.project, {
+        linkedFromWorkItemIds: exportDocument.linked_from_work_item_ids,
+      });
 
-      // *** This is the crucial part for the placeholder to "use" workItemService ***
-      // In a real implementation, this would be:
-      // const newRootProject = await workItemService.addWorkItem(rootProjectInput);
-      // For the placeholder, we simulate the call for logging and to satisfy lint.
       logger.info(
-        `[${TOOL_NAME}] Placeholder: Prepared to call workItemService.addWorkItem for root project:`,
-        rootProjectInput
+        `[${TOOL_NAME}] Successfully imported project "${importedProject.name}" (ID: ${importedProject.work_item_id}).`
       );
-      // To truly "use" it in a way the linter is happy with for a placeholder:
-      if (workItemService) {
-        // Check if workItemService is truthy (it will be)
-        logger.info(`[${TOOL_NAME}] workItemService instance is available. Full import logic would proceed here.`);
-      }
-      // Then, you would recursively parse parsedProjectData.children and call addWorkItem for each,
-      // passing newRootProject.work_item_id as parent. This part remains complex for a full implementation.
-
-      const mockCreatedProject: Partial<WorkItemData> = {
-        work_item_id: `imported-project-${Date.now()}`,
-        name: parsedProjectData.name,
-        description: parsedProjectData.description || null,
-        is_active: true,
-      };
-
-      const responseText = `Placeholder: Successfully initiated import for project "${parsedProjectData.name}". Full recursive import not yet implemented.`;
-      logger.info(`[${TOOL_NAME}] ${responseText}`);
       return {
-        content: [{ type: 'text' as const, text: JSON.stringify(mockCreatedProject) }],
+        content: [{ type: 'text' as const, text: JSON.stringify(importedProject) }],
       };
     } catch (error: unknown) {
       logger.error(`[${TOOL_NAME}] Error processing request:`, error);
       if (error instanceof McpError) throw error;
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
       const message = error instanceof Error ? error.message : 'An unknown error occurred during project import.';
       throw new McpError(ErrorCode.InternalError, message);
     }
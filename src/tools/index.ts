@@ -14,19 +14,34 @@ import { setNameTool } from './set_name_tool.js';
 import { setDescriptionTool } from './set_description_tool.js';
 import { setPriorityTool } from './set_priority_tool.js';
 import { setDueDateTool } from './set_due_date_tool.js';
+import { setEstimatedDurationTool } from './set_estimated_duration_tool.js';
 import { moveItemToStartTool } from './move_item_to_start_tool.js';
 import { moveItemToEndTool } from './move_item_to_end_tool.js';
 import { moveItemAfterTool } from './move_item_after_tool.js';
 import { moveItemBeforeTool } from './move_item_before_tool.js';
+import { swapItemsTool } from './swap_items_tool.js';
+import { moveItemToParentTool } from './move_item_to_parent_tool.js';
 import { getFullTreeTool } from './get_full_tree_tool.js';
 import { promoteToProjectTool } from './promote_to_project_tool.js';
+import { demoteToTaskTool } from './demote_to_task_tool.js';
 import { getNextTaskTool } from './get_next_task_tool.js';
 import { addChildTasksTool } from './add_child_tasks_tool.js';
 import { deleteChildTasksTool } from './delete_child_tasks_tool.js';
+import { duplicateWorkItemTool } from './duplicate_work_item_tool.js';
+import { createTemplateTool } from './create_template_tool.js';
+import { listTemplatesTool } from './list_templates_tool.js';
+import { instantiateTemplateTool } from './instantiate_template_tool.js';
 import { importProjectTool } from './import_project_tool.js';
 import { exportProjectTool } from './export_project_tool.js';
 import { getDetailsTool } from './get_details_tool.js';
 import { listWorkItemsTool } from './list_work_items_tool.js'; // ADDED: New list_work_items tool
+import { addTagsTool } from './add_tags_tool.js';
+import { removeTagsTool } from './remove_tags_tool.js';
+import { setTagsTool } from './set_tags_tool.js';
+import { listTagsTool } from './list_tags_tool.js';
+import { getCriticalPathTool } from './get_critical_path_tool.js';
+import { getImpactTool } from './get_impact_tool.js';
+import { renderDependencyGraphTool } from './render_dependency_graph_tool.js';
 
 export const registerTools = (server: McpServer): void => {
   createProjectTool(server);
@@ -43,17 +58,32 @@ export const registerTools = (server: McpServer): void => {
   setDescriptionTool(server);
   setPriorityTool(server);
   setDueDateTool(server);
+  setEstimatedDurationTool(server);
   moveItemToStartTool(server);
   moveItemToEndTool(server);
   moveItemAfterTool(server);
   moveItemBeforeTool(server);
+  swapItemsTool(server);
+  moveItemToParentTool(server);
   getFullTreeTool(server);
   promoteToProjectTool(server);
+  demoteToTaskTool(server);
   getNextTaskTool(server);
   addChildTasksTool(server);
   deleteChildTasksTool(server);
+  duplicateWorkItemTool(server);
+  createTemplateTool(server);
+  listTemplatesTool(server);
+  instantiateTemplateTool(server);
   importProjectTool(server);
   exportProjectTool(server);
   getDetailsTool(server);
   listWorkItemsTool(server);
+  addTagsTool(server);
+  removeTagsTool(server);
+  setTagsTool(server);
+  listTagsTool(server);
+  getCriticalPathTool(server);
+  getImpactTool(server);
+  renderDependencyGraphTool(server);
 };
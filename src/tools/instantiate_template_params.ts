@@ -0,0 +1,39 @@
+// src/tools/instantiate_template_params.ts
+import { z } from 'zod';
+import { workItemRefSchema } from '../services/WorkItemServiceTypes.js';
+import { TemplateNameSchema, TemplateVariableNameSchema } from './create_template_params.js';
+
+export const TOOL_NAME = 'instantiate_template';
+
+export const TOOL_DESCRIPTION = `
+Builds new work items from a saved template, as a single action that one undo removes.
+Without parent_work_item_id the template becomes a new project; with it, the items are added at the end of that parent's children.
+Every {{variable}} placeholder is replaced with the value given in 'variables'; a value is required for each variable the version uses (see list_templates), and unknown variables are rejected.
+Every item starts as 'todo', and due dates are the template's offsets added to start_date (default: today).
+Uses the latest version unless 'version' picks an earlier one. Returns the full details of the top-level item.
+`;
+
+export const InstantiateTemplateParamsSchema = z.object({
+  template_name: TemplateNameSchema.describe('Required. The name of the template to use.'),
+  version: z
+    .number()
+    .int('The version must be a whole number.')
+    .positive('The version must be positive.')
+    .optional()
+    .describe('Optional. The template version to use. Defaults to the latest.'),
+  variables: z
+    .record(TemplateVariableNameSchema, z.string())
+    .optional()
+    .describe('Optional. A value for each of the template\'s variables, e.g. { "service": "Billing" }.'),
+  parent_work_item_id: workItemRefSchema('The parent_work_item_id must be a UUID, outline ref or short ID.')
+    .nullable()
+    .optional()
+    .describe('Optional. Where to add the items; omitted or null for a new project.'),
+  start_date: z
+    .string()
+    .datetime({ message: 'The start date must be a valid ISO 8601 date-time string.' })
+    .optional()
+    .describe('Optional. The date due-date offsets are added to. Defaults to today.'),
+});
+
+export type InstantiateTemplateArgs = z.infer<typeof InstantiateTemplateParamsSchema>;
@@ -0,0 +1,47 @@
+// src/tools/instantiate_template_tool.ts
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import {
+  TOOL_NAME,
+  TOOL_DESCRIPTION,
+  InstantiateTemplateParamsSchema,
+  InstantiateTemplateArgs,
+} from './instantiate_template_params.js';
+import { logger } from '../utils/logger.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { DatabaseManager } from '../db/DatabaseManager.js';
+import { WorkItemRepository, ActionHistoryRepository } from '../repositories/index.js';
+import { WorkItemService } from '../services/WorkItemService.js';
+
+export const instantiateTemplateTool = (server: McpServer): void => {
+  const processRequest = async (
+    args: InstantiateTemplateArgs
+  ): Promise<{ content: { type: 'text'; text: string }[] }> => {
+    logger.info(`[${TOOL_NAME}] Received request to instantiate template "${args.template_name}".`);
+
+    try {
+      const dbManager = await DatabaseManager.getInstance();
+      const pool = dbManager.getPool();
+      const workItemRepository = new WorkItemRepository(pool);
+      const actionHistoryRepository = new ActionHistoryRepository(pool);
+      const workItemService = new WorkItemService(workItemRepository, actionHistoryRepository);
+      const { template_name, ...options } = args;
+
+      const root = await workItemService.instantiateTemplate(template_name, options);
+
+      logger.info(`[${TOOL_NAME}] Created ${root.work_item_id} from template "${template_name}".`);
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify(root) }],
+      };
+    } catch (error: unknown) {
+      logger.error(`[${TOOL_NAME}] Error instantiating template "${args.template_name}":`, error);
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      } else {
+        const message = error instanceof Error ? error.message : 'An unknown error occurred';
+        throw new McpError(ErrorCode.InternalError, message);
+      }
+    }
+  };
+  server.tool(TOOL_NAME, TOOL_DESCRIPTION, InstantiateTemplateParamsSchema.shape, processRequest);
+};
@@ -0,0 +1,21 @@
+// src/tools/list_tags_params.ts
+import { z } from 'zod';
+import { workItemRefSchema } from '../services/WorkItemServiceTypes.js';
+
+export const TOOL_NAME = 'list_tags';
+
+export const TOOL_DESCRIPTION = `
+Lists the tags in use on active work items, with a usage count per tag, grouped by project.
+Optionally restricted to a single project (the project itself and all of its descendants).
+Returns a JSON array of { project_id, project_name, tags: [{ tag, count }] }, most used tags first.
+`;
+
+export const ListTagsParamsSchema = z.object({
+  project_id: workItemRefSchema('Project ID must be a UUID, outline ref or short ID.')
+    .optional()
+    .describe(
+      'Optional. The ID or outline ref of a top-level project to restrict the listing to. Defaults to all projects.'
+    ),
+});
+
+export type ListTagsArgs = z.infer<typeof ListTagsParamsSchema>;
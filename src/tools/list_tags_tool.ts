@@ -0,0 +1,40 @@
+// src/tools/list_tags_tool.ts
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { TOOL_NAME, TOOL_DESCRIPTION, ListTagsParamsSchema, ListTagsArgs } from './list_tags_params.js';
+import { logger } from '../utils/logger.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { DatabaseManager } from '../db/DatabaseManager.js';
+import { WorkItemRepository, ActionHistoryRepository } from '../repositories/index.js';
+import { WorkItemService } from '../services/WorkItemService.js';
+import { ProjectTagUsage } from '../services/WorkItemServiceTypes.js';
+
+export const listTagsTool = (server: McpServer): void => {
+  const processRequest = async (args: ListTagsArgs): Promise<{ content: { type: 'text'; text: string }[] }> => {
+    logger.info(`[${TOOL_NAME}] Received request with args:`, args);
+
+    try {
+      const dbManager = await DatabaseManager.getInstance();
+      const pool = dbManager.getPool();
+      const workItemRepository = new WorkItemRepository(pool);
+      const actionHistoryRepository = new ActionHistoryRepository(pool);
+      const workItemService = new WorkItemService(workItemRepository, actionHistoryRepository);
+
+      const tagUsage: ProjectTagUsage[] = await workItemService.listTags(args.project_id);
+
+      logger.info(`[${TOOL_NAME}] Found tag usage for ${tagUsage.length} projects.`);
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify(tagUsage) }],
+      };
+    } catch (error: unknown) {
+      logger.error(`[${TOOL_NAME}] Error processing request:`, error);
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      } else {
+        const message = error instanceof Error ? error.message : 'An unknown error occurred while listing tags.';
+        throw new McpError(ErrorCode.InternalError, message);
+      }
+    }
+  };
+  server.tool(TOOL_NAME, TOOL_DESCRIPTION, ListTagsParamsSchema.shape, processRequest);
+};
@@ -0,0 +1,13 @@
+// src/tools/list_templates_params.ts
+import { z } from 'zod';
+
+export const TOOL_NAME = 'list_templates';
+
+export const TOOL_DESCRIPTION = `
+Lists the saved templates by name.
+Returns a JSON array of { template_id, name, description, created_at, updated_at, latest_version, versions: [{ version, created_at, variables, item_count }] }, where 'variables' are the placeholders instantiate_template needs values for.
+`;
+
+export const ListTemplatesParamsSchema = z.object({});
+
+export type ListTemplatesArgs = z.infer<typeof ListTemplatesParamsSchema>;
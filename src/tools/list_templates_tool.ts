@@ -0,0 +1,34 @@
+// src/tools/list_templates_tool.ts
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { TOOL_NAME, TOOL_DESCRIPTION, ListTemplatesParamsSchema } from './list_templates_params.js';
+import { logger } from '../utils/logger.js';
+import { DatabaseManager } from '../db/DatabaseManager.js';
+import { WorkItemRepository, ActionHistoryRepository } from '../repositories/index.js';
+import { WorkItemService } from '../services/WorkItemService.js';
+
+export const listTemplatesTool = (server: McpServer): void => {
+  const processRequest = async (): Promise<{ content: { type: 'text'; text: string }[] }> => {
+    logger.info(`[${TOOL_NAME}] Received request.`);
+
+    try {
+      const dbManager = await DatabaseManager.getInstance();
+      const pool = dbManager.getPool();
+      const workItemRepository = new WorkItemRepository(pool);
+      const actionHistoryRepository = new ActionHistoryRepository(pool);
+      const workItemService = new WorkItemService(workItemRepository, actionHistoryRepository);
+
+      const templates = await workItemService.listTemplates();
+
+      logger.info(`[${TOOL_NAME}] Found ${templates.length} templates.`);
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify(templates) }],
+      };
+    } catch (error: unknown) {
+      logger.error(`[${TOOL_NAME}] Error processing request:`, error);
+      const message = error instanceof Error ? error.message : 'An unknown error occurred while listing templates.';
+      throw new McpError(ErrorCode.InternalError, message);
+    }
+  };
+  server.tool(TOOL_NAME, TOOL_DESCRIPTION, ListTemplatesParamsSchema.shape, processRequest);
+};
@@ -1,6 +1,6 @@
 // upload/src/tools/list_work_items_params.ts
 import { z } from 'zod';
-import { WorkItemStatusEnum } from '../services/WorkItemServiceTypes.js';
+import { WorkItemStatusEnum, workItemRefSchema } from '../services/WorkItemServiceTypes.js';
 
 export const TOOL_NAME = 'list_work_items';
 
@@ -16,22 +16,20 @@ N. [S] Project Name (Due:YYYY-MM-DD)
         Description text.
 
 **Format Details:**
-- N: Sequential number (1, 2,...).
+- N: The item's \`outline_ref\` (1, 2,... for projects).
 - [S]: Status Icon: '[ ]' todo, '[-]' in-progress, '[R]' review, '[x]' done.
 - Due Date: Show if present.
 - Description: Indent. If none, state "No description available."
 - Deleted: Hidden by default. If asked, show with "(Deleted)" appended to name.
 
 **Follow-up Actions:**
-Agent must internally map displayed numbers to project \`work_item_id\` (GUID) from the tool's raw JSON output for subsequent commands.
+Every item carries an \`outline_ref\` such as "3" or "3.2.1" (its position under each ancestor, from the top level down). Tools accept it, or the first 8 characters of the \`work_item_id\`, wherever a \`work_item_id\` is expected, so displayed numbers can be passed back as they are. Outline refs change when items are added, moved or deleted; list again after such changes.
 `;
 
 export const ListWorkItemsParamsSchema = z.object({
-  parent_work_item_id: z
-    .string()
-    .uuid({ message: 'Parent work item ID must be a valid UUID.' })
+  parent_work_item_id: workItemRefSchema('Parent work item ID must be a UUID, outline ref or short ID.')
     .optional()
-    .describe('Optional. Filter by parent UUID. To list root items (projects), use roots_only: true.'),
+    .describe('Optional. Filter by parent ID or outline ref. To list root items (projects), use roots_only: true.'),
   roots_only: z
     .boolean()
     .optional()
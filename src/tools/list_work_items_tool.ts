@@ -3,6 +3,7 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { McpError, ErrorCode, CallToolResult } from '@modelcontextprotocol/sdk/types.js'; // Corrected import
 import { TOOL_NAME, TOOL_DESCRIPTION, ListWorkItemsParamsSchema, ListWorkItemsArgs } from './list_work_items_params.js';
 import { logger } from '../utils/logger.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
 import { DatabaseManager } from '../db/DatabaseManager.js';
 import { WorkItemRepository, ActionHistoryRepository, WorkItemData } from '../repositories/index.js';
 import { WorkItemService } from '../services/WorkItemService.js';
@@ -56,6 +57,9 @@ export const listWorkItemsTool = (server: McpServer): void => {
       if (error instanceof McpError) {
         throw error;
       }
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
       const message = error instanceof Error ? error.message : 'An unknown error occurred while listing work items.';
       throw new McpError(ErrorCode.InternalError, message);
     }
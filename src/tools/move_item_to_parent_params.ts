@@ -0,0 +1,43 @@
+// src/tools/move_item_to_parent_params.ts
+import { z } from 'zod';
+import { PositionEnum, workItemRefSchema } from '../services/WorkItemServiceTypes.js';
+
+export const TOOL_NAME = 'move_item_to_parent';
+
+export const TOOL_DESCRIPTION = `
+Moves a task, together with everything below it, under a different parent as a single undoable action.
+Optionally specify the position among the new siblings using ONE of: moveTo ('start' or 'end'), moveAfter_work_item_id, or moveBefore_work_item_id. If no position is specified, it defaults to the end.
+The task cannot be moved under itself or under one of its own descendants. Use 'promote_to_project' to turn a task into a project, and 'demote_to_task' to move a project under another item.
+Returns the full details of the moved work item.
+`;
+
+export const MoveItemToParentBaseSchema = z.object({
+  work_item_id: workItemRefSchema('The work_item_id must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the task to move.'
+  ),
+  new_parent_work_item_id: workItemRefSchema(
+    'The new_parent_work_item_id must be a UUID, outline ref or short ID.'
+  ).describe('Required. The ID or outline ref of the work item to move the task under.'),
+  moveTo: PositionEnum.optional().describe("Optional. Place the task at the 'start' or 'end' of the new sibling list."),
+  moveAfter_work_item_id: workItemRefSchema('moveAfter_work_item_id must be a UUID, outline ref or short ID.')
+    .optional()
+    .describe('Optional. Place the task immediately after this child of the new parent.'),
+  moveBefore_work_item_id: workItemRefSchema('moveBefore_work_item_id must be a UUID, outline ref or short ID.')
+    .optional()
+    .describe('Optional. Place the task immediately before this child of the new parent.'),
+});
+
+export const MoveItemToParentParamsSchema = MoveItemToParentBaseSchema.superRefine((data, ctx) => {
+  const positioningParams = [data.moveTo, data.moveAfter_work_item_id, data.moveBefore_work_item_id].filter(
+    (p) => p !== undefined
+  );
+
+  if (positioningParams.length > 1) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Provide only one positioning parameter: moveTo, moveAfter_work_item_id, or moveBefore_work_item_id.',
+    });
+  }
+});
+
+export type MoveItemToParentArgs = z.infer<typeof MoveItemToParentParamsSchema>;
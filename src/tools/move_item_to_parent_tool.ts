@@ -0,0 +1,49 @@
+// src/tools/move_item_to_parent_tool.ts
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import {
+  TOOL_NAME,
+  TOOL_DESCRIPTION,
+  MoveItemToParentBaseSchema,
+  MoveItemToParentArgs,
+} from './move_item_to_parent_params.js';
+import { logger } from '../utils/logger.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { DatabaseManager } from '../db/DatabaseManager.js';
+import { WorkItemRepository, ActionHistoryRepository } from '../repositories/index.js';
+import { WorkItemService } from '../services/WorkItemService.js';
+
+export const moveItemToParentTool = (server: McpServer): void => {
+  const processRequest = async (args: MoveItemToParentArgs): Promise<{ content: { type: 'text'; text: string }[] }> => {
+    logger.info(`[${TOOL_NAME}] Received request to move ${args.work_item_id} under ${args.new_parent_work_item_id}.`);
+
+    try {
+      const dbManager = await DatabaseManager.getInstance();
+      const pool = dbManager.getPool();
+      const workItemRepository = new WorkItemRepository(pool);
+      const actionHistoryRepository = new ActionHistoryRepository(pool);
+      const workItemService = new WorkItemService(workItemRepository, actionHistoryRepository);
+      const { work_item_id, new_parent_work_item_id, moveTo, moveAfter_work_item_id, moveBefore_work_item_id } = args;
+
+      const movedItem = await workItemService.moveItemToParent(work_item_id, new_parent_work_item_id, {
+        moveTo,
+        moveAfter_work_item_id,
+        moveBefore_work_item_id,
+      });
+
+      logger.info(`[${TOOL_NAME}] Successfully moved ${work_item_id} under ${new_parent_work_item_id}.`);
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify(movedItem) }],
+      };
+    } catch (error: unknown) {
+      logger.error(`[${TOOL_NAME}] Error moving ${args.work_item_id} under ${args.new_parent_work_item_id}:`, error);
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      } else {
+        const message = error instanceof Error ? error.message : 'An unknown error occurred';
+        throw new McpError(ErrorCode.InternalError, message);
+      }
+    }
+  };
+  server.tool(TOOL_NAME, TOOL_DESCRIPTION, MoveItemToParentBaseSchema.shape, processRequest);
+};
@@ -1,5 +1,6 @@
 // src/tools/promote_to_project_params.ts
 import { z } from 'zod';
+import { workItemRefSchema } from '../services/WorkItemServiceTypes.js';
 
 export const TOOL_NAME = 'promote_to_project';
 
@@ -12,10 +13,9 @@ Returns the full details of the updated work item (now a project).
 
 // Zod schema for the parameters
 export const PromoteToProjectParamsSchema = z.object({
-  work_item_id: z
-    .string()
-    .uuid('The work_item_id must be a valid UUID.')
-    .describe('Required. The UUID of the task to be promoted to a project.'),
+  work_item_id: workItemRefSchema('The work_item_id must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the task to be promoted to a project.'
+  ),
 });
 
 // Define the expected type for arguments based on the Zod schema
@@ -0,0 +1,21 @@
+// src/tools/remove_tags_params.ts
+import { z } from 'zod';
+import { TagSchema, MAX_TAGS_PER_ITEM, workItemRefSchema } from '../services/WorkItemServiceTypes.js';
+
+export const TOOL_NAME = 'remove_tags';
+
+export const TOOL_DESCRIPTION = `Removes one or more tags from a specific work item. Tags that are not present are ignored. Tags are case-sensitive.`;
+
+export const RemoveTagsParamsSchema = z.object({
+  work_item_id: workItemRefSchema('The work_item_id must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the work item whose tags are to be changed.'
+  ),
+  tags: z
+    .array(TagSchema)
+    .min(1, 'At least one tag must be provided.')
+    .max(MAX_TAGS_PER_ITEM, `A work item cannot have more than ${MAX_TAGS_PER_ITEM} tags.`)
+    .describe('Required. The tags to remove (e.g. ["frontend", "bug"]).'),
+});
+
+// Define the expected type for arguments based on the Zod schema
+export type RemoveTagsArgs = z.infer<typeof RemoveTagsParamsSchema>;
@@ -0,0 +1,33 @@
+// src/tools/render_dependency_graph_params.ts
+import { z } from 'zod';
+import { DependencyGraphFormatEnum, workItemRefSchema } from '../services/WorkItemServiceTypes.js';
+
+export const TOOL_NAME = 'render_dependency_graph';
+
+export const TOOL_DESCRIPTION = `
+Draws the dependencies in a project or subtree as a diagram: a Mermaid 'flowchart' (the default, renders in Markdown viewers) or a Graphviz DOT document.
+Every active item below work_item_id (the item included) is a node coloured by status; each dependency is an arrow from the prerequisite to the item that depends on it, styled by dependency_type and labelled with its type (finish-to-start has no label) and lag, e.g. 'SS +2d'. 'linked' references are drawn as plain dotted lines.
+Items outside the subtree that are linked to it are drawn with a dashed border unless include_external is false. Set include_done to false to leave out done items and their links.
+Returns { root_work_item_id, format, node_count, edge_count, diagram }, where diagram is the document source.
+`;
+
+export const RenderDependencyGraphParamsSchema = z.object({
+  work_item_id: workItemRefSchema('The work_item_id must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the project or work item whose subtree to draw.'
+  ),
+  format: DependencyGraphFormatEnum.optional()
+    .default('mermaid')
+    .describe("Optional. 'mermaid' for a Mermaid flowchart or 'dot' for Graphviz. Defaults to 'mermaid'."),
+  include_done: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Optional. Whether to draw done items and their links. Defaults to true.'),
+  include_external: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe('Optional. Whether to draw items outside the subtree that are linked to it. Defaults to true.'),
+});
+
+export type RenderDependencyGraphArgs = z.infer<typeof RenderDependencyGraphParamsSchema>;
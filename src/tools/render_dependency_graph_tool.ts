@@ -0,0 +1,54 @@
+// src/tools/render_dependency_graph_tool.ts
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import {
+  TOOL_NAME,
+  TOOL_DESCRIPTION,
+  RenderDependencyGraphParamsSchema,
+  RenderDependencyGraphArgs,
+} from './render_dependency_graph_params.js';
+import { logger } from '../utils/logger.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { DatabaseManager } from '../db/DatabaseManager.js';
+import { WorkItemRepository, ActionHistoryRepository } from '../repositories/index.js';
+import { WorkItemService } from '../services/WorkItemService.js';
+import { DependencyGraphResult } from '../services/WorkItemServiceTypes.js';
+
+export const renderDependencyGraphTool = (server: McpServer): void => {
+  const processRequest = async (
+    args: RenderDependencyGraphArgs
+  ): Promise<{ content: { type: 'text'; text: string }[] }> => {
+    logger.info(`[${TOOL_NAME}] Received request with args:`, args);
+
+    try {
+      const dbManager = await DatabaseManager.getInstance();
+      const pool = dbManager.getPool();
+      const workItemRepository = new WorkItemRepository(pool);
+      const actionHistoryRepository = new ActionHistoryRepository(pool);
+      const workItemService = new WorkItemService(workItemRepository, actionHistoryRepository);
+
+      const graph: DependencyGraphResult = await workItemService.renderDependencyGraph(args.work_item_id, {
+        format: args.format,
+        includeDone: args.include_done,
+        includeExternal: args.include_external,
+      });
+
+      logger.info(
+        `[${TOOL_NAME}] Rendered ${graph.node_count} nodes and ${graph.edge_count} edges for ${args.work_item_id}.`
+      );
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify(graph) }],
+      };
+    } catch (error: unknown) {
+      logger.error(`[${TOOL_NAME}] Error processing request for work item ${args.work_item_id}:`, error);
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      } else {
+        const message =
+          error instanceof Error ? error.message : 'An unknown error occurred while rendering the dependency graph.';
+        throw new McpError(ErrorCode.InternalError, message);
+      }
+    }
+  };
+  server.tool(TOOL_NAME, TOOL_DESCRIPTION, RenderDependencyGraphParamsSchema.shape, processRequest);
+};
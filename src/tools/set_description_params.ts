@@ -1,15 +1,15 @@
 // src/tools/set_description_params.ts
 import { z } from 'zod';
+import { workItemRefSchema } from '../services/WorkItemServiceTypes.js';
 
 export const TOOL_NAME = 'set_description';
 
 export const TOOL_DESCRIPTION = `Sets or clears the description of a specific work item.`;
 
 export const SetDescriptionParamsSchema = z.object({
-  work_item_id: z
-    .string()
-    .uuid('The work_item_id must be a valid UUID.')
-    .describe('Required. The UUID of the work item whose description is to be set.'),
+  work_item_id: workItemRefSchema('The work_item_id must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the work item whose description is to be set.'
+  ),
   description: z
     .string()
     .max(1024, 'Description cannot exceed 1024 characters.')
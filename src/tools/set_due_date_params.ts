@@ -1,15 +1,15 @@
 // src/tools/set_due_date_params.ts
 import { z } from 'zod';
+import { workItemRefSchema } from '../services/WorkItemServiceTypes.js';
 
 export const TOOL_NAME = 'set_due_date';
 
 export const TOOL_DESCRIPTION = `Sets or clears the due date of a specific work item.`;
 
 export const SetDueDateParamsSchema = z.object({
-  work_item_id: z
-    .string()
-    .uuid('The work_item_id must be a valid UUID.')
-    .describe('Required. The UUID of the work item whose due date is to be set.'),
+  work_item_id: workItemRefSchema('The work_item_id must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the work item whose due date is to be set.'
+  ),
   due_date: z
     .string()
     .datetime({ message: 'Due date must be a valid ISO 8601 timestamp string if provided.' })
@@ -0,0 +1,18 @@
+// src/tools/set_estimated_duration_params.ts
+import { z } from 'zod';
+import { EstimatedDurationDaysSchema, workItemRefSchema } from '../services/WorkItemServiceTypes.js';
+
+export const TOOL_NAME = 'set_estimated_duration';
+
+export const TOOL_DESCRIPTION = `Sets or clears the estimated duration, in days, of a specific work item. The estimate is used by 'get_critical_path' to schedule the item.`;
+
+export const SetEstimatedDurationParamsSchema = z.object({
+  work_item_id: workItemRefSchema('The work_item_id must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the work item whose duration estimate is to be set.'
+  ),
+  estimated_duration_days: EstimatedDurationDaysSchema.nullable().describe(
+    'Required. The estimated duration in days (may be fractional, e.g. 0.5), or null to clear it.'
+  ),
+});
+
+export type SetEstimatedDurationArgs = z.infer<typeof SetEstimatedDurationParamsSchema>;
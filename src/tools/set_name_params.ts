@@ -1,15 +1,15 @@
 // src/tools/set_name_params.ts
 import { z } from 'zod';
+import { workItemRefSchema } from '../services/WorkItemServiceTypes.js';
 
 export const TOOL_NAME = 'set_name';
 
 export const TOOL_DESCRIPTION = `Sets the name of a specific work item. This will also regenerate the item's shortname.`;
 
 export const SetNameParamsSchema = z.object({
-  work_item_id: z
-    .string()
-    .uuid('The work_item_id must be a valid UUID.')
-    .describe('Required. The UUID of the work item whose name is to be set.'),
+  work_item_id: workItemRefSchema('The work_item_id must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the work item whose name is to be set.'
+  ),
   name: z
     .string()
     .min(1, 'Name cannot be empty.')
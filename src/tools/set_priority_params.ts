@@ -1,5 +1,6 @@
 // src/tools/set_priority_params.ts
 import { z } from 'zod';
+import { workItemRefSchema } from '../services/WorkItemServiceTypes.js';
 import { WorkItemPriorityEnum } from './add_task_params.js'; // Import the enum
 
 export const TOOL_NAME = 'set_priority';
@@ -7,10 +8,9 @@ export const TOOL_NAME = 'set_priority';
 export const TOOL_DESCRIPTION = `Sets the priority of a specific work item.`;
 
 export const SetPriorityParamsSchema = z.object({
-  work_item_id: z
-    .string()
-    .uuid('The work_item_id must be a valid UUID.')
-    .describe('Required. The UUID of the work item whose priority is to be set.'),
+  work_item_id: workItemRefSchema('The work_item_id must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the work item whose priority is to be set.'
+  ),
   priority: WorkItemPriorityEnum.describe("Required. The new priority ('high', 'medium', 'low')."),
 });
 
@@ -1,5 +1,6 @@
 // src/tools/set_status_params.ts
 import { z } from 'zod';
+import { workItemRefSchema } from '../services/WorkItemServiceTypes.js';
 
 export const TOOL_NAME = 'set_status';
 
@@ -8,10 +9,9 @@ export const TOOL_DESCRIPTION = `Sets the status of a specific work item.`;
 const WorkItemStatusEnum = z.enum(['todo', 'in-progress', 'review', 'done']);
 
 export const SetStatusParamsSchema = z.object({
-  work_item_id: z
-    .string()
-    .uuid('The work_item_id must be a valid UUID.')
-    .describe('Required. The UUID of the work item whose status is to be set.'),
+  work_item_id: workItemRefSchema('The work_item_id must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the work item whose status is to be set.'
+  ),
   status: WorkItemStatusEnum.describe("Required. The new status ('todo', 'in-progress', 'review', 'done')."),
 });
 
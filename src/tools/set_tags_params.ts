@@ -0,0 +1,20 @@
+// src/tools/set_tags_params.ts
+import { z } from 'zod';
+import { TagSchema, MAX_TAGS_PER_ITEM, workItemRefSchema } from '../services/WorkItemServiceTypes.js';
+
+export const TOOL_NAME = 'set_tags';
+
+export const TOOL_DESCRIPTION = `Replaces all tags of a specific work item with the given list. Pass an empty list to clear all tags. Tags are case-sensitive.`;
+
+export const SetTagsParamsSchema = z.object({
+  work_item_id: workItemRefSchema('The work_item_id must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the work item whose tags are to be changed.'
+  ),
+  tags: z
+    .array(TagSchema)
+    .max(MAX_TAGS_PER_ITEM, `A work item cannot have more than ${MAX_TAGS_PER_ITEM} tags.`)
+    .describe('Required. The complete new list of tags (e.g. ["frontend", "bug"]).'),
+});
+
+// Define the expected type for arguments based on the Zod schema
+export type SetTagsArgs = z.infer<typeof SetTagsParamsSchema>;
@@ -0,0 +1,22 @@
+// src/tools/swap_items_params.ts
+import { z } from 'zod';
+import { workItemRefSchema } from '../services/WorkItemServiceTypes.js';
+
+export const TOOL_NAME = 'swap_items';
+
+export const TOOL_DESCRIPTION = `
+Exchanges the positions of two work items as a single action that one undo reverses.
+Siblings trade places in the sibling order. Items under different parents also trade parents, so each ends up under the other's parent in the other's slot; neither parent may be 'done'. A project cannot be swapped with a task (use 'promote_to_project' and 'demote_to_task'), and an item cannot be swapped with one of its own descendants.
+Returns both items after the swap, in the order given.
+`;
+
+export const SwapItemsParamsSchema = z.object({
+  first_work_item_id: workItemRefSchema('The first_work_item_id must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the first work item.'
+  ),
+  second_work_item_id: workItemRefSchema('The second_work_item_id must be a UUID, outline ref or short ID.').describe(
+    'Required. The ID or outline ref of the work item to trade places with.'
+  ),
+});
+
+export type SwapItemsArgs = z.infer<typeof SwapItemsParamsSchema>;
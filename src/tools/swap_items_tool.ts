@@ -0,0 +1,39 @@
+// src/tools/swap_items_tool.ts
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { TOOL_NAME, TOOL_DESCRIPTION, SwapItemsParamsSchema, SwapItemsArgs } from './swap_items_params.js';
+import { logger } from '../utils/logger.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { DatabaseManager } from '../db/DatabaseManager.js';
+import { WorkItemRepository, ActionHistoryRepository } from '../repositories/index.js';
+import { WorkItemService } from '../services/WorkItemService.js';
+
+export const swapItemsTool = (server: McpServer): void => {
+  const processRequest = async (args: SwapItemsArgs): Promise<{ content: { type: 'text'; text: string }[] }> => {
+    logger.info(`[${TOOL_NAME}] Received request to swap ${args.first_work_item_id} and ${args.second_work_item_id}.`);
+
+    try {
+      const dbManager = await DatabaseManager.getInstance();
+      const pool = dbManager.getPool();
+      const workItemRepository = new WorkItemRepository(pool);
+      const actionHistoryRepository = new ActionHistoryRepository(pool);
+      const workItemService = new WorkItemService(workItemRepository, actionHistoryRepository);
+
+      const swappedItems = await workItemService.swapItems(args.first_work_item_id, args.second_work_item_id);
+
+      logger.info(`[${TOOL_NAME}] Successfully swapped ${args.first_work_item_id} and ${args.second_work_item_id}.`);
+      return {
+        content: [{ type: 'text' as const, text: JSON.stringify(swappedItems) }],
+      };
+    } catch (error: unknown) {
+      logger.error(`[${TOOL_NAME}] Error swapping ${args.first_work_item_id} and ${args.second_work_item_id}:`, error);
+      if (error instanceof ValidationError || error instanceof NotFoundError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      } else {
+        const message = error instanceof Error ? error.message : 'An unknown error occurred';
+        throw new McpError(ErrorCode.InternalError, message);
+      }
+    }
+  };
+  server.tool(TOOL_NAME, TOOL_DESCRIPTION, SwapItemsParamsSchema.shape, processRequest);
+};
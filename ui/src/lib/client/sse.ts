@@ -8,6 +8,19 @@ const SSE_URL = '/api/events';
 function createSseStore() {
   const { subscribe, set } = writable<SseEventMessage | null>(null);
   let eventSource: EventSource | null = null;
+  // Last event id seen, so a new EventSource (after disconnect) can ask the server for missed events.
+  // Automatic reconnects of the same EventSource send it as the Last-Event-ID header by themselves.
+  let lastEventId: string | null = null;
+  // Project whose tree events we receive; null subscribes to all projects. Project list events always arrive.
+  let projectFilter: string | null = null;
+
+  function buildUrl(): string {
+    const params = new URLSearchParams();
+    if (projectFilter) params.set('projectId', projectFilter);
+    if (lastEventId) params.set('lastEventId', lastEventId);
+    const query = params.toString();
+    return query ? `${SSE_URL}?${query}` : SSE_URL;
+  }
 
   function connect() {
     if (typeof window === 'undefined') return; // Don't run on server
@@ -21,8 +34,9 @@ function createSseStore() {
       return;
     }
 
-    console.info('SSE: Connecting to', SSE_URL);
-    eventSource = new EventSource(SSE_URL);
+    const url = buildUrl();
+    console.info('SSE: Connecting to', url);
+    eventSource = new EventSource(url);
 
     eventSource.onopen = () => {
       console.info('SSE: Connection opened.');
@@ -40,6 +54,7 @@ function createSseStore() {
     // Specific event handlers based on `event: <type>` in SSE message
     const eventTypes: SseEventMessage['type'][] = [
       'connected',
+      'resync',
       'projectListUpdated',
       'projectTreeUpdated',
       'workItemCreated', // Add if backend sends these granularly
@@ -51,6 +66,9 @@ function createSseStore() {
       if (eventSource) {
         // Ensure eventSource is not null
         eventSource.addEventListener(eventType, (event: MessageEvent) => {
+          if (event.lastEventId) {
+            lastEventId = event.lastEventId;
+          }
           try {
             const payload = JSON.parse(event.data);
             console.log(`SSE: Event "${eventType}" received:`, payload);
@@ -71,10 +89,24 @@ function createSseStore() {
     }
   }
 
+  /**
+   * Limits tree events to the given project (null for all). The subscription is part of the URL,
+   * so an open connection is replaced; lastEventId ensures nothing is missed in between.
+   */
+  function setProjectFilter(projectId: string | null) {
+    if (projectId === projectFilter) return;
+    projectFilter = projectId;
+    if (eventSource) {
+      disconnect();
+      connect();
+    }
+  }
+
   return {
     subscribe,
     connect,
     disconnect,
+    setProjectFilter,
   };
 }
 
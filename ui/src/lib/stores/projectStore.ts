@@ -24,13 +24,13 @@ function createProjectStore() {
     error: null,
   });
 
-  async function loadProjects(selectIdAfterLoad?: string | null) {
+  async function loadProjects(selectIdAfterLoad?: string | null, forceTreeReload = false) {
     update((state) => ({ ...state, isLoadingProjects: true, error: null }));
     try {
       const projectsData = await fetchProjects();
       update((state) => ({ ...state, projects: projectsData, isLoadingProjects: false }));
       if (selectIdAfterLoad && projectsData.some((p) => p.work_item_id === selectIdAfterLoad)) {
-        await selectProject(selectIdAfterLoad);
+        await selectProject(selectIdAfterLoad, forceTreeReload);
       } else if (selectIdAfterLoad) {
         update((s) => ({ ...s, selectedProjectId: null, currentProjectTree: null }));
       }
@@ -40,8 +40,10 @@ function createProjectStore() {
     }
   }
 
-  async function selectProject(projectId: string | null) {
+  async function selectProject(projectId: string | null, forceReload = false) {
     const currentSelectedId = get(subscribe).selectedProjectId;
+    // Only receive tree events for the project on screen; project list events arrive regardless.
+    sseStore.setProjectFilter(projectId);
     if (!projectId) {
       update((state) => ({
         ...state,
@@ -53,6 +55,7 @@ function createProjectStore() {
     }
 
     if (
+      !forceReload &&
       currentSelectedId === projectId &&
       get(subscribe).currentProjectTree &&
       !get(subscribe).isLoadingTree
@@ -65,7 +68,8 @@ function createProjectStore() {
       selectedProjectId: projectId,
       isLoadingTree: true,
       error: null,
-      currentProjectTree: null,
+      // Keep showing the current tree while a live update reloads it
+      currentProjectTree: forceReload ? state.currentProjectTree : null,
     }));
     try {
       const tree = await fetchProjectTree(projectId);
@@ -90,6 +94,12 @@ function createProjectStore() {
 
     const currentState = get(subscribe);
 
+    if (event.type === 'resync') {
+      console.log('SSE: resync requested, reloading projects and the current tree...', event.payload);
+      loadProjects(currentState.selectedProjectId, true);
+      return;
+    }
+
     if (event.type === 'projectListUpdated') {
       console.log('SSE: projectListUpdated, reloading projects...', event.payload);
       loadProjects(currentState.selectedProjectId);
@@ -102,7 +112,7 @@ function createProjectStore() {
           `SSE: projectTreeUpdated for current project ${projectId}, reason: ${reason}. Reloading tree...`,
           event.payload
         );
-        selectProject(currentState.selectedProjectId);
+        selectProject(currentState.selectedProjectId, true);
       } else if (
         reason === 'project_deleted_itself' &&
         event.payload.deletedItemId === currentState.selectedProjectId
@@ -49,6 +49,7 @@ export interface SseEventMessage {
     | 'projectListUpdated'
     | 'projectTreeUpdated'
     | 'connected'
+    | 'resync'
     | 'error';
   payload: SseEventPayload;
 }